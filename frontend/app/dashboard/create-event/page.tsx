@@ -14,6 +14,8 @@ export default function CreateEventPage() {
     const [time, setTime] = useState('');
     const [location, setLocation] = useState('');
     const [imageUrl, setImageUrl] = useState('');
+    const [capacity, setCapacity] = useState('');
+    const [repeats, setRepeats] = useState('');
     const [error, setError] = useState('');
     const router = useRouter();
 
@@ -43,8 +45,12 @@ export default function CreateEventPage() {
                         description,
                         date,
                         time,
+                        // Events happen at the entered time where the organizer is
+                        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
                         location,
-                        imageUrl,
+                        imageUrl: imageUrl || null,
+                        capacity: capacity ? parseInt(capacity, 10) : null,
+                        recurrence: repeats ? { rule: `FREQ=${repeats}` } : null,
                     },
                 },
             });
@@ -140,13 +146,44 @@ export default function CreateEventPage() {
                             />
                         </div>
 
+                        <div className="mb-4">
+                            <label htmlFor="capacity" className="block text-sm font-medium text-gray-700 mb-1">
+                                Capacity (Optional)
+                            </label>
+                            <input
+                                id="capacity"
+                                type="number"
+                                min={1}
+                                value={capacity}
+                                onChange={(e) => setCapacity(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+
+                        <div className="mb-4">
+                            <label htmlFor="repeats" className="block text-sm font-medium text-gray-700 mb-1">
+                                Repeats
+                            </label>
+                            <select
+                                id="repeats"
+                                value={repeats}
+                                onChange={(e) => setRepeats(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">Does not repeat</option>
+                                <option value="DAILY">Daily</option>
+                                <option value="WEEKLY">Weekly</option>
+                                <option value="MONTHLY">Monthly</option>
+                            </select>
+                        </div>
+
                         <div className="mb-6">
                             <label htmlFor="imageUrl" className="block text-sm font-medium text-gray-700 mb-1">
                                 Image URL (Optional)
                             </label>
                             <input
                                 id="imageUrl"
-                                type="text"
+                                type="url"
                                 value={imageUrl}
                                 onChange={(e) => setImageUrl(e.target.value)}
                                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
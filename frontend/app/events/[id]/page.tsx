@@ -1,7 +1,7 @@
 'use client';
 
 import {useQuery, useMutation} from '@apollo/client/react';
-import {format} from 'date-fns';
+import {format, parseISO} from 'date-fns';
 import {useParams, useRouter} from 'next/navigation';
 
 import {GET_EVENT, ATTEND_EVENT, CANCEL_ATTENDANCE} from '../../../graphql/events';
@@ -64,7 +64,10 @@ export default function EventDetailPage() {
     };
 
     // Check if user is attending this event
-    const isAttending = data?.event?.attendees.some((attendee: any) => attendee.id === userId);
+    const isAttending = data?.event?.attendees.nodes.some((attendee: any) => attendee.id === userId);
+
+    // Check if user is waiting for a seat
+    const isWaitlisted = data?.event?.waitlist?.some((waiting: any) => waiting.id === userId);
 
     // Check if user is the creator of this event
     const isCreator = data?.event?.creator.id === userId;
@@ -99,7 +102,7 @@ export default function EventDetailPage() {
     }
 
     // Format date
-    const formattedDate = format(new Date(parseInt(event.date, 10)), 'MMMM d, yyyy');
+    const formattedDate = format(parseISO(event.date), 'MMMM d, yyyy');
 
     return (
         <div className="min-h-screen bg-gray-50">
@@ -140,6 +143,17 @@ export default function EventDetailPage() {
                     )}
 
                     <div className="p-6">
+                        {event.status === 'CANCELLED' && (
+                            <div className="mb-6 rounded-md bg-red-50 p-4 text-red-700">
+                                This event has been cancelled
+                                {event.cancellationReason && `: ${event.cancellationReason}`}
+                            </div>
+                        )}
+                        {event.status === 'POSTPONED' && (
+                            <div className="mb-6 rounded-md bg-yellow-50 p-4 text-yellow-700">
+                                This event has been postponed
+                            </div>
+                        )}
                         <div className="flex flex-col md:flex-row md:justify-between md:items-start mb-6">
                             <div>
                                 <h2 className="text-2xl font-bold text-gray-900 mb-2">{event.title}</h2>
@@ -150,7 +164,7 @@ export default function EventDetailPage() {
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
                                               d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"/>
                                     </svg>
-                                    <span>{formattedDate} at {event.time}</span>
+                                    <span>{formattedDate} at {event.time} ({event.timeZone})</span>
                                 </div>
 
                                 <div className="flex items-center text-gray-500 mb-2">
@@ -174,13 +188,15 @@ export default function EventDetailPage() {
 
                             <div className="mt-4 md:mt-0">
                                 {isLoggedIn && !isCreator ? (
-                                    isAttending ? (
+                                    isAttending || isWaitlisted ? (
                                         <button
                                             onClick={handleCancelAttendance}
                                             disabled={cancelLoading}
                                             className="px-6 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
                                         >
-                                            {cancelLoading ? 'Canceling...' : 'Cancel Attendance'}
+                                            {cancelLoading
+                                                ? 'Canceling...'
+                                                : isWaitlisted ? 'Leave Waitlist' : 'Cancel Attendance'}
                                         </button>
                                     ) : (
                                         <button
@@ -188,7 +204,9 @@ export default function EventDetailPage() {
                                             disabled={attendLoading}
                                             className="px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50"
                                         >
-                                            {attendLoading ? 'Joining...' : 'Attend Event'}
+                                            {attendLoading
+                                                ? 'Joining...'
+                                                : event.availableSeats === 0 ? 'Join Waitlist' : 'Attend Event'}
                                         </button>
                                     )
                                 ) : isCreator ? (
@@ -210,10 +228,18 @@ export default function EventDetailPage() {
                         </div>
 
                         <div className="border-t border-gray-200 pt-6">
-                            <h3 className="text-lg font-semibold mb-4">Attendees ({event.attendees.length})</h3>
-                            {event.attendees.length > 0 ? (
+                            <h3 className="text-lg font-semibold mb-4">
+                                Attendees ({event.attendeeCount}
+                                {event.capacity != null && ` of ${event.capacity}`})
+                                {event.waitlist?.length > 0 && (
+                                    <span className="ml-2 text-sm font-normal text-gray-500">
+                                        {event.waitlist.length} on the waitlist
+                                    </span>
+                                )}
+                            </h3>
+                            {event.attendees.nodes.length > 0 ? (
                                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                                    {event.attendees.map((attendee: any) => (
+                                    {event.attendees.nodes.map((attendee: any) => (
                                         <div key={attendee.id} className="flex items-center">
                                             <div
                                                 className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-800 font-semibold mr-2">
@@ -4,22 +4,42 @@ import {useMutation} from '@apollo/client/react';
 import {useRouter} from 'next/navigation';
 import {useState} from 'react';
 
-import {LOGIN_USER} from '../../graphql/auth';
+import {COMPLETE_TWO_FACTOR_LOGIN, LOGIN_USER} from '../../graphql/auth';
 import {setAuth} from '../../utils/auth';
 
 
 export default function LoginForm() {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [challengeId, setChallengeId] = useState<string | null>(null);
     const [error, setError] = useState('');
     const router = useRouter();
 
+    const completeLogin = (token: string, userId: string) => {
+        // Store the token and user ID
+        setAuth(token, userId);
+        // Redirect to the dashboard
+        router.push('/dashboard');
+    };
+
     const [loginUser, {loading}] = useMutation(LOGIN_USER, {
         onCompleted: (data) => {
-            // Store the token and user ID
-            setAuth(data.login.token, data.login.userId);
-            // Redirect to the dashboard
-            router.push('/dashboard');
+            // Accounts with two-factor authentication need a code before we get a token
+            if (data.login.__typename === 'TwoFactorChallenge') {
+                setChallengeId(data.login.challengeId);
+                return;
+            }
+            completeLogin(data.login.token, data.login.userId);
+        },
+        onError: (error) => {
+            setError(error.message);
+        },
+    });
+
+    const [completeTwoFactorLogin, {loading: verifying}] = useMutation(COMPLETE_TWO_FACTOR_LOGIN, {
+        onCompleted: (data) => {
+            completeLogin(data.completeTwoFactorLogin.token, data.completeTwoFactorLogin.userId);
         },
         onError: (error) => {
             setError(error.message);
@@ -30,6 +50,25 @@ export default function LoginForm() {
         e.preventDefault();
         setError('');
 
+        if (challengeId) {
+            if (!code) {
+                setError('Please enter your authentication code');
+                return;
+            }
+
+            try {
+                await completeTwoFactorLogin({
+                    variables: {
+                        challengeId,
+                        code,
+                    },
+                });
+            } catch (err) {
+                // Error is handled in onError callback
+            }
+            return;
+        }
+
         if (!email || !password) {
             setError('Please fill in all fields');
             return;
@@ -58,40 +97,63 @@ export default function LoginForm() {
             )}
 
             <form onSubmit={handleSubmit}>
-                <div className="mb-4">
-                    <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-                        Email
-                    </label>
-                    <input
-                        id="email"
-                        type="email"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        required
-                    />
-                </div>
+                {challengeId ? (
+                    <div className="mb-6">
+                        <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                            Authentication code
+                        </label>
+                        <input
+                            id="code"
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            required
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                            Enter the code from your authenticator app or one of your recovery codes.
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="mb-4">
+                            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                                Email
+                            </label>
+                            <input
+                                id="email"
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                            />
+                        </div>
 
-                <div className="mb-6">
-                    <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-                        Password
-                    </label>
-                    <input
-                        id="password"
-                        type="password"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        required
-                    />
-                </div>
+                        <div className="mb-6">
+                            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                                Password
+                            </label>
+                            <input
+                                id="password"
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                            />
+                        </div>
+                    </>
+                )}
 
                 <button
                     type="submit"
-                    disabled={loading}
+                    disabled={loading || verifying}
                     className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
                 >
-                    {loading ? 'Logging in...' : 'Login'}
+                    {loading || verifying ? 'Logging in...' : challengeId ? 'Verify' : 'Login'}
                 </button>
             </form>
 
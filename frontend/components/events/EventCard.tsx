@@ -1,6 +1,6 @@
 'use client';
 
-import {format} from 'date-fns';
+import {format, parseISO} from 'date-fns';
 import Link from 'next/link';
 
 interface EventCardProps {
@@ -16,16 +16,13 @@ interface EventCardProps {
             id: string;
             name: string;
         };
-        attendees: {
-            id: string;
-            name: string;
-        }[];
+        attendeeCount: number;
     };
 }
 
 export default function EventCard({event}: EventCardProps) {
     // Format the date to be more readable
-    const formattedDate = format(new Date(parseInt(event.date, 10)), 'MMMM d, yyyy');
+    const formattedDate = format(parseISO(event.date), 'MMMM d, yyyy');
 
     // Truncate description if it's too long
     const truncatedDescription =
@@ -76,7 +73,7 @@ export default function EventCard({event}: EventCardProps) {
 
                 <div className="flex justify-between items-center">
                     <div className="text-sm text-gray-500">
-                        {event.attendees.length} {event.attendees.length === 1 ? 'attendee' : 'attendees'}
+                        {event.attendeeCount} {event.attendeeCount === 1 ? 'attendee' : 'attendees'}
                     </div>
                     <Link href={`/events/${event.id}`}
                           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
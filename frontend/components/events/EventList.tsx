@@ -87,7 +87,7 @@ export default function EventList({
     }
 
     // Empty state
-    if (!eventsData || eventsData.edges.length === 0) {
+    if (!eventsData || eventsData.nodes.length === 0) {
         return (
             <div className="bg-gray-50 p-8 rounded-md text-center">
                 <h3 className="text-lg font-medium text-gray-700 mb-2">No events found</h3>
@@ -105,7 +105,7 @@ export default function EventList({
     return (
         <div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {eventsData.edges.map((event: any) => (
+                {eventsData.nodes.map((event: any) => (
                     <EventCard key={event.id} event={event}/>
                 ))}
             </div>
@@ -11,8 +11,24 @@ export const REGISTER_USER = gql`
 `;
 
 export const LOGIN_USER = gql`
-    mutation LoginUser($email: String!, $password: String!) {
+    mutation LoginUser($email: EmailAddress!, $password: String!) {
         login(email: $email, password: $password) {
+            __typename
+            ... on AuthData {
+                userId
+                token
+                tokenExpiration
+            }
+            ... on TwoFactorChallenge {
+                challengeId
+            }
+        }
+    }
+`;
+
+export const COMPLETE_TWO_FACTOR_LOGIN = gql`
+    mutation CompleteTwoFactorLogin($challengeId: String!, $code: String!) {
+        completeTwoFactorLogin(challengeId: $challengeId, code: $code) {
             userId
             token
             tokenExpiration
@@ -8,6 +8,9 @@ export const EVENT_FIELDS = gql`
         description
         date
         time
+        timeZone
+        startsAt
+        endsAt
         location
         imageUrl
         createdAt
@@ -16,10 +19,24 @@ export const EVENT_FIELDS = gql`
             id
             name
         }
-        attendees {
+        attendeeCount
+        attendees(first: 100) {
+            nodes {
+                id
+                name
+            }
+        }
+        capacity
+        availableSeats
+        waitlist {
             id
-            name
         }
+        recurrence {
+            rule
+        }
+        occurrenceDate
+        status
+        cancellationReason
     }
 `;
 
@@ -27,7 +44,7 @@ export const EVENT_FIELDS = gql`
 export const GET_EVENTS = gql`
   query GetEvents($pagination: PaginationInput) {
     events(pagination: $pagination) {
-      edges {
+      nodes {
         ...EventFields
       }
       pageInfo {
@@ -54,7 +71,7 @@ export const GET_EVENT = gql`
 export const GET_MY_EVENTS = gql`
   query GetMyEvents($pagination: PaginationInput) {
     myEvents(pagination: $pagination) {
-      edges {
+      nodes {
         ...EventFields
       }
       pageInfo {
@@ -72,7 +89,7 @@ export const GET_MY_EVENTS = gql`
 export const GET_MY_ATTENDING_EVENTS = gql`
   query GetMyAttendingEvents($pagination: PaginationInput) {
     myAttendingEvents(pagination: $pagination) {
-      edges {
+      nodes {
         ...EventFields
       }
       pageInfo {
@@ -115,7 +132,11 @@ export const DELETE_EVENT = gql`
 export const ATTEND_EVENT = gql`
   mutation AttendEvent($eventId: ID!) {
     attendEvent(eventId: $eventId) {
-      ...EventFields
+      status
+      waitlistPosition
+      event {
+        ...EventFields
+      }
     }
   }
   ${EVENT_FIELDS}
@@ -0,0 +1,158 @@
+import { ApolloServer } from '@apollo/server';
+
+import { toGlobalId } from '../../utils/globalId.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  createTestUser,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('API Key Integration Tests', () => {
+  let server: ApolloServer;
+
+  const eventInput = {
+    title: 'Automated Event',
+    description: 'Created by an integration',
+    date: '2030-01-01',
+    time: '14:00',
+    location: 'Online',
+  };
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const createKey = async (token: string, scopes: string[]) => {
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.createApiKey, variables: { apiKeyInput: { name: 'CI', scopes } } },
+      token,
+    );
+    return response.data.createApiKey;
+  };
+
+  it('should return the key once and list it without the secret', async () => {
+    // Arrange
+    const { token } = await createTestUser();
+
+    // Act
+    const created = await createKey(token, ['EVENTS_WRITE']);
+    const listResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.myApiKeys },
+      token,
+    );
+
+    // Assert
+    expect(created.key).toMatch(/^efk_/);
+    expect(created.key.startsWith(created.apiKey.prefix)).toBe(true);
+    expect(created.apiKey.scopes).toEqual(['READ', 'EVENTS_WRITE']);
+    expect(listResponse.data.myApiKeys).toEqual([
+      expect.objectContaining({ id: created.apiKey.id, name: 'CI' }),
+    ]);
+    expect(listResponse.data.myApiKeys[0]).not.toHaveProperty('key');
+  });
+
+  it('should authenticate as the owner of the key', async () => {
+    // Arrange
+    const { user, token } = await createTestUser();
+    const { key } = await createKey(token, []);
+
+    // Act
+    const response = await executeOperation(server, { query: operations.getMe }, `ApiKey ${key}`);
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data.me.id).toBe(toGlobalId('User', user.id));
+  });
+
+  it('should only allow mutations covered by the scopes of the key', async () => {
+    // Arrange
+    const { token } = await createTestUser();
+    const readOnly = await createKey(token, []);
+    const writer = await createKey(token, ['EVENTS_WRITE']);
+
+    // Act
+    const readOnlyResponse = await executeOperation(
+      server,
+      { query: operations.createEvent, variables: { eventInput } },
+      `ApiKey ${readOnly.key}`,
+    );
+    const writerResponse = await executeOperation(
+      server,
+      { query: operations.createEvent, variables: { eventInput } },
+      `ApiKey ${writer.key}`,
+    );
+    const accountResponse = await executeOperation(
+      server,
+      { query: operations.createApiKey, variables: { apiKeyInput: { name: 'Escalated' } } },
+      `ApiKey ${writer.key}`,
+    );
+
+    // Assert
+    expect(readOnlyResponse.errors[0].extensions.code).toBe('FORBIDDEN');
+    expect(writerResponse.errors).toBeUndefined();
+    expect(writerResponse.data.createEvent.title).toBe(eventInput.title);
+    expect(accountResponse.errors[0].extensions.code).toBe('FORBIDDEN');
+  });
+
+  it('should stop accepting a key once it is revoked', async () => {
+    // Arrange
+    const { token } = await createTestUser();
+    const { apiKey, key } = await createKey(token, []);
+
+    // Act
+    const revokeResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.revokeApiKey, variables: { id: apiKey.id } },
+      token,
+    );
+    const response = await executeOperation(server, { query: operations.getMe }, `ApiKey ${key}`);
+
+    // Assert
+    expect(revokeResponse.data.revokeApiKey).toBe(true);
+    expect(response.errors[0].extensions.code).toBe('UNAUTHENTICATED');
+  });
+
+  it("should not let users manage other users' keys", async () => {
+    // Arrange
+    const { token: ownerToken } = await createTestUser();
+    const { token: otherToken } = await createTestUser({
+      name: 'Other User',
+      email: 'other@example.com',
+      password: 'password123',
+    });
+    const { apiKey } = await createKey(ownerToken, []);
+
+    // Act
+    const response = await executeAuthenticatedOperation(
+      server,
+      {
+        query: operations.updateApiKey,
+        variables: { id: apiKey.id, apiKeyInput: { name: 'Mine' } },
+      },
+      otherToken,
+    );
+
+    // Assert
+    expect(response.errors[0].extensions.code).toBe('NOT_FOUND');
+  });
+});
@@ -2,11 +2,13 @@ import { ApolloServer } from '@apollo/server';
 
 import { User } from '../../models/User.js';
 import { hashPassword } from '../../utils/auth.js';
+import { toGlobalId } from '../../utils/globalId.js';
 import {
   initializeDatabase,
   closeDatabase,
   clearDatabase,
   createTestServer,
+  createTestUser,
   executeOperation,
   executeAuthenticatedOperation,
   operations,
@@ -52,7 +54,8 @@ describe('Authentication Integration Tests', () => {
       expect(response.data?.createUser).toBeDefined();
       expect(response.data?.createUser.token).toBeDefined();
       expect(response.data?.createUser.userId).toBeDefined();
-      expect(response.data?.createUser.tokenExpiration).toBe(1);
+      expect(response.data?.createUser.tokenExpiration).toBe(86400);
+      expect(response.data?.createUser.refreshToken).toBeDefined();
 
       // Verify user was created in the database
       const user = await User.findOne({ email: userInput.email });
@@ -135,8 +138,9 @@ describe('Authentication Integration Tests', () => {
       expect(response.errors).toBeUndefined();
       expect(response.data?.login).toBeDefined();
       expect(response.data?.login.token).toBeDefined();
-      expect(response.data?.login.userId).toBe(user._id.toString());
-      expect(response.data?.login.tokenExpiration).toBe(1);
+      expect(response.data?.login.userId).toBe(toGlobalId('User', user._id));
+      expect(response.data?.login.tokenExpiration).toBe(86400);
+      expect(response.data?.login.refreshTokenExpiration).toBeGreaterThan(0);
     });
 
     it('should not login with invalid credentials', async () => {
@@ -224,7 +228,7 @@ describe('Authentication Integration Tests', () => {
       // Assert
       expect(response.errors).toBeUndefined();
       expect(response.data?.me).toBeDefined();
-      expect(response.data?.me.id).toBe(savedUser._id.toString());
+      expect(response.data?.me.id).toBe(toGlobalId('User', savedUser._id));
       expect(response.data?.me.name).toBe(userData.name);
       expect(response.data?.me.email).toBe(userData.email);
     });
@@ -256,6 +260,148 @@ describe('Authentication Integration Tests', () => {
     });
   });
 
+  describe('Sessions', () => {
+    const loginAs = async (email: string) => {
+      await new User({
+        name: 'Session User',
+        email,
+        password: await hashPassword('password123'),
+      }).save();
+
+      const response = await executeOperation(server, {
+        query: operations.login,
+        variables: { email, password: 'password123' },
+      });
+      return response.data?.login;
+    };
+
+    it('should rotate the refresh token and issue a new access token', async () => {
+      // Arrange
+      const auth = await loginAs('refresh@example.com');
+
+      // Act
+      const response = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: auth.refreshToken },
+      });
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.refreshToken.userId).toBe(auth.userId);
+      expect(response.data?.refreshToken.refreshToken).not.toBe(auth.refreshToken);
+
+      const meResponse = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getMe },
+        response.data?.refreshToken.token,
+      );
+      expect(meResponse.errors).toBeUndefined();
+      expect(meResponse.data?.me.id).toBe(auth.userId);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      // Arrange
+      const auth = await loginAs('reuse@example.com');
+      const rotated = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: auth.refreshToken },
+      });
+
+      // Act
+      const reuse = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: auth.refreshToken },
+      });
+
+      // Assert
+      expect(reuse.errors![0].message).toContain('Invalid or expired refresh token');
+
+      const afterReuse = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: rotated.data?.refreshToken.refreshToken },
+      });
+      expect(afterReuse.errors![0].message).toContain('Invalid or expired refresh token');
+    });
+
+    it('should keep the session when a refresh token with a wrong secret is sent', async () => {
+      // Arrange
+      const auth = await loginAs('guess@example.com');
+      const [sessionId] = auth.refreshToken.split('.');
+
+      // Act
+      const guess = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: `${sessionId}.garbage` },
+      });
+
+      // Assert
+      expect(guess.errors![0].message).toContain('Invalid or expired refresh token');
+
+      const refreshed = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: auth.refreshToken },
+      });
+      expect(refreshed.errors).toBeUndefined();
+    });
+
+    it('should reject the access token after logout', async () => {
+      // Arrange
+      const auth = await loginAs('logout@example.com');
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.logout },
+        auth.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.logout).toBe(true);
+
+      const meResponse = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getMe },
+        auth.token,
+      );
+      expect(meResponse.errors![0].message).toContain('Authentication required');
+
+      const refreshResponse = await executeOperation(server, {
+        query: operations.refreshToken,
+        variables: { refreshToken: auth.refreshToken },
+      });
+      expect(refreshResponse.errors).toBeDefined();
+    });
+
+    it('should revoke every session of the user on logoutAllSessions', async () => {
+      // Arrange
+      const first = await loginAs('everywhere@example.com');
+      const secondLogin = await executeOperation(server, {
+        query: operations.login,
+        variables: { email: 'everywhere@example.com', password: 'password123' },
+      });
+      const second = secondLogin.data?.login;
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.logoutAllSessions },
+        first.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.logoutAllSessions).toBe(2);
+
+      const meResponse = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getMe },
+        second.token,
+      );
+      expect(meResponse.errors![0].message).toContain('Authentication required');
+    });
+  });
+
   describe('User Queries', () => {
     it('should fetch a user by ID', async () => {
       // Arrange
@@ -278,9 +424,55 @@ describe('Authentication Integration Tests', () => {
       // Assert
       expect(response.errors).toBeUndefined();
       expect(response.data?.user).toBeDefined();
-      expect(response.data?.user.id).toBe(savedUser._id.toString());
+      expect(response.data?.user.id).toBe(toGlobalId('User', savedUser._id));
       expect(response.data?.user.name).toBe(userData.name);
-      expect(response.data?.user.email).toBe(userData.email);
+      expect(response.data?.user.email).toBeNull();
+    });
+
+    it('should expose the email to the user themself', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getUser, variables: { id: user.id } },
+        token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.user.email).toBe(user.email);
+    });
+
+    it('should expose the email to others once the user makes it public', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const { token: otherToken } = await createTestUser({
+        name: 'Other User',
+        email: 'other@example.com',
+        password: 'password123',
+      });
+
+      // Act
+      const updateResponse = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.updatePrivacySettings,
+          variables: { privacyInput: { email: 'PUBLIC' } },
+        },
+        token,
+      );
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getUser, variables: { id: user.id } },
+        otherToken,
+      );
+
+      // Assert
+      expect(updateResponse.errors).toBeUndefined();
+      expect(updateResponse.data?.updatePrivacySettings.privacy.email).toBe('PUBLIC');
+      expect(response.data?.user.email).toBe(user.email);
     });
 
     it('should return an error for non-existent user ID', async () => {
@@ -0,0 +1,165 @@
+import { ApolloServer } from '@apollo/server';
+
+import { config } from '../../config.js';
+import { OutboxMessage } from '../../models/OutboxMessage.js';
+import { User } from '../../models/User.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Email Verification Integration Tests', () => {
+  let server: ApolloServer;
+
+  const userInput = {
+    name: 'New User',
+    email: 'newuser@example.com',
+    password: 'password123',
+  };
+
+  const eventInput = {
+    title: 'Verified Event',
+    description: 'Only for verified users',
+    date: '2023-01-01',
+    time: '14:00',
+    location: 'Test Location',
+  };
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    config.emailVerification.required = false;
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const register = async (): Promise<string> => {
+    const response = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput },
+    });
+    return response.data.createUser.token;
+  };
+
+  const latestVerificationToken = async (): Promise<string | undefined> => {
+    const message = await OutboxMessage.findOne({ to: userInput.email }).sort({ createdAt: -1 });
+    const token = message?.text.match(/token=([^\s]+)/)?.[1];
+    return token && decodeURIComponent(token);
+  };
+
+  it('should email a verification link on registration', async () => {
+    // Act
+    await register();
+
+    // Assert
+    const user = await User.findOne({ email: userInput.email });
+    expect(user!.emailVerified).toBe(false);
+    expect(await latestVerificationToken()).toBeDefined();
+  });
+
+  it('should verify the email with the emailed token only once', async () => {
+    // Arrange
+    await register();
+    const token = await latestVerificationToken();
+
+    // Act
+    const response = await executeOperation(server, {
+      query: operations.verifyEmail,
+      variables: { token },
+    });
+    const reuse = await executeOperation(server, {
+      query: operations.verifyEmail,
+      variables: { token },
+    });
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data?.verifyEmail.emailVerified).toBe(true);
+    expect(reuse.errors?.[0]?.extensions.code).toBe('BAD_USER_INPUT');
+  });
+
+  it('should replace the verification link when a new one is requested', async () => {
+    // Arrange
+    const accessToken = await register();
+    const firstToken = await latestVerificationToken();
+
+    // Act
+    const resendResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.resendVerificationEmail },
+      accessToken,
+    );
+    const secondToken = await latestVerificationToken();
+    const firstResponse = await executeOperation(server, {
+      query: operations.verifyEmail,
+      variables: { token: firstToken },
+    });
+    const secondResponse = await executeOperation(server, {
+      query: operations.verifyEmail,
+      variables: { token: secondToken },
+    });
+
+    // Assert
+    expect(resendResponse.data?.resendVerificationEmail).toBe(true);
+    expect(secondToken).not.toBe(firstToken);
+    expect(firstResponse.errors?.[0]?.extensions.code).toBe('BAD_USER_INPUT');
+    expect(secondResponse.errors).toBeUndefined();
+  });
+
+  it('should let unverified users create events while verification is optional', async () => {
+    // Arrange
+    const accessToken = await register();
+
+    // Act
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.createEvent, variables: { eventInput } },
+      accessToken,
+    );
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+  });
+
+  it('should require a verified email to create events when configured', async () => {
+    // Arrange
+    config.emailVerification.required = true;
+    const accessToken = await register();
+
+    // Act
+    const before = await executeAuthenticatedOperation(
+      server,
+      { query: operations.createEvent, variables: { eventInput } },
+      accessToken,
+    );
+    await executeOperation(server, {
+      query: operations.verifyEmail,
+      variables: { token: await latestVerificationToken() },
+    });
+    const after = await executeAuthenticatedOperation(
+      server,
+      { query: operations.createEvent, variables: { eventInput } },
+      accessToken,
+    );
+
+    // Assert
+    expect(before.errors?.[0]?.extensions.code).toBe('FORBIDDEN');
+    expect(after.errors).toBeUndefined();
+    expect(after.data?.createEvent.title).toBe(eventInput.title);
+  });
+});
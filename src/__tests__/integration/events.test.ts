@@ -1,6 +1,8 @@
 import { ApolloServer } from '@apollo/server';
 
+import { config } from '../../config.js';
 import { Event } from '../../models/Event.js';
+import { fromGlobalId, toGlobalId } from '../../utils/globalId.js';
 import {
   initializeDatabase,
   closeDatabase,
@@ -62,15 +64,15 @@ describe('Events Integration Tests', () => {
       expect(response.data?.createEvent).toBeDefined();
       expect(response.data?.createEvent.title).toBe(eventInput.title);
       expect(response.data?.createEvent.description).toBe(eventInput.description);
-      expect(response.data?.createEvent.date).toBeDefined();
+      expect(response.data?.createEvent.date).toBe(eventInput.date);
       expect(response.data?.createEvent.time).toBe(eventInput.time);
       expect(response.data?.createEvent.location).toBe(eventInput.location);
       expect(response.data?.createEvent.imageUrl).toBe(eventInput.imageUrl);
-      expect(response.data?.createEvent.creator.id).toBe(user.id);
-      expect(response.data?.createEvent.attendees).toEqual([]);
+      expect(response.data?.createEvent.creator.id).toBe(toGlobalId('User', user.id));
+      expect(response.data?.createEvent.attendees.nodes).toEqual([]);
 
       // Verify the event was created in the database
-      const event = await Event.findById(response.data?.createEvent.id);
+      const event = await Event.findById(fromGlobalId(response.data?.createEvent.id)?.id);
       expect(event).toBeDefined();
       expect(event!.title).toBe(eventInput.title);
     });
@@ -159,6 +161,87 @@ describe('Events Integration Tests', () => {
       expect(response.data?.events.pageInfo.currentPage).toBe(1);
     });
 
+    it('should page through events by cursor without repeating any', async () => {
+      // Arrange
+      const { user } = await createTestUser();
+      const createOn = (day: string) =>
+        createTestEvent(user.id, {
+          title: `Event on ${day}`,
+          description: 'Description',
+          date: new Date(day),
+          time: '12:00',
+          location: 'Location',
+        });
+      for (const day of ['2030-01-02', '2030-01-03', '2030-01-04']) {
+        await createOn(day);
+      }
+
+      // Act
+      const first = await executeOperation(server, {
+        query: operations.searchEvents,
+        variables: { first: 2 },
+      });
+      // An event added in front of the page that was read shifts page numbers, not cursors
+      await createOn('2030-01-01');
+      const next = await executeOperation(server, {
+        query: operations.searchEvents,
+        variables: { first: 2, after: first.data.searchEvents.pageInfo.endCursor },
+      });
+      const mixed = await executeOperation(server, {
+        query: operations.searchEvents,
+        variables: { first: 2, pagination: { page: 2 } },
+      });
+
+      // Assert
+      const titles = (response: any) =>
+        response.data.searchEvents.nodes.map((event: { title: string }) => event.title);
+      expect(titles(first)).toEqual(['Event on 2030-01-02', 'Event on 2030-01-03']);
+      expect(first.data.searchEvents.pageInfo.hasNextPage).toBe(true);
+      expect(titles(next)).toEqual(['Event on 2030-01-04']);
+      expect(next.data.searchEvents.pageInfo.hasNextPage).toBe(false);
+      expect(next.data.searchEvents.totalCount).toBe(4);
+      expect(mixed.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+    });
+
+    it('should page backwards from a cursor', async () => {
+      // Arrange
+      const { user } = await createTestUser();
+      for (const day of ['2030-01-02', '2030-01-03', '2030-01-04']) {
+        await createTestEvent(user.id, {
+          title: `Event on ${day}`,
+          description: 'Description',
+          date: new Date(day),
+          time: '12:00',
+          location: 'Location',
+        });
+      }
+      const range = { from: '2030-01-01', to: '2030-01-05' };
+      const all = await executeOperation(server, {
+        query: operations.getEvents,
+        variables: { range },
+      });
+
+      // Act
+      const response = await executeOperation(server, {
+        query: operations.getEvents,
+        variables: { range, last: 2, before: all.data.events.pageInfo.endCursor },
+      });
+
+      // Assert
+      const { edges, pageInfo } = response.data.events;
+      expect(edges.map((edge: any) => edge.node.title)).toEqual([
+        'Event on 2030-01-02',
+        'Event on 2030-01-03',
+      ]);
+      expect(pageInfo).toMatchObject({
+        hasNextPage: true,
+        hasPreviousPage: false,
+        startCursor: edges[0].cursor,
+        currentPage: null,
+        totalPages: null,
+      });
+    });
+
     it('should fetch a single event by ID', async () => {
       // Arrange
       const { user } = await createTestUser();
@@ -180,7 +263,7 @@ describe('Events Integration Tests', () => {
       // Assert
       expect(response.errors).toBeUndefined();
       expect(response.data?.event).toBeDefined();
-      expect(response.data?.event.id).toBe(event.id);
+      expect(response.data?.event.id).toBe(toGlobalId('Event', event.id));
       expect(response.data?.event.title).toBe(event.title);
       expect(response.data?.event.description).toBe(event.description);
     });
@@ -198,6 +281,237 @@ describe('Events Integration Tests', () => {
     });
   });
 
+  describe('Event search', () => {
+    // Text searches need the text index to be built
+    beforeAll(async () => {
+      await Event.init();
+    });
+
+    it('should rank full-text matches and highlight them', async () => {
+      // Arrange
+      const { user } = await createTestUser();
+      const eventData = {
+        date: new Date('2030-06-01'),
+        time: '19:00',
+        location: 'Riverside Park',
+      };
+      await createTestEvent(user.id, {
+        ...eventData,
+        title: 'Open Air Festival',
+        description: 'Jazz bands play all weekend',
+      });
+      await createTestEvent(user.id, {
+        ...eventData,
+        title: 'Jazz Night',
+        description: 'Live music by the river',
+      });
+      await createTestEvent(user.id, {
+        ...eventData,
+        title: 'Jazz Brunch',
+        description: 'Pancakes and live music',
+      });
+
+      // Act
+      const ranked = await executeOperation(server, {
+        query: operations.search,
+        variables: { query: 'jazz' },
+      });
+      const narrowed = await executeOperation(server, {
+        query: operations.search,
+        variables: { query: '"live music" -pancakes' },
+      });
+
+      // Assert
+      expect(ranked.errors).toBeUndefined();
+      const results = ranked.data.search.edges;
+      expect(results.map((result: any) => result.event.title)).toContain('Open Air Festival');
+      expect(results[2].event.title).toBe('Open Air Festival');
+      expect(results[0].score).toBeGreaterThan(results[2].score);
+      expect(results[2].highlights).toEqual([
+        {
+          field: 'DESCRIPTION',
+          snippet: 'Jazz bands play all weekend',
+          matches: [{ start: 0, end: 4 }],
+        },
+      ]);
+      expect(narrowed.data.search.edges).toEqual([
+        expect.objectContaining({
+          event: expect.objectContaining({ title: 'Jazz Night' }),
+          highlights: [
+            {
+              field: 'DESCRIPTION',
+              snippet: 'Live music by the river',
+              matches: [{ start: 0, end: 10 }],
+            },
+          ],
+        }),
+      ]);
+    });
+
+    it('should find events matching every filter, in the requested order', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const { user: other } = await createTestUser({
+        name: 'Other User',
+        email: 'other@example.com',
+        password: 'password123',
+      });
+      const createEvent = (eventInput: Record<string, unknown>) =>
+        executeAuthenticatedOperation(
+          server,
+          {
+            query: operations.createEvent,
+            variables: {
+              eventInput: {
+                description: 'Live music by the river',
+                date: '2030-06-01',
+                time: '19:00',
+                location: 'Berlin',
+                ...eventInput,
+              },
+            },
+          },
+          token,
+        );
+      await createEvent({ title: 'Jazz Night', tags: ['Music', 'Outdoor'], capacity: 1 });
+      await createEvent({ title: 'Blues Night', tags: ['music', 'outdoor'] });
+      await createEvent({ title: 'Folk Night', tags: ['music'] });
+      await createEvent({ title: 'Jazz Brunch', tags: ['music', 'outdoor'], location: 'Munich' });
+      const full = await Event.findOne({ title: 'Jazz Night' });
+      full!.attendees = [other.id];
+      await full!.save();
+
+      // Act
+      const response = await executeOperation(server, {
+        query: operations.searchEvents,
+        variables: {
+          filter: {
+            location: 'berlin',
+            tags: ['OUTDOOR', 'music'],
+            text: 'river',
+            range: { from: '2030-06-01', to: '2030-06-02' },
+          },
+          sort: [{ field: 'TITLE', direction: 'DESC' }],
+        },
+      });
+      const withSeats = await executeOperation(server, {
+        query: operations.searchEvents,
+        variables: { filter: { tags: ['outdoor'], hasSeatsLeft: true, creator: user.id } },
+      });
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.searchEvents.nodes.map((event: any) => event.title)).toEqual([
+        'Jazz Night',
+        'Blues Night',
+      ]);
+      expect(response.data.searchEvents.nodes[0].tags).toEqual(['music', 'outdoor']);
+      expect(withSeats.data.searchEvents.nodes.map((event: any) => event.title)).toEqual([
+        'Blues Night',
+        'Jazz Brunch',
+      ]);
+    });
+
+    it('should only find drafts for their creator', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const event = await createTestEvent(user.id);
+      event.status = 'draft';
+      await event.save();
+      const search = {
+        query: operations.searchEvents,
+        variables: { filter: { status: ['DRAFT'] } },
+      };
+
+      // Act
+      const asCreator = await executeAuthenticatedOperation(server, search, token);
+      const anonymously = await executeOperation(server, search);
+
+      // Assert
+      expect(asCreator.data.searchEvents.nodes).toEqual([
+        expect.objectContaining({ id: toGlobalId('Event', event.id), status: 'DRAFT' }),
+      ]);
+      expect(anonymously.data.searchEvents.totalCount).toBe(0);
+    });
+  });
+
+  describe('Events nearby', () => {
+    // Distance queries need the 2dsphere index to be built
+    beforeAll(async () => {
+      await Event.init();
+    });
+
+    const createPositionedEvents = async () => {
+      const { token } = await createTestUser();
+      const createEvent = (title: string, eventInput: Record<string, unknown>) =>
+        executeAuthenticatedOperation(
+          server,
+          {
+            query: operations.createEvent,
+            variables: {
+              eventInput: {
+                title,
+                description: 'Somewhere in town',
+                date: '2030-06-01',
+                time: '19:00',
+                location: 'See map',
+                ...eventInput,
+              },
+            },
+          },
+          token,
+        );
+      // Brandenburg Gate, Alexanderplatz (about 2.5 km east) and Potsdam (about 26 km away)
+      const gate = await createEvent('Gate Concert', {
+        geoLocation: { lat: 52.5163, lng: 13.3777 },
+        address: { city: 'Berlin', country: 'DE' },
+      });
+      await createEvent('Alex Market', { geoLocation: { lat: 52.5219, lng: 13.4132 } });
+      await createEvent('Potsdam Fair', { geoLocation: { lat: 52.3906, lng: 13.0645 } });
+      await createEvent('Online Meetup', { location: 'Online' });
+      return gate;
+    };
+
+    it('should list events within a radius, nearest first', async () => {
+      // Arrange
+      const gate = await createPositionedEvents();
+
+      // Act
+      const response = await executeOperation(server, {
+        query: operations.eventsNear,
+        variables: { lat: 52.5163, lng: 13.3777, radiusKm: 5 },
+      });
+
+      // Assert
+      expect(gate.data.createEvent.geoLocation).toEqual({ lat: 52.5163, lng: 13.3777 });
+      expect(gate.data.createEvent.address).toEqual({ city: 'Berlin', country: 'DE' });
+      expect(response.errors).toBeUndefined();
+      const { edges, totalCount } = response.data.eventsNear;
+      expect(edges.map((edge: any) => edge.event.title)).toEqual(['Gate Concert', 'Alex Market']);
+      expect(edges[0].distanceKm).toBeCloseTo(0);
+      expect(edges[1].distanceKm).toBeGreaterThan(2);
+      expect(edges[1].distanceKm).toBeLessThan(3);
+      expect(totalCount).toBe(2);
+    });
+
+    it('should list events on a map view', async () => {
+      // Arrange
+      await createPositionedEvents();
+
+      // Act
+      const response = await executeOperation(server, {
+        query: operations.eventsInBounds,
+        variables: { bounds: { south: 52.3, west: 13.0, north: 52.45, east: 13.2 } },
+      });
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.eventsInBounds.nodes).toEqual([
+        expect.objectContaining({ title: 'Potsdam Fair' }),
+      ]);
+    });
+  });
+
   describe('Event Attendance', () => {
     it('should allow a user to attend an event', async () => {
       // Arrange
@@ -233,10 +547,12 @@ describe('Events Integration Tests', () => {
 
       // Assert
       expect(response.errors).toBeUndefined();
-      expect(response.data?.attendEvent).toBeDefined();
-      expect(response.data?.attendEvent.id).toBe(event.id);
-      expect(response.data?.attendEvent.attendees).toHaveLength(1);
-      expect(response.data?.attendEvent.attendees[0].id).toBe(attendee.id);
+      expect(response.data?.attendEvent.status).toBe('CONFIRMED');
+      expect(response.data?.attendEvent.event.id).toBe(toGlobalId('Event', event.id));
+      expect(response.data?.attendEvent.event.attendees.nodes).toHaveLength(1);
+      expect(response.data?.attendEvent.event.attendees.nodes[0].id).toBe(
+        toGlobalId('User', attendee.id),
+      );
 
       // Verify event was updated in the database
       const updatedEvent = await Event.findById(event.id);
@@ -284,8 +600,8 @@ describe('Events Integration Tests', () => {
       // Assert
       expect(response.errors).toBeUndefined();
       expect(response.data?.cancelAttendance).toBeDefined();
-      expect(response.data?.cancelAttendance.id).toBe(event.id);
-      expect(response.data?.cancelAttendance.attendees).toHaveLength(0);
+      expect(response.data?.cancelAttendance.id).toBe(toGlobalId('Event', event.id));
+      expect(response.data?.cancelAttendance.attendees.nodes).toHaveLength(0);
 
       // Verify event was updated in the database
       const updatedEvent = await Event.findById(event.id);
@@ -362,4 +678,845 @@ describe('Events Integration Tests', () => {
       expect(response.errors![0].message).toContain('Already attending this event');
     });
   });
+
+  describe('Capacity and waitlist', () => {
+    const createUsers = (count: number) =>
+      Promise.all(
+        Array.from({ length: count }, (_, index) =>
+          createTestUser({
+            name: `Attendee ${index + 1}`,
+            email: `attendee${index + 1}@example.com`,
+            password: 'password123',
+          }),
+        ),
+      );
+
+    const attend = (eventId: string, token: string) =>
+      executeAuthenticatedOperation(
+        server,
+        { query: operations.attendEvent, variables: { eventId } },
+        token,
+      );
+
+    it('should waitlist users once an event is full', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const [first, second, third] = await createUsers(3);
+      const event = await createTestEvent(creator.id);
+      event.capacity = 1;
+      await event.save();
+
+      // Act
+      const confirmed = await attend(event.id, first!.token);
+      const waitlisted = await attend(event.id, second!.token);
+      const alsoWaitlisted = await attend(event.id, third!.token);
+
+      // Assert
+      expect(confirmed.data.attendEvent).toMatchObject({
+        status: 'CONFIRMED',
+        waitlistPosition: null,
+      });
+      expect(waitlisted.data.attendEvent).toMatchObject({
+        status: 'WAITLISTED',
+        waitlistPosition: 1,
+      });
+      expect(alsoWaitlisted.data.attendEvent.waitlistPosition).toBe(2);
+      expect(alsoWaitlisted.data.attendEvent.event.availableSeats).toBe(0);
+
+      const updatedEvent = await Event.findById(event.id);
+      expect(updatedEvent!.attendees.map(String)).toEqual([first!.user.id]);
+      expect(updatedEvent!.waitlist.map(String)).toEqual([second!.user.id, third!.user.id]);
+    });
+
+    it('should promote the first waitlisted user when a seat frees up', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const [first, second, third] = await createUsers(3);
+      const event = await createTestEvent(creator.id);
+      event.capacity = 1;
+      await event.save();
+      await attend(event.id, first!.token);
+      await attend(event.id, second!.token);
+      await attend(event.id, third!.token);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.cancelAttendance, variables: { eventId: event.id } },
+        first!.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.cancelAttendance.attendees.nodes).toEqual([
+        { id: toGlobalId('User', second!.user.id), name: 'Attendee 2' },
+      ]);
+      expect(response.data.cancelAttendance.waitlist).toEqual([
+        { id: toGlobalId('User', third!.user.id) },
+      ]);
+    });
+
+    it('should not lose or duplicate attendees under parallel RSVPs', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const users = await createUsers(12);
+      const event = await createTestEvent(creator.id);
+      event.capacity = 5;
+      await event.save();
+
+      // Act
+      const responses = await Promise.all(users.map(({ token }) => attend(event.id, token)));
+
+      // Assert
+      responses.forEach(response => expect(response.errors).toBeUndefined());
+      const statuses = responses.map(response => response.data.attendEvent.status);
+      expect(statuses.filter(status => status === 'CONFIRMED')).toHaveLength(5);
+      expect(statuses.filter(status => status === 'WAITLISTED')).toHaveLength(7);
+
+      const updatedEvent = await Event.findById(event.id);
+      const attendees = updatedEvent!.attendees.map(String);
+      const waitlist = updatedEvent!.waitlist.map(String);
+      expect(attendees).toHaveLength(5);
+      expect(waitlist).toHaveLength(7);
+      expect(new Set([...attendees, ...waitlist])).toEqual(
+        new Set(users.map(({ user }) => user.id)),
+      );
+    });
+
+    it('should only add a user once when they RSVP in parallel', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const [attendee] = await createUsers(1);
+      const event = await createTestEvent(creator.id);
+
+      // Act
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () => attend(event.id, attendee!.token)),
+      );
+
+      // Assert
+      expect(responses.filter(response => !response.errors)).toHaveLength(1);
+      const updatedEvent = await Event.findById(event.id);
+      expect(updatedEvent!.attendees.map(String)).toEqual([attendee!.user.id]);
+    });
+
+    it('should not overfill the event when attendees cancel in parallel', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const users = await createUsers(8);
+      const event = await createTestEvent(creator.id);
+      event.capacity = 3;
+      await event.save();
+      for (const { token } of users) {
+        await attend(event.id, token);
+      }
+      const leaving = users.slice(0, 3);
+
+      // Act
+      await Promise.all(
+        leaving.map(({ token }) =>
+          executeAuthenticatedOperation(
+            server,
+            { query: operations.cancelAttendance, variables: { eventId: event.id } },
+            token,
+          ),
+        ),
+      );
+
+      // Assert
+      const updatedEvent = await Event.findById(event.id);
+      expect(updatedEvent!.attendees.map(String).sort()).toEqual(
+        users
+          .slice(3, 6)
+          .map(({ user }) => user.id)
+          .sort(),
+      );
+      expect(updatedEvent!.waitlist.map(String)).toEqual(users.slice(6).map(({ user }) => user.id));
+    });
+
+    it('should reject capacities below one', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.createEvent,
+          variables: {
+            eventInput: {
+              title: 'Tiny Event',
+              description: 'No room at all',
+              date: '2030-01-01',
+              time: '14:00',
+              location: 'Closet',
+              capacity: 0,
+            },
+          },
+        },
+        token,
+      );
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+    });
+  });
+
+  describe('Recurring events', () => {
+    // 2030-01-01 is a Tuesday
+    const createSeries = async (token: string) => {
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.createEvent,
+          variables: {
+            eventInput: {
+              title: 'Study Group',
+              description: 'Weekly study group',
+              date: '2030-01-01',
+              time: '17:00',
+              location: 'Library',
+              recurrence: { rule: 'FREQ=WEEKLY;COUNT=4', exceptions: ['2030-01-15'] },
+            },
+          },
+        },
+        token,
+      );
+      return response.data.createEvent.id as string;
+    };
+
+    const listOccurrences = async (from: string, to: string) => {
+      const response = await executeOperation(server, {
+        query: operations.getEvents,
+        variables: { range: { from, to } },
+      });
+      return response.data.events.edges.map((edge: { node: unknown }) => edge.node);
+    };
+
+    it('should expand occurrences in date ranges and by date', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      const seriesId = await createSeries(token);
+
+      // Act
+      const occurrences = await listOccurrences('2030-01-01', '2030-03-01');
+      const byDate = await executeOperation(server, {
+        query: operations.getEventsByDate,
+        variables: { date: '2030-01-08' },
+      });
+
+      // Assert
+      expect(occurrences.map((event: { occurrenceDate: string }) => event.occurrenceDate)).toEqual([
+        '2030-01-01',
+        '2030-01-08',
+        '2030-01-22',
+      ]);
+      expect(occurrences[0].series.id).toBe(seriesId);
+      expect(byDate.data.eventsByDate.nodes).toEqual([
+        {
+          id: seriesId,
+          title: 'Study Group',
+          location: 'Library',
+          occurrenceDate: '2030-01-08',
+          startsAt: '2030-01-08T17:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should attend a single occurrence', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      const { user: attendee, token: attendeeToken } = await createTestUser({
+        name: 'Attendee',
+        email: 'attendee@example.com',
+        password: 'password123',
+      });
+      const seriesId = await createSeries(token);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.attendEvent,
+          variables: { eventId: seriesId, occurrenceDate: '2030-01-08' },
+        },
+        attendeeToken,
+      );
+      const occurrences = await listOccurrences('2030-01-01', '2030-03-01');
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      const { event } = response.data.attendEvent;
+      expect(event.id).not.toBe(seriesId);
+      expect(event.series.id).toBe(seriesId);
+      expect(event.occurrenceDate).toBe('2030-01-08');
+      expect(event.attendees.nodes).toEqual([
+        { id: toGlobalId('User', attendee.id), name: 'Attendee' },
+      ]);
+      expect(occurrences.map((occurrence: { id: string }) => occurrence.id)).toEqual([
+        seriesId,
+        event.id,
+        seriesId,
+      ]);
+    });
+
+    it('should edit a single occurrence or the whole series', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      const seriesId = await createSeries(token);
+      const eventInput = {
+        title: 'Study Group',
+        description: 'Weekly study group',
+        date: '2030-01-08',
+        time: '17:00',
+        location: 'Room 101',
+      };
+
+      // Act
+      const single = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.updateEvent,
+          variables: { id: seriesId, occurrenceDate: '2030-01-08', eventInput },
+        },
+        token,
+      );
+      const series = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.updateEvent,
+          variables: {
+            id: seriesId,
+            eventInput: { ...eventInput, date: '2030-01-01', title: 'Exam Prep', location: 'Hall' },
+          },
+        },
+        token,
+      );
+      const occurrences = await listOccurrences('2030-01-01', '2030-03-01');
+
+      // Assert
+      expect(single.data.updateEvent).toMatchObject({
+        location: 'Room 101',
+        occurrenceDate: '2030-01-08',
+        recurrence: null,
+      });
+      expect(series.data.updateEvent.recurrence.exceptions).toEqual(['2030-01-15', '2030-01-08']);
+      expect(occurrences.map((event: { title: string }) => event.title)).toEqual([
+        'Exam Prep',
+        'Exam Prep',
+        'Exam Prep',
+      ]);
+    });
+
+    it('should cancel a single occurrence or the whole series', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      const seriesId = await createSeries(token);
+
+      // Act
+      const cancelled = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.deleteEvent,
+          variables: { id: seriesId, occurrenceDate: '2030-01-22' },
+        },
+        token,
+      );
+      const afterCancelling = await listOccurrences('2030-01-01', '2030-03-01');
+      await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteEvent, variables: { id: seriesId } },
+        token,
+      );
+      const afterDeleting = await listOccurrences('2030-01-01', '2030-03-01');
+
+      // Assert
+      expect(cancelled.data.deleteEvent).toBe(true);
+      expect(
+        afterCancelling.map((event: { occurrenceDate: string }) => event.occurrenceDate),
+      ).toEqual(['2030-01-01', '2030-01-08']);
+      expect(afterDeleting).toEqual([]);
+    });
+
+    it('should keep a cancelled stored occurrence restorable with its attendees', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      const { token: attendeeToken } = await createTestUser({
+        name: 'Attendee',
+        email: 'attendee@example.com',
+        password: 'password123',
+      });
+      const seriesId = await createSeries(token);
+      const attended = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.attendEvent,
+          variables: { eventId: seriesId, occurrenceDate: '2030-01-08' },
+        },
+        attendeeToken,
+      );
+      const occurrenceId = attended.data.attendEvent.event.id as string;
+
+      // Act
+      await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.deleteEvent,
+          variables: { id: seriesId, occurrenceDate: '2030-01-08' },
+        },
+        token,
+      );
+      const afterCancelling = await listOccurrences('2030-01-01', '2030-03-01');
+      const restored = await executeAuthenticatedOperation(
+        server,
+        { query: operations.restoreEvent, variables: { id: occurrenceId } },
+        token,
+      );
+      const afterRestoring = await listOccurrences('2030-01-01', '2030-03-01');
+
+      // Assert
+      expect(
+        afterCancelling.map((event: { occurrenceDate: string }) => event.occurrenceDate),
+      ).toEqual(['2030-01-01', '2030-01-22']);
+      expect(restored.errors).toBeUndefined();
+      expect(afterRestoring.map((event: { id: string }) => event.id)).toContain(occurrenceId);
+      const occurrence = await Event.findById(fromGlobalId(occurrenceId)?.id);
+      expect(occurrence!.attendees).toHaveLength(1);
+    });
+
+    it('should reject invalid recurrence rules', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.createEvent,
+          variables: {
+            eventInput: {
+              title: 'Broken',
+              description: 'Never happens',
+              date: '2030-01-01',
+              time: '17:00',
+              location: 'Nowhere',
+              recurrence: { rule: 'FREQ=WEEKLY;BYHOUR=9' },
+            },
+          },
+        },
+        token,
+      );
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+      expect(response.errors[0].message).toBe('Recurrence rule part BYHOUR is not supported');
+    });
+  });
+
+  describe('Time zones', () => {
+    const createEvent = async (token: string, eventInput: Record<string, unknown>) =>
+      executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.createEvent,
+          variables: {
+            eventInput: {
+              title: 'Late Show',
+              description: 'Comedy until late',
+              location: 'Tokyo',
+              ...eventInput,
+            },
+          },
+        },
+        token,
+      );
+
+    it('should store the instants an event starts and ends at', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+
+      // Act
+      const response = await createEvent(token, {
+        date: '2030-01-15',
+        time: '23:00',
+        endTime: '01:00',
+        timeZone: 'Asia/Tokyo',
+      });
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.createEvent).toMatchObject({
+        date: '2030-01-15',
+        time: '23:00',
+        timeZone: 'Asia/Tokyo',
+        startsAt: '2030-01-15T14:00:00.000Z',
+        endsAt: '2030-01-15T16:00:00.000Z',
+      });
+    });
+
+    it('should find events by the day in the requested zone', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+      // 08:00 in Tokyo is still the evening before in New York
+      await createEvent(token, { date: '2030-01-16', time: '08:00', timeZone: 'Asia/Tokyo' });
+
+      // Act
+      const inTokyo = await executeOperation(server, {
+        query: operations.getEventsByDate,
+        variables: { date: '2030-01-16', timeZone: 'Asia/Tokyo' },
+      });
+      const inNewYork = await executeOperation(server, {
+        query: operations.getEventsByDate,
+        variables: { date: '2030-01-16', timeZone: 'America/New_York' },
+      });
+
+      // Assert
+      expect(inTokyo.data.eventsByDate.totalCount).toBe(1);
+      expect(inNewYork.data.eventsByDate.totalCount).toBe(0);
+    });
+
+    it('should reject free-form times', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+
+      // Act
+      const response = await createEvent(token, { date: '2030-01-15', time: 'after lunch' });
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+      expect(response.errors[0].message).toContain('LocalTime must be a 24-hour time');
+    });
+
+    it('should reject image URLs that are not http or https', async () => {
+      // Arrange
+      const { token } = await createTestUser();
+
+      // Act
+      const response = await createEvent(token, {
+        date: '2030-01-15',
+        time: '18:00',
+        imageUrl: 'javascript:alert(1)',
+      });
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+      expect(await Event.countDocuments()).toBe(0);
+    });
+
+    it('should reject invalid dates written into the query as bad user input', async () => {
+      // Act
+      const response = await executeOperation(server, {
+        query: '{ eventsByDate(date: "2030-02-31") { totalCount } }',
+      });
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+      expect(response.errors[0].message).toContain('Date must be a calendar date');
+    });
+  });
+
+  describe('Schedule conflicts', () => {
+    afterEach(() => {
+      config.events.rejectScheduleConflicts = false;
+    });
+
+    const createAndAttend = async (
+      creatorId: string,
+      token: string,
+      title: string,
+      startsAt: string,
+      endsAt: string,
+    ) => {
+      const event = await createTestEvent(creatorId, {
+        title,
+        description: 'Conference session',
+        date: new Date(startsAt.slice(0, 10)),
+        time: startsAt.slice(11, 16),
+        location: 'Main Hall',
+      });
+      event.endsAt = new Date(endsAt);
+      await event.save();
+      return executeAuthenticatedOperation(
+        server,
+        { query: operations.attendEvent, variables: { eventId: event.id } },
+        token,
+      );
+    };
+
+    it('should list overlapping events the user attends', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      await createAndAttend(user.id, token, 'Keynote', '2030-05-01T09:00Z', '2030-05-01T10:30Z');
+      await createAndAttend(user.id, token, 'Workshop', '2030-05-01T10:00Z', '2030-05-01T12:00Z');
+      await createAndAttend(user.id, token, 'Lunch', '2030-05-01T12:00Z', '2030-05-01T13:00Z');
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.myScheduleConflicts },
+        token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      const conflicts = response.data.myScheduleConflicts;
+      expect(
+        conflicts.map((conflict: { event: { title: string } }) => conflict.event.title),
+      ).toEqual(['Keynote', 'Workshop']);
+      expect(conflicts[0].conflictsWith).toEqual([
+        { id: conflicts[1].event.id, title: 'Workshop' },
+      ]);
+      expect(conflicts[1].event.conflictsWith).toEqual([{ id: conflicts[0].event.id }]);
+    });
+
+    it('should reject overlapping RSVPs in strict mode', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const keynote = await createAndAttend(
+        user.id,
+        token,
+        'Keynote',
+        '2030-05-01T09:00Z',
+        '2030-05-01T10:30Z',
+      );
+      config.events.rejectScheduleConflicts = true;
+
+      // Act
+      const response = await createAndAttend(
+        user.id,
+        token,
+        'Workshop',
+        '2030-05-01T10:00Z',
+        '2030-05-01T12:00Z',
+      );
+
+      // Assert
+      expect(response.errors[0].extensions.code).toBe('SCHEDULE_CONFLICT');
+      expect(response.errors[0].message).toBe('This event overlaps events you are attending');
+      expect(response.errors[0].extensions.conflictingEventIds).toEqual([
+        keynote.data.attendEvent.event.id,
+      ]);
+    });
+  });
+
+  describe('Event lifecycle', () => {
+    const createDraft = async (creatorId: string) => {
+      const event = await createTestEvent(creatorId, {
+        title: 'Secret Launch',
+        description: 'Not announced yet',
+        date: new Date('2030-03-01'),
+        time: '18:00',
+        location: 'Rooftop',
+      });
+      event.status = 'draft';
+      return event.save();
+    };
+
+    it('should keep drafts out of public queries until they are published', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const draft = await createDraft(user.id);
+
+      // Act
+      const before = await executeOperation(server, { query: operations.getEvents });
+      const published = await executeAuthenticatedOperation(
+        server,
+        { query: operations.publishEvent, variables: { id: draft.id } },
+        token,
+      );
+      const after = await executeOperation(server, { query: operations.getEvents });
+
+      // Assert
+      expect(before.data.events.edges).toEqual([]);
+      expect(published.data.publishEvent.status).toBe('PUBLISHED');
+      expect(after.data.events.edges.map((edge: { node: { id: string } }) => edge.node.id)).toEqual(
+        [toGlobalId('Event', draft.id)],
+      );
+    });
+
+    it('should cancel an event without losing its attendees', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const { token: attendeeToken } = await createTestUser({
+        name: 'Attendee',
+        email: 'attendee@example.com',
+        password: 'password123',
+      });
+      const event = await createDraft(user.id);
+      event.status = 'published';
+      await event.save();
+      await executeAuthenticatedOperation(
+        server,
+        { query: operations.attendEvent, variables: { eventId: event.id } },
+        attendeeToken,
+      );
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.cancelEvent, variables: { id: event.id, reason: 'Storm warning' } },
+        token,
+      );
+      const attendAgain = await executeAuthenticatedOperation(
+        server,
+        { query: operations.attendEvent, variables: { eventId: event.id } },
+        token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.cancelEvent).toMatchObject({
+        status: 'CANCELLED',
+        cancellationReason: 'Storm warning',
+      });
+      expect(response.data.cancelEvent.attendees.nodes).toHaveLength(1);
+      expect(attendAgain.errors[0].message).toBe('This event has been cancelled');
+    });
+
+    it('should postpone an event to a later day', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const event = await createDraft(user.id);
+      event.status = 'published';
+      await event.save();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.postponeEvent, variables: { id: event.id, newDate: '2030-03-08' } },
+        token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data.postponeEvent).toMatchObject({
+        status: 'POSTPONED',
+        startsAt: '2030-03-08T18:00:00.000Z',
+        endsAt: null,
+      });
+    });
+  });
+
+  describe('Nested connections', () => {
+    it('should page through the attendees of an event', async () => {
+      // Arrange
+      const { user: creator } = await createTestUser();
+      const attendees = await Promise.all(
+        ['Ada', 'Grace', 'Linus'].map(name =>
+          createTestUser({ name, email: `${name}@example.com`, password: 'password123' }),
+        ),
+      );
+      const event = await createTestEvent(creator.id);
+      event.attendees = attendees.map(({ user }) => user._id);
+      await event.save();
+
+      // Act
+      const firstPage = await executeOperation(server, {
+        query: operations.getEventAttendees,
+        variables: { id: event.id, first: 2 },
+      });
+      const { endCursor } = firstPage.data.event.attendees.pageInfo;
+      const secondPage = await executeOperation(server, {
+        query: operations.getEventAttendees,
+        variables: { id: event.id, first: 2, after: endCursor },
+      });
+
+      // Assert
+      expect(firstPage.errors).toBeUndefined();
+      expect(firstPage.data.event.attendeeCount).toBe(3);
+      expect(firstPage.data.event.attendees.totalCount).toBe(3);
+      expect(firstPage.data.event.attendees.pageInfo.hasNextPage).toBe(true);
+      expect(
+        [...firstPage.data.event.attendees.nodes, ...secondPage.data.event.attendees.nodes].map(
+          (attendee: { name: string }) => attendee.name,
+        ),
+      ).toEqual(['Ada', 'Grace', 'Linus']);
+      expect(secondPage.data.event.attendees.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it('should filter the events of a user and hide their drafts from others', async () => {
+      // Arrange
+      const { user } = await createTestUser();
+      const [jazz, draft] = await Promise.all([
+        createTestEvent(user.id),
+        createTestEvent(user.id),
+        createTestEvent(user.id),
+      ]);
+      jazz.title = 'Jazz Night';
+      jazz.tags = ['jazz'];
+      draft.status = 'draft';
+      await Promise.all([jazz.save(), draft.save()]);
+
+      // Act
+      const all = await executeOperation(server, {
+        query: operations.getUserEvents,
+        variables: { id: user.id },
+      });
+      const filtered = await executeOperation(server, {
+        query: operations.getUserEvents,
+        variables: { id: user.id, filter: { tags: ['Jazz'] } },
+      });
+
+      // Assert
+      expect(all.errors).toBeUndefined();
+      expect(all.data.user.events.totalCount).toBe(2);
+      expect(filtered.data.user.events.nodes).toEqual([
+        { id: toGlobalId('Event', jazz.id), title: 'Jazz Night' },
+      ]);
+    });
+  });
+
+  describe('Soft delete', () => {
+    it('should hide deleted events until they are restored', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const event = await createTestEvent(user.id);
+      await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteEvent, variables: { id: event.id } },
+        token,
+      );
+      const whileDeleted = await executeOperation(server, {
+        query: operations.getEvent,
+        variables: { id: event.id },
+      });
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.restoreEvent, variables: { id: event.id } },
+        token,
+      );
+      const afterRestoring = await executeOperation(server, {
+        query: operations.getEvent,
+        variables: { id: event.id },
+      });
+
+      // Assert
+      expect(whileDeleted.data.event).toBeNull();
+      expect(await Event.countDocuments({ _id: event.id }).setOptions({ withDeleted: true })).toBe(
+        1,
+      );
+      expect(response.errors).toBeUndefined();
+      expect(afterRestoring.data.event.id).toBe(toGlobalId('Event', event.id));
+    });
+
+    it('should not restore events past the retention window', async () => {
+      // Arrange
+      const { user, token } = await createTestUser();
+      const event = await createTestEvent(user.id);
+      event.deletedAt = new Date('2000-01-01');
+      await event.save();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.restoreEvent, variables: { id: event.id } },
+        token,
+      );
+
+      // Assert
+      expect(response.errors[0].message).toBe('Event not found');
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import { ApolloServer } from '@apollo/server';
+
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  createTestUser,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Login Throttling Integration Tests', () => {
+  let server: ApolloServer;
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const register = async (email: string): Promise<string> => {
+    const response = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput: { name: 'Locked User', email, password: 'password123' } },
+    });
+    return response.data.createUser.userId;
+  };
+
+  const login = (email: string, password: string, ip = '10.0.0.1') =>
+    executeOperation(
+      server,
+      { query: operations.login, variables: { email, password } },
+      undefined,
+      { req: { ip } },
+    );
+
+  it('should lock the account after repeated failures, even for the right password', async () => {
+    // Arrange
+    const email = 'locked@example.com';
+    await register(email);
+
+    // Act
+    const failures = [];
+    for (let i = 0; i < 5; i++) {
+      failures.push(await login(email, 'wrong-password'));
+    }
+    const response = await login(email, 'password123');
+
+    // Assert
+    expect(failures[0].errors?.[0]?.extensions.code).toBe('UNAUTHENTICATED');
+    expect(response.errors?.[0]?.extensions.code).toBe('TOO_MANY_REQUESTS');
+    expect(response.errors?.[0]?.extensions.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('should let an admin unlock the account', async () => {
+    // Arrange
+    const email = 'unlock-me@example.com';
+    const userId = await register(email);
+    const { token: adminToken } = await createTestUser({
+      name: 'Admin',
+      email: 'admin@example.com',
+      password: 'password123',
+      role: 'admin',
+    });
+    for (let i = 0; i < 5; i++) {
+      await login(email, 'wrong-password', '10.0.0.2');
+    }
+
+    // Act
+    const unlockResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.unlockAccount, variables: { userId } },
+      adminToken,
+    );
+    const response = await login(email, 'password123', '10.0.0.2');
+
+    // Assert
+    expect(unlockResponse.errors).toBeUndefined();
+    expect(response.errors).toBeUndefined();
+    expect(response.data?.login.token).toBeDefined();
+  });
+
+  it('should not let regular users unlock accounts', async () => {
+    // Arrange
+    const { user, token } = await createTestUser();
+
+    // Act
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.unlockAccount, variables: { userId: user.id } },
+      token,
+    );
+
+    // Assert
+    expect(response.errors?.[0]?.extensions.code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,123 @@
+import { ApolloServer } from '@apollo/server';
+
+import { toGlobalId } from '../../utils/globalId.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  createTestUser,
+  createTestEvent,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Node Integration Tests', () => {
+  let server: ApolloServer;
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  it('should refetch users and events by the IDs the API hands out', async () => {
+    // Arrange
+    const { user } = await createTestUser();
+    const event = await createTestEvent(user.id);
+    const fetched = await executeOperation(server, {
+      query: operations.getEvent,
+      variables: { id: event.id },
+    });
+    const { id: eventId, creator } = fetched.data.event;
+
+    // Act
+    const eventNode = await executeOperation(server, {
+      query: operations.getNode,
+      variables: { id: eventId },
+    });
+    const userNode = await executeOperation(server, {
+      query: operations.getNode,
+      variables: { id: creator.id },
+    });
+
+    // Assert
+    expect(eventId).toBe(toGlobalId('Event', event.id));
+    expect(eventNode.data.node).toEqual({ __typename: 'Event', id: eventId, title: 'Test Event' });
+    expect(userNode.data.node).toEqual({
+      __typename: 'User',
+      id: toGlobalId('User', user.id),
+      name: 'Test User',
+    });
+  });
+
+  it('should still find objects by their raw ObjectIds', async () => {
+    // Arrange
+    const { user } = await createTestUser();
+    const event = await createTestEvent(user.id);
+
+    // Act
+    const response = await executeOperation(server, {
+      query: operations.getNodes,
+      variables: { ids: [user.id, event.id] },
+    });
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data.nodes).toEqual([
+      { __typename: 'User', id: toGlobalId('User', user.id) },
+      { __typename: 'Event', id: toGlobalId('Event', event.id) },
+    ]);
+  });
+
+  it('should return null in place of IDs that resolve to nothing', async () => {
+    // Arrange
+    const { user } = await createTestUser();
+    const draft = await createTestEvent(user.id);
+    draft.status = 'draft';
+    await draft.save();
+
+    // Act
+    const response = await executeOperation(server, {
+      query: operations.getNodes,
+      variables: {
+        ids: [toGlobalId('Event', draft.id), toGlobalId('Event', user.id), 'not-an-id'],
+      },
+    });
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data.nodes).toEqual([null, null, null]);
+  });
+
+  it('should accept global IDs as arguments everywhere', async () => {
+    // Arrange
+    const { user, token } = await createTestUser();
+    const draft = await createTestEvent(user.id);
+    draft.status = 'draft';
+    await draft.save();
+
+    // Act
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.publishEvent, variables: { id: toGlobalId('Event', draft.id) } },
+      token,
+    );
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data.publishEvent.status).toBe('PUBLISHED');
+  });
+});
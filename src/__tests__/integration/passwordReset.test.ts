@@ -0,0 +1,140 @@
+import { ApolloServer } from '@apollo/server';
+
+import { OutboxMessage } from '../../models/OutboxMessage.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Password Reset Integration Tests', () => {
+  let server: ApolloServer;
+
+  const userInput = {
+    name: 'Forgetful User',
+    email: 'forgetful@example.com',
+    password: 'password123',
+  };
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const requestReset = async (email = userInput.email): Promise<string | undefined> => {
+    await executeOperation(server, {
+      query: operations.requestPasswordReset,
+      variables: { email },
+    });
+    const message = await OutboxMessage.findOne({ to: email }).sort({ createdAt: -1 });
+    return message?.text.match(/token=([^\s]+)/)?.[1];
+  };
+
+  const resetPassword = (token: string, newPassword = 'new-password123') =>
+    executeOperation(server, {
+      query: operations.resetPassword,
+      variables: { token: decodeURIComponent(token), newPassword },
+    });
+
+  it('should email a reset link and let the user sign in with the new password', async () => {
+    // Arrange
+    await executeOperation(server, { query: operations.registerUser, variables: { userInput } });
+
+    // Act
+    const token = await requestReset();
+    const resetResponse = await resetPassword(token!);
+    const oldLogin = await executeOperation(server, {
+      query: operations.login,
+      variables: { email: userInput.email, password: userInput.password },
+    });
+    const newLogin = await executeOperation(server, {
+      query: operations.login,
+      variables: { email: userInput.email, password: 'new-password123' },
+    });
+
+    // Assert
+    expect(token).toBeDefined();
+    expect(resetResponse.errors).toBeUndefined();
+    expect(resetResponse.data?.resetPassword).toBe(true);
+    expect(oldLogin.errors?.[0]?.message).toBe('Invalid credentials');
+    expect(newLogin.errors).toBeUndefined();
+  });
+
+  it('should not reveal whether an account exists', async () => {
+    // Act
+    const response = await executeOperation(server, {
+      query: operations.requestPasswordReset,
+      variables: { email: 'nobody@example.com' },
+    });
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data?.requestPasswordReset).toBe(true);
+    expect(await OutboxMessage.countDocuments()).toBe(0);
+  });
+
+  it('should accept a reset token only once', async () => {
+    // Arrange
+    await executeOperation(server, { query: operations.registerUser, variables: { userInput } });
+    const token = await requestReset();
+
+    // Act
+    await resetPassword(token!);
+    const reuse = await resetPassword(token!, 'another-password');
+
+    // Assert
+    expect(reuse.errors?.[0]?.message).toBe('Invalid or expired password reset token');
+  });
+
+  it('should invalidate earlier reset tokens when a new one is requested', async () => {
+    // Arrange
+    await executeOperation(server, { query: operations.registerUser, variables: { userInput } });
+    const firstToken = await requestReset();
+    const secondToken = await requestReset();
+
+    // Act
+    const firstResponse = await resetPassword(firstToken!);
+    const secondResponse = await resetPassword(secondToken!);
+
+    // Assert
+    expect(firstResponse.errors?.[0]?.extensions.code).toBe('BAD_USER_INPUT');
+    expect(secondResponse.errors).toBeUndefined();
+  });
+
+  it('should revoke existing sessions', async () => {
+    // Arrange
+    const registerResponse = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput },
+    });
+    const { token: accessToken } = registerResponse.data.createUser;
+    const resetToken = await requestReset();
+
+    // Act
+    await resetPassword(resetToken!);
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.getMe },
+      accessToken,
+    );
+
+    // Assert
+    expect(response.errors?.[0]?.extensions.code).toBe('UNAUTHENTICATED');
+  });
+});
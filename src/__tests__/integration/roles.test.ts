@@ -0,0 +1,311 @@
+import { ApolloServer } from '@apollo/server';
+
+import { Event } from '../../models/Event.js';
+import { User } from '../../models/User.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  createTestUser,
+  createTestEvent,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Role-Based Access Control Integration Tests', () => {
+  let server: ApolloServer;
+
+  const eventInput = {
+    title: 'Moderated Event',
+    description: 'Edited by someone else',
+    date: '2023-01-01',
+    time: '14:00',
+    location: 'Test Location',
+  };
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const createUsers = async () => {
+    const creator = await createTestUser({
+      name: 'Creator',
+      email: 'creator@example.com',
+      password: 'password123',
+    });
+    const moderator = await createTestUser({
+      name: 'Moderator',
+      email: 'moderator@example.com',
+      password: 'password123',
+      role: 'moderator',
+    });
+    const admin = await createTestUser({
+      name: 'Admin',
+      email: 'admin@example.com',
+      password: 'password123',
+      role: 'admin',
+    });
+    return { creator, moderator, admin };
+  };
+
+  describe('Event management', () => {
+    it('should let an admin edit any event', async () => {
+      // Arrange
+      const { creator, admin } = await createUsers();
+      const event = await createTestEvent(creator.user.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.updateEvent, variables: { id: event.id, eventInput } },
+        admin.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.updateEvent.title).toBe(eventInput.title);
+    });
+
+    it('should not let a moderator edit an event they did not create', async () => {
+      // Arrange
+      const { creator, moderator } = await createUsers();
+      const event = await createTestEvent(creator.user.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.updateEvent, variables: { id: event.id, eventInput } },
+        moderator.token,
+      );
+
+      // Assert
+      expect(response.errors![0].extensions.code).toBe('FORBIDDEN');
+    });
+
+    it('should let a moderator delete any event', async () => {
+      // Arrange
+      const { creator, moderator } = await createUsers();
+      const event = await createTestEvent(creator.user.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteEvent, variables: { id: event.id } },
+        moderator.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.deleteEvent).toBe(true);
+      expect(await Event.findById(event.id)).toBeNull();
+    });
+
+    it('should not let a regular user delete an event they did not create', async () => {
+      // Arrange
+      const { creator } = await createUsers();
+      const other = await createTestUser({
+        name: 'Other',
+        email: 'other@example.com',
+        password: 'password123',
+      });
+      const event = await createTestEvent(creator.user.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteEvent, variables: { id: event.id } },
+        other.token,
+      );
+
+      // Assert
+      expect(response.errors![0].extensions.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should leave no events or attendee lists pointing at a deleted user', async () => {
+      // Arrange
+      const { creator, moderator } = await createUsers();
+      const upcoming = await createTestEvent(creator.user.id, {
+        ...eventInput,
+        date: new Date('2999-01-01'),
+      });
+      upcoming.attendees = [moderator.user.id];
+      await upcoming.save();
+      const attended = await createTestEvent(moderator.user.id);
+      attended.attendees = [creator.user.id];
+      attended.waitlist = [creator.user.id];
+      await attended.save();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteUser },
+        creator.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(await Event.countDocuments({ creator: creator.user.id })).toBe(0);
+      const onAttendeeLists = {
+        $or: [{ attendees: creator.user.id }, { waitlist: creator.user.id }],
+      };
+      expect(await Event.countDocuments(onAttendeeLists).setOptions({ withDeleted: true })).toBe(0);
+      const cancelled = await Event.findById(upcoming.id).setOptions({ withDeleted: true });
+      expect(cancelled?.status).toBe('cancelled');
+    });
+
+    it('should hand events over to another user when asked to', async () => {
+      // Arrange
+      const { creator, moderator } = await createUsers();
+      const event = await createTestEvent(creator.user.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteUser, variables: { transferEventsTo: moderator.user.id } },
+        creator.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      const transferred = await Event.findById(event.id);
+      expect(transferred?.creator.toString()).toBe(moderator.user.id);
+    });
+
+    it('should keep the account when events cannot be transferred', async () => {
+      // Arrange
+      const { creator } = await createUsers();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.deleteUser, variables: { transferEventsTo: creator.user.id } },
+        creator.token,
+      );
+
+      // Assert
+      expect(response.errors![0].extensions.code).toBe('BAD_USER_INPUT');
+      expect(await User.findById(creator.user.id)).not.toBeNull();
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should let an admin restore a deleted user along with their events', async () => {
+      // Arrange
+      const { creator, admin } = await createUsers();
+      const event = await createTestEvent(creator.user.id);
+      await executeAuthenticatedOperation(server, { query: operations.deleteUser }, creator.token);
+      const deletedEvent = await Event.findById(event.id);
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.restoreUser, variables: { userId: creator.user.id } },
+        admin.token,
+      );
+
+      // Assert
+      expect(deletedEvent).toBeNull();
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.restoreUser.email).toBe('creator@example.com');
+      expect(await Event.findById(event.id)).not.toBeNull();
+    });
+
+    it('should not restore users past the retention window', async () => {
+      // Arrange
+      const { creator, admin } = await createUsers();
+      await User.updateOne({ _id: creator.user.id }, { deletedAt: new Date('2000-01-01') });
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        { query: operations.restoreUser, variables: { userId: creator.user.id } },
+        admin.token,
+      );
+
+      // Assert
+      expect(response.errors![0].extensions.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('setUserRole', () => {
+    it('should let an admin promote a user and revoke their sessions', async () => {
+      // Arrange
+      const { creator, admin } = await createUsers();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.setUserRole,
+          variables: { userId: creator.user.id, role: 'MODERATOR' },
+        },
+        admin.token,
+      );
+
+      // Assert
+      expect(response.errors).toBeUndefined();
+      expect(response.data?.setUserRole.role).toBe('MODERATOR');
+      expect((await User.findById(creator.user.id))!.role).toBe('moderator');
+
+      const meResponse = await executeAuthenticatedOperation(
+        server,
+        { query: operations.getMe },
+        creator.token,
+      );
+      expect(meResponse.errors![0].message).toContain('Authentication required');
+    });
+
+    it('should not let a moderator change roles', async () => {
+      // Arrange
+      const { creator, moderator } = await createUsers();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.setUserRole,
+          variables: { userId: creator.user.id, role: 'ADMIN' },
+        },
+        moderator.token,
+      );
+
+      // Assert
+      expect(response.errors![0].extensions.code).toBe('FORBIDDEN');
+      expect((await User.findById(creator.user.id))!.role).toBe('user');
+    });
+
+    it('should not let an admin change their own role', async () => {
+      // Arrange
+      const { admin } = await createUsers();
+
+      // Act
+      const response = await executeAuthenticatedOperation(
+        server,
+        {
+          query: operations.setUserRole,
+          variables: { userId: admin.user.id, role: 'USER' },
+        },
+        admin.token,
+      );
+
+      // Assert
+      expect(response.errors![0].message).toContain('You cannot change your own role');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { ApolloServer } from '@apollo/server';
+
+import { generateTotpCode } from '../../utils/totp.js';
+import {
+  initializeDatabase,
+  closeDatabase,
+  clearDatabase,
+  createTestServer,
+  executeOperation,
+  executeAuthenticatedOperation,
+  operations,
+} from '../utils/testServer.js';
+
+describe('Two-Factor Authentication Integration Tests', () => {
+  let server: ApolloServer;
+
+  const userInput = {
+    name: 'Organizer',
+    email: 'organizer@example.com',
+    password: 'password123',
+  };
+
+  // Set up the database and server before all tests
+  beforeAll(async () => {
+    await initializeDatabase();
+    server = createTestServer();
+  });
+
+  // Clear the database between tests
+  afterEach(async () => {
+    await clearDatabase();
+  });
+
+  // Close the database connection after all tests
+  afterAll(async () => {
+    await server.stop();
+    await closeDatabase();
+  });
+
+  const login = () =>
+    executeOperation(server, {
+      query: operations.login,
+      variables: { email: userInput.email, password: userInput.password },
+    });
+
+  // Register a user and turn on 2FA, returning the secret and recovery codes
+  const setUpTwoFactor = async (): Promise<{
+    token: string;
+    secret: string;
+    recoveryCodes: string[];
+  }> => {
+    const registerResponse = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput },
+    });
+    const { token } = registerResponse.data.createUser;
+
+    const enableResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.enableTwoFactor },
+      token,
+    );
+    const { secret, recoveryCodes } = enableResponse.data.enableTwoFactor;
+
+    await executeAuthenticatedOperation(
+      server,
+      { query: operations.confirmTwoFactor, variables: { code: generateTotpCode(secret) } },
+      token,
+    );
+
+    return { token, secret, recoveryCodes };
+  };
+
+  it('should return an otpauth URI and recovery codes when enabling', async () => {
+    // Arrange
+    const registerResponse = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput },
+    });
+
+    // Act
+    const response = await executeAuthenticatedOperation(
+      server,
+      { query: operations.enableTwoFactor },
+      registerResponse.data.createUser.token,
+    );
+
+    // Assert
+    expect(response.errors).toBeUndefined();
+    expect(response.data?.enableTwoFactor.otpauthUri).toMatch(/^otpauth:\/\/totp\/EventFlow:/);
+    expect(response.data?.enableTwoFactor.recoveryCodes).toHaveLength(10);
+  });
+
+  it('should keep single-step login until 2FA is confirmed', async () => {
+    // Arrange
+    const registerResponse = await executeOperation(server, {
+      query: operations.registerUser,
+      variables: { userInput },
+    });
+    await executeAuthenticatedOperation(
+      server,
+      { query: operations.enableTwoFactor },
+      registerResponse.data.createUser.token,
+    );
+
+    // Act
+    const response = await login();
+
+    // Assert
+    expect(response.data?.login.__typename).toBe('AuthData');
+  });
+
+  it('should require a second factor to log in once enabled', async () => {
+    // Arrange
+    const { recoveryCodes } = await setUpTwoFactor();
+
+    // Act
+    const loginResponse = await login();
+    const { challengeId } = loginResponse.data.login;
+    const completeResponse = await executeOperation(server, {
+      query: operations.completeTwoFactorLogin,
+      variables: { challengeId, code: recoveryCodes[0] },
+    });
+    const replayResponse = await executeOperation(server, {
+      query: operations.completeTwoFactorLogin,
+      variables: { challengeId, code: recoveryCodes[1] },
+    });
+
+    // Assert
+    expect(loginResponse.data?.login.__typename).toBe('TwoFactorChallenge');
+    expect(loginResponse.data?.login.token).toBeUndefined();
+    expect(completeResponse.errors).toBeUndefined();
+    expect(completeResponse.data?.completeTwoFactorLogin.token).toBeDefined();
+    expect(replayResponse.errors?.[0]?.message).toBe('Invalid or expired two-factor challenge');
+  });
+
+  it('should not accept the same code twice', async () => {
+    // Arrange
+    const { secret } = await setUpTwoFactor();
+    const loginResponse = await login();
+
+    // Act: the code used to confirm 2FA is still within its time step
+    const response = await executeOperation(server, {
+      query: operations.completeTwoFactorLogin,
+      variables: {
+        challengeId: loginResponse.data.login.challengeId,
+        code: generateTotpCode(secret),
+      },
+    });
+
+    // Assert
+    expect(response.errors?.[0]?.message).toBe('Invalid two-factor code');
+  });
+
+  it('should accept each recovery code only once', async () => {
+    // Arrange
+    const { recoveryCodes } = await setUpTwoFactor();
+    const firstLogin = await login();
+    await executeOperation(server, {
+      query: operations.completeTwoFactorLogin,
+      variables: { challengeId: firstLogin.data.login.challengeId, code: recoveryCodes[0] },
+    });
+
+    // Act
+    const secondLogin = await login();
+    const response = await executeOperation(server, {
+      query: operations.completeTwoFactorLogin,
+      variables: { challengeId: secondLogin.data.login.challengeId, code: recoveryCodes[0] },
+    });
+
+    // Assert
+    expect(response.errors?.[0]?.message).toBe('Invalid two-factor code');
+  });
+
+  it('should return to single-step login after disabling', async () => {
+    // Arrange
+    const { token, recoveryCodes } = await setUpTwoFactor();
+
+    // Act
+    const disableResponse = await executeAuthenticatedOperation(
+      server,
+      { query: operations.disableTwoFactor, variables: { code: recoveryCodes[0] } },
+      token,
+    );
+    const loginResponse = await login();
+
+    // Assert
+    expect(disableResponse.errors).toBeUndefined();
+    expect(loginResponse.data?.login.__typename).toBe('AuthData');
+  });
+});
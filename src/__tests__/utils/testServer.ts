@@ -1,22 +1,31 @@
 import { ApolloServer } from '@apollo/server';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { PubSub } from 'graphql-subscriptions';
-import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
 import mongoose from 'mongoose';
 
+import { authDirectivesTransformer } from '../../graphql/directives.js';
+import { globalIdTransformer } from '../../graphql/globalIds.js';
 import { resolvers } from '../../graphql/resolvers.js';
+import { formatScalarError } from '../../graphql/scalars.js';
 import { typeDefs } from '../../graphql/typeDefs.js';
 import { Event } from '../../models/Event.js';
+import type { UserRole } from '../../models/User.js';
 import { User } from '../../models/User.js';
-import { generateToken, getUserFromToken } from '../../utils/auth.js';
+import { getUserFromRequest } from '../../utils/auth.js';
 import { createLoaders } from '../../utils/dataLoaders.js';
+import { createSession } from '../../utils/sessions.js';
 
-// Create a test database
-let mongoServer: MongoMemoryServer;
+// Query the way the server does, so filters that would not survive sanitizing fail here too
+mongoose.set('strictQuery', true);
+mongoose.set('sanitizeFilter', true);
+
+// Create a test database; a replica set, so that transactions work
+let mongoServer: MongoMemoryReplSet;
 
 // Initialize the database
 export const initializeDatabase = async (): Promise<void> => {
-  mongoServer = await MongoMemoryServer.create();
+  mongoServer = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
   const uri = mongoServer.getUri();
   await mongoose.connect(uri);
 };
@@ -38,7 +47,7 @@ export const clearDatabase = async (): Promise<void> => {
 
 // Create a test user and return the user and token
 export const createTestUser = async (
-  userData = {
+  userData: { name: string; email: string; password: string; role?: UserRole } = {
     name: 'Test User',
     email: 'test@example.com',
     password: 'password123',
@@ -46,7 +55,11 @@ export const createTestUser = async (
 ): Promise<{ user: any; token: string }> => {
   const user = new User(userData);
   const savedUser = await user.save();
-  const token = generateToken({ id: savedUser._id.toString(), email: savedUser.email });
+  const { token } = await createSession({
+    id: savedUser._id.toString(),
+    email: savedUser.email,
+    role: savedUser.role,
+  });
   return { user: savedUser, token };
 };
 
@@ -62,6 +75,8 @@ export const createTestEvent = async (
   },
 ): Promise<any> => {
   const event = new Event({
+    // Test events are scheduled in UTC
+    startsAt: new Date(`${eventData.date.toISOString().slice(0, 10)}T${eventData.time}:00Z`),
     ...eventData,
     creator: creatorId,
     attendees: [],
@@ -71,10 +86,13 @@ export const createTestEvent = async (
 
 // Create a test Apollo Server
 export const createTestServer = (): ApolloServer => {
-  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  const schema = globalIdTransformer(
+    authDirectivesTransformer(makeExecutableSchema({ typeDefs, resolvers })),
+  );
 
   return new ApolloServer({
     schema,
+    formatError: formatScalarError,
   });
 };
 
@@ -88,7 +106,8 @@ export const executeOperation = async (
 ): Promise<any> => {
   const pubsub = new PubSub();
   const loaders = createLoaders();
-  const user = token ? getUserFromToken(token) : null;
+  // `token` may also be an `ApiKey <key>` credential
+  const user = token ? await getUserFromRequest(token) : null;
 
   const response = await server.executeOperation(operation, {
     contextValue: {
@@ -144,15 +163,174 @@ export const operations = {
         userId
         token
         tokenExpiration
+        refreshToken
+        refreshTokenExpiration
       }
     }
   `,
   login: `
-    mutation Login($email: String!, $password: String!) {
+    mutation Login($email: EmailAddress!, $password: String!) {
       login(email: $email, password: $password) {
+        __typename
+        ... on AuthData {
+          userId
+          token
+          tokenExpiration
+          refreshToken
+          refreshTokenExpiration
+        }
+        ... on TwoFactorChallenge {
+          challengeId
+          expiresIn
+        }
+      }
+    }
+  `,
+  completeTwoFactorLogin: `
+    mutation CompleteTwoFactorLogin($challengeId: String!, $code: String!) {
+      completeTwoFactorLogin(challengeId: $challengeId, code: $code) {
         userId
         token
         tokenExpiration
+        refreshToken
+        refreshTokenExpiration
+      }
+    }
+  `,
+  enableTwoFactor: `
+    mutation EnableTwoFactor {
+      enableTwoFactor {
+        secret
+        otpauthUri
+        recoveryCodes
+      }
+    }
+  `,
+  confirmTwoFactor: `
+    mutation ConfirmTwoFactor($code: String!) {
+      confirmTwoFactor(code: $code)
+    }
+  `,
+  disableTwoFactor: `
+    mutation DisableTwoFactor($code: String!) {
+      disableTwoFactor(code: $code)
+    }
+  `,
+  refreshToken: `
+    mutation RefreshToken($refreshToken: String!) {
+      refreshToken(refreshToken: $refreshToken) {
+        userId
+        token
+        tokenExpiration
+        refreshToken
+        refreshTokenExpiration
+      }
+    }
+  `,
+  logout: `
+    mutation Logout {
+      logout
+    }
+  `,
+  logoutAllSessions: `
+    mutation LogoutAllSessions {
+      logoutAllSessions
+    }
+  `,
+  verifyEmail: `
+    mutation VerifyEmail($token: String!) {
+      verifyEmail(token: $token) {
+        id
+        emailVerified
+      }
+    }
+  `,
+  resendVerificationEmail: `
+    mutation ResendVerificationEmail {
+      resendVerificationEmail
+    }
+  `,
+  requestPasswordReset: `
+    mutation RequestPasswordReset($email: EmailAddress!) {
+      requestPasswordReset(email: $email)
+    }
+  `,
+  resetPassword: `
+    mutation ResetPassword($token: String!, $newPassword: String!) {
+      resetPassword(token: $token, newPassword: $newPassword)
+    }
+  `,
+  setUserRole: `
+    mutation SetUserRole($userId: ID!, $role: Role!) {
+      setUserRole(userId: $userId, role: $role) {
+        id
+        role
+      }
+    }
+  `,
+  deleteUser: `
+    mutation DeleteUser($transferEventsTo: ID) {
+      deleteUser(transferEventsTo: $transferEventsTo)
+    }
+  `,
+  restoreUser: `
+    mutation RestoreUser($userId: ID!) {
+      restoreUser(userId: $userId) {
+        id
+        email
+      }
+    }
+  `,
+  unlockAccount: `
+    mutation UnlockAccount($userId: ID!) {
+      unlockAccount(userId: $userId)
+    }
+  `,
+  myApiKeys: `
+    query MyApiKeys {
+      myApiKeys {
+        id
+        name
+        prefix
+        scopes
+        lastUsedAt
+      }
+    }
+  `,
+  createApiKey: `
+    mutation CreateApiKey($apiKeyInput: ApiKeyInput!) {
+      createApiKey(apiKeyInput: $apiKeyInput) {
+        apiKey {
+          id
+          name
+          prefix
+          scopes
+        }
+        key
+      }
+    }
+  `,
+  updateApiKey: `
+    mutation UpdateApiKey($id: ID!, $apiKeyInput: UpdateApiKeyInput!) {
+      updateApiKey(id: $id, apiKeyInput: $apiKeyInput) {
+        id
+        name
+        scopes
+      }
+    }
+  `,
+  revokeApiKey: `
+    mutation RevokeApiKey($id: ID!) {
+      revokeApiKey(id: $id)
+    }
+  `,
+  updatePrivacySettings: `
+    mutation UpdatePrivacySettings($privacyInput: PrivacySettingsInput!) {
+      updatePrivacySettings(privacyInput: $privacyInput) {
+        id
+        privacy {
+          email
+        }
       }
     }
   `,
@@ -167,6 +345,23 @@ export const operations = {
       }
     }
   `,
+  getUserEvents: `
+    query GetUserEvents($id: ID!, $filter: UserEventFilter, $first: Int, $after: String) {
+      user(id: $id) {
+        events(filter: $filter, first: $first, after: $after) {
+          nodes {
+            id
+            title
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          totalCount
+        }
+      }
+    }
+  `,
   getMe: `
     query GetMe {
       me {
@@ -181,22 +376,37 @@ export const operations = {
 
   // Event operations
   createEvent: `
-    mutation CreateEvent($eventInput: EventInput!) {
-      createEvent(eventInput: $eventInput) {
+    mutation CreateEvent($eventInput: EventInput!, $draft: Boolean) {
+      createEvent(eventInput: $eventInput, draft: $draft) {
         id
         title
+        status
         description
         date
         time
+        timeZone
+        startsAt
+        endsAt
         location
         imageUrl
+        tags
+        geoLocation {
+          lat
+          lng
+        }
+        address {
+          city
+          country
+        }
         creator {
           id
           name
         }
         attendees {
-          id
-          name
+          nodes {
+            id
+            name
+          }
         }
         createdAt
         updatedAt
@@ -217,29 +427,73 @@ export const operations = {
           id
           name
         }
+        attendeeCount
         attendees {
-          id
-          name
+          nodes {
+            id
+            name
+          }
         }
         createdAt
         updatedAt
       }
     }
   `,
+  getEventAttendees: `
+    query GetEventAttendees($id: ID!, $first: Int, $after: String) {
+      event(id: $id) {
+        attendeeCount
+        attendees(first: $first, after: $after) {
+          nodes {
+            id
+            name
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          totalCount
+        }
+      }
+    }
+  `,
   getEvents: `
-    query GetEvents($pagination: PaginationInput) {
-      events(pagination: $pagination) {
+    query GetEvents(
+      $pagination: PaginationInput
+      $first: Int
+      $after: String
+      $last: Int
+      $before: String
+      $range: DateRangeInput
+    ) {
+      events(
+        pagination: $pagination
+        first: $first
+        after: $after
+        last: $last
+        before: $before
+        range: $range
+      ) {
         edges {
-          id
-          title
-          description
-          date
-          time
-          location
+          cursor
+          node {
+            id
+            title
+            description
+            date
+            time
+            location
+            occurrenceDate
+            series {
+              id
+            }
+          }
         }
         pageInfo {
           hasNextPage
           hasPreviousPage
+          startCursor
+          endCursor
           currentPage
           totalPages
         }
@@ -247,27 +501,240 @@ export const operations = {
       }
     }
   `,
-  attendEvent: `
-    mutation AttendEvent($eventId: ID!) {
-      attendEvent(eventId: $eventId) {
+  search: `
+    query Search($query: String!, $pagination: PaginationInput) {
+      search(query: $query, pagination: $pagination) {
+        edges {
+          event {
+            id
+            title
+          }
+          score
+          highlights {
+            field
+            snippet
+            matches {
+              start
+              end
+            }
+          }
+        }
+        totalCount
+      }
+    }
+  `,
+  eventsNear: `
+    query EventsNear($lat: Float!, $lng: Float!, $radiusKm: Float!) {
+      eventsNear(lat: $lat, lng: $lng, radiusKm: $radiusKm) {
+        edges {
+          event {
+            id
+            title
+          }
+          distanceKm
+        }
+        totalCount
+      }
+    }
+  `,
+  eventsInBounds: `
+    query EventsInBounds($bounds: BoundsInput!) {
+      eventsInBounds(bounds: $bounds) {
+        nodes {
+          id
+          title
+        }
+        totalCount
+      }
+    }
+  `,
+  searchEvents: `
+    query SearchEvents(
+      $filter: EventFilter
+      $sort: [EventSort!]
+      $pagination: PaginationInput
+      $first: Int
+      $after: String
+    ) {
+      searchEvents(
+        filter: $filter
+        sort: $sort
+        pagination: $pagination
+        first: $first
+        after: $after
+      ) {
+        nodes {
+          id
+          title
+          location
+          tags
+          status
+          startsAt
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        totalCount
+      }
+    }
+  `,
+  getEventsByDate: `
+    query GetEventsByDate($date: Date!, $timeZone: String) {
+      eventsByDate(date: $date, timeZone: $timeZone) {
+        nodes {
+          id
+          title
+          location
+          occurrenceDate
+          startsAt
+        }
+        totalCount
+      }
+    }
+  `,
+  updateEvent: `
+    mutation UpdateEvent($id: ID!, $eventInput: EventInput!, $occurrenceDate: Date) {
+      updateEvent(id: $id, eventInput: $eventInput, occurrenceDate: $occurrenceDate) {
         id
         title
+        location
+        occurrenceDate
+        recurrence {
+          rule
+          exceptions
+        }
+      }
+    }
+  `,
+  deleteEvent: `
+    mutation DeleteEvent($id: ID!, $occurrenceDate: Date) {
+      deleteEvent(id: $id, occurrenceDate: $occurrenceDate)
+    }
+  `,
+  restoreEvent: `
+    mutation RestoreEvent($id: ID!) {
+      restoreEvent(id: $id) {
+        id
+        title
+      }
+    }
+  `,
+  publishEvent: `
+    mutation PublishEvent($id: ID!) {
+      publishEvent(id: $id) {
+        id
+        status
+      }
+    }
+  `,
+  cancelEvent: `
+    mutation CancelEvent($id: ID!, $reason: String, $occurrenceDate: Date) {
+      cancelEvent(id: $id, reason: $reason, occurrenceDate: $occurrenceDate) {
+        id
+        status
+        cancellationReason
         attendees {
+          nodes {
+            id
+          }
+        }
+      }
+    }
+  `,
+  postponeEvent: `
+    mutation PostponeEvent($id: ID!, $newDate: Date, $occurrenceDate: Date) {
+      postponeEvent(id: $id, newDate: $newDate, occurrenceDate: $occurrenceDate) {
+        id
+        status
+        date
+        startsAt
+        endsAt
+      }
+    }
+  `,
+  attendEvent: `
+    mutation AttendEvent($eventId: ID!, $occurrenceDate: Date) {
+      attendEvent(eventId: $eventId, occurrenceDate: $occurrenceDate) {
+        status
+        waitlistPosition
+        event {
           id
-          name
+          title
+          occurrenceDate
+          series {
+            id
+          }
+          capacity
+          availableSeats
+          attendees {
+            nodes {
+              id
+              name
+            }
+          }
+          waitlist {
+            id
+          }
         }
       }
     }
   `,
   cancelAttendance: `
-    mutation CancelAttendance($eventId: ID!) {
-      cancelAttendance(eventId: $eventId) {
+    mutation CancelAttendance($eventId: ID!, $occurrenceDate: Date) {
+      cancelAttendance(eventId: $eventId, occurrenceDate: $occurrenceDate) {
         id
         title
         attendees {
+          nodes {
+            id
+            name
+          }
+        }
+        waitlist {
+          id
+        }
+      }
+    }
+  `,
+  myScheduleConflicts: `
+    query MyScheduleConflicts {
+      myScheduleConflicts {
+        event {
           id
+          title
+          conflictsWith {
+            id
+          }
+        }
+        conflictsWith {
+          id
+          title
+        }
+      }
+    }
+  `,
+
+  // Node operations
+  getNode: `
+    query GetNode($id: ID!) {
+      node(id: $id) {
+        __typename
+        id
+        ... on User {
           name
         }
+        ... on Event {
+          title
+        }
+      }
+    }
+  `,
+  getNodes: `
+    query GetNodes($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        __typename
+        id
       }
     }
   `,
@@ -0,0 +1,319 @@
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { graphql } from 'graphql';
+
+import { config } from '../../config.js';
+import { User } from '../../models/User.js';
+import { authDirectivesTransformer } from '../directives.js';
+import { findEventOrThrow } from '../resolvers/helpers/eventHelpers.js';
+
+jest.mock('../resolvers/helpers/eventHelpers', () => ({
+  findEventOrThrow: jest.fn(),
+}));
+
+jest.mock('../../models/User', () => ({
+  User: {
+    exists: jest.fn(),
+  },
+}));
+
+const typeDefs = `
+  directive @auth on OBJECT | FIELD_DEFINITION
+  directive @hasRole(role: Role!) on OBJECT | FIELD_DEFINITION
+  directive @owner(
+    field: String = "creator"
+    arg: String = "id"
+    overrideRole: Role = ADMIN
+  ) on FIELD_DEFINITION
+  directive @private(setting: String) on FIELD_DEFINITION
+  directive @verified on FIELD_DEFINITION
+  directive @scope(requires: ApiKeyScope!) on FIELD_DEFINITION
+
+  enum ApiKeyScope {
+    READ
+    EVENTS_WRITE
+  }
+
+  enum Role {
+    USER
+    MODERATOR
+    ADMIN
+  }
+
+  type Account @auth {
+    id: ID!
+    secret: String @owner(field: "id")
+  }
+
+  type Profile {
+    email: String @private(setting: "email")
+    notes: String @private
+  }
+
+  type Query {
+    public: String
+    private: String @auth
+    adminOnly: String @hasRole(role: ADMIN)
+    account: Account
+    profiles: [Profile!]!
+    verifiedOnly: String @auth @verified
+  }
+
+  type Mutation {
+    editEvent(id: ID!): Boolean @owner
+    removeEvent(id: ID!): Boolean @owner(overrideRole: MODERATOR)
+    publishEvent: Boolean @auth @scope(requires: EVENTS_WRITE)
+    changePassword: Boolean @auth
+  }
+`;
+
+const resolvers = {
+  Role: { USER: 'user', MODERATOR: 'moderator', ADMIN: 'admin' },
+  ApiKeyScope: { READ: 'read', EVENTS_WRITE: 'events:write' },
+  Query: {
+    public: () => 'public',
+    private: () => 'private',
+    adminOnly: () => 'admin',
+    account: () => ({ id: 'owner-id', secret: 'secret' }),
+    verifiedOnly: () => 'verified',
+    profiles: () => [
+      { _id: 'hidden-id', email: 'hidden@example.com', notes: 'hidden', privacy: {} },
+      {
+        _id: 'public-id',
+        email: 'public@example.com',
+        notes: 'public',
+        privacy: { email: 'public' },
+      },
+    ],
+  },
+  Mutation: {
+    editEvent: () => true,
+    removeEvent: () => true,
+    publishEvent: () => true,
+    changePassword: () => true,
+  },
+};
+
+const schema = authDirectivesTransformer(makeExecutableSchema({ typeDefs, resolvers }));
+
+const asUser = (id: string, role: 'user' | 'moderator' | 'admin' = 'user') => ({
+  user: { id, email: `${id}@example.com`, role, sessionId: 'session-1' },
+});
+
+const asApiKey = (id: string, scopes: string[]) => ({
+  user: { id, email: `${id}@example.com`, role: 'user', apiKey: { id: 'key-1', scopes } },
+});
+
+const run = (source: string, contextValue: Record<string, unknown> = {}) =>
+  graphql({ schema, source, contextValue });
+
+describe('Auth directives', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('@auth', () => {
+    it('should leave undecorated fields public', async () => {
+      const result = await run('{ public }');
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['public']).toBe('public');
+    });
+
+    it('should reject anonymous access', async () => {
+      const result = await run('{ private }');
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('UNAUTHENTICATED');
+    });
+
+    it('should allow authenticated access', async () => {
+      const result = await run('{ private }', asUser('user-1'));
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['private']).toBe('private');
+    });
+
+    it('should guard every field of a decorated type', async () => {
+      const result = await run('{ account { id } }');
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('UNAUTHENTICATED');
+    });
+  });
+
+  describe('@hasRole', () => {
+    it('should reject users without the role', async () => {
+      const result = await run('{ adminOnly }', asUser('user-1', 'moderator'));
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should allow users with the role', async () => {
+      const result = await run('{ adminOnly }', asUser('user-1', 'admin'));
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['adminOnly']).toBe('admin');
+    });
+  });
+
+  describe('@owner', () => {
+    it('should check the parent object on type fields', async () => {
+      const owner = await run('{ account { secret } }', asUser('owner-id'));
+      const other = await run('{ account { secret } }', asUser('other-id'));
+
+      expect(owner.errors).toBeUndefined();
+      expect(other.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should load the event from the argument on root fields', async () => {
+      (findEventOrThrow as jest.Mock).mockResolvedValue({ creator: 'owner-id' });
+
+      const result = await run('mutation { editEvent(id: "event-1") }', asUser('owner-id'));
+
+      expect(findEventOrThrow).toHaveBeenCalledWith('event-1');
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['editEvent']).toBe(true);
+    });
+
+    it('should reject users who do not own the event', async () => {
+      (findEventOrThrow as jest.Mock).mockResolvedValue({ creator: 'owner-id' });
+
+      const result = await run('mutation { editEvent(id: "event-1") }', asUser('other-id'));
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should let the override role bypass ownership', async () => {
+      (findEventOrThrow as jest.Mock).mockResolvedValue({ creator: 'owner-id' });
+
+      const edit = await run(
+        'mutation { editEvent(id: "event-1") }',
+        asUser('moderator-id', 'moderator'),
+      );
+      const remove = await run(
+        'mutation { removeEvent(id: "event-1") }',
+        asUser('moderator-id', 'moderator'),
+      );
+
+      expect(edit.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+      expect(remove.errors).toBeUndefined();
+    });
+
+    it('should require authentication before loading the event', async () => {
+      const result = await run('mutation { editEvent(id: "event-1") }');
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('UNAUTHENTICATED');
+      expect(findEventOrThrow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('@private', () => {
+    it('should redact private fields for other users', async () => {
+      const result = await run('{ profiles { email notes } }', asUser('other-id'));
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['profiles']).toEqual([
+        { email: null, notes: null },
+        { email: 'public@example.com', notes: null },
+      ]);
+    });
+
+    it('should resolve private fields for the user themself', async () => {
+      const result = await run('{ profiles { email notes } }', asUser('hidden-id'));
+
+      expect(result.data?.['profiles']).toEqual([
+        { email: 'hidden@example.com', notes: 'hidden' },
+        { email: 'public@example.com', notes: null },
+      ]);
+    });
+
+    it('should resolve private fields for admins', async () => {
+      const result = await run('{ profiles { email } }', asUser('admin-id', 'admin'));
+
+      expect(result.data?.['profiles']).toEqual([
+        { email: 'hidden@example.com' },
+        { email: 'public@example.com' },
+      ]);
+    });
+  });
+
+  describe('@verified', () => {
+    afterEach(() => {
+      config.emailVerification.required = false;
+    });
+
+    it('should not check the email while verification is optional', async () => {
+      const result = await run('{ verifiedOnly }', asUser('user-1'));
+
+      expect(result.data?.['verifiedOnly']).toBe('verified');
+      expect(User.exists).not.toHaveBeenCalled();
+    });
+
+    it('should reject unverified users while verification is required', async () => {
+      config.emailVerification.required = true;
+      (User.exists as jest.Mock).mockResolvedValue(null);
+
+      const result = await run('{ verifiedOnly }', asUser('user-1'));
+
+      expect(User.exists).toHaveBeenCalledWith({ _id: 'user-1', emailVerified: true });
+      expect(result.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should allow verified users while verification is required', async () => {
+      config.emailVerification.required = true;
+      (User.exists as jest.Mock).mockResolvedValue({ _id: 'user-1' });
+
+      const result = await run('{ verifiedOnly }', asUser('user-1'));
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['verifiedOnly']).toBe('verified');
+    });
+
+    it('should check authentication before verification', async () => {
+      config.emailVerification.required = true;
+
+      const result = await run('{ verifiedOnly }');
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('UNAUTHENTICATED');
+      expect(User.exists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('@scope', () => {
+    it('should let API keys read without a scope', async () => {
+      const result = await run('{ private }', asApiKey('user-1', ['read']));
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['private']).toBe('private');
+    });
+
+    it('should reject API keys without the required scope', async () => {
+      const result = await run('mutation { publishEvent }', asApiKey('user-1', ['read']));
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should allow API keys with the required scope', async () => {
+      const result = await run(
+        'mutation { publishEvent }',
+        asApiKey('user-1', ['read', 'events:write']),
+      );
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.['publishEvent']).toBe(true);
+    });
+
+    it('should reject API keys on mutations without a scope', async () => {
+      const result = await run(
+        'mutation { changePassword }',
+        asApiKey('user-1', ['read', 'events:write']),
+      );
+
+      expect(result.errors?.[0]?.extensions['code']).toBe('FORBIDDEN');
+    });
+
+    it('should not restrict signed in users', async () => {
+      const result = await run('mutation { changePassword }', asUser('user-1'));
+
+      expect(result.errors).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { graphql } from 'graphql';
+import { Types } from 'mongoose';
+
+import { toGlobalId } from '../../utils/globalId.js';
+import { globalIdTransformer } from '../globalIds.js';
+
+const typeDefs = `
+  interface Node {
+    id: ID!
+  }
+
+  type Item implements Node {
+    id: ID!
+  }
+
+  input ItemFilter {
+    ownerIds: [ID!]
+    name: String
+  }
+
+  type Query {
+    node(id: ID!): Node
+    item(id: ID!, label: String): String
+    items(filter: ItemFilter): String
+    count: Int
+  }
+`;
+
+const received: Record<string, unknown>[] = [];
+
+const record = (_: unknown, args: Record<string, unknown>): string => {
+  received.push(args);
+  return 'ok';
+};
+
+const schema = globalIdTransformer(
+  makeExecutableSchema({
+    typeDefs,
+    resolvers: {
+      Query: {
+        node: (_: unknown, args: Record<string, unknown>) => {
+          received.push(args);
+          return null;
+        },
+        item: record,
+        items: record,
+        count: () => 1,
+      },
+      Node: {
+        __resolveType: () => 'Item',
+      },
+    },
+  }),
+);
+
+const run = (source: string) => graphql({ schema, source });
+
+const objectId = new Types.ObjectId().toString();
+
+describe('Global ID transformer', () => {
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it('should hand resolvers the ObjectId behind a global ID', async () => {
+    // Act
+    const result = await run(`{ item(id: "${toGlobalId('User', objectId)}", label: "x") }`);
+
+    // Assert
+    expect(result.errors).toBeUndefined();
+    expect(received).toEqual([{ id: objectId, label: 'x' }]);
+  });
+
+  it('should pass raw ObjectIds and other strings through unchanged', async () => {
+    // Act
+    await run(`{ a: item(id: "${objectId}") b: item(id: "nonexistent-id") }`);
+
+    // Assert
+    expect(received).toEqual([{ id: objectId }, { id: 'nonexistent-id' }]);
+  });
+
+  it('should decode IDs inside input objects and lists', async () => {
+    // Act
+    await run(`{ items(filter: { ownerIds: ["${toGlobalId('User', objectId)}"], name: "a" }) }`);
+
+    // Assert
+    expect(received).toEqual([{ filter: { ownerIds: [objectId], name: 'a' } }]);
+  });
+
+  it('should leave the IDs given to node as they are', async () => {
+    // Arrange
+    const globalId = toGlobalId('Event', objectId);
+
+    // Act
+    await run(`{ node(id: "${globalId}") { id } }`);
+
+    // Assert
+    expect(received).toEqual([{ id: globalId }]);
+  });
+});
@@ -0,0 +1,182 @@
+import { GraphQLError, Kind } from 'graphql';
+
+import {
+  DateScalar,
+  DateTime,
+  EmailAddress,
+  formatScalarError,
+  LocalTime,
+  UrlScalar,
+} from '../scalars.js';
+
+describe('Scalars', () => {
+  describe('DateTime', () => {
+    it('should serialize dates as ISO strings in UTC', () => {
+      // Act & Assert
+      expect(DateTime.serialize(new Date('2030-01-15T18:00:00+01:00'))).toBe(
+        '2030-01-15T17:00:00.000Z',
+      );
+    });
+
+    it('should parse ISO strings with a UTC offset', () => {
+      // Act & Assert
+      expect(DateTime.parseValue('2030-01-15T18:00:00-05:00')).toEqual(
+        new Date('2030-01-15T23:00:00Z'),
+      );
+      expect(DateTime.parseLiteral({ kind: Kind.STRING, value: '2030-01-15T18:00Z' })).toEqual(
+        new Date('2030-01-15T18:00:00Z'),
+      );
+    });
+
+    it.each([
+      '2030-01-15',
+      '2030-01-15T18:00:00',
+      '2030-13-45T18:00:00Z',
+      '2030-02-31T18:00:00Z',
+      'tomorrow',
+      1234,
+    ])('should reject %p', value => {
+      // Act & Assert
+      expect(() => DateTime.parseValue(value)).toThrow(GraphQLError);
+    });
+
+    it('should reject literals that are not strings', () => {
+      // Act
+      const parse = () => DateTime.parseLiteral({ kind: Kind.INT, value: '1234' });
+
+      // Assert
+      expect(parse).toThrow(
+        expect.objectContaining({ extensions: { code: 'BAD_USER_INPUT' } }) as Error,
+      );
+    });
+  });
+
+  describe('Date', () => {
+    it('should serialize stored days and calendar dates as YYYY-MM-DD', () => {
+      // Act & Assert
+      expect(DateScalar.serialize(new Date('2030-01-15'))).toBe('2030-01-15');
+      expect(DateScalar.serialize('2030-01-15')).toBe('2030-01-15');
+    });
+
+    it('should parse calendar dates from variables and literals', () => {
+      // Act & Assert
+      expect(DateScalar.parseValue('2030-01-15')).toBe('2030-01-15');
+      expect(DateScalar.parseLiteral({ kind: Kind.STRING, value: '2028-02-29' })).toBe(
+        '2028-02-29',
+      );
+    });
+
+    it.each(['2030-02-31', '2030-1-15', '2030-01-15T00:00:00Z', '', 20300115])(
+      'should reject %p',
+      value => {
+        // Act & Assert
+        expect(() => DateScalar.parseValue(value)).toThrow(
+          expect.objectContaining({ extensions: { code: 'BAD_USER_INPUT' } }) as Error,
+        );
+      },
+    );
+
+    it('should refuse to serialize anything but a calendar date', () => {
+      // Act & Assert
+      expect(() => DateScalar.serialize(new Date('invalid'))).toThrow(GraphQLError);
+      expect(() => DateScalar.serialize('1672531200000')).toThrow(GraphQLError);
+    });
+  });
+
+  describe('LocalTime', () => {
+    it('should parse and serialize 24-hour times', () => {
+      // Act & Assert
+      expect(LocalTime.parseValue('18:30')).toBe('18:30');
+      expect(LocalTime.serialize('00:00')).toBe('00:00');
+    });
+
+    it.each(['24:00', '9:30', '18:30:00', 'after lunch'])('should reject %p', value => {
+      // Act & Assert
+      expect(() => LocalTime.parseValue(value)).toThrow(GraphQLError);
+    });
+  });
+
+  describe('EmailAddress', () => {
+    it('should parse email addresses', () => {
+      // Act & Assert
+      expect(EmailAddress.parseValue('ada@example.com')).toBe('ada@example.com');
+      expect(EmailAddress.parseLiteral({ kind: Kind.STRING, value: 'a.b+c@mail.example.co' })).toBe(
+        'a.b+c@mail.example.co',
+      );
+    });
+
+    it.each([
+      'invalid-email',
+      'ada@example',
+      'ada@@example.com',
+      ' ada@example.com',
+      'ada@example..com',
+      `${'a'.repeat(250)}@example.com`,
+    ])('should reject %p', value => {
+      // Act & Assert
+      expect(() => EmailAddress.parseValue(value)).toThrow(GraphQLError);
+    });
+
+    it('should serialize stored addresses as they are', () => {
+      // Act & Assert
+      expect(EmailAddress.serialize('ada@example')).toBe('ada@example');
+      expect(() => EmailAddress.serialize(42)).toThrow(GraphQLError);
+    });
+  });
+
+  describe('URL', () => {
+    it('should parse absolute http and https URLs as they were given', () => {
+      // Act & Assert
+      expect(UrlScalar.parseValue('https://example.com/image.png')).toBe(
+        'https://example.com/image.png',
+      );
+      expect(UrlScalar.parseValue('http://example.com')).toBe('http://example.com');
+    });
+
+    it.each(['javascript:alert(1)', 'ftp://example.com/file', '/images/event.png', 'example.com'])(
+      'should reject %p',
+      value => {
+        // Act & Assert
+        expect(() => UrlScalar.parseValue(value)).toThrow(GraphQLError);
+      },
+    );
+
+    it('should refuse to serialize stored values that are not URLs', () => {
+      // Act & Assert
+      expect(() => UrlScalar.serialize('not a url')).toThrow(GraphQLError);
+    });
+  });
+
+  describe('formatScalarError', () => {
+    it('should report invalid literals as bad user input', () => {
+      // Arrange
+      let parseError: unknown;
+      try {
+        EmailAddress.parseLiteral({ kind: Kind.STRING, value: 'invalid-email' });
+      } catch (err) {
+        parseError = err;
+      }
+      const validationError = new GraphQLError('Invalid email', {
+        originalError: parseError as Error,
+        extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+      });
+
+      // Act
+      const formatted = formatScalarError(
+        { message: 'Invalid email', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } },
+        validationError,
+      );
+
+      // Assert
+      expect(formatted.extensions).toEqual({ code: 'BAD_USER_INPUT' });
+    });
+
+    it('should leave other errors alone', () => {
+      // Arrange
+      const formattedError = { message: 'Oops', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } };
+
+      // Act & Assert
+      expect(formatScalarError(formattedError, new GraphQLError('Oops'))).toBe(formattedError);
+    });
+  });
+});
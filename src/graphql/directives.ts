@@ -0,0 +1,188 @@
+import { getDirective, MapperKind, mapSchema } from '@graphql-tools/utils';
+import { defaultFieldResolver, GraphQLError } from 'graphql';
+import type { GraphQLFieldConfig, GraphQLFieldResolver, GraphQLSchema } from 'graphql';
+
+import { config } from '../config.js';
+import type { ApiKeyScope } from '../models/ApiKey.js';
+import type { IPrivacySettings, UserRole } from '../models/User.js';
+import { User } from '../models/User.js';
+import { hasRole, requireAuth, requireRole } from '../utils/auth.js';
+
+import { checkIsOwner } from './resolvers/helpers/authHelpers.js';
+import { findEventOrThrow } from './resolvers/helpers/eventHelpers.js';
+
+interface Context {
+  user?: {
+    id: string;
+    email: string;
+    role: UserRole;
+    sessionId?: string;
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
+  };
+}
+
+interface OwnerDirectiveArgs {
+  field: string;
+  arg: string;
+  overrideRole: UserRole;
+}
+
+interface PrivateDirectiveArgs {
+  setting?: keyof IPrivacySettings;
+}
+
+type Resolver = GraphQLFieldResolver<unknown, Context>;
+
+/**
+ * Subscriptions are authorized once when subscribing; regular fields on every resolve
+ */
+const guardField = (
+  fieldConfig: GraphQLFieldConfig<unknown, Context>,
+  guard: (resolver: Resolver) => Resolver,
+): GraphQLFieldConfig<unknown, Context> => {
+  if (fieldConfig.subscribe) {
+    return { ...fieldConfig, subscribe: guard(fieldConfig.subscribe) };
+  }
+  return { ...fieldConfig, resolve: guard(fieldConfig.resolve ?? defaultFieldResolver) };
+};
+
+/**
+ * Root fields look the owned event up from the `arg` argument; fields on object
+ * types check ownership of the parent object itself.
+ */
+const requireOwner =
+  ({ field, arg, overrideRole }: OwnerDirectiveArgs, isRootField: boolean) =>
+  (resolver: Resolver): Resolver =>
+  async (source, args, context, info) => {
+    if (!context.user) {
+      throw new GraphQLError('Authentication required', {
+        extensions: { code: 'UNAUTHENTICATED' },
+      });
+    }
+
+    const resource = (isRootField ? await findEventOrThrow(String(args[arg])) : source) as Record<
+      string,
+      unknown
+    >;
+
+    checkIsOwner(resource[field], context.user, overrideRole);
+
+    return resolver(source, args, context, info);
+  };
+
+/**
+ * Resolve personal fields only for the user themself, admins, or when the user's
+ * privacy `setting` makes the field public; everyone else gets null.
+ */
+const redactUnlessPermitted =
+  ({ setting }: PrivateDirectiveArgs) =>
+  (resolver: Resolver): Resolver =>
+  (source, args, context, info) => {
+    const owner = source as { _id?: unknown; privacy?: Partial<IPrivacySettings> };
+    const isPublic = setting !== undefined && owner.privacy?.[setting] === 'public';
+    const isSelf = String(owner._id) === context.user?.id;
+
+    if (isPublic || isSelf || hasRole(context.user, 'admin')) {
+      return resolver(source, args, context, info);
+    }
+    return null;
+  };
+
+/**
+ * Only users who verified their email address may use the field, when
+ * `REQUIRE_EMAIL_VERIFICATION` is on. The flag is read from the database so that
+ * verifying takes effect without signing in again.
+ */
+const requireVerifiedEmail =
+  (resolver: Resolver): Resolver =>
+  async (source, args, context, info) => {
+    if (config.emailVerification.required) {
+      if (!context.user) {
+        throw new GraphQLError('Authentication required', {
+          extensions: { code: 'UNAUTHENTICATED' },
+        });
+      }
+
+      const isVerified = await User.exists({ _id: context.user.id, emailVerified: true });
+      if (!isVerified) {
+        throw new GraphQLError('Please verify your email address first', {
+          extensions: { code: 'FORBIDDEN' },
+        });
+      }
+    }
+
+    return resolver(source, args, context, info);
+  };
+
+/**
+ * API keys may read anything their owner can, but only run mutations marked with
+ * `@scope` for one of the key's scopes. Account management is therefore left to
+ * signed in users, and a leaked key cannot be used to mint new keys.
+ */
+const requireApiKeyScope =
+  (scope: ApiKeyScope | undefined) =>
+  (resolver: Resolver): Resolver =>
+  (source, args, context, info) => {
+    const apiKey = context.user?.apiKey;
+    if (apiKey && !(scope && apiKey.scopes.includes(scope))) {
+      throw new GraphQLError('This API key is not allowed to perform this operation', {
+        extensions: { code: 'FORBIDDEN' },
+      });
+    }
+    return resolver(source, args, context, info);
+  };
+
+/**
+ * Enforce the `@auth`, `@hasRole`, `@owner`, `@private`, `@verified` and `@scope` directives
+ * declared in the SDL. `@auth` and `@hasRole` may also be placed on an object type to guard
+ * all of its fields. `@verified` is checked after whichever of the others applies.
+ */
+export const authDirectivesTransformer = (schema: GraphQLSchema): GraphQLSchema => {
+  const rootTypeNames = new Set(
+    [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()]
+      .filter(type => type != null)
+      .map(type => type.name),
+  );
+
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, _fieldName, typeName) => {
+      const objectType = schema.getType(typeName);
+      const getDirectiveArgs = (name: string): Record<string, unknown> | undefined =>
+        getDirective(schema, fieldConfig, name)?.[0] ??
+        (objectType ? getDirective(schema, objectType, name)?.[0] : undefined);
+
+      const privateArgs = getDirective(schema, fieldConfig, 'private')?.[0];
+      if (privateArgs) {
+        return guardField(fieldConfig, redactUnlessPermitted(privateArgs as PrivateDirectiveArgs));
+      }
+
+      let guardedConfig = getDirective(schema, fieldConfig, 'verified')?.[0]
+        ? guardField(fieldConfig, requireVerifiedEmail)
+        : fieldConfig;
+
+      if (typeName === schema.getMutationType()?.name) {
+        const scopeArgs = getDirective(schema, fieldConfig, 'scope')?.[0];
+        guardedConfig = guardField(
+          guardedConfig,
+          requireApiKeyScope(scopeArgs?.['requires'] as ApiKeyScope | undefined),
+        );
+      }
+
+      const owner = getDirectiveArgs('owner') as OwnerDirectiveArgs | undefined;
+      if (owner) {
+        return guardField(guardedConfig, requireOwner(owner, rootTypeNames.has(typeName)));
+      }
+
+      const roleArgs = getDirectiveArgs('hasRole') as { role: UserRole } | undefined;
+      if (roleArgs) {
+        return guardField(guardedConfig, resolver => requireRole(roleArgs.role)(resolver));
+      }
+
+      if (getDirectiveArgs('auth')) {
+        return guardField(guardedConfig, resolver => requireAuth(resolver));
+      }
+
+      return guardedConfig;
+    },
+  });
+};
@@ -0,0 +1,93 @@
+import { MapperKind, mapSchema } from '@graphql-tools/utils';
+import { getNamedType, getNullableType, isInputObjectType, isListType } from 'graphql';
+import type {
+  GraphQLFieldConfig,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldResolver,
+  GraphQLInputType,
+  GraphQLSchema,
+} from 'graphql';
+
+import { fromGlobalId } from '../utils/globalId.js';
+
+type Resolver = GraphQLFieldResolver<unknown, unknown>;
+
+const isIdType = (type: GraphQLInputType): boolean => getNamedType(type).name === 'ID';
+
+/**
+ * Whether a value of the type can hold an ID, either itself or in a field of an input
+ */
+const containsId = (type: GraphQLInputType, seen = new Set<string>()): boolean => {
+  const named = getNamedType(type);
+  if (isIdType(named)) {
+    return true;
+  }
+  if (!isInputObjectType(named) || seen.has(named.name)) {
+    return false;
+  }
+  seen.add(named.name);
+  return Object.values(named.getFields()).some(field => containsId(field.type, seen));
+};
+
+/**
+ * Replace the global IDs in an argument value with the ObjectIds they stand for. Anything
+ * else is left as it is, such as raw ObjectIds and the IDs of types that are not nodes.
+ */
+const decodeIds = (value: unknown, type: GraphQLInputType): unknown => {
+  if (value == null) {
+    return value;
+  }
+
+  const nullableType = getNullableType(type);
+  if (isListType(nullableType)) {
+    return (value as unknown[]).map(item => decodeIds(item, nullableType.ofType));
+  }
+  if (isInputObjectType(nullableType)) {
+    const fields = nullableType.getFields();
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([name, fieldValue]) => {
+        const field = fields[name];
+        return [name, field ? decodeIds(fieldValue, field.type) : fieldValue];
+      }),
+    );
+  }
+  if (isIdType(nullableType) && typeof value === 'string') {
+    return fromGlobalId(value)?.id ?? value;
+  }
+  return value;
+};
+
+const decodeArgs =
+  (argTypes: GraphQLFieldConfigArgumentMap, resolver: Resolver): Resolver =>
+  (source, args: Record<string, unknown>, context, info) => {
+    const decodedArgs = Object.fromEntries(
+      Object.entries(args).map(([name, value]) => {
+        const argType = argTypes[name]?.type;
+        return [name, argType ? decodeIds(value, argType) : value];
+      }),
+    );
+    return resolver(source, decodedArgs, context, info);
+  };
+
+/**
+ * Let resolvers keep looking objects up by ObjectId while clients pass the global IDs
+ * they were given. Fields that resolve nodes by global ID, such as `node`, get the IDs
+ * as they are, since they need the type the ID names.
+ */
+export const globalIdTransformer = (schema: GraphQLSchema): GraphQLSchema =>
+  mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig: GraphQLFieldConfig<unknown, unknown>) => {
+      const args = fieldConfig.args ?? {};
+      const hasIds = Object.values(args).some(arg => containsId(arg.type));
+      if (!hasIds || getNamedType(fieldConfig.type).name === 'Node') {
+        return fieldConfig;
+      }
+
+      if (fieldConfig.subscribe) {
+        return { ...fieldConfig, subscribe: decodeArgs(args, fieldConfig.subscribe) };
+      }
+      return fieldConfig.resolve
+        ? { ...fieldConfig, resolve: decodeArgs(args, fieldConfig.resolve) }
+        : fieldConfig;
+    },
+  });
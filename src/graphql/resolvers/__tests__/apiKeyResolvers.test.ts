@@ -0,0 +1,125 @@
+import { Types } from 'mongoose';
+
+import { ApiKey } from '../../../models/ApiKey.js';
+import * as apiKeys from '../../../utils/apiKeys.js';
+import { apiKeyResolvers } from '../apiKeyResolvers.js';
+
+jest.mock('../../../models/ApiKey');
+jest.mock('../../../utils/apiKeys');
+
+describe('API Key Resolvers', () => {
+  const context = {
+    user: { id: '1', email: 'test@example.com', role: 'user' as const, sessionId: 'session-1' },
+  };
+  const apiKeyId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('myApiKeys', () => {
+    it("should list the user's active keys, newest first", async () => {
+      // Arrange
+      const keys = [{ _id: apiKeyId, name: 'CI' }];
+      const sort = jest.fn().mockResolvedValue(keys);
+      (ApiKey.find as jest.Mock).mockReturnValue({ sort });
+
+      // Act
+      const result = await apiKeyResolvers.Query.myApiKeys(null, {}, context);
+
+      // Assert
+      expect(ApiKey.find).toHaveBeenCalledWith({ user: '1', revokedAt: null });
+      expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(result).toBe(keys);
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should create a key for the current user', async () => {
+      // Arrange
+      const created = { apiKey: { _id: apiKeyId, name: 'CI' }, key: 'efk_secret' };
+      (apiKeys.createApiKey as jest.Mock).mockResolvedValue(created);
+
+      // Act
+      const result = await apiKeyResolvers.Mutation.createApiKey(
+        null,
+        { apiKeyInput: { name: '  CI  ', scopes: ['events:write'] } },
+        context,
+      );
+
+      // Assert
+      expect(apiKeys.createApiKey).toHaveBeenCalledWith('1', 'CI', ['events:write']);
+      expect(result).toBe(created);
+    });
+
+    it('should reject blank names', async () => {
+      // Act & Assert
+      await expect(
+        apiKeyResolvers.Mutation.createApiKey(null, { apiKeyInput: { name: ' ' } }, context),
+      ).rejects.toMatchObject({ extensions: { code: 'BAD_USER_INPUT' } });
+      expect(apiKeys.createApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateApiKey', () => {
+    it('should only update keys owned by the current user', async () => {
+      // Arrange
+      const updated = { _id: apiKeyId, name: 'Deploy', scopes: ['read'] };
+      (ApiKey.findOneAndUpdate as jest.Mock).mockResolvedValue(updated);
+
+      // Act
+      const result = await apiKeyResolvers.Mutation.updateApiKey(
+        null,
+        { id: apiKeyId, apiKeyInput: { name: 'Deploy', scopes: [] } },
+        context,
+      );
+
+      // Assert
+      expect(ApiKey.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: apiKeyId, user: '1', revokedAt: null },
+        { name: 'Deploy', scopes: ['read'] },
+        { new: true },
+      );
+      expect(result).toBe(updated);
+    });
+
+    it('should throw NOT_FOUND for keys of other users', async () => {
+      // Arrange
+      (ApiKey.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        apiKeyResolvers.Mutation.updateApiKey(
+          null,
+          { id: apiKeyId, apiKeyInput: { name: 'Deploy' } },
+          context,
+        ),
+      ).rejects.toMatchObject({ extensions: { code: 'NOT_FOUND' } });
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should revoke an active key of the current user', async () => {
+      // Arrange
+      (ApiKey.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+      // Act
+      const result = await apiKeyResolvers.Mutation.revokeApiKey(null, { id: apiKeyId }, context);
+
+      // Assert
+      expect(ApiKey.updateOne).toHaveBeenCalledWith(
+        { _id: apiKeyId, user: '1', revokedAt: null },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should throw NOT_FOUND for malformed ids without querying', async () => {
+      // Act & Assert
+      await expect(
+        apiKeyResolvers.Mutation.revokeApiKey(null, { id: 'not-an-id' }, context),
+      ).rejects.toMatchObject({ extensions: { code: 'NOT_FOUND' } });
+      expect(ApiKey.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,29 +1,35 @@
 import { GraphQLError } from 'graphql';
-import mongoose from 'mongoose';
+import mongoose, { trusted } from 'mongoose';
 
+import { config } from '../../../config.js';
 import { Event } from '../../../models/Event.js';
 import type { IEvent } from '../../../models/Event.js';
 import type { IUser } from '../../../models/User.js';
-import type { Loaders } from '../../../utils/dataLoaders.js';
+import { User } from '../../../models/User.js';
+import type { Loaders, RelatedList } from '../../../utils/dataLoaders.js';
+import { toGlobalId } from '../../../utils/globalId.js';
+import { paginateQuery } from '../../../utils/pagination.js';
 import { eventResolvers } from '../eventResolvers.js';
+import { publicEventFilter, seatAvailableFilter } from '../helpers/eventHelpers.js';
 
 jest.mock('../../../models/Event');
 jest.mock('../../../models/User');
-jest.doMock('../../../utils/auth', () => ({
-  ...jest.requireActual('../../../utils/auth'),
-  requireAuth: jest.fn(resolver => resolver),
-}));
 jest.mock('../../../utils/pagination', () => ({
+  ...jest.requireActual('../../../utils/pagination'),
   paginateQuery: jest.fn().mockImplementation(async () => {
+    const event = { id: '1', title: 'Test Event' };
     return {
-      edges: [{ id: '1', title: 'Test Event' }],
+      edges: [{ cursor: 'cursor-1', node: event }],
+      nodes: [event],
       pageInfo: {
         hasNextPage: false,
         hasPreviousPage: false,
+        startCursor: 'cursor-1',
+        endCursor: 'cursor-1',
         currentPage: 1,
-        totalPages: 1,
+        totalPages: async () => 1,
       },
-      totalCount: 1,
+      totalCount: async () => 1,
     };
   }),
 }));
@@ -36,9 +42,8 @@ type ContextWithMocks = EventContext & {
   mocks: {
     eventLoaderLoad: LoadFn<IEvent | null>;
     userLoaderLoad: LoadFn<IUser | null>;
-    eventAttendeesLoaderLoad: LoadFn<IUser[]>;
-    userEventsLoaderLoad: LoadFn<IEvent[]>;
-    userAttendingEventsLoaderLoad: LoadFn<IEvent[]>;
+    userEventsLoaderLoad: LoadFn<RelatedList>;
+    userAttendingEventsLoaderLoad: LoadFn<RelatedList>;
   };
 };
 
@@ -56,16 +61,12 @@ const createEventInput = (
 const createContext = (overrides: Partial<EventContext> = {}): ContextWithMocks => {
   const eventLoaderLoad: LoadFn<IEvent | null> = jest.fn();
   const userLoaderLoad: LoadFn<IUser | null> = jest.fn();
-  const eventAttendeesLoaderLoad: LoadFn<IUser[]> = jest.fn();
-  const userEventsLoaderLoad: LoadFn<IEvent[]> = jest.fn();
-  const userAttendingEventsLoaderLoad: LoadFn<IEvent[]> = jest.fn();
+  const userEventsLoaderLoad: LoadFn<RelatedList> = jest.fn();
+  const userAttendingEventsLoaderLoad: LoadFn<RelatedList> = jest.fn();
 
   const loaders = {
     eventLoader: { load: eventLoaderLoad } as unknown as Loaders['eventLoader'],
     userLoader: { load: userLoaderLoad } as unknown as Loaders['userLoader'],
-    eventAttendeesLoader: {
-      load: eventAttendeesLoaderLoad,
-    } as unknown as Loaders['eventAttendeesLoader'],
     userEventsLoader: { load: userEventsLoaderLoad } as unknown as Loaders['userEventsLoader'],
     userAttendingEventsLoader: {
       load: userAttendingEventsLoaderLoad,
@@ -75,14 +76,13 @@ const createContext = (overrides: Partial<EventContext> = {}): ContextWithMocks
   const pubsub = { publish: jest.fn() } as unknown as EventContext['pubsub'];
 
   return {
-    user: { id: '1', email: 'test@example.com' },
+    user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
     loaders,
     pubsub,
     ...overrides,
     mocks: {
       eventLoaderLoad,
       userLoaderLoad,
-      eventAttendeesLoaderLoad,
       userEventsLoaderLoad,
       userAttendingEventsLoaderLoad,
     },
@@ -102,12 +102,13 @@ describe('Event Resolvers', () => {
 
         const result = await eventResolvers.Query.events(null, {});
 
-        expect(Event.find).toHaveBeenCalled();
-        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1 });
+        expect(Event.find).toHaveBeenCalledWith(publicEventFilter);
+        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, startsAt: 1, _id: 1 });
         expect(result).toEqual({
           edges: expect.any(Array),
+          nodes: expect.any(Array),
           pageInfo: expect.any(Object),
-          totalCount: expect.any(Number),
+          totalCount: expect.any(Function),
         });
       });
 
@@ -120,6 +121,51 @@ describe('Event Resolvers', () => {
           'Error fetching events',
         );
       });
+
+      it('should page through occurrences of a series by cursor', async () => {
+        // Arrange
+        const series = {
+          _id: new mongoose.Types.ObjectId(),
+          title: 'Standup',
+          date: new Date('2022-12-05'),
+          time: '09:00',
+          timeZone: 'UTC',
+          startsAt: new Date('2022-12-05T09:00:00Z'),
+          endsAt: null,
+          status: 'published',
+          recurrence: { rule: 'FREQ=DAILY', exceptions: [] },
+          toObject() {
+            return { ...this };
+          },
+        };
+        const findOnce = (): void => {
+          (Event.find as jest.Mock) = jest
+            .fn()
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([series]);
+        };
+
+        // Act
+        const range = { from: '2023-01-02', to: '2023-01-05' };
+        findOnce();
+        const first = await eventResolvers.Query.events(null, { range, first: 2 });
+        findOnce();
+        const rest = await eventResolvers.Query.events(null, {
+          range,
+          first: 2,
+          after: first.pageInfo.endCursor,
+        });
+
+        // Assert
+        const startTimes = (page: typeof first): Date[] => page.nodes.map(event => event.startsAt);
+        expect(startTimes(first)).toEqual([
+          new Date('2023-01-02T09:00:00Z'),
+          new Date('2023-01-03T09:00:00Z'),
+        ]);
+        expect(first.pageInfo).toMatchObject({ hasNextPage: true, currentPage: null });
+        expect(startTimes(rest)).toEqual([new Date('2023-01-04T09:00:00Z')]);
+        expect(rest.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+      });
     });
 
     describe('event', () => {
@@ -143,23 +189,395 @@ describe('Event Resolvers', () => {
 
         expect(result).toBeNull();
       });
+
+      it('should only show drafts to their creator', async () => {
+        // Arrange
+        const creatorId = new mongoose.Types.ObjectId();
+        const draft = { _id: '1', status: 'draft', creator: creatorId } as unknown as IEvent;
+        const creatorContext = createContext({
+          user: { id: creatorId.toString(), email: 'a@example.com', role: 'user' },
+        });
+        const otherContext = createContext();
+        creatorContext.mocks.eventLoaderLoad.mockResolvedValueOnce(draft);
+        otherContext.mocks.eventLoaderLoad.mockResolvedValueOnce(draft);
+
+        // Act & Assert
+        expect(await eventResolvers.Query.event(null, { id: '1' }, creatorContext)).toBe(draft);
+        expect(await eventResolvers.Query.event(null, { id: '1' }, otherContext)).toBeNull();
+      });
     });
 
-    describe('eventsByDate', () => {
-      it('should return events for a specific date', async () => {
+    describe('search', () => {
+      it('should rank events by relevance and show where they matched', async () => {
+        // Arrange
         const mockSort = jest.fn().mockReturnThis();
         (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+        const event = {
+          title: 'Jazz Night',
+          description: 'Live music by the river',
+          location: 'Berlin',
+          get: jest.fn().mockReturnValue(2.5),
+        };
+        (paginateQuery as jest.Mock).mockResolvedValueOnce({
+          edges: [{ cursor: null, node: event }],
+          nodes: [event],
+          pageInfo: { hasNextPage: false, hasPreviousPage: false, currentPage: 1 },
+          totalCount: async () => 1,
+        });
 
-        const date = '2023-01-01';
-
-        await eventResolvers.Query.eventsByDate(null, { date });
+        // Act
+        const result = await eventResolvers.Query.search(null, {
+          query: 'jazz "live music" -brunch',
+        });
 
+        // Assert
+        const textScore = { score: { $meta: 'textScore' } };
         expect(Event.find).toHaveBeenCalledWith(
+          { $text: trusted({ $search: 'jazz "live music" -brunch' }), ...publicEventFilter },
+          textScore,
+        );
+        expect(mockSort).toHaveBeenCalledWith({ ...textScore, _id: 1 });
+        expect(event.get).toHaveBeenCalledWith('score');
+        expect(result.edges).toEqual([
+          {
+            event,
+            score: 2.5,
+            highlights: [
+              { field: 'title', snippet: 'Jazz Night', matches: [{ start: 0, end: 4 }] },
+              {
+                field: 'description',
+                snippet: 'Live music by the river',
+                matches: [{ start: 0, end: 10 }],
+              },
+            ],
+          },
+        ]);
+        expect(await result.totalCount()).toBe(1);
+      });
+
+      it.each([
+        ['only exclusions', '-brunch -"open air"', 'Search for at least one word or phrase'],
+        ['too many characters', 'jazz '.repeat(41), 'Searches can be at most 200 characters long'],
+      ])('should reject searches with %s', async (_case, query, message) => {
+        await expect(eventResolvers.Query.search(null, { query })).rejects.toThrow(
+          new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } }),
+        );
+      });
+
+      it('should handle errors', async () => {
+        (Event.find as jest.Mock).mockImplementation(() => {
+          throw new Error('Database error');
+        });
+        await expect(eventResolvers.Query.search(null, { query: 'jazz' })).rejects.toThrow(
+          'Error searching events',
+        );
+      });
+    });
+
+    describe('eventsNear', () => {
+      it('should list events by distance within the radius', async () => {
+        // Arrange
+        const hydrated = { id: '1', title: 'Jazz Night' };
+        (Event.aggregate as jest.Mock).mockResolvedValueOnce([
+          { edges: [{ _id: '1', title: 'Jazz Night', distance: 1250 }], total: [{ count: 1 }] },
+        ]);
+        (Event.hydrate as jest.Mock).mockReturnValueOnce(hydrated);
+
+        // Act
+        const result = await eventResolvers.Query.eventsNear(null, {
+          lat: 52.52,
+          lng: 13.405,
+          radiusKm: 5,
+        });
+
+        // Assert
+        const [[geoNear]] = (Event.aggregate as jest.Mock).mock.calls[0];
+        expect(geoNear.$geoNear).toEqual({
+          near: { type: 'Point', coordinates: [13.405, 52.52] },
+          distanceField: 'distance',
+          maxDistance: 5000,
+          spherical: true,
+          query: { ...publicEventFilter, deletedAt: null },
+        });
+        expect(Event.hydrate).toHaveBeenCalledWith({ _id: '1', title: 'Jazz Night' });
+        expect(result.edges).toEqual([{ event: hydrated, distanceKm: 1.25 }]);
+        expect(await result.totalCount()).toBe(1);
+      });
+
+      it.each([
+        [{ lat: 91, lng: 0, radiusKm: 5 }, 'Latitude must be between -90 and 90 degrees'],
+        [{ lat: 0, lng: -181, radiusKm: 5 }, 'Longitude must be between -180 and 180 degrees'],
+        [{ lat: 0, lng: 0, radiusKm: 0 }, 'Radius must be more than 0 and at most 500 km'],
+      ])('should reject %p', async (args, message) => {
+        await expect(eventResolvers.Query.eventsNear(null, args)).rejects.toThrow(
+          new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } }),
+        );
+        expect(Event.aggregate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('eventsInBounds', () => {
+      it('should find events positioned within the bounds', async () => {
+        // Arrange
+        const mockSort = jest.fn().mockReturnThis();
+        (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+
+        // Act
+        await eventResolvers.Query.eventsInBounds(
+          null,
+          { bounds: { south: -20, west: 170, north: -10, east: -170 } },
+          createContext(),
+        );
+
+        // Assert
+        const [filter] = (Event.find as jest.Mock).mock.calls[0];
+        const [{ $or: boxes }] = filter.$and;
+        expect(boxes).toHaveLength(2);
+        expect(boxes[0].geoLocation.$geoWithin.$geometry.type).toBe('Polygon');
+        expect(mockSort).toHaveBeenCalledWith({ startsAt: 1, _id: 1 });
+      });
+
+      it('should reject bounds that enclose nothing', async () => {
+        await expect(
+          eventResolvers.Query.eventsInBounds(
+            null,
+            { bounds: { south: 10, west: 0, north: 10, east: 5 } },
+            createContext(),
+          ),
+        ).rejects.toThrow('Bounds must enclose an area, with south below north');
+      });
+    });
+
+    describe('searchEvents', () => {
+      it('should combine filters and sort orders into one query', async () => {
+        // Arrange
+        const mockSort = jest.fn().mockReturnThis();
+        (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+        const creator = new mongoose.Types.ObjectId().toHexString();
+        const attendee = new mongoose.Types.ObjectId().toHexString();
+
+        // Act
+        await eventResolvers.Query.searchEvents(
+          null,
+          {
+            filter: {
+              location: 'Berlin',
+              creator,
+              attendee,
+              tags: [' Music', 'music', 'Outdoor'],
+              text: 'jazz "live music"',
+              hasSeatsLeft: true,
+            },
+            sort: [{ field: 'title', direction: -1 }],
+          },
+          createContext(),
+        );
+
+        // Assert
+        const [filter] = (Event.find as jest.Mock).mock.calls[0];
+        expect(filter).toMatchObject({
+          location: { $regex: 'Berlin', $options: 'i' },
+          creator,
+          attendees: attendee,
+          tags: { $all: ['music', 'outdoor'] },
+          $text: trusted({ $search: 'jazz "live music"' }),
+          ...publicEventFilter,
+        });
+        expect(filter.$and).toEqual([seatAvailableFilter]);
+        expect(mockSort).toHaveBeenCalledWith({ title: -1, startsAt: 1, _id: 1 });
+      });
+
+      it('should only find drafts of the user searching for them', async () => {
+        // Arrange
+        const mockSort = jest.fn().mockReturnThis();
+        (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+        const { user: _user, ...anonymousContext } = createContext();
+
+        // Act
+        await eventResolvers.Query.searchEvents(
+          null,
+          { filter: { status: ['draft', 'cancelled'] } },
+          createContext(),
+        );
+        await eventResolvers.Query.searchEvents(
+          null,
+          { filter: { status: ['draft'] } },
+          anonymousContext,
+        );
+
+        // Assert
+        const [[asCreator], [anonymously]] = (Event.find as jest.Mock).mock.calls;
+        expect(asCreator.$and).toEqual([
+          { $or: [{ status: 'draft', creator: '1' }, { status: 'cancelled' }] },
+        ]);
+        expect(anonymously.$and).toEqual([{ status: trusted({ $in: [] }) }]);
+        expect(mockSort).toHaveBeenCalledWith({ startsAt: 1, _id: 1 });
+      });
+
+      it('should expand series within a date range and sort the occurrences in', async () => {
+        // Arrange
+        const single = {
+          title: 'Book Club',
+          startsAt: new Date('2023-01-03T12:00:00Z'),
+          status: 'published',
+        };
+        const series = {
+          _id: new mongoose.Types.ObjectId(),
+          title: 'Study Group',
+          date: new Date('2022-12-06'),
+          time: '17:00',
+          timeZone: 'UTC',
+          startsAt: new Date('2022-12-06T17:00:00Z'),
+          endsAt: null,
+          status: 'published',
+          recurrence: { rule: 'FREQ=WEEKLY;BYDAY=TU', exceptions: [] },
+          toObject() {
+            return { ...this };
+          },
+        };
+        (Event.find as jest.Mock) = jest
+          .fn()
+          .mockResolvedValueOnce([single])
+          .mockResolvedValueOnce([series]);
+
+        // Act
+        const result = await eventResolvers.Query.searchEvents(
+          null,
+          {
+            filter: { range: { from: '2023-01-01', to: '2023-01-15' }, status: ['completed'] },
+            sort: [{ field: 'title', direction: -1 }],
+          },
+          createContext(),
+        );
+
+        // Assert
+        const [, [seriesFilter]] = (Event.find as jest.Mock).mock.calls;
+        expect(seriesFilter.$and).toEqual([
+          { $or: [{ status: trusted({ $in: ['published', 'postponed'] }) }] },
+        ]);
+        expect(result.nodes.map(event => [event.title, event.startsAt])).toEqual([
+          ['Study Group', new Date('2023-01-03T17:00:00Z')],
+          ['Study Group', new Date('2023-01-10T17:00:00Z')],
+          ['Book Club', single.startsAt],
+        ]);
+      });
+
+      it('should leave series out when looking for attended events', async () => {
+        // Arrange
+        (Event.find as jest.Mock) = jest.fn().mockResolvedValueOnce([]);
+
+        // Act
+        await eventResolvers.Query.searchEvents(
+          null,
+          {
+            filter: {
+              range: { from: '2023-01-01', to: '2023-01-15' },
+              attendee: new mongoose.Types.ObjectId().toHexString(),
+            },
+          },
+          createContext(),
+        );
+
+        // Assert
+        expect(Event.find).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reject invalid user ids', async () => {
+        await expect(
+          eventResolvers.Query.searchEvents(
+            null,
+            { filter: { creator: 'not-an-id' } },
+            createContext(),
+          ),
+        ).rejects.toThrow(
+          new GraphQLError('Invalid user id', { extensions: { code: 'BAD_USER_INPUT' } }),
+        );
+      });
+    });
+
+    describe('eventsByDate', () => {
+      it('should return events for a specific date', async () => {
+        // Arrange
+        const later = { title: 'Later', startsAt: new Date('2023-01-01T18:00:00Z') };
+        const earlier = { title: 'Earlier', startsAt: new Date('2023-01-01T09:00:00Z') };
+        (Event.find as jest.Mock) = jest
+          .fn()
+          .mockResolvedValueOnce([later, earlier])
+          .mockResolvedValueOnce([]);
+
+        // Act
+        const result = await eventResolvers.Query.eventsByDate(null, { date: '2023-01-01' });
+
+        // Assert
+        const [filter] = (Event.find as jest.Mock).mock.calls[0];
+        expect(filter.recurrence).toBeNull();
+        expect(filter.startsAt.$gte).toEqual(new Date('2023-01-01T00:00:00Z'));
+        expect(filter.startsAt.$lt).toEqual(new Date('2023-01-02T00:00:00Z'));
+        expect(result.nodes).toEqual([earlier, later]);
+      });
+
+      it('should cover the day in the requested time zone', async () => {
+        // Arrange
+        (Event.find as jest.Mock) = jest.fn().mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+        // Act
+        await eventResolvers.Query.eventsByDate(null, {
+          date: '2023-01-01',
+          timeZone: 'America/New_York',
+        });
+
+        // Assert
+        const [filter] = (Event.find as jest.Mock).mock.calls[0];
+        expect(filter.startsAt.$gte).toEqual(new Date('2023-01-01T05:00:00Z'));
+        expect(filter.startsAt.$lt).toEqual(new Date('2023-01-02T05:00:00Z'));
+      });
+
+      it('should include occurrences of recurring series', async () => {
+        // Arrange
+        const series = {
+          _id: new mongoose.Types.ObjectId(),
+          title: 'Study Group',
+          date: new Date('2022-12-06'),
+          time: '17:00',
+          timeZone: 'UTC',
+          startsAt: new Date('2022-12-06T17:00:00Z'),
+          endsAt: null,
+          recurrence: { rule: 'FREQ=WEEKLY;BYDAY=TU', exceptions: [] },
+          toObject() {
+            return { ...this };
+          },
+        };
+        (Event.find as jest.Mock) = jest
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([series]);
+
+        // Act
+        const tuesday = await eventResolvers.Query.eventsByDate(null, { date: '2023-01-03' });
+        (Event.find as jest.Mock).mockResolvedValueOnce([]).mockResolvedValueOnce([series]);
+        const wednesday = await eventResolvers.Query.eventsByDate(null, { date: '2023-01-04' });
+
+        // Assert
+        expect(tuesday.nodes).toEqual([
           expect.objectContaining({
-            date: expect.any(Object),
+            title: 'Study Group',
+            date: new Date('2023-01-03'),
+            startsAt: new Date('2023-01-03T17:00:00Z'),
+            occurrenceDate: new Date('2023-01-03'),
+            series: series._id,
+            recurrence: null,
           }),
-        );
-        expect(mockSort).toHaveBeenCalledWith({ time: 1 });
+        ]);
+        expect(wednesday.nodes).toEqual([]);
+      });
+
+      it('should reject invalid dates', async () => {
+        await expect(
+          eventResolvers.Query.eventsByDate(null, { date: 'not a date' }),
+        ).rejects.toThrow('Invalid date provided');
+        await expect(
+          eventResolvers.Query.eventsByDate(null, { date: '2023-01-01', timeZone: 'Nowhere' }),
+        ).rejects.toThrow('Unknown time zone "Nowhere"');
       });
 
       it('should handle errors', async () => {
@@ -181,9 +599,10 @@ describe('Event Resolvers', () => {
         await eventResolvers.Query.eventsByLocation(null, { location });
 
         expect(Event.find).toHaveBeenCalledWith({
-          location: { $regex: location, $options: 'i' },
+          location: trusted({ $regex: location, $options: 'i' }),
+          ...publicEventFilter,
         });
-        expect(mockSort).toHaveBeenCalledWith({ date: 1 });
+        expect(mockSort).toHaveBeenCalledWith({ startsAt: 1, _id: 1 });
       });
 
       it('should handle errors', async () => {
@@ -204,8 +623,8 @@ describe('Event Resolvers', () => {
 
         await eventResolvers.Query.eventsByUser(null, { userId });
 
-        expect(Event.find).toHaveBeenCalledWith({ creator: userId });
-        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1 });
+        expect(Event.find).toHaveBeenCalledWith({ creator: userId, ...publicEventFilter });
+        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, startsAt: 1, _id: 1 });
       });
 
       it('should handle errors', async () => {
@@ -225,22 +644,43 @@ describe('Event Resolvers', () => {
         const mockSort = jest.fn().mockReturnThis();
         (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
 
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
 
-        await eventResolvers.Query.myEvents(null, {}, mockContext, undefined);
+        await eventResolvers.Query.myEvents(null, {}, mockContext);
 
         expect(Event.find).toHaveBeenCalledWith({ creator: '1' });
-        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1 });
+        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, startsAt: 1, _id: 1 });
       });
 
       it('should handle errors', async () => {
         (Event.find as jest.Mock).mockImplementation(() => {
           throw new Error('Database error');
         });
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
+        await expect(eventResolvers.Query.myEvents(null, {}, mockContext)).rejects.toThrow(
+          'Error fetching your events',
+        );
+      });
+
+      it('should pass on errors in the paging arguments', async () => {
+        const mockSort = jest.fn().mockReturnThis();
+        (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+        (paginateQuery as jest.Mock).mockRejectedValueOnce(
+          new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } }),
+        );
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
+
         await expect(
-          eventResolvers.Query.myEvents(null, {}, mockContext, undefined),
-        ).rejects.toThrow('Error fetching your events');
+          eventResolvers.Query.myEvents(null, { first: 2, after: 'not-a-cursor' }, mockContext),
+        ).rejects.toThrow(
+          expect.objectContaining({ extensions: { code: 'BAD_USER_INPUT' } }) as Error,
+        );
       });
     });
 
@@ -248,22 +688,89 @@ describe('Event Resolvers', () => {
       it('should return events the authenticated user is attending', async () => {
         const mockSort = jest.fn().mockReturnThis();
         (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
 
-        await eventResolvers.Query.myAttendingEvents(null, {}, mockContext, undefined);
+        await eventResolvers.Query.myAttendingEvents(null, {}, mockContext);
 
         expect(Event.find).toHaveBeenCalledWith({ attendees: '1' });
-        expect(mockSort).toHaveBeenCalledWith({ date: 1 });
+        expect(mockSort).toHaveBeenCalledWith({ startsAt: 1, _id: 1 });
       });
 
       it('should handle errors', async () => {
         (Event.find as jest.Mock).mockImplementation(() => {
           throw new Error('Database error');
         });
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
+        await expect(eventResolvers.Query.myAttendingEvents(null, {}, mockContext)).rejects.toThrow(
+          'Error fetching events you are attending',
+        );
+      });
+    });
+
+    describe('myScheduleConflicts', () => {
+      const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+      const createScheduledEvent = (title: string, startsAt: Date, endsAt: Date | null) =>
+        ({ _id: new mongoose.Types.ObjectId(), title, startsAt, endsAt }) as unknown as IEvent;
+
+      it('should pair upcoming events that overlap', async () => {
+        // Arrange
+        const talk = createScheduledEvent('Talk', inHours(1), inHours(3));
+        const dinner = createScheduledEvent('Dinner', inHours(2), null);
+        const party = createScheduledEvent('Party', inHours(5), inHours(7));
+        const past = createScheduledEvent('Past', inHours(-3), inHours(-1));
+        const mockContext = createContext();
+        mockContext.mocks.userAttendingEventsLoaderLoad.mockResolvedValueOnce({
+          items: [party, dinner, past, talk],
+          totalCount: 4,
+        });
+
+        // Act
+        const result = await eventResolvers.Query.myScheduleConflicts(null, {}, mockContext);
+
+        // Assert
+        expect(mockContext.mocks.userAttendingEventsLoaderLoad).toHaveBeenCalledWith({ id: '1' });
+        expect(result).toEqual([
+          { event: talk, conflictsWith: [dinner] },
+          { event: dinner, conflictsWith: [talk] },
+        ]);
+      });
+
+      it('should count events without an end as lasting the default duration', async () => {
+        // Arrange
+        const first = createScheduledEvent('First', inHours(1), null);
+        const second = createScheduledEvent('Second', inHours(1.5), null);
+        const third = createScheduledEvent('Third', inHours(2), null);
+        const mockContext = createContext();
+        mockContext.mocks.userAttendingEventsLoaderLoad.mockResolvedValueOnce({
+          items: [first, second, third],
+          totalCount: 3,
+        });
+
+        // Act
+        const result = await eventResolvers.Query.myScheduleConflicts(null, {}, mockContext);
+
+        // Assert
+        expect(config.events.defaultDurationMinutes).toBe(60);
+        expect(result.map(conflict => conflict.conflictsWith)).toEqual([
+          [second],
+          [first, third],
+          [second],
+        ]);
+      });
+
+      it('should handle errors', async () => {
+        const mockContext = createContext();
+        mockContext.mocks.userAttendingEventsLoaderLoad.mockRejectedValueOnce(
+          new Error('DB error'),
+        );
+
         await expect(
-          eventResolvers.Query.myAttendingEvents(null, {}, mockContext, undefined),
-        ).rejects.toThrow('Error fetching events you are attending');
+          eventResolvers.Query.myScheduleConflicts(null, {}, mockContext),
+        ).rejects.toThrow('Error fetching your schedule conflicts');
       });
     });
   });
@@ -274,7 +781,9 @@ describe('Event Resolvers', () => {
         // Arrange
         const eventInput = createEventInput({ title: 'New Event' });
 
-        const fullContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const fullContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
 
         // Mock Event constructor and save
         const mockSave = jest.fn().mockResolvedValue({
@@ -287,18 +796,18 @@ describe('Event Resolvers', () => {
           save: mockSave,
         }));
 
-        const result = await eventResolvers.Mutation.createEvent(
-          null,
-          { eventInput },
-          fullContext,
-          undefined,
-        );
+        const result = await eventResolvers.Mutation.createEvent(null, { eventInput }, fullContext);
 
         // Assert
         expect(Event).toHaveBeenCalledWith({
           ...eventInput,
+          timeZone: 'UTC',
+          startsAt: new Date('2023-01-01T14:00:00Z'),
+          endsAt: null,
           creator: '1',
           attendees: [],
+          waitlist: [],
+          status: 'published',
         });
         expect(mockSave).toHaveBeenCalled();
         expect(fullContext.pubsub.publish).toHaveBeenCalled();
@@ -310,256 +819,1282 @@ describe('Event Resolvers', () => {
         });
       });
 
+      it('should keep drafts to their creator', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const mockSave = jest.fn().mockResolvedValue({ id: '1', status: 'draft' });
+        (Event as unknown as jest.Mock).mockImplementation(() => ({ save: mockSave }));
+
+        // Act
+        await eventResolvers.Mutation.createEvent(
+          null,
+          { eventInput: createEventInput(), draft: true },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event).toHaveBeenCalledWith(expect.objectContaining({ status: 'draft' }));
+        expect(mockContext.pubsub.publish).not.toHaveBeenCalled();
+      });
+
       it('should handle errors', async () => {
         (Event as unknown as jest.Mock).mockImplementation(() => ({
           save: jest.fn().mockRejectedValue(new Error('DB error')),
         }));
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
         await expect(
           eventResolvers.Mutation.createEvent(
             null,
-            { eventInput: {} as unknown as CreateEventArgs['eventInput'] },
+            { eventInput: createEventInput() },
             mockContext,
-            undefined,
           ),
         ).rejects.toThrow('Error creating event');
       });
-    });
 
-    describe('updateEvent', () => {
-      it('should update an existing event', async () => {
+      it('should store tags in lowercase without repeats', async () => {
+        // Arrange
+        (Event as unknown as jest.Mock).mockImplementation(() => ({ save: jest.fn() }));
+        const eventInput = createEventInput({ tags: ['Jazz', ' jazz ', '', 'Outdoor'] });
+
+        // Act
+        await eventResolvers.Mutation.createEvent(null, { eventInput }, createContext());
+
+        // Assert
+        expect(Event).toHaveBeenCalledWith(expect.objectContaining({ tags: ['jazz', 'outdoor'] }));
+      });
+
+      it('should store positions as GeoJSON points', async () => {
         // Arrange
+        (Event as unknown as jest.Mock).mockImplementation(() => ({ save: jest.fn() }));
         const eventInput = createEventInput({
-          title: 'Updated Event',
-          description: 'Updated Description',
-          date: '2023-01-02',
-          time: '15:00',
-          location: 'Updated Location',
+          geoLocation: { lat: 52.52, lng: 13.405 },
+          address: { city: 'Berlin', country: 'DE' },
         });
 
-        const eventId = new mongoose.Types.ObjectId().toHexString();
-        const mockEvent = {
-          _id: eventId,
-          title: 'Original Event',
-          creator: { toString: () => '1' },
-        };
+        // Act
+        await eventResolvers.Mutation.createEvent(null, { eventInput }, createContext());
 
-        const mockUpdatedEvent = {
-          _id: eventId,
-          ...eventInput,
-          creator: '1',
-        };
+        // Assert
+        expect(Event).toHaveBeenCalledWith(
+          expect.objectContaining({
+            geoLocation: { type: 'Point', coordinates: [13.405, 52.52] },
+            address: { city: 'Berlin', country: 'DE' },
+          }),
+        );
+      });
+
+      it('should reject too many tags', async () => {
+        const tags = Array.from({ length: 11 }, (_, index) => `tag-${index}`);
+        await expect(
+          eventResolvers.Mutation.createEvent(
+            null,
+            { eventInput: createEventInput({ tags }) },
+            createContext(),
+          ),
+        ).rejects.toThrow('Events can have at most 10 tags');
+      });
 
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+      it('should schedule events in their time zone', async () => {
+        // Arrange
+        (Event as unknown as jest.Mock).mockImplementation(() => ({ save: jest.fn() }));
+        const eventInput = createEventInput({
+          date: '2023-07-01',
+          time: '22:00',
+          endTime: '01:30',
+          timeZone: 'Europe/Berlin',
+        });
 
-        // Mock Event.findById
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        // Act
+        await eventResolvers.Mutation.createEvent(null, { eventInput }, createContext());
 
-        // Mock Event.findByIdAndUpdate
-        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockUpdatedEvent);
+        // Assert
+        expect(Event).toHaveBeenCalledWith(
+          expect.objectContaining({
+            timeZone: 'Europe/Berlin',
+            startsAt: new Date('2023-07-01T20:00:00Z'),
+            endsAt: new Date('2023-07-01T23:30:00Z'),
+          }),
+        );
+      });
 
-        const result = await eventResolvers.Mutation.updateEvent(
+      it.each([
+        [{ durationMinutes: 90 }, new Date('2023-01-01T15:30:00Z')],
+        [{ endDate: '2023-01-03', endTime: '12:00' }, new Date('2023-01-03T12:00:00Z')],
+      ])('should end events at %p', async (overrides, endsAt) => {
+        // Arrange
+        (Event as unknown as jest.Mock).mockImplementation(() => ({ save: jest.fn() }));
+
+        // Act
+        await eventResolvers.Mutation.createEvent(
           null,
-          { id: eventId, eventInput },
-          mockContext,
-          undefined,
+          { eventInput: createEventInput(overrides) },
+          createContext(),
         );
 
-        expect(Event.findById).toHaveBeenCalledWith(eventId);
-        expect(Event.findByIdAndUpdate).toHaveBeenCalledWith(
-          eventId,
-          { ...eventInput },
-          { new: true },
+        // Assert
+        expect(Event).toHaveBeenCalledWith(expect.objectContaining({ endsAt }));
+        expect(Event).toHaveBeenCalledWith(
+          expect.not.objectContaining({ endDate: expect.anything() }),
         );
-        expect(mockContext.pubsub.publish).toHaveBeenCalled();
-        expect(result).toEqual(mockUpdatedEvent);
       });
 
-      it('should throw error if event not found', async () => {
-        const eventInput = createEventInput({ title: 'Updated Event' });
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
-        (Event.findById as jest.Mock).mockResolvedValue(null);
-
+      it.each([
+        [{ date: '01/01/2023' }, 'Date must be in YYYY-MM-DD format'],
+        [{ time: '2pm' }, 'Time must be in HH:mm format'],
+        [{ endTime: '25:00' }, 'End time must be in HH:mm format'],
+        [{ endDate: '2023-01-02' }, 'An end date needs an end time'],
+        [{ endDate: 'Monday', endTime: '10:00' }, 'End date must be in YYYY-MM-DD format'],
+        [{ endDate: '2023-01-01', endTime: '13:00' }, 'Events must end after they start'],
+        [
+          { endTime: '16:00', durationMinutes: 60 },
+          'Give either an end time or a duration, not both',
+        ],
+        [{ durationMinutes: 0 }, 'Duration must be a positive whole number of minutes'],
+        [{ timeZone: 'Mars/Olympus_Mons' }, 'Unknown time zone "Mars/Olympus_Mons"'],
+      ])('should reject the schedule %p', async (overrides, message) => {
         await expect(
-          eventResolvers.Mutation.updateEvent(
+          eventResolvers.Mutation.createEvent(
             null,
-            { id: '999', eventInput },
-            mockContext,
-            undefined,
+            { eventInput: createEventInput(overrides) },
+            createContext(),
           ),
-        ).rejects.toThrow(GraphQLError);
+        ).rejects.toMatchObject({ message, extensions: { code: 'BAD_USER_INPUT' } });
+        expect(Event).not.toHaveBeenCalled();
       });
+    });
 
-      it('should throw error for invalid event ID', async () => {
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+    it('should reject capacities that are not positive whole numbers', async () => {
+      const mockContext = createContext();
+      const eventId = new mongoose.Types.ObjectId();
+      (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, timeZone: 'UTC' });
+
+      await expect(
+        eventResolvers.Mutation.createEvent(
+          null,
+          { eventInput: createEventInput({ capacity: 0 }) },
+          mockContext,
+        ),
+      ).rejects.toMatchObject({ extensions: { code: 'BAD_USER_INPUT' } });
+      await expect(
+        eventResolvers.Mutation.updateEvent(
+          null,
+          { id: eventId.toHexString(), eventInput: createEventInput({ capacity: 2.5 }) },
+          mockContext,
+        ),
+      ).rejects.toMatchObject({ extensions: { code: 'BAD_USER_INPUT' } });
+      expect(Event.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should store recurrence rules with their exception dates', async () => {
+      // Arrange
+      const mockSave = jest.fn().mockResolvedValue({ id: '1' });
+      (Event as unknown as jest.Mock).mockImplementation(() => ({ save: mockSave }));
+      const eventInput = createEventInput({
+        recurrence: { rule: 'FREQ=WEEKLY;BYDAY=TU', exceptions: ['2023-01-10'] },
+      });
+
+      // Act
+      await eventResolvers.Mutation.createEvent(null, { eventInput }, createContext());
+
+      // Assert
+      expect(Event).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recurrence: {
+            rule: 'FREQ=WEEKLY;BYDAY=TU',
+            exceptions: [new Date('2023-01-10T00:00:00Z')],
+          },
+        }),
+      );
+    });
+
+    it('should reject invalid recurrence rules', async () => {
+      const mockContext = createContext();
+
+      await expect(
+        eventResolvers.Mutation.createEvent(
+          null,
+          { eventInput: createEventInput({ recurrence: { rule: 'FREQ=HOURLY' } }) },
+          mockContext,
+        ),
+      ).rejects.toMatchObject({
+        message: 'Recurrence rules need a FREQ of DAILY, WEEKLY, MONTHLY or YEARLY',
+        extensions: { code: 'BAD_USER_INPUT' },
+      });
+      await expect(
+        eventResolvers.Mutation.createEvent(
+          null,
+          {
+            eventInput: createEventInput({
+              recurrence: { rule: 'FREQ=DAILY', exceptions: ['next week'] },
+            }),
+          },
+          mockContext,
+        ),
+      ).rejects.toMatchObject({ extensions: { code: 'BAD_USER_INPUT' } });
+    });
+
+    describe('updateEvent', () => {
+      it('should update an existing event', async () => {
+        // Arrange
+        const eventInput = createEventInput({
+          title: 'Updated Event',
+          description: 'Updated Description',
+          date: '2023-01-02',
+          time: '15:00',
+          location: 'Updated Location',
+        });
+
+        const eventId = new mongoose.Types.ObjectId().toHexString();
+        const mockUpdatedEvent = {
+          _id: eventId,
+          ...eventInput,
+          creator: '1',
+          attendees: [],
+          waitlist: [],
+        };
+
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
+
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          timeZone: 'America/New_York',
+        });
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockUpdatedEvent);
+
+        const result = await eventResolvers.Mutation.updateEvent(
+          null,
+          { id: eventId, eventInput },
+          mockContext,
+        );
+
+        // The event keeps its time zone, as the input has none
+        expect(Event.findByIdAndUpdate).toHaveBeenCalledWith(
+          eventId,
+          {
+            ...eventInput,
+            timeZone: 'America/New_York',
+            startsAt: new Date('2023-01-02T20:00:00Z'),
+            endsAt: null,
+          },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalled();
+        expect(result).toEqual(mockUpdatedEvent);
+      });
+
+      it('should throw error if event not found', async () => {
+        const eventInput = createEventInput({ title: 'Updated Event' });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          eventResolvers.Mutation.updateEvent(null, { id: '999', eventInput }, mockContext),
+        ).rejects.toThrow('Event not found');
+        expect(mockContext.pubsub.publish).not.toHaveBeenCalled();
+      });
+
+      it('should fill seats from the waitlist when the capacity is raised', async () => {
+        // Arrange
+        const eventInput = createEventInput({ capacity: 2 });
+        const eventId = new mongoose.Types.ObjectId();
+        const attendee = new mongoose.Types.ObjectId();
+        const waiting = new mongoose.Types.ObjectId();
+        const mockUpdatedEvent = {
+          _id: eventId,
+          capacity: 2,
+          attendees: [attendee],
+          waitlist: [waiting],
+        };
+        const mockPromotedEvent = {
+          ...mockUpdatedEvent,
+          attendees: [attendee, waiting],
+          waitlist: [],
+        };
+        const mockContext = createContext();
+        (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, timeZone: 'UTC' });
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce(mockUpdatedEvent);
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(mockPromotedEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.updateEvent(
+          null,
+          { id: eventId.toString(), eventInput },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: eventId, 'waitlist.0': waiting }),
+          { $pop: { waitlist: -1 }, $push: { attendees: waiting } },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('WAITLIST_PROMOTED', {
+          waitlistPromoted: mockPromotedEvent,
+          userId: waiting.toString(),
+        });
+        expect(result).toBe(mockPromotedEvent);
+      });
+
+      it('should throw a generic error for other issues', async () => {
+        const eventId = new mongoose.Types.ObjectId();
+        (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, timeZone: 'UTC' });
+        (Event.findByIdAndUpdate as jest.Mock).mockRejectedValueOnce(new Error('Some other error'));
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
         await expect(
           eventResolvers.Mutation.updateEvent(
             null,
-            { id: 'invalid-id', eventInput: createEventInput() },
+            { id: eventId.toHexString(), eventInput: createEventInput() },
             mockContext,
-            undefined,
           ),
+        ).rejects.toThrow('Error updating event');
+      });
+    });
+
+    describe('deleteEvent', () => {
+      const eventId = new mongoose.Types.ObjectId().toHexString();
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
+
+      it('should delete an event successfully', async () => {
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValue({ _id: eventId });
+
+        const result = await eventResolvers.Mutation.deleteEvent(
+          null,
+          { id: eventId },
+          mockContext,
+        );
+
+        expect(Event.findByIdAndUpdate).toHaveBeenCalledWith(
+          eventId,
+          { deletedAt: expect.any(Date) },
+          { new: true },
+        );
+        expect(Event.findByIdAndDelete).not.toHaveBeenCalled();
+        expect(mockContext.pubsub.publish).toHaveBeenCalled();
+        expect(result).toBe(true);
+      });
+
+      it('should throw error if event not found', async () => {
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
+        await expect(
+          eventResolvers.Mutation.deleteEvent(null, { id: eventId }, mockContext),
         ).rejects.toThrow(GraphQLError);
       });
 
-      it('should throw error if user is not the creator', async () => {
-        const eventInput = createEventInput({ title: 'Updated Event' });
-        const mockEvent = { id: '1', creator: { toString: () => '2' } };
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+      it('should throw a generic error for other issues', async () => {
+        (Event.findByIdAndUpdate as jest.Mock).mockRejectedValue(new Error('Some other error'));
+        await expect(
+          eventResolvers.Mutation.deleteEvent(null, { id: eventId }, mockContext),
+        ).rejects.toThrow('Error deleting event');
+      });
+    });
+
+    describe('restoreEvent', () => {
+      const eventId = new mongoose.Types.ObjectId().toHexString();
+      const creatorId = new mongoose.Types.ObjectId();
+      const deletedAt = new Date();
+      const creatorContext = createContext({
+        user: { id: creatorId.toString(), email: 'a@example.com', role: 'user' },
+      });
+
+      it('should restore a deleted event within the retention window', async () => {
+        // Arrange
+        const restoredEvent = { _id: eventId, status: 'published', deletedAt: null };
+        (Event.findOne as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          creator: creatorId,
+          deletedAt,
+        });
+        (User.exists as jest.Mock).mockResolvedValueOnce({ _id: creatorId });
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(restoredEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.restoreEvent(
+          null,
+          { id: eventId },
+          creatorContext,
+        );
+
+        // Assert
+        const [filter] = (Event.findOne as jest.Mock).mock.calls[0];
+        expect(filter.deletedAt.$gte.getTime()).toBeCloseTo(
+          Date.now() - config.softDelete.retentionDays * 24 * 60 * 60 * 1000,
+          -4,
+        );
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          { _id: eventId, deletedAt },
+          { deletedAt: null },
+          { new: true },
+        );
+        expect(creatorContext.pubsub.publish).toHaveBeenCalledWith('EVENT_CREATED', {
+          eventCreated: restoredEvent,
+        });
+        expect(result).toBe(restoredEvent);
+      });
+
+      it('should restore the occurrences deleted along with a series', async () => {
+        // Arrange
+        (Event.findOne as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          creator: creatorId,
+          deletedAt,
+        });
+        (User.exists as jest.Mock).mockResolvedValueOnce({ _id: creatorId });
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          recurrence: { rule: 'FREQ=WEEKLY' },
+        });
+
+        // Act
+        await eventResolvers.Mutation.restoreEvent(null, { id: eventId }, creatorContext);
+
+        // Assert
+        expect(Event.updateMany).toHaveBeenCalledWith(
+          { series: eventId, deletedAt },
+          { deletedAt: null },
+        );
+      });
+
+      it('should only let the creator or a moderator restore an event', async () => {
+        // Arrange
+        (Event.findOne as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          creator: creatorId,
+          deletedAt,
+        });
 
+        // Act & Assert
         await expect(
-          eventResolvers.Mutation.updateEvent(
+          eventResolvers.Mutation.restoreEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('Not authorized to perform this action');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should not restore events of deleted users', async () => {
+        // Arrange
+        (Event.findOne as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          creator: creatorId,
+          deletedAt,
+        });
+        (User.exists as jest.Mock).mockResolvedValueOnce(null);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.restoreEvent(null, { id: eventId }, creatorContext),
+        ).rejects.toThrow('Restore the creator of this event first');
+      });
+
+      it('should not find events past the retention window', async () => {
+        // Arrange
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.restoreEvent(null, { id: eventId }, creatorContext),
+        ).rejects.toThrow('Event not found');
+      });
+    });
+
+    describe('publishEvent', () => {
+      const eventId = new mongoose.Types.ObjectId().toHexString();
+
+      it('should publish a draft and announce it', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const publishedEvent = { _id: eventId, status: 'published' };
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(publishedEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.publishEvent(
+          null,
+          { id: eventId },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          { _id: eventId, status: 'draft' },
+          { status: 'published' },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_CREATED', {
+          eventCreated: publishedEvent,
+        });
+        expect(result).toBe(publishedEvent);
+      });
+
+      it('should publish the stored occurrences of a series', async () => {
+        // Arrange
+        const publishedSeries = { _id: eventId, status: 'published', recurrence: { rule: 'x' } };
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(publishedSeries);
+
+        // Act
+        await eventResolvers.Mutation.publishEvent(null, { id: eventId }, createContext());
+
+        // Assert
+        expect(Event.updateMany).toHaveBeenCalledWith(
+          { series: eventId, status: 'draft' },
+          { status: 'published' },
+        );
+      });
+
+      it('should reject events that are not drafts', async () => {
+        // Arrange
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(null);
+        (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, status: 'published' });
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.publishEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('Only drafts can be published');
+      });
+    });
+
+    describe('cancelEvent', () => {
+      const eventId = new mongoose.Types.ObjectId().toHexString();
+      const attendeeId = new mongoose.Types.ObjectId();
+      const waitlistedId = new mongoose.Types.ObjectId();
+
+      it('should cancel an event, keep its attendees and tell them', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const startsAt = new Date('2030-01-01T18:00:00Z');
+        const event = {
+          _id: eventId,
+          status: 'published',
+          startsAt,
+          attendees: [attendeeId],
+          waitlist: [waitlistedId],
+        };
+        const cancelledEvent = { ...event, status: 'cancelled', cancellationReason: 'Rain' };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(event);
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(cancelledEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.cancelEvent(
+          null,
+          { id: eventId, reason: ' Rain ' },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: eventId }),
+          { status: 'cancelled', cancellationReason: 'Rain' },
+          { new: true },
+        );
+        expect(Event.findByIdAndDelete).not.toHaveBeenCalled();
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_STATUS_CHANGED', {
+          eventStatusChanged: {
+            event: cancelledEvent,
+            status: 'cancelled',
+            previousStatus: 'published',
+            reason: 'Rain',
+            previousStartsAt: null,
+          },
+          recipientIds: [attendeeId.toString(), waitlistedId.toString()],
+        });
+        expect(result).toBe(cancelledEvent);
+      });
+
+      it('should cancel the stored occurrences of a series', async () => {
+        // Arrange
+        const series = {
+          _id: eventId,
+          status: 'published',
+          startsAt: new Date('2030-01-01T18:00:00Z'),
+          recurrence: { rule: 'FREQ=WEEKLY' },
+          attendees: [],
+          waitlist: [],
+        };
+        const occurrence = { ...series, _id: 'occurrence-1', recurrence: null };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(series);
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce({ ...series, status: 'cancelled' })
+          .mockResolvedValueOnce({ ...occurrence, status: 'cancelled' });
+        (Event.find as jest.Mock) = jest.fn().mockResolvedValueOnce([occurrence]);
+
+        // Act
+        await eventResolvers.Mutation.cancelEvent(null, { id: eventId }, createContext());
+
+        // Assert
+        expect(Event.find).toHaveBeenCalledWith({ series: eventId });
+        expect(Event.findOneAndUpdate).toHaveBeenLastCalledWith(
+          expect.objectContaining({ _id: 'occurrence-1' }),
+          { status: 'cancelled', cancellationReason: null },
+          { new: true },
+        );
+      });
+
+      it('should reject drafts', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, status: 'draft' });
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.cancelEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('Drafts cannot be cancelled, delete them instead');
+      });
+
+      it('should reject events that are cancelled already', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce({ _id: eventId, status: 'cancelled' });
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.cancelEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('This event has been cancelled already');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('postponeEvent', () => {
+      const eventId = new mongoose.Types.ObjectId().toHexString();
+      const event = {
+        _id: eventId,
+        status: 'published',
+        time: '18:00',
+        timeZone: 'Europe/Berlin',
+        startsAt: new Date('2030-01-15T17:00:00Z'),
+        endsAt: new Date('2030-01-15T19:00:00Z'),
+        attendees: [],
+        waitlist: [],
+      };
+
+      it('should move an event to a later day at the same time', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const postponedEvent = {
+          ...event,
+          status: 'postponed',
+          startsAt: new Date('2030-02-01T17:00:00Z'),
+        };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(event);
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(postponedEvent);
+
+        // Act
+        await eventResolvers.Mutation.postponeEvent(
+          null,
+          { id: eventId, newDate: '2030-02-01' },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: eventId }),
+          {
+            status: 'postponed',
+            date: '2030-02-01',
+            startsAt: new Date('2030-02-01T17:00:00Z'),
+            endsAt: new Date('2030-02-01T19:00:00Z'),
+          },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith(
+          'EVENT_STATUS_CHANGED',
+          expect.objectContaining({
+            eventStatusChanged: expect.objectContaining({
+              status: 'postponed',
+              previousStartsAt: event.startsAt,
+            }),
+          }),
+        );
+      });
+
+      it('should keep the day until a new date is known', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce(event);
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce({
+          ...event,
+          status: 'postponed',
+        });
+
+        // Act
+        await eventResolvers.Mutation.postponeEvent(null, { id: eventId }, createContext());
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: eventId }),
+          { status: 'postponed' },
+          { new: true },
+        );
+      });
+
+      it('should reject dates that are not later', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce(event);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.postponeEvent(
+            null,
+            { id: eventId, newDate: '2030-01-15' },
+            createContext(),
+          ),
+        ).rejects.toThrow('Postponed events must move to a later date');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should reject whole series and cancelled events', async () => {
+        // Arrange
+        (Event.findById as jest.Mock)
+          .mockResolvedValueOnce({ ...event, recurrence: { rule: 'FREQ=WEEKLY' } })
+          .mockResolvedValueOnce({ ...event, status: 'cancelled' });
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.postponeEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('Postpone single occurrences of a recurring event');
+        await expect(
+          eventResolvers.Mutation.postponeEvent(null, { id: eventId }, createContext()),
+        ).rejects.toThrow('This event has been cancelled');
+      });
+    });
+
+    describe('recurring events', () => {
+      const seriesId = new mongoose.Types.ObjectId();
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
+      // 2023-01-03 is a Tuesday
+      const createSeries = () => ({
+        _id: seriesId,
+        title: 'Study Group',
+        description: 'Weekly study group',
+        date: new Date('2023-01-03T00:00:00Z'),
+        time: '17:00',
+        timeZone: 'UTC',
+        startsAt: new Date('2023-01-03T17:00:00Z'),
+        endsAt: new Date('2023-01-03T19:00:00Z'),
+        location: 'Library',
+        capacity: 8,
+        creator: '1',
+        attendees: [],
+        waitlist: [],
+        recurrence: { rule: 'FREQ=WEEKLY', exceptions: [] },
+        toObject() {
+          return { ...this };
+        },
+      });
+
+      it('should store an occurrence the first time it is attended', async () => {
+        // Arrange
+        const occurrence = {
+          _id: new mongoose.Types.ObjectId(),
+          attendees: [],
+          waitlist: [],
+          recurrence: null,
+        };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null);
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(occurrence)
+          .mockResolvedValueOnce({ ...occurrence, attendees: ['1'] });
+        mockContext.mocks.userLoaderLoad.mockResolvedValue({ _id: '1' } as unknown as IUser);
+        const userId = new mongoose.Types.ObjectId().toHexString();
+
+        // Act
+        const result = await eventResolvers.Mutation.attendEvent(
+          null,
+          { eventId: seriesId.toHexString(), occurrenceDate: '2023-01-17' },
+          { ...mockContext, user: { ...mockContext.user!, id: userId } },
+        );
+
+        // Assert
+        const day = new Date('2023-01-17T00:00:00Z');
+        expect(Event.findOneAndUpdate).toHaveBeenNthCalledWith(
+          1,
+          { series: seriesId, occurrenceDate: day },
+          {
+            $setOnInsert: expect.objectContaining({
+              title: 'Study Group',
+              date: day,
+              startsAt: new Date('2023-01-17T17:00:00Z'),
+              endsAt: new Date('2023-01-17T19:00:00Z'),
+              capacity: 8,
+              attendees: [],
+            }),
+          },
+          { upsert: true, new: true },
+        );
+        expect(Event.updateOne).toHaveBeenCalledWith(
+          { _id: seriesId },
+          { $addToSet: { 'recurrence.exceptions': day } },
+        );
+        expect((Event.findOneAndUpdate as jest.Mock).mock.calls[1][0]._id).toBe(
+          occurrence._id.toString(),
+        );
+        expect(result.status).toBe('confirmed');
+      });
+
+      it('should leave the series alone when attending an occurrence is rejected', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          ...createSeries(),
+          status: 'cancelled',
+        });
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.attendEvent(
             null,
-            { id: '1', eventInput },
+            { eventId: seriesId.toHexString(), occurrenceDate: '2023-01-17' },
             mockContext,
-            undefined,
           ),
         ).rejects.toThrow(GraphQLError);
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+        expect(Event.updateOne).not.toHaveBeenCalled();
       });
 
-      it('should throw a generic error for other issues', async () => {
-        (Event.findById as jest.Mock).mockRejectedValue(new Error('Some other error'));
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+      it('should not store an occurrence to leave it', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.cancelAttendance(
+            null,
+            { eventId: seriesId.toHexString(), occurrenceDate: '2023-01-17' },
+            mockContext,
+          ),
+        ).rejects.toThrow('Not attending this event');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+        expect(Event.updateOne).not.toHaveBeenCalled();
+      });
+
+      it('should not store an occurrence when changing it is rejected', async () => {
+        // Arrange
+        const draftSeries = () => ({ ...createSeries(), status: 'draft' });
+        (Event.findById as jest.Mock)
+          .mockResolvedValueOnce(draftSeries())
+          .mockResolvedValueOnce(draftSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+        const args = { id: seriesId.toHexString(), occurrenceDate: '2023-01-17' };
+
+        // Act & Assert
+        await expect(eventResolvers.Mutation.cancelEvent(null, args, mockContext)).rejects.toThrow(
+          'Drafts cannot be cancelled, delete them instead',
+        );
+        await expect(
+          eventResolvers.Mutation.postponeEvent(null, args, mockContext),
+        ).rejects.toThrow('Drafts cannot be postponed, update them instead');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+        expect(Event.updateOne).not.toHaveBeenCalled();
+      });
+
+      it('should reuse occurrences that are stored already', async () => {
+        // Arrange
+        const occurrence = { _id: new mongoose.Types.ObjectId(), attendees: ['1'], waitlist: [] };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(occurrence);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.attendEvent(
+            null,
+            { eventId: seriesId.toHexString(), occurrenceDate: '2023-01-17' },
+            mockContext,
+          ),
+        ).rejects.toThrow('Already attending this event');
+        expect(Event.updateOne).not.toHaveBeenCalled();
+      });
+
+      it('should ask which occurrence of a series to attend', async () => {
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+
+        await expect(
+          eventResolvers.Mutation.attendEvent(
+            null,
+            { eventId: seriesId.toHexString() },
+            mockContext,
+          ),
+        ).rejects.toThrow('Choose which occurrence of this recurring event to attend');
+      });
+
+      it('should reject days the series does not occur on', async () => {
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce(null);
+
+        await expect(
+          eventResolvers.Mutation.attendEvent(
+            null,
+            { eventId: seriesId.toHexString(), occurrenceDate: '2023-01-18' },
+            mockContext,
+          ),
+        ).rejects.toThrow('Event does not occur on this date');
+        await expect(
+          eventResolvers.Mutation.attendEvent(
+            null,
+            { eventId: seriesId.toHexString(), occurrenceDate: 'Tuesday' },
+            mockContext,
+          ),
+        ).rejects.toThrow('Invalid occurrence date, expected YYYY-MM-DD');
+      });
+
+      it('should cancel a single occurrence by adding an exception', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(null);
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce(createSeries());
+
+        // Act
+        const result = await eventResolvers.Mutation.deleteEvent(
+          null,
+          { id: seriesId.toHexString(), occurrenceDate: '2023-01-10' },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findByIdAndUpdate).toHaveBeenCalledWith(
+          seriesId,
+          { $addToSet: { 'recurrence.exceptions': new Date('2023-01-10T00:00:00Z') } },
+          { new: true },
+        );
+        expect(Event.findByIdAndDelete).not.toHaveBeenCalled();
+        expect(result).toBe(true);
+      });
+
+      it('should soft delete stored occurrences when cancelling them', async () => {
+        // Arrange
+        const occurrenceId = new mongoose.Types.ObjectId();
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce({ _id: occurrenceId });
+
+        // Act
+        await eventResolvers.Mutation.deleteEvent(
+          null,
+          { id: seriesId.toHexString(), occurrenceDate: '2023-01-10' },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          { series: seriesId, occurrenceDate: new Date('2023-01-10T00:00:00Z') },
+          { deletedAt: expect.any(Date) },
+          { new: true },
+        );
+        expect(Event.findOneAndDelete).not.toHaveBeenCalled();
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_DELETED', {
+          eventDeleted: occurrenceId.toString(),
+        });
+        expect(Event.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should delete the stored occurrences along with the series', async () => {
+        // Arrange
+        const occurrenceId = new mongoose.Types.ObjectId();
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.find as jest.Mock) = jest.fn().mockResolvedValueOnce([{ _id: occurrenceId }]);
+
+        // Act
+        await eventResolvers.Mutation.deleteEvent(
+          null,
+          { id: seriesId.toHexString() },
+          mockContext,
+        );
+
+        // Assert
+        const [, { deletedAt }] = (Event.findByIdAndUpdate as jest.Mock).mock.calls[0];
+        expect(Event.updateMany).toHaveBeenCalledWith({ series: seriesId }, { deletedAt });
+        expect(Event.deleteMany).not.toHaveBeenCalled();
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_DELETED', {
+          eventDeleted: occurrenceId.toString(),
+        });
+      });
+
+      it('should apply series changes to the stored occurrences', async () => {
+        // Arrange
+        const occurrence = {
+          _id: new mongoose.Types.ObjectId(),
+          date: new Date('2023-01-17T00:00:00Z'),
+          attendees: [],
+          waitlist: [],
+        };
+        const eventInput = createEventInput({
+          title: 'Exam Prep',
+          time: '18:00',
+          endTime: '19:00',
+          location: 'Room 101',
+        });
+        const updatedSeries = {
+          ...createSeries(),
+          time: '18:00',
+          startsAt: new Date('2023-01-03T18:00:00Z'),
+          endsAt: new Date('2023-01-03T19:00:00Z'),
+        };
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findByIdAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(updatedSeries)
+          .mockResolvedValueOnce(occurrence);
+        (Event.find as jest.Mock) = jest.fn().mockResolvedValueOnce([occurrence]);
+
+        // Act
+        await eventResolvers.Mutation.updateEvent(
+          null,
+          { id: seriesId.toHexString(), eventInput },
+          mockContext,
+        );
+
+        // Assert
+        const { date: _date, endTime: _endTime, ...seriesFields } = eventInput;
+        expect(Event.findByIdAndUpdate).toHaveBeenLastCalledWith(
+          occurrence._id,
+          {
+            ...seriesFields,
+            timeZone: 'UTC',
+            startsAt: new Date('2023-01-17T18:00:00Z'),
+            endsAt: new Date('2023-01-17T19:00:00Z'),
+          },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_UPDATED', {
+          eventUpdated: occurrence,
+        });
+      });
+
+      it('should not let single occurrences repeat', async () => {
+        (Event.findById as jest.Mock).mockResolvedValueOnce(createSeries());
+        (Event.findOne as jest.Mock).mockResolvedValueOnce({
+          _id: new mongoose.Types.ObjectId(),
+          series: seriesId,
+        });
+
         await expect(
           eventResolvers.Mutation.updateEvent(
             null,
-            { id: new mongoose.Types.ObjectId().toHexString(), eventInput: createEventInput() },
+            {
+              id: seriesId.toHexString(),
+              occurrenceDate: '2023-01-10',
+              eventInput: createEventInput({ recurrence: { rule: 'FREQ=DAILY' } }),
+            },
             mockContext,
-            undefined,
           ),
-        ).rejects.toThrow('Error updating event');
+        ).rejects.toThrow('Single occurrences cannot repeat on their own');
+        expect(Event.findByIdAndUpdate).not.toHaveBeenCalled();
       });
     });
 
-    describe('deleteEvent', () => {
+    describe('attendEvent', () => {
+      const userId = new mongoose.Types.ObjectId().toHexString();
       const eventId = new mongoose.Types.ObjectId().toHexString();
-      const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
-
-      it('should delete an event successfully', async () => {
-        const mockEvent = { creator: { toString: () => '1' } };
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
-        (Event.findByIdAndDelete as jest.Mock).mockResolvedValue(true);
-
-        const result = await eventResolvers.Mutation.deleteEvent(
-          null,
-          { id: eventId },
-          mockContext,
-          undefined,
-        );
-
-        expect(Event.findById).toHaveBeenCalledWith(eventId);
-        expect(Event.findByIdAndDelete).toHaveBeenCalledWith(eventId);
-        expect(mockContext.pubsub.publish).toHaveBeenCalled();
-        expect(result).toBe(true);
+      const mockContext = createContext({
+        user: { id: userId, email: 'test@example.com', role: 'user', sessionId: 'session-1' },
       });
 
-      it('should throw error for invalid event ID', async () => {
-        await expect(
-          eventResolvers.Mutation.deleteEvent(null, { id: 'invalid-id' }, mockContext, undefined),
-        ).rejects.toThrow(GraphQLError);
+      afterEach(() => {
+        config.events.rejectScheduleConflicts = false;
       });
 
-      it('should throw error if event not found', async () => {
-        (Event.findById as jest.Mock).mockResolvedValue(null);
-        await expect(
-          eventResolvers.Mutation.deleteEvent(null, { id: eventId }, mockContext, undefined),
-        ).rejects.toThrow(GraphQLError);
-      });
+      it('should reject overlapping RSVPs in strict mode', async () => {
+        // Arrange
+        config.events.rejectScheduleConflicts = true;
+        const conflictId = new mongoose.Types.ObjectId();
+        const mockSort = jest.fn().mockResolvedValueOnce([{ _id: conflictId }]);
+        (Event.find as jest.Mock) = jest.fn().mockReturnValue({ sort: mockSort });
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          startsAt: new Date('2030-01-01T18:00:00Z'),
+          endsAt: new Date('2030-01-01T20:00:00Z'),
+          attendees: [],
+          waitlist: [],
+        });
 
-      it('should throw error if user is not the creator', async () => {
-        const mockEvent = { creator: { toString: () => '2' } };
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        // Act & Assert
         await expect(
-          eventResolvers.Mutation.deleteEvent(null, { id: eventId }, mockContext, undefined),
-        ).rejects.toThrow(GraphQLError);
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toMatchObject({
+          message: 'This event overlaps events you are attending',
+          extensions: {
+            code: 'SCHEDULE_CONFLICT',
+            conflictingEventIds: [toGlobalId('Event', conflictId)],
+          },
+        });
+        const [filter] = (Event.find as jest.Mock).mock.calls[0];
+        expect(filter.attendees).toBe(userId);
+        expect(filter.startsAt.$lt).toEqual(new Date('2030-01-01T20:00:00Z'));
+        expect(filter.$or[0].endsAt.$gt).toEqual(new Date('2030-01-01T18:00:00Z'));
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
       });
 
-      it('should throw a generic error for other issues', async () => {
-        (Event.findById as jest.Mock).mockRejectedValue(new Error('Some other error'));
+      it('should reject cancelled events', async () => {
+        // Arrange
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          status: 'cancelled',
+          attendees: [],
+          waitlist: [],
+        });
+
+        // Act & Assert
         await expect(
-          eventResolvers.Mutation.deleteEvent(null, { id: eventId }, mockContext, undefined),
-        ).rejects.toThrow('Error deleting event');
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toThrow('This event has been cancelled');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
       });
-    });
 
-    describe('attendEvent', () => {
-      const userId = new mongoose.Types.ObjectId().toHexString();
+      it('should not look for conflicts outside strict mode', async () => {
+        // Arrange
+        (Event.find as jest.Mock) = jest.fn();
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: [],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce({ _id: eventId });
+
+        // Act
+        await eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext);
+
+        // Assert
+        expect(Event.find).not.toHaveBeenCalled();
+      });
 
-      it('should add user to event attendees', async () => {
+      it('should take a free seat with a conditional update', async () => {
         // Arrange
-        const eventId = new mongoose.Types.ObjectId().toHexString();
-        const mockSave = jest.fn().mockResolvedValue({
+        const mockUser = { _id: userId, name: 'Test User' } as unknown as IUser;
+        const mockEvent = { _id: eventId, attendees: [userId], waitlist: [] };
+        mockContext.mocks.userLoaderLoad.mockResolvedValue(mockUser);
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
           _id: eventId,
-          title: 'Test Event',
-          attendees: ['1'],
+          attendees: [],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(mockEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext);
+
+        // Assert
+        const [filter, update] = (Event.findOneAndUpdate as jest.Mock).mock.calls[0];
+        expect(filter).toEqual(expect.objectContaining({ _id: eventId, $or: expect.any(Array) }));
+        expect(filter.attendees.$ne.toString()).toBe(userId);
+        expect(filter.waitlist.$ne.toString()).toBe(userId);
+        expect(update.$push.attendees.toString()).toBe(userId);
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('USER_JOINED_EVENT', {
+          userJoinedEvent: mockUser,
+          eventId,
         });
+        expect(result).toEqual({ status: 'confirmed', event: mockEvent, waitlistPosition: null });
+      });
+
+      it('should join the waitlist when no seat is free', async () => {
+        // Arrange
+        const waiting = new mongoose.Types.ObjectId();
         const mockEvent = {
           _id: eventId,
-          title: 'Test Event',
-          attendees: [],
-          save: mockSave,
+          capacity: 1,
+          attendees: ['2'],
+          waitlist: [waiting, userId],
         };
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: ['2'],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(mockEvent);
 
-        const mockUser = { _id: userId, name: 'Test User' } as unknown as IUser;
-        const mockContext = createContext({ user: { id: userId, email: 'test@example.com' } });
-        mockContext.mocks.userLoaderLoad.mockResolvedValue(mockUser);
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        // Act
+        const result = await eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext);
 
-        const result = await eventResolvers.Mutation.attendEvent(
-          null,
-          { eventId },
-          mockContext,
-          undefined,
-        );
+        // Assert
+        const [filter, update] = (Event.findOneAndUpdate as jest.Mock).mock.calls[1];
+        expect(filter).toEqual(expect.objectContaining({ $expr: expect.any(Object) }));
+        expect(update.$push.waitlist.toString()).toBe(userId);
+        expect(mockContext.pubsub.publish).not.toHaveBeenCalled();
+        expect(result).toEqual({ status: 'waitlisted', event: mockEvent, waitlistPosition: 2 });
+      });
 
-        expect(Event.findById).toHaveBeenCalledWith(eventId);
-        expect(mockEvent.attendees).toHaveLength(1);
-        expect(mockSave).toHaveBeenCalled();
-        expect(mockContext.pubsub.publish).toHaveBeenCalled();
-        expect(result).toBe(mockEvent);
+      it('should try again when a seat frees up between the updates', async () => {
+        // Arrange
+        const mockEvent = { _id: eventId, attendees: [userId], waitlist: [] };
+        (Event.findById as jest.Mock)
+          .mockResolvedValueOnce({ _id: eventId, attendees: ['2'], waitlist: [] })
+          .mockResolvedValueOnce({ _id: eventId, attendees: [], waitlist: [] });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(mockEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext);
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledTimes(3);
+        expect(result.status).toBe('confirmed');
+      });
+
+      it('should report a parallel request of the same user as already attending', async () => {
+        // Arrange
+        (Event.findById as jest.Mock)
+          .mockResolvedValueOnce({ _id: eventId, attendees: [], waitlist: [] })
+          .mockResolvedValueOnce({ _id: eventId, attendees: [userId], waitlist: [] });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(null);
+
+        // Act & Assert
+        await expect(
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toThrow('Already attending this event');
       });
 
       it('should throw error if already attending', async () => {
-        const mockEvent = { attendees: [userId] };
-        const mockContext = createContext({ user: { id: userId, email: 'test@example.com' } });
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: [userId],
+          waitlist: [],
+        });
 
         await expect(
-          eventResolvers.Mutation.attendEvent(null, { eventId: '1' }, mockContext, undefined),
-        ).rejects.toThrow(GraphQLError);
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toThrow('Already attending this event');
+        expect(Event.findOneAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should throw error if already on the waitlist', async () => {
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          capacity: 1,
+          attendees: ['2'],
+          waitlist: [userId],
+        });
+
+        await expect(
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toThrow('Already on the waitlist for this event');
       });
 
       it('should throw error for invalid event ID', async () => {
-        const mockContext = createContext({ user: { id: userId, email: 'test@example.com' } });
         await expect(
-          eventResolvers.Mutation.attendEvent(null, { eventId: 'invalid' }, mockContext, undefined),
+          eventResolvers.Mutation.attendEvent(null, { eventId: 'invalid' }, mockContext),
         ).rejects.toThrow(GraphQLError);
       });
 
       it('should throw error if event not found', async () => {
-        (Event.findById as jest.Mock).mockResolvedValue(null);
-        const mockContext = createContext({ user: { id: userId, email: 'test@example.com' } });
+        (Event.findById as jest.Mock).mockResolvedValueOnce(null);
         await expect(
-          eventResolvers.Mutation.attendEvent(
-            null,
-            { eventId: new mongoose.Types.ObjectId().toHexString() },
-            mockContext,
-            undefined,
-          ),
-        ).rejects.toThrow(GraphQLError);
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
+        ).rejects.toThrow('Event not found');
       });
 
       it('should throw a generic error for other issues', async () => {
-        (Event.findById as jest.Mock).mockRejectedValue(new Error('Some other error'));
-        const mockContext = createContext({ user: { id: userId, email: 'test@example.com' } });
+        (Event.findById as jest.Mock).mockRejectedValueOnce(new Error('Some other error'));
         await expect(
-          eventResolvers.Mutation.attendEvent(
-            null,
-            { eventId: new mongoose.Types.ObjectId().toHexString() },
-            mockContext,
-            undefined,
-          ),
+          eventResolvers.Mutation.attendEvent(null, { eventId }, mockContext),
         ).rejects.toThrow('Error attending event');
       });
     });
@@ -567,56 +2102,180 @@ describe('Event Resolvers', () => {
     describe('cancelAttendance', () => {
       const eventId = new mongoose.Types.ObjectId().toHexString();
       const mockUser = { _id: '1', name: 'Test User' } as unknown as IUser;
-      const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
       mockContext.mocks.userLoaderLoad.mockResolvedValue(mockUser);
 
       it('should cancel attendance successfully', async () => {
-        const mockSave = jest.fn().mockResolvedValue(true);
-        const mockEvent = { attendees: ['1', '2'], save: mockSave };
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        // Arrange
+        const mockEvent = { _id: eventId, attendees: ['2'], waitlist: [] };
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: ['1', '2'],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(mockEvent);
 
-        const result = (await eventResolvers.Mutation.cancelAttendance(
+        // Act
+        const result = await eventResolvers.Mutation.cancelAttendance(
           null,
           { eventId },
           mockContext,
-          undefined,
-        )) as IEvent;
+        );
 
-        expect(result.attendees).toEqual(['2']);
-        expect(mockSave).toHaveBeenCalled();
-        expect(mockContext.pubsub.publish).toHaveBeenCalled();
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenLastCalledWith(
+          { _id: eventId, attendees: '1' },
+          { $pull: { attendees: '1' } },
+          { new: true },
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('USER_LEFT_EVENT', {
+          userLeftEvent: mockUser,
+          eventId,
+        });
+        expect(result).toBe(mockEvent);
+      });
+
+      it('should promote the first waitlisted user into the freed seat', async () => {
+        // Arrange
+        const firstWaiting = new mongoose.Types.ObjectId();
+        const secondWaiting = new mongoose.Types.ObjectId();
+        const mockLeftEvent = {
+          _id: eventId,
+          capacity: 2,
+          attendees: ['2'],
+          waitlist: [firstWaiting, secondWaiting],
+        };
+        const mockPromotedEvent = {
+          ...mockLeftEvent,
+          attendees: ['2', firstWaiting],
+          waitlist: [secondWaiting],
+        };
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: ['1', '2'],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(mockLeftEvent)
+          .mockResolvedValueOnce(mockPromotedEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.cancelAttendance(
+          null,
+          { eventId },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledTimes(3);
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('WAITLIST_PROMOTED', {
+          waitlistPromoted: mockPromotedEvent,
+          userId: firstWaiting.toString(),
+        });
+        expect(result).toBe(mockPromotedEvent);
+      });
+
+      it('should look again when someone else changed the waitlist first', async () => {
+        // Arrange
+        const firstWaiting = new mongoose.Types.ObjectId();
+        const mockLeftEvent = {
+          _id: eventId,
+          capacity: 2,
+          attendees: ['2'],
+          waitlist: [firstWaiting],
+        };
+        const mockReloadedEvent = {
+          ...mockLeftEvent,
+          attendees: ['2', firstWaiting],
+          waitlist: [],
+        };
+        (Event.findById as jest.Mock)
+          .mockResolvedValueOnce({ _id: eventId, attendees: ['1', '2'], waitlist: [] })
+          .mockResolvedValueOnce(mockReloadedEvent);
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(mockLeftEvent)
+          .mockResolvedValueOnce(null);
+
+        // Act
+        const result = await eventResolvers.Mutation.cancelAttendance(
+          null,
+          { eventId },
+          mockContext,
+        );
+
+        // Assert
+        expect(result).toBe(mockReloadedEvent);
+        expect(mockContext.pubsub.publish).not.toHaveBeenCalledWith(
+          'WAITLIST_PROMOTED',
+          expect.anything(),
+        );
+      });
+
+      it('should let users leave the waitlist without promoting anyone', async () => {
+        // Arrange
+        const mockEvent = { _id: eventId, capacity: 1, attendees: ['2'], waitlist: [] };
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: ['2'],
+          waitlist: ['1'],
+        });
+        (Event.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(mockEvent);
+
+        // Act
+        const result = await eventResolvers.Mutation.cancelAttendance(
+          null,
+          { eventId },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findOneAndUpdate).toHaveBeenCalledWith(
+          { _id: eventId, waitlist: '1' },
+          { $pull: { waitlist: '1' } },
+          { new: true },
+        );
+        expect(Event.findOneAndUpdate).toHaveBeenCalledTimes(1);
+        expect(mockContext.pubsub.publish).not.toHaveBeenCalled();
+        expect(result).toBe(mockEvent);
       });
 
       it('should throw error for invalid event ID', async () => {
         await expect(
-          eventResolvers.Mutation.cancelAttendance(
-            null,
-            { eventId: 'invalid' },
-            mockContext,
-            undefined,
-          ),
+          eventResolvers.Mutation.cancelAttendance(null, { eventId: 'invalid' }, mockContext),
         ).rejects.toThrow(GraphQLError);
       });
 
       it('should throw error if event not found', async () => {
-        (Event.findById as jest.Mock).mockResolvedValue(null);
+        (Event.findById as jest.Mock).mockResolvedValueOnce(null);
         await expect(
-          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext, undefined),
+          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext),
         ).rejects.toThrow(GraphQLError);
       });
 
       it('should throw error if user is not attending', async () => {
-        const mockEvent = { attendees: ['2', '3'] };
-        (Event.findById as jest.Mock).mockResolvedValue(mockEvent);
+        (Event.findById as jest.Mock).mockResolvedValueOnce({
+          _id: eventId,
+          attendees: ['2', '3'],
+          waitlist: [],
+        });
+        (Event.findOneAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(null);
         await expect(
-          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext, undefined),
-        ).rejects.toThrow(GraphQLError);
+          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext),
+        ).rejects.toThrow('Not attending this event');
       });
 
       it('should throw a generic error for other issues', async () => {
-        (Event.findById as jest.Mock).mockRejectedValue(new Error('Some other error'));
+        (Event.findById as jest.Mock).mockRejectedValueOnce(new Error('Some other error'));
         await expect(
-          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext, undefined),
+          eventResolvers.Mutation.cancelAttendance(null, { eventId }, mockContext),
         ).rejects.toThrow('Error canceling attendance');
       });
     });
@@ -651,32 +2310,269 @@ describe('Event Resolvers', () => {
     });
 
     describe('attendees', () => {
-      it('should return the attendees of the event', async () => {
-        const parent: Parameters<typeof eventResolvers.Event.attendees>[0] = {
-          _id: new mongoose.Types.ObjectId(),
-        } as Parameters<typeof eventResolvers.Event.attendees>[0];
-        const mockAttendees = [{ id: '1', name: 'Test User' }] as unknown as IUser[];
+      const attendeeIds = ['61c0ccf11d7bf83d153d7c07', '61c0ccf11d7bf83d153d7c06'].map(
+        id => new mongoose.Types.ObjectId(id),
+      );
+      const parent = { attendees: attendeeIds } as unknown as IEvent;
+
+      const mockLoadMany = (
+        mockContext: ContextWithMocks,
+        users: unknown[],
+        exists = attendeeIds.map(() => true),
+      ): jest.Mock => {
+        const loadMany = jest.fn().mockResolvedValue(users);
+        (mockContext.loaders.userLoader as unknown as { loadMany: jest.Mock }).loadMany = loadMany;
+        mockContext.loaders.userExistsLoader = {
+          loadMany: jest.fn().mockResolvedValue(exists),
+        } as unknown as Loaders['userExistsLoader'];
+        return loadMany;
+      };
+
+      it('should only load the attendees on the page, in the order they signed up', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const loadMany = mockLoadMany(mockContext, [{ id: '6' }]);
+
+        // Act
+        const result = await eventResolvers.Event.attendees(parent, { first: 1 }, mockContext, {});
+
+        // Assert
+        expect(loadMany).toHaveBeenCalledWith(['61c0ccf11d7bf83d153d7c06']);
+        expect(result.nodes).toEqual([{ id: '6' }]);
+        expect(result.pageInfo.hasNextPage).toBe(true);
+        expect(await result.totalCount()).toBe(2);
+      });
+
+      it('should page on from a cursor', async () => {
+        // Arrange
+        const mockContext = createContext();
+        mockLoadMany(mockContext, [{ id: '6' }]);
+        const first = await eventResolvers.Event.attendees(parent, { first: 1 }, mockContext, {});
+        const loadMany = mockLoadMany(mockContext, [{ id: '7' }]);
+
+        // Act
+        const result = await eventResolvers.Event.attendees(
+          parent,
+          { first: 1, after: first.pageInfo.endCursor },
+          mockContext,
+          {},
+        );
+
+        // Assert
+        expect(loadMany).toHaveBeenCalledWith(['61c0ccf11d7bf83d153d7c07']);
+        expect(result.nodes).toEqual([{ id: '7' }]);
+        expect(result.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+      });
+
+      it('should page and count only the attendees whose accounts are left', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const loadMany = mockLoadMany(mockContext, [{ id: '7' }], [true, false]);
+
+        // Act
+        const result = await eventResolvers.Event.attendees(parent, { first: 1 }, mockContext, {});
+
+        // Assert
+        expect(loadMany).toHaveBeenCalledWith(['61c0ccf11d7bf83d153d7c07']);
+        expect(result.nodes).toEqual([{ id: '7' }]);
+        expect(result.pageInfo.hasNextPage).toBe(false);
+        expect(await result.totalCount()).toBe(1);
+      });
+
+      it('should leave out attendees that could not be loaded', async () => {
+        // Arrange
         const mockContext = createContext();
-        mockContext.mocks.eventAttendeesLoaderLoad.mockResolvedValue(mockAttendees);
+        mockLoadMany(mockContext, [null, { id: '7' }]);
 
+        // Act
         const result = await eventResolvers.Event.attendees(parent, {}, mockContext, {});
 
-        expect(mockContext.mocks.eventAttendeesLoaderLoad).toHaveBeenCalledWith(
-          parent._id.toString(),
+        // Assert
+        expect(result.nodes).toEqual([{ id: '7' }]);
+        expect(result.edges).toHaveLength(1);
+      });
+
+      it('should reject invalid cursors', async () => {
+        const mockContext = createContext();
+        mockLoadMany(mockContext, []);
+        await expect(
+          eventResolvers.Event.attendees(parent, { after: 'not a cursor' }, mockContext, {}),
+        ).rejects.toThrow(
+          new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } }),
         );
-        expect(result).toEqual(mockAttendees);
       });
 
       it('should handle errors', async () => {
-        const parent: Parameters<typeof eventResolvers.Event.attendees>[0] = {
-          _id: new mongoose.Types.ObjectId(),
-        } as Parameters<typeof eventResolvers.Event.attendees>[0];
         const mockContext = createContext();
-        mockContext.mocks.eventAttendeesLoaderLoad.mockRejectedValue(new Error('DB Error'));
+        mockLoadMany(mockContext, []).mockRejectedValue(new Error('DB Error'));
         await expect(eventResolvers.Event.attendees(parent, {}, mockContext, {})).rejects.toThrow(
           'Error fetching attendees',
         );
       });
     });
+
+    describe('attendeeCount', () => {
+      it('should count the attendees without loading them', () => {
+        const parent = { attendees: [new mongoose.Types.ObjectId()] } as unknown as IEvent;
+        expect(eventResolvers.Event.attendeeCount(parent)).toBe(1);
+      });
+    });
+
+    describe('waitlist', () => {
+      it('should return the waitlisted users in order', async () => {
+        const waiting = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+        const parent = { waitlist: waiting } as unknown as IEvent;
+        const mockUsers = [{ id: 'a' }, null, { id: 'b' }];
+        const mockContext = createContext();
+        const loadMany = jest.fn().mockResolvedValue(mockUsers);
+        (mockContext.loaders.userLoader as unknown as { loadMany: jest.Mock }).loadMany = loadMany;
+
+        const result = await eventResolvers.Event.waitlist(parent, {}, mockContext, {});
+
+        expect(loadMany).toHaveBeenCalledWith(waiting.map(id => id.toString()));
+        expect(result).toEqual([{ id: 'a' }, { id: 'b' }]);
+      });
+    });
+
+    describe('geoLocation', () => {
+      it('should give positions as latitude and longitude', () => {
+        const positioned = {
+          geoLocation: { type: 'Point', coordinates: [13.405, 52.52] },
+        } as unknown as IEvent;
+        const online = { geoLocation: null } as unknown as IEvent;
+
+        expect(eventResolvers.Event.geoLocation(positioned)).toEqual({ lat: 52.52, lng: 13.405 });
+        expect(eventResolvers.Event.geoLocation(online)).toBeNull();
+      });
+    });
+
+    describe('availableSeats', () => {
+      it('should count the free seats of limited events', () => {
+        const limited = { capacity: 3, attendees: ['1'] } as unknown as IEvent;
+        const overbooked = { capacity: 1, attendees: ['1', '2'] } as unknown as IEvent;
+        const unlimited = { attendees: ['1'] } as unknown as IEvent;
+
+        expect(eventResolvers.Event.availableSeats(limited)).toBe(2);
+        expect(eventResolvers.Event.availableSeats(overbooked)).toBe(0);
+        expect(eventResolvers.Event.availableSeats(unlimited)).toBeNull();
+      });
+    });
+
+    describe('recurrence', () => {
+      it('should list exceptions as dates', () => {
+        const series = {
+          recurrence: { rule: 'FREQ=DAILY', exceptions: [new Date('2023-01-02T00:00:00Z')] },
+        } as unknown as IEvent;
+
+        expect(eventResolvers.Event.recurrence(series)).toEqual({
+          rule: 'FREQ=DAILY',
+          exceptions: ['2023-01-02'],
+        });
+        expect(eventResolvers.Event.recurrence({} as IEvent)).toBeNull();
+      });
+    });
+
+    describe('end', () => {
+      it('should show the end in the time zone of the event', () => {
+        // Arrange
+        const event = {
+          timeZone: 'Asia/Tokyo',
+          startsAt: new Date('2030-01-15T14:00:00Z'),
+          endsAt: new Date('2030-01-15T16:30:00Z'),
+        } as IEvent;
+
+        // Act & Assert
+        expect(eventResolvers.Event.endDate(event)).toBe('2030-01-16');
+        expect(eventResolvers.Event.endTime(event)).toBe('01:30');
+        expect(eventResolvers.Event.durationMinutes(event)).toBe(150);
+        expect(eventResolvers.Event.endTime({ ...event, endsAt: null } as IEvent)).toBeNull();
+      });
+    });
+
+    describe('status', () => {
+      it('should show events that went ahead as completed once they are over', () => {
+        // Arrange
+        const past = { startsAt: new Date('2020-01-01T18:00:00Z'), endsAt: null };
+        const future = { startsAt: new Date('2999-01-01T18:00:00Z'), endsAt: null };
+
+        // Act & Assert
+        expect(eventResolvers.Event.status({ ...past, status: 'published' } as IEvent)).toBe(
+          'completed',
+        );
+        expect(eventResolvers.Event.status({ ...past, status: 'postponed' } as IEvent)).toBe(
+          'completed',
+        );
+        expect(eventResolvers.Event.status({ ...past, status: 'cancelled' } as IEvent)).toBe(
+          'cancelled',
+        );
+        expect(eventResolvers.Event.status({ ...future, status: 'published' } as IEvent)).toBe(
+          'published',
+        );
+      });
+    });
+
+    describe('imageUrl', () => {
+      it('should show empty stored image links as no image', () => {
+        // Act & Assert
+        expect(eventResolvers.Event.imageUrl({ imageUrl: '' } as IEvent)).toBeNull();
+        expect(eventResolvers.Event.imageUrl({} as IEvent)).toBeNull();
+        expect(
+          eventResolvers.Event.imageUrl({ imageUrl: 'https://example.com/a.png' } as IEvent),
+        ).toBe('https://example.com/a.png');
+      });
+    });
+
+    describe('conflictsWith', () => {
+      const event = {
+        _id: new mongoose.Types.ObjectId(),
+        startsAt: new Date('2030-01-15T18:00:00Z'),
+        endsAt: new Date('2030-01-15T20:00:00Z'),
+      } as unknown as IEvent;
+
+      it('should list the overlapping events the current user attends', async () => {
+        // Arrange
+        const overlapping = {
+          _id: new mongoose.Types.ObjectId(),
+          startsAt: new Date('2030-01-15T19:30:00Z'),
+          endsAt: null,
+        } as unknown as IEvent;
+        const later = {
+          _id: new mongoose.Types.ObjectId(),
+          startsAt: new Date('2030-01-15T20:00:00Z'),
+          endsAt: null,
+        } as unknown as IEvent;
+        const mockContext = createContext();
+        mockContext.mocks.userAttendingEventsLoaderLoad.mockResolvedValueOnce({
+          items: [event, overlapping, later],
+          totalCount: 3,
+        });
+
+        // Act
+        const result = await eventResolvers.Event.conflictsWith(event, {}, mockContext, {});
+
+        // Assert
+        expect(result).toEqual([overlapping]);
+      });
+
+      it('should be empty for anonymous users', async () => {
+        // Arrange
+        const { user: _user, ...anonymousContext } = createContext();
+
+        // Act
+        const result = await eventResolvers.Event.conflictsWith(event, {}, anonymousContext, {});
+
+        // Assert
+        expect(result).toEqual([]);
+      });
+    });
+
+    describe('occurrenceDate', () => {
+      it('should format the day of the occurrence', () => {
+        const occurrence = { occurrenceDate: new Date('2023-01-02T00:00:00Z') } as IEvent;
+
+        expect(eventResolvers.Event.occurrenceDate(occurrence)).toBe('2023-01-02');
+        expect(eventResolvers.Event.occurrenceDate({} as IEvent)).toBeNull();
+      });
+    });
   });
 });
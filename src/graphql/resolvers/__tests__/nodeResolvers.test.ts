@@ -0,0 +1,159 @@
+import { GraphQLError } from 'graphql';
+import { Types } from 'mongoose';
+
+import { Event } from '../../../models/Event.js';
+import type { IEvent } from '../../../models/Event.js';
+import { User } from '../../../models/User.js';
+import type { IUser } from '../../../models/User.js';
+import type { Loaders } from '../../../utils/dataLoaders.js';
+import { toGlobalId } from '../../../utils/globalId.js';
+import { nodeResolvers } from '../nodeResolvers.js';
+
+type NodeContext = Parameters<typeof nodeResolvers.Query.node>[2];
+type LoadFn<T> = jest.MockedFunction<(key: string) => Promise<T>>;
+
+const user = new User({ name: 'Test User', email: 'test@example.com', password: 'hashed' });
+const event = new Event({
+  title: 'Test Event',
+  description: 'This is a test event',
+  date: new Date('2030-01-01'),
+  time: '14:00',
+  location: 'Test Location',
+  creator: user._id,
+});
+
+const createContext = (
+  overrides: Partial<NodeContext> = {},
+): NodeContext & { userLoad: LoadFn<IUser | null>; eventLoad: LoadFn<IEvent | null> } => {
+  const userLoad: LoadFn<IUser | null> = jest.fn(async (id: string) =>
+    id === user.id ? user : null,
+  );
+  const eventLoad: LoadFn<IEvent | null> = jest.fn(async (id: string) =>
+    id === event.id ? event : null,
+  );
+  const loaders = {
+    userLoader: { load: userLoad } as unknown as Loaders['userLoader'],
+    eventLoader: { load: eventLoad } as unknown as Loaders['eventLoader'],
+  } as Loaders;
+
+  return { loaders, ...overrides, userLoad, eventLoad };
+};
+
+describe('Node Resolvers', () => {
+  afterEach(() => {
+    event.status = 'published';
+  });
+
+  describe('node', () => {
+    it('should load a node through the loader for its type', async () => {
+      // Arrange
+      const context = createContext();
+
+      // Act
+      const result = await nodeResolvers.Query.node(
+        null,
+        { id: toGlobalId('Event', event._id) },
+        context,
+      );
+
+      // Assert
+      expect(result).toBe(event);
+      expect(context.eventLoad).toHaveBeenCalledWith(event.id);
+      expect(context.userLoad).not.toHaveBeenCalled();
+    });
+
+    it('should find the node behind a raw ObjectId whatever its type', async () => {
+      // Arrange
+      const context = createContext();
+
+      // Act
+      const result = await nodeResolvers.Query.node(null, { id: user.id }, context);
+
+      // Assert
+      expect(result).toBe(user);
+    });
+
+    it('should return null for IDs that are not global IDs', async () => {
+      // Arrange
+      const context = createContext();
+
+      // Act
+      const result = await nodeResolvers.Query.node(null, { id: 'nonexistent-id' }, context);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(context.userLoad).not.toHaveBeenCalled();
+      expect(context.eventLoad).not.toHaveBeenCalled();
+    });
+
+    it('should hide drafts from everyone but their creator', async () => {
+      // Arrange
+      event.status = 'draft';
+      const id = toGlobalId('Event', event._id);
+
+      // Act
+      const anonymously = await nodeResolvers.Query.node(null, { id }, createContext());
+      const asCreator = await nodeResolvers.Query.node(
+        null,
+        { id },
+        createContext({ user: { id: user.id } }),
+      );
+
+      // Assert
+      expect(anonymously).toBeNull();
+      expect(asCreator).toBe(event);
+    });
+
+    it('should throw an error when loading fails', async () => {
+      // Arrange
+      const context = createContext();
+      context.userLoad.mockRejectedValueOnce(new Error('Database error'));
+
+      // Act & Assert
+      await expect(
+        nodeResolvers.Query.node(null, { id: toGlobalId('User', user._id) }, context),
+      ).rejects.toThrow(
+        new GraphQLError('Error fetching node', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        }),
+      );
+    });
+  });
+
+  describe('nodes', () => {
+    it('should resolve each ID in order, with null for the missing ones', async () => {
+      // Arrange
+      const context = createContext();
+      const missing = toGlobalId('User', new Types.ObjectId());
+
+      // Act
+      const result = await nodeResolvers.Query.nodes(
+        null,
+        { ids: [toGlobalId('User', user._id), missing, toGlobalId('Event', event._id)] },
+        context,
+      );
+
+      // Assert
+      expect(result).toEqual([user, null, event]);
+    });
+
+    it('should reject asking for too many nodes at once', async () => {
+      // Arrange
+      const ids = Array.from({ length: 101 }, () => toGlobalId('User', user._id));
+
+      // Act & Assert
+      await expect(nodeResolvers.Query.nodes(null, { ids }, createContext())).rejects.toThrow(
+        new GraphQLError('Ask for at most 100 nodes at a time', {
+          extensions: { code: 'BAD_USER_INPUT' },
+        }),
+      );
+    });
+  });
+
+  describe('Node', () => {
+    it('should tell users and events apart', () => {
+      expect(nodeResolvers.Node.__resolveType(user)).toBe('User');
+      expect(nodeResolvers.Node.__resolveType(event)).toBe('Event');
+    });
+  });
+});
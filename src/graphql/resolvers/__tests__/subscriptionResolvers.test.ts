@@ -1,7 +1,10 @@
+import { toGlobalId } from '../../../utils/globalId.js';
 import { subscriptionResolvers, TOPICS } from '../subscriptionResolvers.js';
 
 type SubscribeFn = (...args: unknown[]) => unknown;
-type WithFilterFn = SubscribeFn & { filter?: (payload: unknown, variables: unknown) => boolean };
+type WithFilterFn = SubscribeFn & {
+  filter?: (payload: unknown, variables: unknown, context?: unknown) => boolean;
+};
 type SubscribeContext = NonNullable<
   Parameters<typeof subscriptionResolvers.Subscription.eventCreated.subscribe>[2]
 >;
@@ -53,6 +56,13 @@ describe('Subscription Resolvers', () => {
         subscriptionResolvers.Subscription.eventDeleted.subscribe(null, null, undefined),
       ).toThrow('PubSub not available in context');
     });
+
+    it('should send the global ID of the deleted event', () => {
+      const eventId = '507f1f77bcf86cd799439011';
+      expect(
+        subscriptionResolvers.Subscription.eventDeleted.resolve({ eventDeleted: eventId }),
+      ).toBe(toGlobalId('Event', eventId));
+    });
   });
 
   describe('eventUpdated', () => {
@@ -156,4 +166,41 @@ describe('Subscription Resolvers', () => {
       expect(filter(payload, variables)).toBe(false);
     });
   });
+
+  describe('waitlistPromoted', () => {
+    const { subscribe } = subscriptionResolvers.Subscription.waitlistPromoted;
+    const filter = (subscribe as WithFilterFn).filter!;
+
+    it('should subscribe to the WAITLIST_PROMOTED topic', () => {
+      subscribe(null, null, mockContext);
+      expect(mockPubSub.asyncIterator).toHaveBeenCalledWith([TOPICS.WAITLIST_PROMOTED]);
+    });
+
+    it('filter should only notify the promoted user', () => {
+      const payload = { waitlistPromoted: { id: 'event-1' }, userId: 'user-1' };
+      expect(filter(payload, {}, { user: { id: 'user-1' } })).toBe(true);
+      expect(filter(payload, {}, { user: { id: 'user-2' } })).toBe(false);
+      expect(filter(payload, {}, {})).toBe(false);
+    });
+  });
+
+  describe('eventStatusChanged', () => {
+    const { subscribe } = subscriptionResolvers.Subscription.eventStatusChanged;
+    const filter = (subscribe as WithFilterFn).filter!;
+
+    it('should subscribe to the EVENT_STATUS_CHANGED topic', () => {
+      subscribe(null, null, mockContext);
+      expect(mockPubSub.asyncIterator).toHaveBeenCalledWith([TOPICS.EVENT_STATUS_CHANGED]);
+    });
+
+    it('filter should only notify attendees and waitlisted users', () => {
+      const payload = {
+        eventStatusChanged: { event: { id: 'event-1' }, status: 'cancelled' },
+        recipientIds: ['user-1', 'user-2'],
+      };
+      expect(filter(payload, {}, { user: { id: 'user-2' } })).toBe(true);
+      expect(filter(payload, {}, { user: { id: 'user-3' } })).toBe(false);
+      expect(filter(payload, {}, {})).toBe(false);
+    });
+  });
 });
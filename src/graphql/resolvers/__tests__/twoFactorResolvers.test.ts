@@ -0,0 +1,249 @@
+import { User } from '../../../models/User.js';
+import { loginThrottle } from '../../../utils/loginThrottle.js';
+import * as sessions from '../../../utils/sessions.js';
+import * as totp from '../../../utils/totp.js';
+import * as twoFactor from '../../../utils/twoFactor.js';
+import * as userTokens from '../../../utils/userTokens.js';
+import { twoFactorResolvers } from '../twoFactorResolvers.js';
+
+jest.mock('../../../models/User');
+jest.mock('../../../utils/loginThrottle');
+jest.mock('../../../utils/sessions');
+jest.mock('../../../utils/totp');
+jest.mock('../../../utils/twoFactor');
+jest.mock('../../../utils/userTokens');
+
+describe('Two-Factor Resolvers', () => {
+  const context = {
+    user: { id: '1', email: 'test@example.com', role: 'user' as const, sessionId: 'session-1' },
+    req: { ip: '10.0.0.1' },
+  };
+
+  const createUser = (twoFactor: Record<string, unknown>) => ({
+    _id: '1',
+    email: 'test@example.com',
+    role: 'user',
+    twoFactor: { enabled: false, secret: null, recoveryCodeHashes: [], ...twoFactor },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enableTwoFactor', () => {
+    it('should store a pending secret and return it with recovery codes', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(createUser({}));
+      (totp.generateTotpSecret as jest.Mock).mockReturnValue('SECRET');
+      (totp.buildOtpAuthUri as jest.Mock).mockReturnValue('otpauth://totp/EventFlow:test');
+      (twoFactor.generateRecoveryCodes as jest.Mock).mockReturnValue(['aaaaa-aaaaa']);
+      (twoFactor.hashRecoveryCode as jest.Mock).mockReturnValue('hashed-code');
+
+      // Act
+      const result = await twoFactorResolvers.Mutation.enableTwoFactor(null, {}, context);
+
+      // Assert
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith('1', {
+        twoFactor: {
+          enabled: false,
+          secret: 'SECRET',
+          recoveryCodeHashes: ['hashed-code'],
+          lastUsedStep: null,
+        },
+      });
+      expect(totp.buildOtpAuthUri).toHaveBeenCalledWith('SECRET', 'test@example.com', 'EventFlow');
+      expect(result).toEqual({
+        secret: 'SECRET',
+        otpauthUri: 'otpauth://totp/EventFlow:test',
+        recoveryCodes: ['aaaaa-aaaaa'],
+      });
+    });
+
+    it('should refuse to replace an active secret', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(
+        createUser({ enabled: true, secret: 'SECRET' }),
+      );
+
+      // Act & Assert
+      await expect(twoFactorResolvers.Mutation.enableTwoFactor(null, {}, context)).rejects.toThrow(
+        'Two-factor authentication is already enabled',
+      );
+      expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmTwoFactor', () => {
+    it('should enable two-factor authentication with a valid code', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(createUser({ secret: 'SECRET' }));
+      (totp.verifyTotpCode as jest.Mock).mockReturnValue(42);
+
+      // Act
+      const result = await twoFactorResolvers.Mutation.confirmTwoFactor(
+        null,
+        { code: '123 456' },
+        context,
+      );
+
+      // Assert
+      expect(totp.verifyTotpCode).toHaveBeenCalledWith('SECRET', '123456');
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith('1', {
+        'twoFactor.enabled': true,
+        'twoFactor.lastUsedStep': 42,
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should reject an invalid code', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(createUser({ secret: 'SECRET' }));
+      (totp.verifyTotpCode as jest.Mock).mockReturnValue(null);
+
+      // Act & Assert
+      await expect(
+        twoFactorResolvers.Mutation.confirmTwoFactor(null, { code: '000000' }, context),
+      ).rejects.toThrow('Invalid two-factor code');
+    });
+
+    it('should require enableTwoFactor first', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(createUser({}));
+
+      // Act & Assert
+      await expect(
+        twoFactorResolvers.Mutation.confirmTwoFactor(null, { code: '123456' }, context),
+      ).rejects.toThrow('Call enableTwoFactor before confirming a code');
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should clear the secret after a valid code', async () => {
+      // Arrange
+      const user = createUser({ enabled: true, secret: 'SECRET' });
+      (User.findById as jest.Mock).mockResolvedValue(user);
+      (twoFactor.redeemTwoFactorCode as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await twoFactorResolvers.Mutation.disableTwoFactor(
+        null,
+        { code: '123456' },
+        context,
+      );
+
+      // Assert
+      expect(twoFactor.redeemTwoFactorCode).toHaveBeenCalledWith(user, '123456');
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith('1', {
+        twoFactor: { enabled: false, secret: null, recoveryCodeHashes: [], lastUsedStep: null },
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should keep two-factor authentication on without a valid code', async () => {
+      // Arrange
+      (User.findById as jest.Mock).mockResolvedValue(
+        createUser({ enabled: true, secret: 'SECRET' }),
+      );
+      (twoFactor.redeemTwoFactorCode as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        twoFactorResolvers.Mutation.disableTwoFactor(null, { code: '000000' }, context),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeTwoFactorLogin', () => {
+    const mockAuthData = {
+      userId: '1',
+      token: 'token123',
+      tokenExpiration: 900,
+      refreshToken: 'session-1.refresh123',
+      refreshTokenExpiration: 2592000,
+    };
+
+    it('should start a session once the code is valid', async () => {
+      // Arrange
+      (userTokens.findUserTokenOwner as jest.Mock).mockResolvedValue('1');
+      (userTokens.consumeUserToken as jest.Mock).mockResolvedValue('1');
+      (User.findById as jest.Mock).mockResolvedValue(
+        createUser({ enabled: true, secret: 'SECRET' }),
+      );
+      (twoFactor.redeemTwoFactorCode as jest.Mock).mockResolvedValue(true);
+      (sessions.createSession as jest.Mock).mockResolvedValue(mockAuthData);
+
+      // Act
+      const result = await twoFactorResolvers.Mutation.completeTwoFactorLogin(
+        null,
+        { challengeId: 'challenge-1', code: '123456' },
+        context,
+      );
+
+      // Assert
+      expect(loginThrottle.assertCanAttempt).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(userTokens.consumeUserToken).toHaveBeenCalledWith('challenge-1', 'two-factor-login');
+      expect(loginThrottle.recordSuccess).toHaveBeenCalledWith('test@example.com');
+      expect(sessions.createSession).toHaveBeenCalledWith({
+        id: '1',
+        email: 'test@example.com',
+        role: 'user',
+      });
+      expect(result).toEqual(mockAuthData);
+    });
+
+    it('should count a wrong code as a failed login', async () => {
+      // Arrange
+      (userTokens.findUserTokenOwner as jest.Mock).mockResolvedValue('1');
+      (User.findById as jest.Mock).mockResolvedValue(
+        createUser({ enabled: true, secret: 'SECRET' }),
+      );
+      (twoFactor.redeemTwoFactorCode as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        twoFactorResolvers.Mutation.completeTwoFactorLogin(
+          null,
+          { challengeId: 'challenge-1', code: '000000' },
+          context,
+        ),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(loginThrottle.recordFailure).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(userTokens.consumeUserToken).not.toHaveBeenCalled();
+      expect(sessions.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown or expired challenges', async () => {
+      // Arrange
+      (userTokens.findUserTokenOwner as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        twoFactorResolvers.Mutation.completeTwoFactorLogin(
+          null,
+          { challengeId: 'expired', code: '123456' },
+          context,
+        ),
+      ).rejects.toThrow('Invalid or expired two-factor challenge');
+    });
+  });
+
+  describe('LoginResult', () => {
+    it('should resolve the union member from the result shape', () => {
+      const { __resolveType } = twoFactorResolvers.LoginResult;
+
+      expect(__resolveType({ challengeId: 'challenge-1', expiresIn: 300 })).toBe(
+        'TwoFactorChallenge',
+      );
+      expect(
+        __resolveType({
+          userId: '1',
+          token: 't',
+          tokenExpiration: 900,
+          refreshToken: 'r',
+          refreshTokenExpiration: 1,
+        }),
+      ).toBe('AuthData');
+    });
+  });
+});
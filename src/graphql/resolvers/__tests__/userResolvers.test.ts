@@ -1,29 +1,47 @@
 import { GraphQLError } from 'graphql';
+import type { ClientSession } from 'mongoose';
+import mongoose, { trusted } from 'mongoose';
 
 import { User } from '../../../models/User.js';
+import { Event } from '../../../models/Event.js';
 import type { IEvent } from '../../../models/Event.js';
 import type { IUser } from '../../../models/User.js';
-import type { Loaders } from '../../../utils/dataLoaders.js';
+import type { Loaders, RelatedList } from '../../../utils/dataLoaders.js';
+import * as accountEmails from '../../../utils/accountEmails.js';
+import * as apiKeys from '../../../utils/apiKeys.js';
 import * as auth from '../../../utils/auth.js';
+import { paginateQuery } from '../../../utils/pagination.js';
+import { loginThrottle } from '../../../utils/loginThrottle.js';
+import * as sessions from '../../../utils/sessions.js';
+import * as twoFactor from '../../../utils/twoFactor.js';
+import * as userTokens from '../../../utils/userTokens.js';
 import { userResolvers } from '../userResolvers.js';
+import type { EventSort } from '../helpers/eventSearch.js';
 
 jest.mock('../../../models/User');
 jest.mock('../../../models/Event');
-jest.doMock('../../../utils/auth', () => ({
-  ...jest.requireActual('../../../utils/auth'),
-  requireAuth: jest.fn(resolver => resolver),
-}));
+jest.mock('../../../utils/sessions');
+jest.mock('../../../utils/loginThrottle');
+jest.mock('../../../utils/twoFactor');
+jest.mock('../../../utils/userTokens');
+jest.mock('../../../utils/accountEmails');
+jest.mock('../../../utils/apiKeys');
 jest.mock('../../../utils/pagination', () => ({
+  ...jest.requireActual('../../../utils/pagination'),
   paginateQuery: jest.fn().mockImplementation(async () => {
+    const user = { id: '1', name: 'Test User' };
     return {
-      edges: [{ id: '1', name: 'Test User' }],
+      edges: [{ cursor: 'cursor-1', node: user }],
+      nodes: [user],
       pageInfo: {
         hasNextPage: false,
         hasPreviousPage: false,
+        startCursor: 'cursor-1',
+        endCursor: 'cursor-1',
         currentPage: 1,
-        totalPages: 1,
+        totalPages: async () => 1,
       },
-      totalCount: 1,
+      totalCount: async () => 1,
     };
   }),
 }));
@@ -34,15 +52,23 @@ type LoadFn<T> = jest.MockedFunction<(key: string) => Promise<T>>;
 type ContextWithMocks = UserContext & {
   mocks: {
     userLoaderLoad: LoadFn<IUser | null>;
-    userEventsLoaderLoad: LoadFn<IEvent[]>;
-    userAttendingEventsLoaderLoad: LoadFn<IEvent[]>;
+    userEventsLoaderLoad: LoadFn<RelatedList>;
+    userAttendingEventsLoaderLoad: LoadFn<RelatedList>;
   };
 };
 
+const mockAuthData = {
+  userId: '1',
+  token: 'token123',
+  tokenExpiration: 900,
+  refreshToken: 'session-1.refresh123',
+  refreshTokenExpiration: 2592000,
+};
+
 const createContext = (overrides: Partial<UserContext> = {}): ContextWithMocks => {
   const userLoaderLoad: LoadFn<IUser | null> = jest.fn();
-  const userEventsLoaderLoad: LoadFn<IEvent[]> = jest.fn();
-  const userAttendingEventsLoaderLoad: LoadFn<IEvent[]> = jest.fn();
+  const userEventsLoaderLoad: LoadFn<RelatedList> = jest.fn();
+  const userAttendingEventsLoaderLoad: LoadFn<RelatedList> = jest.fn();
 
   const loaders = {
     userLoader: { load: userLoaderLoad } as unknown as Loaders['userLoader'],
@@ -51,11 +77,13 @@ const createContext = (overrides: Partial<UserContext> = {}): ContextWithMocks =
     userAttendingEventsLoader: {
       load: userAttendingEventsLoaderLoad,
     } as unknown as Loaders['userAttendingEventsLoader'],
-    eventAttendeesLoader: { load: jest.fn() } as unknown as Loaders['eventAttendeesLoader'],
   } as Loaders;
 
+  const pubsub = { publish: jest.fn() } as unknown as UserContext['pubsub'];
+
   return {
     loaders,
+    pubsub,
     ...overrides,
     mocks: {
       userLoaderLoad,
@@ -72,18 +100,41 @@ describe('User Resolvers', () => {
 
   describe('Query', () => {
     describe('users', () => {
-      it('should return paginated users', async () => {
-        (User.find as jest.Mock) = jest.fn().mockReturnThis();
+      it('should return paginated users in sign-up order', async () => {
+        // Arrange
+        const query = { sort: jest.fn().mockReturnThis() };
+        (User.find as jest.Mock) = jest.fn().mockReturnValue(query);
+        const paging = { first: 5, after: 'cursor-0' };
 
-        const result = await userResolvers.Query.users(null, {});
+        // Act
+        const result = await userResolvers.Query.users(null, paging);
 
+        // Assert
+        expect(query.sort).toHaveBeenCalledWith({ _id: 1 });
+        expect(paginateQuery).toHaveBeenCalledWith(query, User, {}, paging, {
+          sort: { _id: 1 },
+        });
         expect(result).toEqual({
           edges: expect.any(Array),
+          nodes: expect.any(Array),
           pageInfo: expect.any(Object),
-          totalCount: expect.any(Number),
+          totalCount: expect.any(Function),
         });
       });
 
+      it('should pass on invalid pagination errors', async () => {
+        // Arrange
+        (User.find as jest.Mock) = jest.fn().mockReturnValue({ sort: jest.fn().mockReturnThis() });
+        (paginateQuery as jest.Mock).mockRejectedValueOnce(
+          new GraphQLError('Invalid cursor', { extensions: { code: 'BAD_USER_INPUT' } }),
+        );
+
+        // Act & Assert
+        await expect(userResolvers.Query.users(null, { after: 'nope' })).rejects.toThrow(
+          'Invalid cursor',
+        );
+      });
+
       it('should handle errors', async () => {
         (User.find as jest.Mock).mockImplementation(() => {
           throw new Error('Database error');
@@ -119,19 +170,23 @@ describe('User Resolvers', () => {
     describe('me', () => {
       it('should return the authenticated user', async () => {
         const mockUser = { id: '1', name: 'Test User' } as unknown as IUser;
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
         mockContext.mocks.userLoaderLoad.mockResolvedValue(mockUser);
 
-        const result = await userResolvers.Query.me(null, {}, mockContext, undefined);
+        const result = await userResolvers.Query.me(null, {}, mockContext);
 
         expect(mockContext.mocks.userLoaderLoad).toHaveBeenCalledWith('1');
         expect(result).toEqual(mockUser);
       });
 
       it('should throw an error if the user loader fails', async () => {
-        const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+        const mockContext = createContext({
+          user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+        });
         mockContext.mocks.userLoaderLoad.mockRejectedValue(new Error('Loader error'));
-        await expect(userResolvers.Query.me(null, {}, mockContext, undefined)).rejects.toThrow(
+        await expect(userResolvers.Query.me(null, {}, mockContext)).rejects.toThrow(
           'Error fetching user',
         );
       });
@@ -152,15 +207,18 @@ describe('User Resolvers', () => {
         const mockSave = jest.fn().mockResolvedValue({
           _id: '1',
           email: userInput.email,
+          role: 'user',
         });
         (User as unknown as jest.Mock).mockImplementation(() => ({
           save: mockSave,
         }));
-        jest.spyOn(auth, 'generateToken').mockReturnValue('token123');
+        (sessions.createSession as jest.Mock).mockResolvedValue(mockAuthData);
 
         const result = await userResolvers.Mutation.createUser(null, { userInput });
 
-        expect(User.findOne).toHaveBeenCalledWith({ email: userInput.email });
+        expect(User.findOne).toHaveBeenCalledWith({ email: userInput.email }, null, {
+          withDeleted: true,
+        });
         expect(auth.hashPassword).toHaveBeenCalledWith(userInput.password);
         expect(User).toHaveBeenCalledWith({
           name: userInput.name,
@@ -168,15 +226,31 @@ describe('User Resolvers', () => {
           password: 'hashed_password',
         });
         expect(mockSave).toHaveBeenCalled();
-        expect(auth.generateToken).toHaveBeenCalledWith({
+        expect(sessions.createSession).toHaveBeenCalledWith({
           id: '1',
           email: userInput.email,
+          role: 'user',
         });
-        expect(result).toEqual({
-          userId: '1',
-          token: 'token123',
-          tokenExpiration: 1,
+        expect(userTokens.issueUserToken).toHaveBeenCalledWith('1', 'email-verification', 1440);
+        expect(accountEmails.sendVerificationEmail).toHaveBeenCalled();
+        expect(result).toEqual(mockAuthData);
+      });
+
+      it('should still register the user if the verification email fails', async () => {
+        (User.findOne as jest.Mock).mockResolvedValue(null);
+        (User as unknown as jest.Mock).mockImplementation(() => ({
+          save: jest.fn().mockResolvedValue({ _id: '1', email: 'new@example.com', role: 'user' }),
+        }));
+        (accountEmails.sendVerificationEmail as jest.Mock).mockRejectedValueOnce(
+          new Error('SMTP error'),
+        );
+        (sessions.createSession as jest.Mock).mockResolvedValue(mockAuthData);
+
+        const result = await userResolvers.Mutation.createUser(null, {
+          userInput: { name: 'New User', email: 'new@example.com', password: 'password123' },
         });
+
+        expect(result).toEqual(mockAuthData);
       });
 
       it('should throw error if user already exists', async () => {
@@ -211,6 +285,8 @@ describe('User Resolvers', () => {
     });
 
     describe('login', () => {
+      const loginContext = createContext({ req: { ip: '10.0.0.1' } });
+
       it('should login a user and return auth data', async () => {
         // Arrange
         const loginInput = {
@@ -222,25 +298,68 @@ describe('User Resolvers', () => {
           _id: '1',
           email: loginInput.email,
           password: 'hashed_password',
+          role: 'user',
         });
         jest.spyOn(auth, 'verifyPassword').mockResolvedValue(true);
-        jest.spyOn(auth, 'generateToken').mockReturnValue('token123');
+        (sessions.createSession as jest.Mock).mockResolvedValue(mockAuthData);
 
         // Act
-        const result = await userResolvers.Mutation.login(null, loginInput);
+        const result = await userResolvers.Mutation.login(null, loginInput, loginContext);
 
         // Assert
         expect(User.findOne).toHaveBeenCalledWith({ email: loginInput.email });
         expect(auth.verifyPassword).toHaveBeenCalledWith(loginInput.password, 'hashed_password');
-        expect(auth.generateToken).toHaveBeenCalledWith({
+        expect(loginThrottle.assertCanAttempt).toHaveBeenCalledWith(loginInput.email, '10.0.0.1');
+        expect(loginThrottle.recordSuccess).toHaveBeenCalledWith(loginInput.email);
+        expect(sessions.createSession).toHaveBeenCalledWith({
           id: '1',
           email: loginInput.email,
+          role: 'user',
         });
-        expect(result).toEqual({
-          userId: '1',
-          token: 'token123',
-          tokenExpiration: 1,
+        expect(result).toEqual(mockAuthData);
+      });
+
+      it('should look up and throttle the same normalized address', async () => {
+        // Arrange
+        (User.findOne as jest.Mock).mockResolvedValue(null);
+
+        // Act
+        await expect(
+          userResolvers.Mutation.login(
+            null,
+            { email: ' User@Example.com ', password: 'password123' },
+            loginContext,
+          ),
+        ).rejects.toThrow('Invalid credentials');
+
+        // Assert
+        expect(User.findOne).toHaveBeenCalledWith({ email: 'user@example.com' });
+        expect(loginThrottle.assertCanAttempt).toHaveBeenCalledWith('user@example.com', '10.0.0.1');
+        expect(loginThrottle.recordFailure).toHaveBeenCalledWith('user@example.com', '10.0.0.1');
+      });
+
+      it('should return a challenge instead of a session when 2FA is enabled', async () => {
+        const challenge = { challengeId: 'challenge-1', expiresIn: 300 };
+        (User.findOne as jest.Mock).mockResolvedValue({
+          _id: '1',
+          email: 'user@example.com',
+          password: 'hashed_password',
+          role: 'user',
+          twoFactor: { enabled: true },
         });
+        jest.spyOn(auth, 'verifyPassword').mockResolvedValue(true);
+        (twoFactor.createTwoFactorChallenge as jest.Mock).mockResolvedValue(challenge);
+
+        const result = await userResolvers.Mutation.login(
+          null,
+          { email: 'user@example.com', password: 'password123' },
+          loginContext,
+        );
+
+        expect(twoFactor.createTwoFactorChallenge).toHaveBeenCalledWith('1');
+        expect(loginThrottle.recordSuccess).not.toHaveBeenCalled();
+        expect(sessions.createSession).not.toHaveBeenCalled();
+        expect(result).toEqual(challenge);
       });
 
       it('should throw error if user not found', async () => {
@@ -249,7 +368,9 @@ describe('User Resolvers', () => {
           password: 'password123',
         };
         (User.findOne as jest.Mock).mockResolvedValue(null);
-        await expect(userResolvers.Mutation.login(null, loginInput)).rejects.toThrow(GraphQLError);
+        await expect(userResolvers.Mutation.login(null, loginInput, loginContext)).rejects.toThrow(
+          GraphQLError,
+        );
       });
 
       it('should throw error if password is invalid', async () => {
@@ -264,20 +385,239 @@ describe('User Resolvers', () => {
         });
         jest.spyOn(auth, 'verifyPassword').mockResolvedValue(false);
 
-        await expect(userResolvers.Mutation.login(null, loginInput)).rejects.toThrow(GraphQLError);
+        await expect(userResolvers.Mutation.login(null, loginInput, loginContext)).rejects.toThrow(
+          GraphQLError,
+        );
+        expect(loginThrottle.recordFailure).toHaveBeenCalledWith(loginInput.email, '10.0.0.1');
+      });
+
+      it('should reject locked out accounts before checking the password', async () => {
+        (loginThrottle.assertCanAttempt as jest.Mock).mockRejectedValueOnce(
+          new GraphQLError('Too many failed login attempts. Please try again later.', {
+            extensions: { code: 'TOO_MANY_REQUESTS' },
+          }),
+        );
+
+        await expect(
+          userResolvers.Mutation.login(
+            null,
+            { email: 'user@example.com', password: 'password123' },
+            loginContext,
+          ),
+        ).rejects.toThrow('Too many failed login attempts');
+        expect(User.findOne).not.toHaveBeenCalled();
       });
 
       it('should throw an error if login fails', async () => {
         (User.findOne as jest.Mock).mockRejectedValue(new Error('DB error'));
 
         await expect(
-          userResolvers.Mutation.login(null, { email: 'test@test.com', password: 'password' }),
+          userResolvers.Mutation.login(
+            null,
+            { email: 'test@test.com', password: 'password' },
+            loginContext,
+          ),
         ).rejects.toThrow('Error logging in');
       });
     });
 
+    describe('refreshToken', () => {
+      it('should return a rotated token pair', async () => {
+        (sessions.rotateSession as jest.Mock).mockResolvedValue(mockAuthData);
+
+        const result = await userResolvers.Mutation.refreshToken(null, {
+          refreshToken: 'session-1.old',
+        });
+
+        expect(sessions.rotateSession).toHaveBeenCalledWith('session-1.old');
+        expect(result).toEqual(mockAuthData);
+      });
+
+      it('should throw if the refresh token cannot be used', async () => {
+        (sessions.rotateSession as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          userResolvers.Mutation.refreshToken(null, { refreshToken: 'session-1.reused' }),
+        ).rejects.toThrow('Invalid or expired refresh token');
+      });
+
+      it('should throw an error if refreshing fails', async () => {
+        (sessions.rotateSession as jest.Mock).mockRejectedValue(new Error('DB error'));
+
+        await expect(
+          userResolvers.Mutation.refreshToken(null, { refreshToken: 'session-1.old' }),
+        ).rejects.toThrow('Error refreshing token');
+      });
+    });
+
+    describe('logout', () => {
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
+
+      it('should revoke the current session', async () => {
+        (sessions.revokeSession as jest.Mock).mockResolvedValue(true);
+
+        const result = await userResolvers.Mutation.logout(null, {}, mockContext);
+
+        expect(sessions.revokeSession).toHaveBeenCalledWith('session-1');
+        expect(result).toBe(true);
+      });
+
+      it('should revoke all sessions of the current user', async () => {
+        (sessions.revokeAllSessions as jest.Mock).mockResolvedValue(3);
+
+        const result = await userResolvers.Mutation.logoutAllSessions(null, {}, mockContext);
+
+        expect(sessions.revokeAllSessions).toHaveBeenCalledWith('1');
+        expect(result).toBe(3);
+      });
+    });
+
+    describe('verifyEmail', () => {
+      it('should mark the email of the token owner as verified', async () => {
+        const mockVerifiedUser = { _id: '1', emailVerified: true };
+        (userTokens.consumeUserToken as jest.Mock).mockResolvedValue('1');
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockVerifiedUser);
+
+        const result = await userResolvers.Mutation.verifyEmail(null, { token: 'verify-token' });
+
+        expect(userTokens.consumeUserToken).toHaveBeenCalledWith(
+          'verify-token',
+          'email-verification',
+        );
+        expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+          '1',
+          { emailVerified: true },
+          { new: true },
+        );
+        expect(result).toEqual(mockVerifiedUser);
+      });
+
+      it('should reject invalid, expired or used tokens', async () => {
+        (userTokens.consumeUserToken as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          userResolvers.Mutation.verifyEmail(null, { token: 'used-token' }),
+        ).rejects.toThrow('Invalid or expired verification token');
+      });
+    });
+
+    describe('resendVerificationEmail', () => {
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
+
+      it('should send a new verification link', async () => {
+        const mockUser = { _id: '1', email: 'test@example.com', emailVerified: false };
+        (User.findById as jest.Mock).mockResolvedValue(mockUser);
+        (userTokens.issueUserToken as jest.Mock).mockResolvedValue('verify-token');
+
+        const result = await userResolvers.Mutation.resendVerificationEmail(null, {}, mockContext);
+
+        expect(accountEmails.sendVerificationEmail).toHaveBeenCalledWith(mockUser, 'verify-token');
+        expect(result).toBe(true);
+      });
+
+      it('should reject users who are already verified', async () => {
+        (User.findById as jest.Mock).mockResolvedValue({ _id: '1', emailVerified: true });
+
+        await expect(
+          userResolvers.Mutation.resendVerificationEmail(null, {}, mockContext),
+        ).rejects.toThrow('Email is already verified');
+        expect(accountEmails.sendVerificationEmail).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('requestPasswordReset', () => {
+      it('should email a reset token to an existing user', async () => {
+        const mockUser = { _id: '1', name: 'Test User', email: 'test@example.com' };
+        (User.findOne as jest.Mock).mockResolvedValue(mockUser);
+        (userTokens.issueUserToken as jest.Mock).mockResolvedValue('reset-token');
+
+        const result = await userResolvers.Mutation.requestPasswordReset(null, {
+          email: ' Test@Example.com ',
+        });
+
+        expect(User.findOne).toHaveBeenCalledWith({ email: 'test@example.com' });
+        expect(userTokens.issueUserToken).toHaveBeenCalledWith('1', 'password-reset', 60);
+        expect(accountEmails.sendPasswordResetEmail).toHaveBeenCalledWith(mockUser, 'reset-token');
+        expect(result).toBe(true);
+      });
+
+      it('should report success without sending mail for unknown emails', async () => {
+        (User.findOne as jest.Mock).mockResolvedValue(null);
+
+        const result = await userResolvers.Mutation.requestPasswordReset(null, {
+          email: 'nobody@example.com',
+        });
+
+        expect(userTokens.issueUserToken).not.toHaveBeenCalled();
+        expect(accountEmails.sendPasswordResetEmail).not.toHaveBeenCalled();
+        expect(result).toBe(true);
+      });
+
+      it('should throw an error if sending fails', async () => {
+        (User.findOne as jest.Mock).mockResolvedValue({ _id: '1', email: 'test@example.com' });
+        (userTokens.issueUserToken as jest.Mock).mockResolvedValue('reset-token');
+        (accountEmails.sendPasswordResetEmail as jest.Mock).mockRejectedValue(
+          new Error('SMTP error'),
+        );
+
+        await expect(
+          userResolvers.Mutation.requestPasswordReset(null, { email: 'test@example.com' }),
+        ).rejects.toThrow('Error requesting password reset');
+      });
+    });
+
+    describe('resetPassword', () => {
+      it('should set the new password and sign out every session', async () => {
+        (userTokens.consumeUserToken as jest.Mock).mockResolvedValue('1');
+        jest.spyOn(auth, 'hashPassword').mockResolvedValue('hashed_new_password');
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue({
+          _id: '1',
+          email: 'test@example.com',
+        });
+
+        const result = await userResolvers.Mutation.resetPassword(null, {
+          token: 'reset-token',
+          newPassword: 'new_password',
+        });
+
+        expect(userTokens.consumeUserToken).toHaveBeenCalledWith('reset-token', 'password-reset');
+        expect(User.findByIdAndUpdate).toHaveBeenCalledWith('1', {
+          password: 'hashed_new_password',
+        });
+        expect(sessions.revokeAllSessions).toHaveBeenCalledWith('1');
+        expect(userTokens.revokeUserTokens).toHaveBeenCalledWith('1', 'password-reset');
+        expect(loginThrottle.unlock).toHaveBeenCalledWith('test@example.com');
+        expect(result).toBe(true);
+      });
+
+      it('should reject passwords that are too short without using the token', async () => {
+        await expect(
+          userResolvers.Mutation.resetPassword(null, { token: 'reset-token', newPassword: '123' }),
+        ).rejects.toThrow('Password must be at least 6 characters long');
+        expect(userTokens.consumeUserToken).not.toHaveBeenCalled();
+      });
+
+      it('should reject invalid, expired or used tokens', async () => {
+        (userTokens.consumeUserToken as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          userResolvers.Mutation.resetPassword(null, {
+            token: 'used-token',
+            newPassword: 'new_password',
+          }),
+        ).rejects.toThrow('Invalid or expired password reset token');
+        expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+    });
+
     describe('updateUser', () => {
-      const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
 
       it('should update a user name', async () => {
         const updateUserInput = { name: 'New Name' };
@@ -288,7 +628,6 @@ describe('User Resolvers', () => {
           null,
           { updateUserInput },
           mockContext,
-          undefined,
         )) as { name?: string };
 
         expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
@@ -304,7 +643,7 @@ describe('User Resolvers', () => {
         jest.spyOn(auth, 'hashPassword').mockResolvedValue('hashed_new_password');
         (User.findByIdAndUpdate as jest.Mock).mockResolvedValue({ _id: '1' });
 
-        await userResolvers.Mutation.updateUser(null, { updateUserInput }, mockContext, undefined);
+        await userResolvers.Mutation.updateUser(null, { updateUserInput }, mockContext);
 
         expect(auth.hashPassword).toHaveBeenCalledWith('new_password');
         expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
@@ -314,6 +653,29 @@ describe('User Resolvers', () => {
         );
       });
 
+      it('should require verifying a changed email address', async () => {
+        const mockUpdatedUser = { _id: '1', email: 'changed@example.com' };
+        (User.findById as jest.Mock).mockResolvedValue({ _id: '1', email: 'test@example.com' });
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockUpdatedUser);
+        (userTokens.issueUserToken as jest.Mock).mockResolvedValue('verify-token');
+
+        await userResolvers.Mutation.updateUser(
+          null,
+          { updateUserInput: { email: 'changed@example.com' } },
+          mockContext,
+        );
+
+        expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+          '1',
+          { email: 'changed@example.com', emailVerified: false },
+          { new: true },
+        );
+        expect(accountEmails.sendVerificationEmail).toHaveBeenCalledWith(
+          mockUpdatedUser,
+          'verify-token',
+        );
+      });
+
       it('should throw an error if user to update is not found', async () => {
         (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
         await expect(
@@ -321,7 +683,6 @@ describe('User Resolvers', () => {
             null,
             { updateUserInput: { name: 'test' } },
             mockContext,
-            undefined,
           ),
         ).rejects.toThrow('User not found');
       });
@@ -333,47 +694,453 @@ describe('User Resolvers', () => {
             null,
             { updateUserInput: { name: 'test' } },
             mockContext,
-            undefined,
           ),
         ).rejects.toThrow('Error updating user');
       });
     });
 
+    describe('updatePrivacySettings', () => {
+      const mockContext = createContext({
+        user: { id: '1', email: 'test@example.com', role: 'user', sessionId: 'session-1' },
+      });
+
+      it('should update only the provided settings', async () => {
+        const mockUpdatedUser = { _id: '1', privacy: { email: 'public' } };
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockUpdatedUser);
+
+        const result = await userResolvers.Mutation.updatePrivacySettings(
+          null,
+          { privacyInput: { email: 'public' } },
+          mockContext,
+        );
+
+        expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+          '1',
+          { 'privacy.email': 'public' },
+          { new: true },
+        );
+        expect(result).toEqual(mockUpdatedUser);
+      });
+
+      it('should throw an error if the user is not found', async () => {
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
+
+        await expect(
+          userResolvers.Mutation.updatePrivacySettings(
+            null,
+            { privacyInput: { email: 'private' } },
+            mockContext,
+          ),
+        ).rejects.toThrow('User not found');
+      });
+    });
+
     describe('deleteUser', () => {
-      const mockContext = createContext({ user: { id: '1', email: 'test@example.com' } });
+      const userId = new mongoose.Types.ObjectId();
+      const otherId = new mongoose.Types.ObjectId();
+      const session = { id: 'transaction' };
+      let mockContext: ContextWithMocks;
+
+      const mockFindEvents = (...results: unknown[][]) => {
+        results.forEach(events => {
+          (Event.find as jest.Mock).mockReturnValueOnce({
+            session: jest.fn().mockResolvedValue(events),
+          });
+        });
+      };
+
+      beforeEach(() => {
+        mockContext = createContext({
+          user: { id: userId.toString(), email: 'test@example.com', role: 'user' },
+        });
+        jest
+          .spyOn(mongoose.connection, 'transaction')
+          .mockImplementation(async fn => fn(session as unknown as ClientSession));
+        (Event.updateMany as jest.Mock).mockReturnValue({ setOptions: jest.fn() });
+      });
 
-      it('should delete a user successfully', async () => {
-        (User.findByIdAndDelete as jest.Mock).mockResolvedValue({ _id: '1' });
-        const result = await userResolvers.Mutation.deleteUser(null, {}, mockContext, undefined);
+      afterAll(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('should cancel upcoming events, delete them and leave every attendee list', async () => {
+        // Arrange
+        const deletedUser = { _id: userId, name: 'Leaving User' };
+        const upcoming = {
+          _id: new mongoose.Types.ObjectId(),
+          status: 'published',
+          startsAt: new Date('2999-01-01T18:00:00Z'),
+          endsAt: null,
+          attendees: [otherId],
+          waitlist: [],
+        };
+        const past = { ...upcoming, _id: new mongoose.Types.ObjectId(), startsAt: new Date(0) };
+        const cancelled = { ...upcoming, status: 'cancelled' };
+        const attended = {
+          _id: new mongoose.Types.ObjectId(),
+          attendees: [userId],
+          waitlist: [],
+        };
+        const vacated = { ...attended, attendees: [] };
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce(deletedUser);
+        mockFindEvents([upcoming, past], [attended]);
+        (Event.findByIdAndUpdate as jest.Mock)
+          .mockResolvedValueOnce(cancelled)
+          .mockResolvedValueOnce(vacated);
 
-        expect(User.findByIdAndDelete).toHaveBeenCalledWith('1');
+        // Act
+        const result = await userResolvers.Mutation.deleteUser(null, {}, mockContext);
+
+        // Assert
+        expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+          userId.toString(),
+          { deletedAt: expect.any(Date) },
+          { session },
+        );
+        expect(Event.findByIdAndUpdate).toHaveBeenNthCalledWith(
+          1,
+          upcoming._id,
+          { status: 'cancelled', cancellationReason: 'The organizer deleted their account' },
+          { new: true, session },
+        );
+        const [, { deletedAt }] = (User.findByIdAndUpdate as jest.Mock).mock.calls[0];
+        expect(Event.updateMany).toHaveBeenCalledWith(
+          { creator: userId.toString() },
+          { deletedAt },
+          { session },
+        );
+        const leaveEvent = {
+          $pull: { attendees: userId.toString(), waitlist: userId.toString() },
+        };
+        expect(Event.findByIdAndUpdate).toHaveBeenNthCalledWith(2, attended._id, leaveEvent, {
+          new: true,
+          session,
+        });
+        expect(Event.updateMany).toHaveBeenLastCalledWith(expect.any(Object), leaveEvent, {
+          session,
+        });
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_STATUS_CHANGED', {
+          eventStatusChanged: expect.objectContaining({ event: cancelled, status: 'cancelled' }),
+          recipientIds: [otherId.toString()],
+        });
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_DELETED', {
+          eventDeleted: past._id.toString(),
+        });
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('USER_LEFT_EVENT', {
+          userLeftEvent: deletedUser,
+          eventId: attended._id.toString(),
+        });
+        expect(sessions.revokeAllSessions).toHaveBeenCalledWith(userId.toString());
+        expect(apiKeys.revokeAllApiKeys).toHaveBeenCalledWith(userId.toString());
         expect(result).toBe(true);
       });
 
-      it('should throw an error if user to delete is not found', async () => {
-        (User.findByIdAndDelete as jest.Mock).mockResolvedValue(null);
+      it('should transfer events to another user instead', async () => {
+        // Arrange
+        const owned = { _id: new mongoose.Types.ObjectId(), attendees: [], waitlist: [] };
+        const transferred = { ...owned, creator: otherId };
+        (User.exists as jest.Mock).mockReturnValueOnce({
+          session: jest.fn().mockResolvedValue({ _id: otherId }),
+        });
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce({ _id: userId });
+        mockFindEvents([owned], []);
+        (Event.findByIdAndUpdate as jest.Mock).mockResolvedValueOnce(transferred);
+
+        // Act
+        await userResolvers.Mutation.deleteUser(
+          null,
+          { transferEventsTo: otherId.toString() },
+          mockContext,
+        );
+
+        // Assert
+        expect(Event.findByIdAndUpdate).toHaveBeenCalledWith(
+          owned._id,
+          { creator: otherId.toString() },
+          { new: true, session },
+        );
+        expect(Event.updateMany).not.toHaveBeenCalledWith(
+          expect.anything(),
+          { deletedAt: expect.any(Date) },
+          expect.anything(),
+        );
+        expect(mockContext.pubsub.publish).toHaveBeenCalledWith('EVENT_UPDATED', {
+          eventUpdated: transferred,
+        });
+      });
+
+      it('should not transfer events to the deleted user or missing users', async () => {
+        // Arrange
+        (User.exists as jest.Mock).mockReturnValueOnce({
+          session: jest.fn().mockResolvedValue(null),
+        });
+
+        // Act & Assert
         await expect(
-          userResolvers.Mutation.deleteUser(null, {}, mockContext, undefined),
-        ).rejects.toThrow('User not found');
+          userResolvers.Mutation.deleteUser(
+            null,
+            { transferEventsTo: userId.toString() },
+            mockContext,
+          ),
+        ).rejects.toThrow('Events can only be transferred to another existing user');
+        await expect(
+          userResolvers.Mutation.deleteUser(
+            null,
+            { transferEventsTo: otherId.toString() },
+            mockContext,
+          ),
+        ).rejects.toThrow('Events can only be transferred to another existing user');
+        expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should throw an error if user to delete is not found', async () => {
+        (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
+        await expect(userResolvers.Mutation.deleteUser(null, {}, mockContext)).rejects.toThrow(
+          'User not found',
+        );
+        expect(sessions.revokeAllSessions).not.toHaveBeenCalled();
       });
 
       it('should re-throw other errors', async () => {
-        (User.findByIdAndDelete as jest.Mock).mockRejectedValue(new Error('DB Error'));
-        await expect(
-          userResolvers.Mutation.deleteUser(null, {}, mockContext, undefined),
-        ).rejects.toThrow('Error deleting user');
+        (User.findByIdAndUpdate as jest.Mock).mockRejectedValue(new Error('DB Error'));
+        await expect(userResolvers.Mutation.deleteUser(null, {}, mockContext)).rejects.toThrow(
+          'Error deleting user',
+        );
       });
     });
   });
 
+  describe('restoreUser', () => {
+    const userId = '64b7f0c2a1b2c3d4e5f60718';
+    const deletedAt = new Date();
+
+    it('should restore a deleted user along with the events deleted with them', async () => {
+      // Arrange
+      const restoredUser = { _id: userId, deletedAt: null };
+      (User.findOne as jest.Mock).mockResolvedValueOnce({ _id: userId, deletedAt });
+      (User.findOneAndUpdate as jest.Mock).mockResolvedValueOnce(restoredUser);
+
+      // Act
+      const result = await userResolvers.Mutation.restoreUser(null, { userId });
+
+      // Assert
+      const [filter] = (User.findOne as jest.Mock).mock.calls[0];
+      expect(filter._id).toBe(userId);
+      expect(filter.deletedAt.$gte).toBeInstanceOf(Date);
+      expect(User.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: userId, deletedAt },
+        { deletedAt: null },
+        { new: true },
+      );
+      expect(Event.updateMany).toHaveBeenCalledWith(
+        { creator: userId, deletedAt },
+        { deletedAt: null },
+      );
+      expect(result).toBe(restoredUser);
+    });
+
+    it('should not find users past the retention window', async () => {
+      // Arrange
+      (User.findOne as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(userResolvers.Mutation.restoreUser(null, { userId })).rejects.toThrow(
+        'User not found',
+      );
+      expect(User.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not find invalid ids', async () => {
+      await expect(
+        userResolvers.Mutation.restoreUser(null, { userId: 'not-an-id' }),
+      ).rejects.toThrow('User not found');
+      expect(User.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setUserRole', () => {
+    const targetId = '64b7f0c2a1b2c3d4e5f60718';
+    const mockContext = createContext({
+      user: { id: '1', email: 'admin@example.com', role: 'admin', sessionId: 'session-1' },
+    });
+
+    it('should update the role and revoke the target sessions', async () => {
+      const mockUpdatedUser = { _id: targetId, role: 'moderator' };
+      (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(mockUpdatedUser);
+
+      const result = await userResolvers.Mutation.setUserRole(
+        null,
+        { userId: targetId, role: 'moderator' },
+        mockContext,
+      );
+
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+        targetId,
+        { role: 'moderator' },
+        { new: true },
+      );
+      expect(sessions.revokeAllSessions).toHaveBeenCalledWith(targetId);
+      expect(result).toEqual(mockUpdatedUser);
+    });
+
+    it('should not let an admin change their own role', async () => {
+      const selfContext = createContext({
+        user: { id: targetId, email: 'admin@example.com', role: 'admin', sessionId: 'session-1' },
+      });
+
+      await expect(
+        userResolvers.Mutation.setUserRole(null, { userId: targetId, role: 'user' }, selfContext),
+      ).rejects.toThrow('You cannot change your own role');
+      expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the user is not found', async () => {
+      (User.findByIdAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        userResolvers.Mutation.setUserRole(null, { userId: targetId, role: 'admin' }, mockContext),
+      ).rejects.toThrow('User not found');
+      expect(sessions.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear the failed logins of the account', async () => {
+      (User.findById as jest.Mock).mockResolvedValue({
+        _id: '507f1f77bcf86cd799439011',
+        email: 'locked@example.com',
+      });
+
+      const result = await userResolvers.Mutation.unlockAccount(null, {
+        userId: '507f1f77bcf86cd799439011',
+      });
+
+      expect(loginThrottle.unlock).toHaveBeenCalledWith('locked@example.com');
+      expect(result).toBe(true);
+    });
+
+    it('should throw if the user does not exist', async () => {
+      (User.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        userResolvers.Mutation.unlockAccount(null, { userId: '507f1f77bcf86cd799439011' }),
+      ).rejects.toThrow('User not found');
+      expect(loginThrottle.unlock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('User field resolvers', () => {
+    const creatorId = '61c0ccf11d7bf83d153d7c06';
+    const createEvent = (day: number, overrides: Partial<IEvent> = {}): IEvent =>
+      ({
+        _id: new mongoose.Types.ObjectId(),
+        status: 'published',
+        creator: creatorId,
+        startsAt: new Date(Date.UTC(2030, 0, day)),
+        ...overrides,
+      }) as unknown as IEvent;
+
     describe('events', () => {
-      it('should load events for a user', async () => {
+      it('should load one page of the events of a user, soonest first', async () => {
+        // Arrange
         const mockContext = createContext();
-        mockContext.mocks.userEventsLoaderLoad.mockResolvedValue([]);
-        const parent = { _id: '1' } as unknown as IUser;
-        await userResolvers.User.events(parent, {}, mockContext);
-        expect(mockContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith('1');
+        const [first, second, third] = [createEvent(1), createEvent(2), createEvent(3)];
+        mockContext.mocks.userEventsLoaderLoad.mockResolvedValue({
+          items: [first, second, third],
+          totalCount: 5,
+        });
+        const parent = { _id: creatorId } as unknown as IUser;
+
+        // Act
+        const result = await userResolvers.User.events(parent, { first: 2 }, mockContext);
+
+        // Assert
+        expect(mockContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith({
+          id: creatorId,
+          args: { first: 2 },
+          filter: { status: trusted({ $ne: 'draft' }) },
+          page: { seek: [], sort: { startsAt: 1, _id: 1 }, skip: 0, limit: 3 },
+        });
+        expect(result.nodes).toEqual([first, second]);
+        expect(result.pageInfo.hasNextPage).toBe(true);
+        expect(await result.totalCount()).toBe(5);
+      });
+
+      it('should skip to the page asked for by number', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const [third, fourth] = [createEvent(3), createEvent(4)];
+        mockContext.mocks.userEventsLoaderLoad.mockResolvedValue({
+          items: [third, fourth],
+          totalCount: 4,
+        });
+        const parent = { _id: creatorId } as unknown as IUser;
+        const pagination = { page: 2, limit: 2 };
+
+        // Act
+        const result = await userResolvers.User.events(parent, { pagination }, mockContext);
+
+        // Assert
+        expect(mockContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith(
+          expect.objectContaining({
+            args: { pagination },
+            page: expect.objectContaining({ skip: 2, limit: 3 }),
+          }),
+        );
+        expect(result.nodes).toEqual([third, fourth]);
+        expect(result.pageInfo.hasNextPage).toBe(false);
+        expect(result.pageInfo.hasPreviousPage).toBe(true);
+      });
+
+      it('should narrow the events down with a filter', async () => {
+        // Arrange
+        const mockContext = createContext();
+        mockContext.mocks.userEventsLoaderLoad.mockResolvedValue({ items: [], totalCount: 0 });
+        const parent = { _id: creatorId } as unknown as IUser;
+        const filter = { tags: ['Jazz'] };
+        const sort: EventSort[] = [{ field: 'createdAt', direction: -1 }];
+
+        // Act
+        await userResolvers.User.events(parent, { filter, sort }, mockContext);
+
+        // Assert
+        expect(mockContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith({
+          id: creatorId,
+          args: { filter, sort },
+          filter: {
+            tags: trusted({ $all: ['jazz'] }),
+            status: trusted({ $ne: 'draft' }),
+          },
+          page: expect.objectContaining({ sort: { createdAt: -1, startsAt: 1, _id: 1 } }),
+        });
+      });
+
+      it('should only load drafts for their creator', async () => {
+        // Arrange
+        const parent = { _id: creatorId } as unknown as IUser;
+        const otherContext = createContext();
+        const creatorContext = createContext({
+          user: { id: creatorId, email: 'a@example.com', role: 'user' },
+        });
+        otherContext.mocks.userEventsLoaderLoad.mockResolvedValueOnce({ items: [], totalCount: 0 });
+        creatorContext.mocks.userEventsLoaderLoad.mockResolvedValueOnce({
+          items: [],
+          totalCount: 0,
+        });
+
+        // Act
+        await userResolvers.User.events(parent, {}, otherContext);
+        await userResolvers.User.events(parent, {}, creatorContext);
+
+        // Assert
+        expect(otherContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith(
+          expect.objectContaining({ filter: { status: trusted({ $ne: 'draft' }) } }),
+        );
+        expect(creatorContext.mocks.userEventsLoaderLoad).toHaveBeenCalledWith(
+          expect.objectContaining({
+            filter: { $or: [{ status: trusted({ $ne: 'draft' }) }, { creator: creatorId }] },
+          }),
+        );
       });
 
       it('should handle errors', async () => {
@@ -387,12 +1154,40 @@ describe('User Resolvers', () => {
     });
 
     describe('attendingEvents', () => {
-      it('should load attending events for a user', async () => {
+      it('should page back through the events a user attends', async () => {
+        // Arrange
+        const mockContext = createContext();
+        const [first, second] = [createEvent(1), createEvent(2)];
+        mockContext.mocks.userAttendingEventsLoaderLoad.mockResolvedValue({
+          items: [second, first],
+          totalCount: 2,
+        });
+        const parent = { _id: '1' } as unknown as IUser;
+
+        // Act
+        const result = await userResolvers.User.attendingEvents(parent, { last: 1 }, mockContext);
+
+        // Assert
+        expect(mockContext.mocks.userAttendingEventsLoaderLoad).toHaveBeenCalledWith({
+          id: '1',
+          args: { last: 1 },
+          filter: {},
+          page: { seek: [], sort: { startsAt: -1, _id: -1 }, skip: 0, limit: 2 },
+        });
+        expect(result.nodes).toEqual([second]);
+        expect(result.pageInfo.hasPreviousPage).toBe(true);
+      });
+
+      it('should reject invalid paging arguments', async () => {
         const mockContext = createContext();
-        mockContext.mocks.userAttendingEventsLoaderLoad.mockResolvedValue([]);
         const parent = { _id: '1' } as unknown as IUser;
-        await userResolvers.User.attendingEvents(parent, {}, mockContext);
-        expect(mockContext.mocks.userAttendingEventsLoaderLoad).toHaveBeenCalledWith('1');
+        await expect(
+          userResolvers.User.attendingEvents(parent, { first: 1, last: 1 }, mockContext),
+        ).rejects.toThrow(
+          new GraphQLError('Ask for either the first or the last items, not both', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          }),
+        );
       });
 
       it('should handle errors', async () => {
@@ -0,0 +1,150 @@
+import { GraphQLError } from 'graphql';
+import { isValidObjectId } from 'mongoose';
+
+import { logger } from '../../logger.js';
+import type { ApiKeyScope, IApiKey } from '../../models/ApiKey.js';
+import { ApiKey } from '../../models/ApiKey.js';
+import type { UserRole } from '../../models/User.js';
+import { createApiKey } from '../../utils/apiKeys.js';
+
+interface ApiKeyInput {
+  name: string;
+  scopes?: ApiKeyScope[] | null;
+}
+
+interface UpdateApiKeyInput {
+  name?: string | null;
+  scopes?: ApiKeyScope[] | null;
+}
+
+interface CreatedApiKey {
+  apiKey: IApiKey;
+  key: string;
+}
+
+interface Context {
+  user?: {
+    id: string;
+    email: string;
+    role: UserRole;
+    sessionId?: string;
+  };
+}
+
+const validateName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new GraphQLError('API key name is required', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return trimmed;
+};
+
+export const apiKeyResolvers = {
+  Query: {
+    myApiKeys: async (_: unknown, __: unknown, { user }: Context): Promise<IApiKey[]> => {
+      try {
+        return await ApiKey.find({ user: user!.id, revokedAt: null }).sort({ createdAt: -1 });
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error fetching API keys', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  Mutation: {
+    createApiKey: async (
+      _: unknown,
+      { apiKeyInput }: { apiKeyInput: ApiKeyInput },
+      { user }: Context,
+    ): Promise<CreatedApiKey> => {
+      try {
+        return await createApiKey(
+          user!.id,
+          validateName(apiKeyInput.name),
+          apiKeyInput.scopes ?? [],
+        );
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error creating API key', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    updateApiKey: async (
+      _: unknown,
+      { id, apiKeyInput }: { id: string; apiKeyInput: UpdateApiKeyInput },
+      { user }: Context,
+    ): Promise<IApiKey> => {
+      try {
+        const updateData: { name?: string; scopes?: ApiKeyScope[] } = {};
+        if (apiKeyInput.name != null) updateData.name = validateName(apiKeyInput.name);
+        if (apiKeyInput.scopes != null) {
+          updateData.scopes = Array.from(new Set<ApiKeyScope>(['read', ...apiKeyInput.scopes]));
+        }
+
+        // Scoping the lookup to the current user hides other users' keys entirely
+        const apiKey = isValidObjectId(id)
+          ? await ApiKey.findOneAndUpdate(
+              { _id: id, user: user!.id, revokedAt: null },
+              updateData,
+              {
+                new: true,
+              },
+            )
+          : null;
+
+        if (!apiKey) {
+          throw new GraphQLError('API key not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        return apiKey;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error updating API key', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    revokeApiKey: async (
+      _: unknown,
+      { id }: { id: string },
+      { user }: Context,
+    ): Promise<boolean> => {
+      try {
+        const result = isValidObjectId(id)
+          ? await ApiKey.updateOne(
+              { _id: id, user: user!.id, revokedAt: null },
+              { revokedAt: new Date() },
+            )
+          : null;
+
+        if (!result?.modifiedCount) {
+          throw new GraphQLError('API key not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error revoking API key', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  ApiKeyScope: {
+    READ: 'read',
+    EVENTS_WRITE: 'events:write',
+  },
+};
@@ -1,29 +1,101 @@
 import { GraphQLError } from 'graphql';
 import type { PubSub } from 'graphql-subscriptions';
-import { Types } from 'mongoose';
+import { isValidObjectId, trusted, Types } from 'mongoose';
 
+import { config } from '../../config.js';
 import { logger } from '../../logger.js';
 import { Event } from '../../models/Event.js';
-import type { IEvent } from '../../models/Event.js';
-import type { IUser } from '../../models/User.js';
-import { requireAuth } from '../../utils/auth.js';
+import type { IAddress, IEvent, IGeoPoint, IRecurrence } from '../../models/Event.js';
+import type { IUser, UserRole } from '../../models/User.js';
+import { User } from '../../models/User.js';
 import type { Loaders } from '../../utils/dataLoaders.js';
-import { paginateQuery } from '../../utils/pagination.js';
-import { escapeRegex } from '../../utils/sanitize.js';
+import type { Bounds, LatLng } from '../../utils/geo.js';
+import { isValidLatitude, isValidLongitude, toGeoPoint, toLatLng } from '../../utils/geo.js';
+import { toGlobalId } from '../../utils/globalId.js';
+import type { Connection, ConnectionArgs, SortSpec } from '../../utils/pagination.js';
+import {
+  mapNodes,
+  paginateAggregate,
+  paginateList,
+  paginateQuery,
+} from '../../utils/pagination.js';
+import { parseRecurrenceRule, RecurrenceRuleError, toDateKey } from '../../utils/recurrence.js';
+import { getRetentionCutoff } from '../../utils/softDelete.js';
+import type { Highlight, TextSearchQuery } from '../../utils/textSearch.js';
+import { highlight, parseTextSearch } from '../../utils/textSearch.js';
+import {
+  addLocalDays,
+  getZonedDayRange,
+  isValidLocalDate,
+  isValidLocalTime,
+  isValidTimeZone,
+  toZonedTime,
+  zonedTimeToInstant,
+} from '../../utils/timeZones.js';
 
-import { checkIsCreator } from './helpers/authHelpers.js';
-import { findEventOrThrow } from './helpers/eventHelpers.js';
+import { checkIsOwner } from './helpers/authHelpers.js';
+import type { DisplayStatus } from './helpers/eventHelpers.js';
+import {
+  eventFullFilter,
+  eventsOverlap,
+  expandSeries,
+  findEventOrThrow,
+  findOccurrenceOrThrow,
+  findScheduleConflicts,
+  getDisplayStatus,
+  getEventEnd,
+  getOccurrenceSchedule,
+  isGeneratedOccurrence,
+  isUnsavedOccurrence,
+  isVisibleTo,
+  normalizeTags,
+  openForAttendanceFilter,
+  parseOccurrenceDate,
+  promoteFromWaitlist,
+  publicEventFilter,
+  publishPromotions,
+  publishStatusChange,
+  seatAvailableFilter,
+  storeOccurrence,
+} from './helpers/eventHelpers.js';
+import type { EventSearch, EventSort } from './helpers/eventSearch.js';
+import { NEWEST_FIRST, SOONEST_FIRST, toSearchFilter, toSortSpec } from './helpers/eventSearch.js';
 import { TOPICS } from './subscriptionResolvers.js';
 
-interface EventConnection {
-  edges: IEvent[];
-  pageInfo: {
-    hasNextPage: boolean;
-    hasPreviousPage: boolean;
-    currentPage: number;
-    totalPages: number;
-  };
-  totalCount: number;
+type EventConnection = Connection<IEvent>;
+
+type UserConnection = Connection<IUser>;
+
+type SearchField = 'title' | 'description' | 'location';
+
+interface SearchHighlight extends Highlight {
+  field: SearchField;
+}
+
+interface EventSearchResult {
+  event: IEvent;
+  // Relevance of the event to the search, higher is better
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// Paged through by page number only, so its edges carry what matched instead of cursors
+interface EventSearchConnection extends Omit<EventConnection, 'edges' | 'nodes'> {
+  edges: EventSearchResult[];
+}
+
+interface NearbyEvent {
+  event: IEvent;
+  distanceKm: number;
+}
+
+interface NearbyEventConnection extends Omit<EventConnection, 'edges' | 'nodes'> {
+  edges: NearbyEvent[];
+}
+
+interface RecurrenceInput {
+  rule: string;
+  exceptions?: string[] | null;
 }
 
 interface EventInput {
@@ -31,45 +103,552 @@ interface EventInput {
   description: string;
   date: string;
   time: string;
+  endDate?: string | null;
+  endTime?: string | null;
+  durationMinutes?: number | null;
+  timeZone?: string | null;
   location: string;
+  geoLocation?: LatLng | null;
+  address?: IAddress | null;
   imageUrl?: string;
+  tags?: string[] | null;
+  capacity?: number | null;
+  recurrence?: RecurrenceInput | null;
 }
 
-interface PaginationInput {
-  page?: number;
-  limit?: number;
+interface DateRangeInput {
+  from: string;
+  to: string;
+  timeZone?: string | null;
+}
+
+interface EventFilterInput extends EventSearch {
+  range?: DateRangeInput | null;
+}
+
+interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+type AttendanceStatus = 'confirmed' | 'waitlisted';
+
+interface ScheduleConflict {
+  event: IEvent;
+  conflictsWith: IEvent[];
+}
+
+interface Attendance {
+  status: AttendanceStatus;
+  event: IEvent;
+  // 1-based position on the waitlist, null once confirmed
+  waitlistPosition: number | null;
 }
 
 interface Context {
   user?: {
     id: string;
     email: string;
+    role: UserRole;
+    sessionId?: string;
   };
   loaders: Loaders;
   pubsub: PubSub;
 }
 
+// Attendees are listed in the order they signed up, like users
+const ATTENDEE_SORT: SortSpec = { _id: 1 };
+
 const paginateEvents = async (
   filter: Record<string, unknown>,
-  sort: Record<string, 1 | -1>,
-  pagination?: PaginationInput,
+  sort: SortSpec,
+  paging: ConnectionArgs,
 ): Promise<EventConnection> => {
   const query = Event.find(filter).sort(sort);
-  return paginateQuery(query, Event, filter, pagination);
+  return paginateQuery(query, Event, filter, paging, { sort });
+};
+
+const validateCapacity = (capacity: number | null | undefined): void => {
+  if (capacity != null && (!Number.isInteger(capacity) || capacity < 1)) {
+    throw new GraphQLError('Capacity must be a positive whole number', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+};
+
+// Wide enough for a region, without scanning a continent
+const MAX_RADIUS_KM = 500;
+
+const toPosition = (position: LatLng): IGeoPoint => {
+  if (!isValidLatitude(position.lat)) {
+    throw new GraphQLError('Latitude must be between -90 and 90 degrees', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (!isValidLongitude(position.lng)) {
+    throw new GraphQLError('Longitude must be between -180 and 180 degrees', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return toGeoPoint(position);
+};
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const toTags = (tags: string[]): string[] => {
+  const normalized = normalizeTags(tags);
+  if (normalized.length > MAX_TAGS) {
+    throw new GraphQLError(`Events can have at most ${MAX_TAGS} tags`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new GraphQLError(`Tags can be at most ${MAX_TAG_LENGTH} characters long`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return normalized;
+};
+
+/**
+ * Check the rule and exception dates of a recurring event and convert them for storage
+ */
+const toRecurrence = (recurrence: RecurrenceInput): IRecurrence => {
+  try {
+    parseRecurrenceRule(recurrence.rule);
+  } catch (err) {
+    if (err instanceof RecurrenceRuleError) {
+      throw new GraphQLError(err.message, {
+        extensions: { code: 'BAD_USER_INPUT' },
+      });
+    }
+    throw err;
+  }
+
+  return {
+    rule: recurrence.rule.trim(),
+    exceptions: (recurrence.exceptions ?? []).map(parseOccurrenceDate),
+  };
+};
+
+const resolveTimeZone = (timeZone: string | null | undefined, fallback: string): string => {
+  const zone = timeZone ?? fallback;
+  if (!isValidTimeZone(zone)) {
+    throw new GraphQLError(`Unknown time zone "${zone}"`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return zone;
+};
+
+interface ScheduleInput {
+  date: string;
+  time: string;
+  endDate: string | null;
+  endTime: string | null;
+  durationMinutes: number | null;
+}
+
+const validateEnd = ({ endDate, endTime, durationMinutes }: ScheduleInput): void => {
+  if (endTime != null && durationMinutes != null) {
+    throw new GraphQLError('Give either an end time or a duration, not both', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (endDate != null && endTime == null) {
+    throw new GraphQLError('An end date needs an end time', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (endDate != null && !isValidLocalDate(endDate)) {
+    throw new GraphQLError('End date must be in YYYY-MM-DD format', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (endTime != null && !isValidLocalTime(endTime)) {
+    throw new GraphQLError('End time must be in HH:mm format', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (durationMinutes != null && (!Number.isInteger(durationMinutes) || durationMinutes < 1)) {
+    throw new GraphQLError('Duration must be a positive whole number of minutes', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+};
+
+/**
+ * Check the wall-clock schedule of an event and find the instants it starts and ends at.
+ * Events end after a duration, or at an end time on their end date. Without an end
+ * date, events that end at or before the time they start at end on the next day.
+ */
+const toSchedule = (
+  schedule: ScheduleInput,
+  timeZone: string,
+): { startsAt: Date; endsAt: Date | null } => {
+  const { date, time, endDate, endTime, durationMinutes } = schedule;
+  if (!isValidLocalDate(date)) {
+    throw new GraphQLError('Date must be in YYYY-MM-DD format', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (!isValidLocalTime(time)) {
+    throw new GraphQLError('Time must be in HH:mm format', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  validateEnd(schedule);
+
+  const startsAt = zonedTimeToInstant(date, time, timeZone);
+  let endsAt: Date | null = null;
+  if (durationMinutes != null) {
+    endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+  } else if (endTime != null) {
+    const endDay = endDate ?? (endTime <= time ? addLocalDays(date, 1) : date);
+    endsAt = zonedTimeToInstant(endDay, endTime, timeZone);
+  }
+
+  if (endsAt && endsAt <= startsAt) {
+    throw new GraphQLError('Events must end after they start', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return { startsAt, endsAt };
+};
+
+/**
+ * Turn event input into the fields to store, converting the recurrence if one is given.
+ * Input without a time zone keeps `currentTimeZone`.
+ */
+const toEventFields = (
+  {
+    recurrence,
+    timeZone,
+    endDate,
+    endTime,
+    durationMinutes,
+    tags,
+    geoLocation,
+    ...eventInput
+  }: EventInput,
+  currentTimeZone: string,
+): Record<string, unknown> => {
+  validateCapacity(eventInput.capacity);
+
+  const zone = resolveTimeZone(timeZone, currentTimeZone);
+  const schedule = {
+    date: eventInput.date,
+    time: eventInput.time,
+    endDate: endDate ?? null,
+    endTime: endTime ?? null,
+    durationMinutes: durationMinutes ?? null,
+  };
+  const fields = {
+    ...eventInput,
+    ...(tags != null ? { tags: toTags(tags) } : {}),
+    ...(geoLocation !== undefined ? { geoLocation: geoLocation && toPosition(geoLocation) } : {}),
+    timeZone: zone,
+    ...toSchedule(schedule, zone),
+  };
+
+  if (recurrence === undefined) {
+    return fields;
+  }
+  return { ...fields, recurrence: recurrence && toRecurrence(recurrence) };
+};
+
+/**
+ * Move a postponed event to a later day, at the same time and for as long as it lasted.
+ * Without a new date the event keeps its day until the organizer picks one.
+ */
+const toPostponedFields = (
+  event: IEvent,
+  newDate: string | null | undefined,
+): Record<string, unknown> => {
+  if (newDate == null) {
+    return { status: 'postponed' };
+  }
+
+  const durationMinutes = event.endsAt
+    ? Math.round((event.endsAt.getTime() - event.startsAt.getTime()) / (60 * 1000))
+    : null;
+  const schedule = toSchedule(
+    { date: newDate, time: event.time, endDate: null, endTime: null, durationMinutes },
+    event.timeZone,
+  );
+  if (schedule.startsAt <= event.startsAt) {
+    throw new GraphQLError('Postponed events must move to a later date', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return { status: 'postponed', date: newDate, ...schedule };
+};
+
+// Expanding a series lists every occurrence in the range, so keep ranges bounded
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Turn a range of calendar days in a time zone into the instants it starts and ends at
+ */
+const parseDateRange = ({ from, to, timeZone }: DateRangeInput): DateRange => {
+  if (!isValidLocalDate(from) || !isValidLocalDate(to)) {
+    throw new GraphQLError('Invalid date provided', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+  if (days <= 0 || days > MAX_RANGE_DAYS) {
+    throw new GraphQLError(`Date ranges must span between 1 and ${MAX_RANGE_DAYS} days`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const zone = resolveTimeZone(timeZone, config.events.defaultTimeZone);
+  return {
+    from: zonedTimeToInstant(from, '00:00', zone),
+    to: zonedTimeToInstant(to, '00:00', zone),
+  };
+};
+
+/**
+ * List the events found by a search that start in `[from, to)`, with the occurrences of
+ * recurring series expanded in place of the series themselves
+ */
+const paginateEventsInRange = async (
+  { from, to }: DateRange,
+  search: EventSearch,
+  sort: EventSort[],
+  userId: string | undefined,
+  paging: ConnectionArgs,
+): Promise<EventConnection> => {
+  // Generated occurrences have nobody attending yet, so they always have seats left
+  const withOccurrences = search.attendee == null && search.hasSeatsLeft !== false;
+
+  const [events, series] = await Promise.all([
+    Event.find({
+      recurrence: null,
+      startsAt: trusted({ $gte: from, $lt: to }),
+      ...toSearchFilter(search, userId),
+    }),
+    withOccurrences
+      ? Event.find({
+          recurrence: trusted({ $ne: null }),
+          startsAt: trusted({ $lt: to }),
+          ...toSearchFilter({ ...search, hasSeatsLeft: null }, userId, null),
+        })
+      : [],
+  ]);
+
+  // Series were only matched on their stored status; occurrences may be over already
+  const now = new Date();
+  const occurrences = expandSeries(series, from, to).filter(
+    occurrence =>
+      !search.status?.length || search.status.includes(getDisplayStatus(occurrence, now)),
+  );
+
+  return paginateList([...events, ...occurrences], paging, toSortSpec(sort));
+};
+
+/**
+ * Find the events matching a search, within a range of start times if one is given
+ */
+const findEvents = async (
+  search: EventSearch,
+  range: DateRange | null,
+  sort: EventSort[],
+  userId: string | undefined,
+  paging: ConnectionArgs,
+): Promise<EventConnection> => {
+  if (range) {
+    return paginateEventsInRange(range, search, sort, userId, paging);
+  }
+  return paginateEvents(toSearchFilter(search, userId), toSortSpec(sort), paging);
+};
+
+const MAX_SEARCH_LENGTH = 200;
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'description', 'location'];
+
+const parseSearch = (query: string): TextSearchQuery => {
+  if (query.length > MAX_SEARCH_LENGTH) {
+    throw new GraphQLError(`Searches can be at most ${MAX_SEARCH_LENGTH} characters long`, {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  // Excluding words alone matches nothing, so at least one has to be looked for
+  const parsed = parseTextSearch(query);
+  if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+    throw new GraphQLError('Search for at least one word or phrase', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return parsed;
+};
+
+/**
+ * Pair an event found by a text search with its score and where the search matched it
+ */
+const toSearchResult = (event: IEvent, query: TextSearchQuery): EventSearchResult => ({
+  event,
+  score: event.get('score') as number,
+  highlights: SEARCH_FIELDS.flatMap(field => {
+    const fieldHighlight = event[field] ? highlight(event[field], query) : null;
+    return fieldHighlight ? [{ field, ...fieldHighlight }] : [];
+  }),
+});
+
+// A seat or waitlist spot can change hands between two conditional updates; give up
+// after a few rounds rather than loop while an event is being hammered
+const MAX_ATTENDANCE_ATTEMPTS = 5;
+
+const includesUser = (userIds: Types.ObjectId[], userId: string): boolean =>
+  userIds.some(id => id.toString() === userId);
+
+const assertOpenForAttendance = (event: IEvent): void => {
+  if (event.status === 'draft') {
+    throw new GraphQLError('Event not found', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  if (event.status === 'cancelled') {
+    throw new GraphQLError('This event has been cancelled', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+};
+
+const assertNotJoined = (event: IEvent, userId: string): void => {
+  if (includesUser(event.attendees, userId)) {
+    throw new GraphQLError('Already attending this event', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  if (includesUser(event.waitlist, userId)) {
+    throw new GraphQLError('Already on the waitlist for this event', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+};
+
+/**
+ * Changes to a whole series also apply to the occurrences stored as their own events,
+ * apart from the day each of them takes place
+ */
+const updateStoredOccurrences = async (
+  series: IEvent,
+  fields: Record<string, unknown>,
+  context: Context,
+): Promise<void> => {
+  const {
+    date: _date,
+    recurrence: _recurrence,
+    startsAt: _startsAt,
+    endsAt: _endsAt,
+    ...seriesFields
+  } = fields;
+
+  for (const occurrence of await Event.find({ series: series._id })) {
+    const updatedOccurrence = await Event.findByIdAndUpdate(
+      occurrence._id,
+      { ...seriesFields, ...getOccurrenceSchedule(series, occurrence.date) },
+      { new: true },
+    );
+    if (!updatedOccurrence) {
+      continue;
+    }
+
+    const { event, promotedIds } = await promoteFromWaitlist(updatedOccurrence);
+    await publishPromotions(event, promotedIds, context);
+    void context.pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: event });
+  }
+};
+
+/**
+ * Cancel an event, keeping its attendees so they can be told. Cancelling a series also
+ * cancels the occurrences stored as their own events.
+ */
+const cancelWithOccurrences = async (
+  event: IEvent,
+  reason: string | null,
+  pubsub: PubSub,
+): Promise<IEvent | null> => {
+  const cancelled = await Event.findOneAndUpdate(
+    { _id: event._id, ...openForAttendanceFilter },
+    { status: 'cancelled', cancellationReason: reason },
+    { new: true },
+  );
+  if (!cancelled) {
+    return null;
+  }
+  publishStatusChange(cancelled, event, pubsub, reason);
+
+  if (cancelled.recurrence) {
+    for (const occurrence of await Event.find({ series: cancelled._id })) {
+      await cancelWithOccurrences(occurrence, reason, pubsub);
+    }
+  }
+  return cancelled;
+};
+
+/**
+ * Cancel a single occurrence of a series. Generated occurrences become an exception of
+ * the series rule; stored ones are deleted like any other event, as their day is an
+ * exception already, so they can be restored along with their attendees.
+ */
+const cancelOccurrence = async (
+  id: string,
+  occurrenceDate: string,
+  pubsub: PubSub,
+): Promise<void> => {
+  const day = parseOccurrenceDate(occurrenceDate);
+  const event = await findEventOrThrow(id);
+
+  const storedOccurrence = await Event.findOneAndUpdate(
+    { series: event.series ?? event._id, occurrenceDate: day },
+    { deletedAt: new Date() },
+    { new: true },
+  );
+
+  if (storedOccurrence) {
+    void pubsub.publish(TOPICS.EVENT_DELETED, { eventDeleted: storedOccurrence._id.toString() });
+    return;
+  }
+
+  if (!isGeneratedOccurrence(event, day)) {
+    throw new GraphQLError('Event does not occur on this date', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const series = await Event.findByIdAndUpdate(
+    event._id,
+    { $addToSet: { 'recurrence.exceptions': day } },
+    { new: true },
+  );
+  void pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: series });
 };
 
 export const eventResolvers = {
   Query: {
     events: async (
       _: unknown,
-      { pagination }: { pagination?: PaginationInput },
+      { range, ...paging }: ConnectionArgs & { range?: DateRangeInput },
     ): Promise<EventConnection> => {
       try {
-        const query = Event.find().sort({ createdAt: -1 });
-
-        return await paginateQuery(query, Event, {}, pagination);
+        if (range) {
+          return await findEvents({}, parseDateRange(range), SOONEST_FIRST, undefined, paging);
+        }
+        return await findEvents({}, null, NEWEST_FIRST, undefined, paging);
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
         throw new GraphQLError('Error fetching events', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
@@ -79,70 +658,208 @@ export const eventResolvers = {
     event: async (
       _: unknown,
       { id }: { id: string },
-      { loaders }: Context,
+      { user, loaders }: Context,
     ): Promise<IEvent | null> => {
       try {
-        return await loaders.eventLoader.load(id);
+        const event = await loaders.eventLoader.load(id);
+        return event && isVisibleTo(event, user?.id) ? event : null;
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
         throw new GraphQLError('Error fetching event', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
     },
-    eventsByDate: async (
+    search: async (
       _: unknown,
-      { date, pagination }: { date: string; pagination?: PaginationInput },
-    ): Promise<EventConnection> => {
+      { query, ...paging }: ConnectionArgs & { query: string },
+    ): Promise<EventSearchConnection> => {
       try {
-        const searchDate = new Date(date);
+        const parsed = parseSearch(query);
 
-        if (Number.isNaN(searchDate.getTime())) {
-          throw new GraphQLError('Invalid date provided', {
+        // The text index also handles phrases, negation and stemming
+        const filter = { $text: trusted({ $search: query }), ...publicEventFilter };
+        const textScore = { score: { $meta: 'textScore' } };
+        const { nodes, pageInfo, totalCount } = await paginateQuery(
+          Event.find(filter, textScore).sort({ ...textScore, _id: 1 }),
+          Event,
+          filter,
+          paging,
+        );
+
+        return { edges: nodes.map(event => toSearchResult(event, parsed)), pageInfo, totalCount };
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error searching events', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    eventsNear: async (
+      _: unknown,
+      {
+        lat,
+        lng,
+        radiusKm,
+        pagination,
+      }: {
+        lat: number;
+        lng: number;
+        radiusKm: number;
+        pagination?: ConnectionArgs['pagination'];
+      },
+    ): Promise<NearbyEventConnection> => {
+      try {
+        const near = toPosition({ lat, lng });
+        if (!(radiusKm > 0 && radiusKm <= MAX_RADIUS_KM)) {
+          throw new GraphQLError(`Radius must be more than 0 and at most ${MAX_RADIUS_KM} km`, {
             extensions: { code: 'BAD_USER_INPUT' },
           });
         }
 
-        searchDate.setHours(0, 0, 0, 0);
-
-        const nextDay = new Date(searchDate);
+        // $geoNear orders events by distance. Aggregations skip query middleware, so
+        // deleted events have to be left out by hand.
+        const { nodes, pageInfo, totalCount } = await paginateAggregate<
+          Record<string, unknown> & { distance: number }
+        >(
+          Event,
+          [
+            {
+              $geoNear: {
+                near,
+                distanceField: 'distance',
+                maxDistance: radiusKm * 1000,
+                spherical: true,
+                query: { ...publicEventFilter, deletedAt: null },
+              },
+            },
+          ],
+          pagination,
+        );
 
-        nextDay.setDate(nextDay.getDate() + 1);
+        return {
+          edges: nodes.map(({ distance, ...event }) => ({
+            event: Event.hydrate(event),
+            distanceKm: distance / 1000,
+          })),
+          pageInfo,
+          totalCount,
+        };
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
-        const filter = { date: { $gte: searchDate, $lt: nextDay } };
-        return await paginateEvents(filter, { time: 1 }, pagination);
+        throw new GraphQLError('Error fetching events nearby', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    eventsInBounds: async (
+      _: unknown,
+      { bounds, ...paging }: ConnectionArgs & { bounds: Bounds },
+      { user }: Context,
+    ): Promise<EventConnection> => {
+      try {
+        return await findEvents({ bounds }, null, SOONEST_FIRST, user?.id, paging);
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
-        throw new GraphQLError('Error fetching events by date', {
+        throw new GraphQLError('Error fetching events on the map', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
     },
-    eventsByLocation: async (
+    searchEvents: async (
       _: unknown,
       {
-        location,
-        pagination,
-      }: {
-        location: string;
-        pagination?: PaginationInput;
+        filter,
+        sort,
+        ...paging
+      }: ConnectionArgs & {
+        filter?: EventFilterInput | null;
+        sort?: EventSort[] | null;
       },
+      { user }: Context,
     ): Promise<EventConnection> => {
       try {
-        const sanitizedLocation = escapeRegex(location.trim());
+        const { range, ...search } = filter ?? {};
+        return await findEvents(
+          search,
+          range ? parseDateRange(range) : null,
+          sort?.length ? sort : SOONEST_FIRST,
+          user?.id,
+          paging,
+        );
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
-        if (!sanitizedLocation) {
+        throw new GraphQLError('Error searching events', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    eventsByDate: async (
+      _: unknown,
+      { date, timeZone, ...paging }: ConnectionArgs & { date: string; timeZone?: string | null },
+    ): Promise<EventConnection> => {
+      try {
+        if (!isValidLocalDate(date)) {
+          throw new GraphQLError('Invalid date provided', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        // The day runs from midnight to midnight in the zone it is asked for
+        const day = getZonedDayRange(
+          date,
+          resolveTimeZone(timeZone, config.events.defaultTimeZone),
+        );
+
+        return await findEvents({}, day, SOONEST_FIRST, undefined, paging);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching events by date', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    eventsByLocation: async (
+      _: unknown,
+      { location, ...paging }: ConnectionArgs & { location: string },
+    ): Promise<EventConnection> => {
+      try {
+        if (!location.trim()) {
           throw new GraphQLError('Location is required', {
             extensions: { code: 'BAD_USER_INPUT' },
           });
         }
 
-        const filter = { location: { $regex: sanitizedLocation, $options: 'i' } };
-        return await paginateEvents(filter, { date: 1 }, pagination);
+        return await findEvents({ location }, null, SOONEST_FIRST, undefined, paging);
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
 
         throw new GraphQLError('Error fetching events by location', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
@@ -151,224 +868,633 @@ export const eventResolvers = {
     },
     eventsByUser: async (
       _: unknown,
-      { userId, pagination }: { userId: string; pagination?: PaginationInput },
+      { userId, ...paging }: ConnectionArgs & { userId: string },
     ): Promise<EventConnection> => {
       try {
-        if (!Types.ObjectId.isValid(userId)) {
-          throw new GraphQLError('Invalid user id', {
+        return await findEvents({ creator: userId }, null, NEWEST_FIRST, undefined, paging);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching events by user', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    myEvents: async (
+      _: unknown,
+      paging: ConnectionArgs,
+      { user }: Context,
+    ): Promise<EventConnection> => {
+      try {
+        const filter = { creator: user!.id };
+        return await paginateEvents(filter, toSortSpec(NEWEST_FIRST), paging);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching your events', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    myAttendingEvents: async (
+      _: unknown,
+      paging: ConnectionArgs,
+      { user }: Context,
+    ): Promise<EventConnection> => {
+      try {
+        const filter = { attendees: user!.id };
+        return await paginateEvents(filter, toSortSpec(SOONEST_FIRST), paging);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching events you are attending', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    myScheduleConflicts: async (
+      _: unknown,
+      __: unknown,
+      { user, loaders }: Context,
+    ): Promise<ScheduleConflict[]> => {
+      try {
+        // Past clashes cannot be resolved any more, so only look at what is still ahead
+        const now = new Date();
+        const upcoming = (await loaders.userAttendingEventsLoader.load({ id: user!.id })).items
+          .filter(event => event.status !== 'cancelled' && getEventEnd(event) > now)
+          .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+        return upcoming
+          .map(event => ({
+            event,
+            conflictsWith: upcoming.filter(other => other !== event && eventsOverlap(event, other)),
+          }))
+          .filter(conflict => conflict.conflictsWith.length > 0);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching your schedule conflicts', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  Mutation: {
+    createEvent: async (
+      _: unknown,
+      { eventInput, draft }: { eventInput: EventInput; draft?: boolean | null },
+      { user, pubsub }: Context,
+    ): Promise<IEvent> => {
+      try {
+        const event = new Event({
+          ...toEventFields(eventInput, config.events.defaultTimeZone),
+          creator: user!.id,
+          attendees: [],
+          waitlist: [],
+          status: draft ? 'draft' : 'published',
+        });
+
+        const result = await event.save();
+
+        // Drafts are announced once they are published
+        if (!draft) {
+          void pubsub.publish(TOPICS.EVENT_CREATED, { eventCreated: result });
+        }
+
+        return result;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error creating event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    updateEvent: async (
+      _: unknown,
+      {
+        id,
+        eventInput,
+        occurrenceDate,
+      }: {
+        id: string;
+        eventInput: EventInput;
+        occurrenceDate?: string | null;
+      },
+      context: Context,
+    ): Promise<IEvent> => {
+      const { pubsub } = context;
+      try {
+        // Ownership is enforced by the @owner directive. With an occurrence date only
+        // that occurrence of the series changes.
+        const event = occurrenceDate
+          ? await findOccurrenceOrThrow(id, occurrenceDate)
+          : await findEventOrThrow(id);
+
+        if (eventInput.recurrence && event.series) {
+          throw new GraphQLError('Single occurrences cannot repeat on their own', {
             extensions: { code: 'BAD_USER_INPUT' },
           });
         }
 
-        const filter = { creator: userId };
-        return await paginateEvents(filter, { createdAt: -1 }, pagination);
+        const fields = toEventFields(eventInput, event.timeZone);
+        const { _id } = await storeOccurrence(event);
+        const updatedEvent = await Event.findByIdAndUpdate(_id, fields, { new: true });
+
+        if (!updatedEvent) {
+          throw new GraphQLError('Event not found', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        if (updatedEvent.recurrence) {
+          await updateStoredOccurrences(updatedEvent, fields, context);
+        }
+
+        // Raising or removing the capacity frees seats for the waitlist. Lowering it
+        // never removes confirmed attendees.
+        const { event: promotedEvent, promotedIds } = await promoteFromWaitlist(updatedEvent);
+        await publishPromotions(promotedEvent, promotedIds, context);
+
+        if (promotedEvent.status !== 'draft') {
+          void pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: promotedEvent });
+        }
+
+        return promotedEvent;
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error updating event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    deleteEvent: async (
+      _: unknown,
+      { id, occurrenceDate }: { id: string; occurrenceDate?: string | null },
+      { pubsub }: Context,
+    ): Promise<boolean> => {
+      try {
+        // Ownership is enforced by the @owner directive; moderators may take down any event
+        if (occurrenceDate) {
+          await cancelOccurrence(id, occurrenceDate, pubsub);
+          return true;
+        }
 
-        throw new GraphQLError('Error fetching events by user', {
+        // Deleted events can be restored until they are purged
+        const deletedAt = new Date();
+        const deletedEvent = await Event.findByIdAndUpdate(id, { deletedAt }, { new: true });
+
+        if (!deletedEvent) {
+          throw new GraphQLError('Event not found', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        void pubsub.publish(TOPICS.EVENT_DELETED, { eventDeleted: id });
+
+        // Taking down a series takes down all of its occurrences, and restoring it brings
+        // back the ones deleted along with it
+        if (deletedEvent.recurrence) {
+          const occurrences = await Event.find({ series: deletedEvent._id });
+          await Event.updateMany({ series: deletedEvent._id }, { deletedAt });
+          occurrences.forEach(occurrence => {
+            void pubsub.publish(TOPICS.EVENT_DELETED, { eventDeleted: occurrence._id.toString() });
+          });
+        }
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error deleting event', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
     },
-    myEvents: requireAuth(
-      async (_: unknown, { pagination }: { pagination?: PaginationInput }, { user }: Context) => {
-        try {
-          const filter = { creator: user!.id };
-          return await paginateEvents(filter, { createdAt: -1 }, pagination);
-        } catch (err) {
-          logger.error(err);
-
-          throw new GraphQLError('Error fetching your events', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+    restoreEvent: async (
+      _: unknown,
+      { id }: { id: string },
+      { user, pubsub }: Context,
+    ): Promise<IEvent> => {
+      try {
+        // Events past the retention window may already be purged, so they are not found
+        const cutoff = getRetentionCutoff(config.softDelete.retentionDays);
+        const event = isValidObjectId(id)
+          ? await Event.findOne({ _id: id, deletedAt: trusted({ $gte: cutoff }) })
+          : null;
+
+        if (!event) {
+          throw new GraphQLError('Event not found', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-    myAttendingEvents: requireAuth(
-      async (
-        _: unknown,
-        {
-          pagination,
-        }: {
-          pagination?: PaginationInput;
-        },
-        { user }: Context,
-      ) => {
-        try {
-          const filter = { attendees: user!.id };
-          return await paginateEvents(filter, { date: 1 }, pagination);
-        } catch (err) {
-          logger.error(err);
-
-          throw new GraphQLError('Error fetching events you are attending', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+
+        // The @owner directive only sees events that are not deleted, so check here
+        checkIsOwner(event.creator, user!, 'moderator');
+
+        if (!(await User.exists({ _id: event.creator }))) {
+          throw new GraphQLError('Restore the creator of this event first', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-  },
-  Mutation: {
-    createEvent: requireAuth(
-      async (_: unknown, { eventInput }: { eventInput: EventInput }, { user, pubsub }: Context) => {
-        try {
-          const event = new Event({
-            ...eventInput,
-            creator: user!.id,
-            attendees: [],
+
+        const restoredEvent = await Event.findOneAndUpdate(
+          { _id: event._id, deletedAt: event.deletedAt },
+          { deletedAt: null },
+          { new: true },
+        );
+
+        if (!restoredEvent) {
+          throw new GraphQLError('Event not found', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
+        }
 
-          const result = await event.save();
+        if (restoredEvent.recurrence) {
+          await Event.updateMany(
+            { series: restoredEvent._id, deletedAt: event.deletedAt },
+            { deletedAt: null },
+          );
+        }
 
-          void pubsub.publish(TOPICS.EVENT_CREATED, { eventCreated: result });
+        if (restoredEvent.status !== 'draft') {
+          void pubsub.publish(TOPICS.EVENT_CREATED, { eventCreated: restoredEvent });
+        }
 
-          return result;
-        } catch (err) {
-          logger.error(err);
+        return restoredEvent;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error restoring event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    publishEvent: async (
+      _: unknown,
+      { id }: { id: string },
+      { pubsub }: Context,
+    ): Promise<IEvent> => {
+      try {
+        // Ownership is enforced by the @owner directive
+        const publishedEvent = await Event.findOneAndUpdate(
+          { _id: id, status: 'draft' },
+          { status: 'published' },
+          { new: true },
+        );
 
-          throw new GraphQLError('Error creating event', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        if (!publishedEvent) {
+          await findEventOrThrow(id);
+          throw new GraphQLError('Only drafts can be published', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-    updateEvent: requireAuth(
-      async (
-        _: unknown,
-        {
-          id,
-          eventInput,
-        }: {
-          id: string;
-          eventInput: EventInput;
-        },
-        { user, pubsub }: Context,
-      ) => {
-        try {
-          const event = await findEventOrThrow(id);
-
-          checkIsCreator(event, user!.id);
-
-          const updatedEvent = await Event.findByIdAndUpdate(id, { ...eventInput }, { new: true });
-
-          void pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: updatedEvent });
-
-          return updatedEvent;
-        } catch (err) {
-          logger.error(err);
-          if (err instanceof GraphQLError) {
-            throw err;
-          }
-          throw new GraphQLError('Error updating event', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+
+        // Occurrences stored while the series was a draft go public with it
+        if (publishedEvent.recurrence) {
+          await Event.updateMany(
+            { series: publishedEvent._id, status: 'draft' },
+            { status: 'published' },
+          );
+        }
+
+        void pubsub.publish(TOPICS.EVENT_CREATED, { eventCreated: publishedEvent });
+
+        return publishedEvent;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error publishing event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    cancelEvent: async (
+      _: unknown,
+      {
+        id,
+        reason,
+        occurrenceDate,
+      }: { id: string; reason?: string | null; occurrenceDate?: string | null },
+      { pubsub }: Context,
+    ): Promise<IEvent> => {
+      try {
+        // Ownership is enforced by the @owner directive; moderators may cancel any event.
+        // Unlike deleting, cancelling keeps the attendee list.
+        const event = occurrenceDate
+          ? await findOccurrenceOrThrow(id, occurrenceDate)
+          : await findEventOrThrow(id);
+
+        if (event.status === 'draft') {
+          throw new GraphQLError('Drafts cannot be cancelled, delete them instead', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+        if (event.status === 'cancelled') {
+          throw new GraphQLError('This event has been cancelled already', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-    deleteEvent: requireAuth(
-      async (_: unknown, { id }: { id: string }, { user, pubsub }: Context) => {
-        try {
-          const event = await findEventOrThrow(id);
 
-          checkIsCreator(event, user!.id);
+        const cancellationReason = reason?.trim() ? reason.trim() : null;
+        const cancelledEvent = await cancelWithOccurrences(
+          await storeOccurrence(event),
+          cancellationReason,
+          pubsub,
+        );
 
-          await Event.findByIdAndDelete(id);
+        if (!cancelledEvent) {
+          throw new GraphQLError('This event has been cancelled already', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
 
-          void pubsub.publish(TOPICS.EVENT_DELETED, { eventDeleted: id });
+        return cancelledEvent;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error cancelling event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    postponeEvent: async (
+      _: unknown,
+      {
+        id,
+        newDate,
+        occurrenceDate,
+      }: { id: string; newDate?: string | null; occurrenceDate?: string | null },
+      { pubsub }: Context,
+    ): Promise<IEvent> => {
+      try {
+        // Ownership is enforced by the @owner directive
+        const event = occurrenceDate
+          ? await findOccurrenceOrThrow(id, occurrenceDate)
+          : await findEventOrThrow(id);
 
-          return true;
-        } catch (err) {
-          logger.error(err);
-          if (err instanceof GraphQLError) {
-            throw err;
-          }
-          throw new GraphQLError('Error deleting event', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        if (event.recurrence) {
+          throw new GraphQLError('Postpone single occurrences of a recurring event', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+        if (event.status === 'draft') {
+          throw new GraphQLError('Drafts cannot be postponed, update them instead', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+        if (event.status === 'cancelled') {
+          throw new GraphQLError('This event has been cancelled', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-    attendEvent: requireAuth(
-      async (_: unknown, { eventId }: { eventId: string }, { user, pubsub, loaders }: Context) => {
-        try {
-          const event = await findEventOrThrow(eventId);
-
-          if (
-            event.attendees.some((attendeeId: Types.ObjectId) => attendeeId.toString() === user!.id)
-          ) {
-            throw new GraphQLError('Already attending this event', {
-              extensions: { code: 'BAD_USER_INPUT' },
-            });
-          }
 
-          if (!Types.ObjectId.isValid(user!.id)) {
-            throw new GraphQLError('Invalid user id', {
-              extensions: { code: 'BAD_USER_INPUT' },
-            });
-          }
+        const { _id } = await storeOccurrence(event);
+        const postponedEvent = await Event.findOneAndUpdate(
+          { _id, ...openForAttendanceFilter },
+          toPostponedFields(event, newDate),
+          { new: true },
+        );
 
-          event.attendees.push(new Types.ObjectId(user!.id));
-          await event.save();
+        if (!postponedEvent) {
+          throw new GraphQLError('This event has been cancelled', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
 
-          const userData = await loaders.userLoader.load(user!.id);
+        publishStatusChange(postponedEvent, event, pubsub);
 
-          void pubsub.publish(TOPICS.USER_JOINED_EVENT, {
-            userJoinedEvent: userData,
-            eventId,
+        return postponedEvent;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error postponing event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    attendEvent: async (
+      _: unknown,
+      { eventId: id, occurrenceDate }: { eventId: string; occurrenceDate?: string | null },
+      { user, pubsub, loaders }: Context,
+    ): Promise<Attendance> => {
+      try {
+        // Users attend single occurrences of a series, each with its own seats
+        const event = occurrenceDate
+          ? await findOccurrenceOrThrow(id, occurrenceDate)
+          : await findEventOrThrow(id);
+
+        if (event.recurrence) {
+          throw new GraphQLError('Choose which occurrence of this recurring event to attend', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
+        }
+
+        assertOpenForAttendance(event);
+        assertNotJoined(event, user!.id);
 
-          return event;
-        } catch (err) {
-          logger.error(err);
-          if (err instanceof GraphQLError) {
-            throw err;
+        if (config.events.rejectScheduleConflicts) {
+          const conflicts = await findScheduleConflicts(event, user!.id);
+          if (conflicts.length > 0) {
+            throw new GraphQLError('This event overlaps events you are attending', {
+              extensions: {
+                code: 'SCHEDULE_CONFLICT',
+                conflictingEventIds: conflicts.map(conflict => toGlobalId('Event', conflict._id)),
+              },
+            });
           }
-          throw new GraphQLError('Error attending event', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        }
+
+        if (!Types.ObjectId.isValid(user!.id)) {
+          throw new GraphQLError('Invalid user id', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
-    cancelAttendance: requireAuth(
-      async (_: unknown, { eventId }: { eventId: string }, { user, pubsub, loaders }: Context) => {
-        try {
-          const event = await findEventOrThrow(eventId);
-
-          if (
-            !event.attendees.some(
-              (attendeeId: Types.ObjectId) => attendeeId.toString() === user!.id,
-            )
-          ) {
-            throw new GraphQLError('Not attending this event', {
-              extensions: { code: 'BAD_USER_INPUT' },
+
+        const eventId = (await storeOccurrence(event))._id.toString();
+        const userId = new Types.ObjectId(user!.id);
+        // Cancelling the event in the meantime also stops the updates from matching
+        const notJoined = {
+          attendees: trusted({ $ne: userId }),
+          waitlist: trusted({ $ne: userId }),
+          ...openForAttendanceFilter,
+        };
+
+        // Each update checks and writes in one step, so parallel requests can neither
+        // overfill the event nor add the same user twice
+        for (let attempt = 0; attempt < MAX_ATTENDANCE_ATTEMPTS; attempt++) {
+          const confirmedEvent = await Event.findOneAndUpdate(
+            { _id: eventId, ...notJoined, ...seatAvailableFilter },
+            { $push: { attendees: userId } },
+            { new: true },
+          );
+
+          if (confirmedEvent) {
+            const userData = await loaders.userLoader.load(user!.id);
+
+            void pubsub.publish(TOPICS.USER_JOINED_EVENT, {
+              userJoinedEvent: userData,
+              eventId,
             });
-          }
 
-          const userData = await loaders.userLoader.load(user!.id);
+            return { status: 'confirmed', event: confirmedEvent, waitlistPosition: null };
+          }
 
-          event.attendees = event.attendees.filter(
-            (attendeeId: Types.ObjectId) => attendeeId.toString() !== user!.id,
+          // Once the event is full, later users queue up for a seat instead
+          const waitlistedEvent = await Event.findOneAndUpdate(
+            { _id: eventId, ...notJoined, ...eventFullFilter },
+            { $push: { waitlist: userId } },
+            { new: true },
           );
-          await event.save();
 
-          void pubsub.publish(TOPICS.USER_LEFT_EVENT, {
-            userLeftEvent: userData,
-            eventId,
+          if (waitlistedEvent) {
+            const position = waitlistedEvent.waitlist.findIndex(
+              waitingId => waitingId.toString() === user!.id,
+            );
+            return { status: 'waitlisted', event: waitlistedEvent, waitlistPosition: position + 1 };
+          }
+
+          // Neither matched: the event is gone or cancelled, the user joined in a parallel
+          // request, or a seat freed up between the two updates and the next round takes it
+          const currentEvent = await findEventOrThrow(eventId);
+          assertOpenForAttendance(currentEvent);
+          assertNotJoined(currentEvent, user!.id);
+        }
+
+        throw new Error(`Attendance for event ${eventId} kept changing`);
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error attending event', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    cancelAttendance: async (
+      _: unknown,
+      { eventId: id, occurrenceDate }: { eventId: string; occurrenceDate?: string | null },
+      context: Context,
+    ): Promise<IEvent> => {
+      const { user, pubsub, loaders } = context;
+      try {
+        const attendedEvent = occurrenceDate
+          ? await findOccurrenceOrThrow(id, occurrenceDate)
+          : await findEventOrThrow(id);
+        const eventId = attendedEvent._id.toString();
+
+        // Occurrences that were never stored have nobody attending them
+        if (isUnsavedOccurrence(attendedEvent)) {
+          throw new GraphQLError('Not attending this event', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
+        }
 
-          return event;
-        } catch (err) {
-          logger.error(err);
-          if (err instanceof GraphQLError) {
-            throw err;
-          }
-          throw new GraphQLError('Error canceling attendance', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        // Leaving the waitlist does not free a seat, so nobody is promoted
+        const leftWaitlist = await Event.findOneAndUpdate(
+          { _id: eventId, waitlist: user!.id },
+          { $pull: { waitlist: user!.id } },
+          { new: true },
+        );
+
+        if (leftWaitlist) {
+          return leftWaitlist;
+        }
+
+        const leftEvent = await Event.findOneAndUpdate(
+          { _id: eventId, attendees: user!.id },
+          { $pull: { attendees: user!.id } },
+          { new: true },
+        );
+
+        if (!leftEvent) {
+          throw new GraphQLError('Not attending this event', {
+            extensions: { code: 'BAD_USER_INPUT' },
           });
         }
-      },
-    ),
+
+        const userData = await loaders.userLoader.load(user!.id);
+
+        void pubsub.publish(TOPICS.USER_LEFT_EVENT, {
+          userLeftEvent: userData,
+          eventId,
+        });
+
+        const { event, promotedIds } = await promoteFromWaitlist(leftEvent);
+        await publishPromotions(event, promotedIds, context);
+
+        return event;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error canceling attendance', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  AttendanceStatus: {
+    CONFIRMED: 'confirmed',
+    WAITLISTED: 'waitlisted',
+  },
+  SearchField: {
+    TITLE: 'title',
+    DESCRIPTION: 'description',
+    LOCATION: 'location',
+  },
+  EventSortField: {
+    STARTS_AT: 'startsAt',
+    CREATED_AT: 'createdAt',
+    TITLE: 'title',
+  },
+  SortDirection: {
+    ASC: 1,
+    DESC: -1,
+  },
+  EventStatus: {
+    DRAFT: 'draft',
+    PUBLISHED: 'published',
+    CANCELLED: 'cancelled',
+    POSTPONED: 'postponed',
+    COMPLETED: 'completed',
   },
   Event: {
+    id: (parent: IEvent): string => toGlobalId('Event', parent._id),
+    status: (parent: IEvent): DisplayStatus => getDisplayStatus(parent),
+    // Events saved before image links were checked can hold an empty one, which the URL
+    // scalar cannot send
+    imageUrl: (parent: IEvent): string | null =>
+      parent.imageUrl === '' ? null : (parent.imageUrl ?? null),
     creator: async (
       parent: IEvent,
       _: unknown,
@@ -386,17 +1512,118 @@ export const eventResolvers = {
       }
     },
     attendees: async (
+      parent: IEvent,
+      paging: ConnectionArgs,
+      { loaders }: Context,
+      _info: unknown,
+    ): Promise<UserConnection> => {
+      try {
+        // The event holds the IDs of its attendees, so only the users on the page are loaded.
+        // Attendees whose accounts are gone are left out first, so that pages stay full and
+        // the count matches what can be listed.
+        const exists = await loaders.userExistsLoader.loadMany(
+          parent.attendees.map(id => id.toString()),
+        );
+        const page = paginateList(
+          parent.attendees.filter((_, index) => exists[index] === true).map(_id => ({ _id })),
+          paging,
+          ATTENDEE_SORT,
+        );
+        const attendees = await loaders.userLoader.loadMany(
+          page.nodes.map(({ _id }) => _id.toString()),
+        );
+        return mapNodes(
+          page,
+          attendees.map(attendee => (attendee instanceof Error ? null : attendee)),
+        );
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
+        throw new GraphQLError('Error fetching attendees', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    waitlist: async (
       parent: IEvent,
       _: unknown,
       { loaders }: Context,
       _info: unknown,
     ): Promise<IUser[]> => {
       try {
-        return await loaders.eventAttendeesLoader.load(parent._id.toString());
+        const users = await loaders.userLoader.loadMany(
+          parent.waitlist.map((userId: Types.ObjectId) => userId.toString()),
+        );
+        return users.filter(
+          (waiting): waiting is IUser => waiting != null && !(waiting instanceof Error),
+        );
       } catch (err) {
         logger.error(err);
 
-        throw new GraphQLError('Error fetching attendees', {
+        throw new GraphQLError('Error fetching waitlist', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    geoLocation: (parent: IEvent): LatLng | null =>
+      parent.geoLocation ? toLatLng(parent.geoLocation) : null,
+    attendeeCount: (parent: IEvent): number => parent.attendees.length,
+    availableSeats: (parent: IEvent): number | null =>
+      parent.capacity == null ? null : Math.max(0, parent.capacity - parent.attendees.length),
+    recurrence: (parent: IEvent): { rule: string; exceptions: string[] } | null =>
+      parent.recurrence
+        ? { rule: parent.recurrence.rule, exceptions: parent.recurrence.exceptions.map(toDateKey) }
+        : null,
+    endDate: (parent: IEvent): string | null =>
+      parent.endsAt ? toZonedTime(parent.endsAt, parent.timeZone).date : null,
+    endTime: (parent: IEvent): string | null =>
+      parent.endsAt ? toZonedTime(parent.endsAt, parent.timeZone).time : null,
+    durationMinutes: (parent: IEvent): number | null =>
+      parent.endsAt
+        ? Math.round((parent.endsAt.getTime() - parent.startsAt.getTime()) / (60 * 1000))
+        : null,
+    conflictsWith: async (
+      parent: IEvent,
+      _: unknown,
+      { user, loaders }: Context,
+      _info: unknown,
+    ): Promise<IEvent[]> => {
+      if (!user) {
+        return [];
+      }
+      try {
+        const { items: attending } = await loaders.userAttendingEventsLoader.load({ id: user.id });
+        return attending.filter(
+          other =>
+            !other._id.equals(parent._id) &&
+            other.status !== 'cancelled' &&
+            eventsOverlap(parent, other),
+        );
+      } catch (err) {
+        logger.error(err);
+
+        throw new GraphQLError('Error fetching schedule conflicts', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    occurrenceDate: (parent: IEvent): string | null =>
+      parent.occurrenceDate ? toDateKey(parent.occurrenceDate) : null,
+    series: async (
+      parent: IEvent,
+      _: unknown,
+      { loaders }: Context,
+      _info: unknown,
+    ): Promise<IEvent | null> => {
+      try {
+        return parent.series ? await loaders.eventLoader.load(parent.series.toString()) : null;
+      } catch (err) {
+        logger.error(err);
+
+        throw new GraphQLError('Error fetching series', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
@@ -1,9 +1,17 @@
 import { GraphQLError } from 'graphql';
 
-import type { IEvent } from '../../../models/Event.js';
+import type { UserRole } from '../../../models/User.js';
+import { hasRole } from '../../../utils/auth.js';
 
-export const checkIsCreator = (event: IEvent, userId: string): void => {
-  if (event.creator.toString() !== userId) {
+/**
+ * Only the owner may manage a resource, unless the user holds `overrideRole` (admin by default)
+ */
+export const checkIsOwner = (
+  ownerId: unknown,
+  user: { id: string; role: UserRole },
+  overrideRole: UserRole = 'admin',
+): void => {
+  if (String(ownerId) !== user.id && !hasRole(user, overrideRole)) {
     throw new GraphQLError('Not authorized to perform this action', {
       extensions: { code: 'FORBIDDEN' },
     });
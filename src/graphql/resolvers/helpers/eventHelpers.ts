@@ -1,8 +1,41 @@
 import { GraphQLError } from 'graphql';
-import { isValidObjectId } from 'mongoose';
+import type { PubSub } from 'graphql-subscriptions';
+import { isValidObjectId, trusted } from 'mongoose';
+import type { Types } from 'mongoose';
 
-import type { IEvent } from '../../../models/Event.js';
+import { config } from '../../../config.js';
+import type { EventStatus, IEvent } from '../../../models/Event.js';
 import { Event } from '../../../models/Event.js';
+import type { Loaders } from '../../../utils/dataLoaders.js';
+import {
+  expandRecurrence,
+  occursOn,
+  parseRecurrenceRule,
+  startOfDay,
+  toDateKey,
+} from '../../../utils/recurrence.js';
+import { zonedTimeToInstant } from '../../../utils/timeZones.js';
+import { TOPICS } from '../subscriptionResolvers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The status clients see: events that went ahead read as completed once they are over
+export type DisplayStatus = EventStatus | 'completed';
+
+interface EventStatusChange {
+  event: IEvent;
+  status: EventStatus;
+  previousStatus: EventStatus;
+  reason: string | null;
+  // Only set when the event moved to another time
+  previousStartsAt: Date | null;
+}
+
+// What publishing to subscribers needs from the resolver context
+interface PublishContext {
+  pubsub: PubSub;
+  loaders: Loaders;
+}
 
 export const findEventOrThrow = async (eventId: string): Promise<IEvent> => {
   if (!isValidObjectId(eventId)) {
@@ -18,3 +51,348 @@ export const findEventOrThrow = async (eventId: string): Promise<IEvent> => {
   }
   return event;
 };
+
+/**
+ * Events without a capacity never run out of seats
+ */
+export const hasAvailableSeat = (event: IEvent): boolean =>
+  event.capacity == null || event.attendees.length < event.capacity;
+
+// Query conditions mirroring `hasAvailableSeat`, so the check and the write happen in a
+// single atomic update. Operators are marked trusted to survive `sanitizeFilter`.
+export const seatAvailableFilter = {
+  $or: [{ capacity: null }, { $expr: trusted({ $lt: [{ $size: '$attendees' }, '$capacity'] }) }],
+};
+
+export const eventFullFilter = {
+  capacity: trusted({ $gte: 1 }),
+  $expr: trusted({ $gte: [{ $size: '$attendees' }, '$capacity'] }),
+};
+
+// Drafts stay out of public listings. `$ne` and `$nin` also match events stored before
+// they had a status.
+export const publicEventFilter = { status: trusted({ $ne: 'draft' }) };
+
+export const openForAttendanceFilter = { status: trusted({ $nin: ['draft', 'cancelled'] }) };
+
+/**
+ * Drafts are only visible to their creator
+ */
+export const isVisibleTo = (event: IEvent, userId: string | undefined): boolean =>
+  event.status !== 'draft' || event.creator.toString() === userId;
+
+/**
+ * Match the events `isVisibleTo` lets a user see
+ */
+export const visibleToFilter = (userId: string | undefined): Record<string, unknown> =>
+  userId ? { $or: [publicEventFilter, { creator: userId }] } : publicEventFilter;
+
+/**
+ * Move waitlisted users into free seats, first come first served. Each move only
+ * applies while the user is still first in line and a seat is still free, so
+ * concurrent cancellations never promote the same user twice or overfill the event.
+ */
+export const promoteFromWaitlist = async (
+  event: IEvent,
+): Promise<{ event: IEvent; promotedIds: Types.ObjectId[] }> => {
+  const promotedIds: Types.ObjectId[] = [];
+  let current = event;
+
+  while (current.waitlist.length > 0 && hasAvailableSeat(current)) {
+    const nextId = current.waitlist[0];
+    const promoted = await Event.findOneAndUpdate(
+      { _id: current._id, 'waitlist.0': nextId, ...seatAvailableFilter },
+      { $pop: { waitlist: -1 }, $push: { attendees: nextId } },
+      { new: true },
+    );
+
+    if (promoted) {
+      promotedIds.push(nextId);
+      current = promoted;
+      continue;
+    }
+
+    // Someone else changed the event in the meantime; look at it again
+    const reloaded = await Event.findById(current._id);
+    if (!reloaded) {
+      break;
+    }
+    current = reloaded;
+  }
+
+  return { event: current, promotedIds };
+};
+
+/**
+ * Announce waitlist promotions both to the event's attendee subscribers and to the
+ * promoted users themselves
+ */
+export const publishPromotions = async (
+  event: IEvent,
+  promotedIds: Types.ObjectId[],
+  { pubsub, loaders }: PublishContext,
+): Promise<void> => {
+  for (const promotedId of promotedIds) {
+    const eventId = event._id.toString();
+    const userId = promotedId.toString();
+    const userData = await loaders.userLoader.load(userId);
+    void pubsub.publish(TOPICS.USER_JOINED_EVENT, { userJoinedEvent: userData, eventId });
+    void pubsub.publish(TOPICS.WAITLIST_PROMOTED, { waitlistPromoted: event, userId });
+  }
+};
+
+/**
+ * Tell everyone holding a seat at an event, or waiting for one, that its status changed
+ */
+export const publishStatusChange = (
+  event: IEvent,
+  previous: IEvent,
+  pubsub: PubSub,
+  reason: string | null = null,
+): void => {
+  const moved = event.startsAt.getTime() !== previous.startsAt.getTime();
+  const eventStatusChanged: EventStatusChange = {
+    event,
+    status: event.status,
+    previousStatus: previous.status,
+    reason,
+    previousStartsAt: moved ? previous.startsAt : null,
+  };
+  const recipientIds = [...event.attendees, ...event.waitlist].map(userId => userId.toString());
+
+  void pubsub.publish(TOPICS.EVENT_STATUS_CHANGED, { eventStatusChanged, recipientIds });
+  void pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: event });
+};
+
+/**
+ * When an event ends. Events without an end count as lasting the default duration, so
+ * they still conflict with events that start at the same time.
+ */
+export const getEventEnd = (event: IEvent): Date =>
+  event.endsAt ??
+  new Date(event.startsAt.getTime() + config.events.defaultDurationMinutes * 60 * 1000);
+
+export const getDisplayStatus = (event: IEvent, now = new Date()): DisplayStatus =>
+  event.status !== 'draft' && event.status !== 'cancelled' && getEventEnd(event) <= now
+    ? 'completed'
+    : event.status;
+
+/**
+ * Lowercase and trim tags, dropping blank and repeated ones
+ */
+export const normalizeTags = (tags: string[]): string[] => [
+  ...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0)),
+];
+
+export const eventsOverlap = (event: IEvent, other: IEvent): boolean =>
+  event.startsAt < getEventEnd(other) && other.startsAt < getEventEnd(event);
+
+/**
+ * Find the events a user has a seat at that overlap the given event. Cancelled events
+ * leave the user free.
+ */
+export const findScheduleConflicts = async (event: IEvent, userId: string): Promise<IEvent[]> => {
+  const earliestDefaultStart = new Date(
+    event.startsAt.getTime() - config.events.defaultDurationMinutes * 60 * 1000,
+  );
+
+  return Event.find({
+    attendees: userId,
+    _id: trusted({ $ne: event._id }),
+    status: trusted({ $ne: 'cancelled' }),
+    startsAt: trusted({ $lt: getEventEnd(event) }),
+    $or: [
+      { endsAt: trusted({ $gt: event.startsAt }) },
+      { endsAt: null, startsAt: trusted({ $gt: earliestDefaultStart }) },
+    ],
+  }).sort({ startsAt: 1 });
+};
+
+/**
+ * Parse the `YYYY-MM-DD` date an occurrence of a series is addressed by
+ */
+export const parseOccurrenceDate = (value: string): Date => {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new GraphQLError('Invalid occurrence date, expected YYYY-MM-DD', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return date;
+};
+
+/**
+ * Check whether the rule of a series generates an occurrence on the given day that was
+ * neither cancelled nor stored as its own event
+ */
+export const isGeneratedOccurrence = (series: IEvent, day: Date): boolean =>
+  series.recurrence != null &&
+  occursOn(
+    parseRecurrenceRule(series.recurrence.rule),
+    series.date,
+    day,
+    series.recurrence.exceptions,
+  );
+
+/**
+ * The instants an occurrence of a series starts and ends at: the wall-clock time of the
+ * series on the day of the occurrence, lasting as long as the series does
+ */
+export const getOccurrenceSchedule = (
+  series: IEvent,
+  day: Date,
+): { startsAt: Date; endsAt: Date | null } => {
+  const startsAt = zonedTimeToInstant(toDateKey(day), series.time, series.timeZone);
+  const endsAt = series.endsAt
+    ? new Date(startsAt.getTime() + series.endsAt.getTime() - series.startsAt.getTime())
+    : null;
+  return { startsAt, endsAt };
+};
+
+/**
+ * Present an occurrence generated from a series like an event. It keeps the ID of the
+ * series, so mutations address it by the series ID and its `occurrenceDate`.
+ */
+const toGeneratedOccurrence = (series: IEvent, day: Date): IEvent =>
+  ({
+    ...series.toObject(),
+    date: day,
+    ...getOccurrenceSchedule(series, day),
+    recurrence: null,
+    series: series._id,
+    occurrenceDate: day,
+    attendees: [],
+    waitlist: [],
+  }) as IEvent;
+
+/**
+ * List the occurrences of the given series that start in `[from, to)`
+ */
+export const expandSeries = (series: IEvent[], from: Date, to: Date): IEvent[] => {
+  // Series repeat on wall-clock days in their own zone, which are at most a day off the
+  // UTC day of the same instant
+  const firstDay = new Date(startOfDay(from).getTime() - DAY_MS);
+  const lastDay = new Date(startOfDay(to).getTime() + 2 * DAY_MS);
+
+  return series.flatMap(event =>
+    event.recurrence
+      ? expandRecurrence(
+          parseRecurrenceRule(event.recurrence.rule),
+          event.date,
+          firstDay,
+          lastDay,
+          event.recurrence.exceptions,
+        )
+          .map(day => toGeneratedOccurrence(event, day))
+          .filter(occurrence => occurrence.startsAt >= from && occurrence.startsAt < to)
+      : [],
+  );
+};
+
+/**
+ * Occurrences that were only generated, and not stored yet, keep the ID of their series
+ */
+export const isUnsavedOccurrence = (event: IEvent): boolean =>
+  event.series != null && event._id.equals(event.series);
+
+/**
+ * Store an occurrence found by `findOccurrenceOrThrow` as its own event, so it can be
+ * attended or edited without touching the rest of the series. Its day becomes an exception
+ * of the series rule, so it is not generated a second time. Only call this once a mutation
+ * is going ahead; occurrences that are stored already are handed back as they are.
+ */
+export const storeOccurrence = async (occurrence: IEvent): Promise<IEvent> => {
+  const { series, occurrenceDate } = occurrence;
+  if (!series || !occurrenceDate || !isUnsavedOccurrence(occurrence)) {
+    return occurrence;
+  }
+
+  const {
+    title,
+    description,
+    date,
+    time,
+    timeZone,
+    startsAt,
+    endsAt,
+    location,
+    geoLocation,
+    address,
+    imageUrl,
+    tags,
+    capacity,
+    creator,
+    status,
+  } = occurrence;
+
+  // The unique index on series and occurrenceDate turns parallel upserts into one event
+  const storedOccurrence = await Event.findOneAndUpdate(
+    { series, occurrenceDate },
+    {
+      $setOnInsert: {
+        title,
+        description,
+        date,
+        time,
+        timeZone,
+        startsAt,
+        endsAt: endsAt ?? null,
+        location,
+        geoLocation: geoLocation ?? null,
+        address: address ?? null,
+        ...(imageUrl ? { imageUrl } : {}),
+        tags,
+        capacity: capacity ?? null,
+        creator,
+        status,
+        cancellationReason: occurrence.cancellationReason ?? null,
+        attendees: [],
+        waitlist: [],
+      },
+    },
+    { upsert: true, new: true },
+  );
+
+  await Event.updateOne(
+    { _id: series },
+    { $addToSet: { 'recurrence.exceptions': occurrenceDate } },
+  );
+
+  return storedOccurrence;
+};
+
+/**
+ * Find a single occurrence of a series without writing anything. Occurrences that were
+ * never stored are generated from the series, and carry its ID until `storeOccurrence`
+ * saves them. Stored occurrences may also be addressed by their own ID.
+ */
+export const findOccurrenceOrThrow = async (
+  eventId: string,
+  occurrenceDate: string,
+): Promise<IEvent> => {
+  const day = parseOccurrenceDate(occurrenceDate);
+  const event = await findEventOrThrow(eventId);
+
+  if (event.series && event.occurrenceDate?.getTime() === day.getTime()) {
+    return event;
+  }
+
+  if (!event.recurrence) {
+    throw new GraphQLError('Event is not recurring', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  const storedOccurrence = await Event.findOne({ series: event._id, occurrenceDate: day });
+  if (storedOccurrence) {
+    return storedOccurrence;
+  }
+
+  if (!isGeneratedOccurrence(event, day)) {
+    throw new GraphQLError('Event does not occur on this date', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  return toGeneratedOccurrence(event, day);
+};
@@ -0,0 +1,182 @@
+import { GraphQLError } from 'graphql';
+import { isValidObjectId, trusted } from 'mongoose';
+
+import { config } from '../../../config.js';
+import type { Bounds } from '../../../utils/geo.js';
+import { isValidLatitude, isValidLongitude, toBoundingBoxes } from '../../../utils/geo.js';
+import type { SortSpec } from '../../../utils/pagination.js';
+import { escapeRegex } from '../../../utils/sanitize.js';
+
+import type { DisplayStatus } from './eventHelpers.js';
+import {
+  eventFullFilter,
+  normalizeTags,
+  publicEventFilter,
+  seatAvailableFilter,
+} from './eventHelpers.js';
+
+export type EventSortField = 'startsAt' | 'createdAt' | 'title';
+
+export interface EventSort {
+  field: EventSortField;
+  direction: 1 | -1;
+}
+
+// Conditions events must all meet; unset ones match every event
+export interface EventSearch {
+  location?: string | null;
+  creator?: string | null;
+  attendee?: string | null;
+  status?: DisplayStatus[] | null;
+  tags?: string[] | null;
+  text?: string | null;
+  hasSeatsLeft?: boolean | null;
+  bounds?: Bounds | null;
+}
+
+export const SOONEST_FIRST: EventSort[] = [{ field: 'startsAt', direction: 1 }];
+
+export const NEWEST_FIRST: EventSort[] = [{ field: 'createdAt', direction: -1 }];
+
+const toUserId = (userId: string): string => {
+  if (!isValidObjectId(userId)) {
+    throw new GraphQLError('Invalid user id', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  return userId;
+};
+
+const toBoundsFilter = (bounds: Bounds): Record<string, unknown> => {
+  const { south, west, north, east } = bounds;
+  if (![south, north].every(isValidLatitude) || ![west, east].every(isValidLongitude)) {
+    throw new GraphQLError('Bounds must be latitudes and longitudes in degrees', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+  if (south >= north || west === east) {
+    throw new GraphQLError('Bounds must enclose an area, with south below north', {
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  return {
+    $or: toBoundingBoxes(bounds).map(box => ({
+      geoLocation: trusted({ $geoWithin: { $geometry: box } }),
+    })),
+  };
+};
+
+const containing = (text: string): unknown =>
+  trusted({ $regex: escapeRegex(text.trim()), $options: 'i' });
+
+/**
+ * Conditions for events that have ended by `now`, mirroring `getEventEnd`
+ */
+const endedBy = (now: Date): Record<string, unknown> => ({
+  $or: [
+    { endsAt: trusted({ $lte: now }) },
+    {
+      endsAt: null,
+      startsAt: trusted({
+        $lte: new Date(now.getTime() - config.events.defaultDurationMinutes * 60 * 1000),
+      }),
+    },
+  ],
+});
+
+const notEndedBy = (now: Date): Record<string, unknown> => ({
+  $or: [
+    { endsAt: trusted({ $gt: now }) },
+    {
+      endsAt: null,
+      startsAt: trusted({
+        $gt: new Date(now.getTime() - config.events.defaultDurationMinutes * 60 * 1000),
+      }),
+    },
+  ],
+});
+
+/**
+ * Match events showing one of the given statuses. Drafts only match for their creator.
+ * Without `now` the stored status is all that is compared, which is what series need:
+ * whether their occurrences are over depends on when each one takes place.
+ */
+const toStatusFilter = (
+  statuses: DisplayStatus[],
+  userId: string | undefined,
+  now: Date | null,
+): Record<string, unknown> => {
+  const conditions = [...new Set(statuses)].flatMap((status): Record<string, unknown>[] => {
+    switch (status) {
+      case 'draft':
+        return userId ? [{ status, creator: userId }] : [];
+      case 'cancelled':
+        return [{ status }];
+      case 'published':
+      case 'postponed':
+        return [now ? { status, ...notEndedBy(now) } : { status }];
+      case 'completed': {
+        const wentAhead = { status: trusted({ $in: ['published', 'postponed'] }) };
+        return [now ? { ...wentAhead, ...endedBy(now) } : wentAhead];
+      }
+    }
+  });
+
+  return conditions.length > 0 ? { $or: conditions } : { status: trusted({ $in: [] }) };
+};
+
+/**
+ * Turn a search into a query filter. Drafts are left out unless their status is asked for.
+ * Pass `now: null` to filter series on their stored status only.
+ */
+export const toSearchFilter = (
+  search: EventSearch,
+  userId: string | undefined,
+  now: Date | null = new Date(),
+): Record<string, unknown> => {
+  const filter: Record<string, unknown> = {};
+  // Conditions that are alternatives themselves, which need their own `$or`
+  const conditions: Record<string, unknown>[] = [];
+
+  if (search.location?.trim()) {
+    filter['location'] = containing(search.location);
+  }
+  if (search.creator != null) {
+    filter['creator'] = toUserId(search.creator);
+  }
+  if (search.attendee != null) {
+    filter['attendees'] = toUserId(search.attendee);
+  }
+  const tags = normalizeTags(search.tags ?? []);
+  if (tags.length > 0) {
+    filter['tags'] = trusted({ $all: tags });
+  }
+  if (search.text?.trim()) {
+    filter['$text'] = trusted({ $search: search.text });
+  }
+  if (search.bounds) {
+    conditions.push(toBoundsFilter(search.bounds));
+  }
+  if (search.hasSeatsLeft != null) {
+    conditions.push(search.hasSeatsLeft ? seatAvailableFilter : eventFullFilter);
+  }
+  if (search.status?.length) {
+    conditions.push(toStatusFilter(search.status, userId, now));
+  } else {
+    Object.assign(filter, publicEventFilter);
+  }
+
+  return conditions.length > 0 ? { ...filter, $and: conditions } : filter;
+};
+
+/**
+ * Turn sort criteria into a query sort. Ties are broken by start time and then by ID, so
+ * that pages never overlap and every event has a place for cursors to point at, even the
+ * occurrences of a series, which share its ID.
+ */
+export const toSortSpec = (sort: EventSort[]): SortSpec => ({
+  ...Object.fromEntries(sort.map(({ field, direction }) => [field, direction])),
+  startsAt: sort.find(({ field }) => field === 'startsAt')?.direction ?? 1,
+  _id: 1,
+});
@@ -1,20 +1,42 @@
+import { DateScalar, DateTime, EmailAddress, LocalTime, UrlScalar } from '../scalars.js';
+
+import { apiKeyResolvers } from './apiKeyResolvers.js';
 import { eventResolvers } from './eventResolvers.js';
+import { nodeResolvers } from './nodeResolvers.js';
 import { subscriptionResolvers } from './subscriptionResolvers.js';
+import { twoFactorResolvers } from './twoFactorResolvers.js';
 import { userResolvers } from './userResolvers.js';
 
 // Merge all resolvers
 export const resolvers = {
+  DateTime,
+  Date: DateScalar,
+  LocalTime,
+  EmailAddress,
+  URL: UrlScalar,
   Query: {
     ...userResolvers.Query,
     ...eventResolvers.Query,
+    ...apiKeyResolvers.Query,
+    ...nodeResolvers.Query,
   },
   Mutation: {
     ...userResolvers.Mutation,
+    ...twoFactorResolvers.Mutation,
+    ...apiKeyResolvers.Mutation,
     ...eventResolvers.Mutation,
   },
   Subscription: {
     ...subscriptionResolvers.Subscription,
   },
+  Role: userResolvers.Role,
+  Visibility: userResolvers.Visibility,
+  LoginResult: twoFactorResolvers.LoginResult,
+  ApiKeyScope: apiKeyResolvers.ApiKeyScope,
+  AttendanceStatus: eventResolvers.AttendanceStatus,
+  EventStatus: eventResolvers.EventStatus,
+  Node: nodeResolvers.Node,
+  AuthData: userResolvers.AuthData,
   User: {
     ...userResolvers.User,
   },
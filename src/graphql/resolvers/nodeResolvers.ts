@@ -0,0 +1,85 @@
+import { GraphQLError } from 'graphql';
+
+import { logger } from '../../logger.js';
+import type { IEvent } from '../../models/Event.js';
+import type { IUser } from '../../models/User.js';
+import { User } from '../../models/User.js';
+import type { Loaders } from '../../utils/dataLoaders.js';
+import type { NodeType } from '../../utils/globalId.js';
+import { fromGlobalId, NODE_TYPES } from '../../utils/globalId.js';
+
+import { isVisibleTo } from './helpers/eventHelpers.js';
+
+interface Context {
+  user?: {
+    id: string;
+  };
+  loaders: Loaders;
+}
+
+type Node = IUser | IEvent;
+
+// The most IDs a single `nodes` query may ask for
+const MAX_NODES = 100;
+
+// Nodes load through the same DataLoaders as the rest of the schema, so a `nodes` query
+// takes one database query per type however many IDs it asks for
+const loadNode: Record<NodeType, (id: string, context: Context) => Promise<Node | null>> = {
+  User: (id, { loaders }) => loaders.userLoader.load(id),
+  Event: async (id, { user, loaders }) => {
+    const event = await loaders.eventLoader.load(id);
+    return event && isVisibleTo(event, user?.id) ? event : null;
+  },
+};
+
+const findNode = async (globalId: string, context: Context): Promise<Node | null> => {
+  const nodeId = fromGlobalId(globalId);
+  if (!nodeId) {
+    return null;
+  }
+  if (nodeId.type) {
+    return loadNode[nodeId.type](nodeId.id, context);
+  }
+
+  // Raw ObjectIds do not say what they identify, so every type is tried
+  const candidates = await Promise.all(NODE_TYPES.map(type => loadNode[type](nodeId.id, context)));
+  return candidates.find(node => node != null) ?? null;
+};
+
+export const nodeResolvers = {
+  Query: {
+    node: async (_: unknown, { id }: { id: string }, context: Context): Promise<Node | null> => {
+      try {
+        return await findNode(id, context);
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error fetching node', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    nodes: async (
+      _: unknown,
+      { ids }: { ids: string[] },
+      context: Context,
+    ): Promise<(Node | null)[]> => {
+      if (ids.length > MAX_NODES) {
+        throw new GraphQLError(`Ask for at most ${MAX_NODES} nodes at a time`, {
+          extensions: { code: 'BAD_USER_INPUT' },
+        });
+      }
+
+      try {
+        return await Promise.all(ids.map(id => findNode(id, context)));
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error fetching nodes', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  Node: {
+    __resolveType: (node: Node): NodeType => (node instanceof User ? 'User' : 'Event'),
+  },
+};
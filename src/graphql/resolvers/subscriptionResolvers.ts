@@ -1,6 +1,8 @@
 import type { PubSub } from 'graphql-subscriptions';
 import { withFilter } from 'graphql-subscriptions';
 
+import { toGlobalId } from '../../utils/globalId.js';
+
 // Extend PubSub type to include an asyncIterator method
 interface ExtendedPubSub extends PubSub {
   asyncIterator<T>(triggers: string | string[]): AsyncIterator<T>;
@@ -8,6 +10,9 @@ interface ExtendedPubSub extends PubSub {
 
 interface Context {
   pubsub: ExtendedPubSub;
+  user?: {
+    id: string;
+  } | null;
 }
 
 interface EventUpdatedPayload {
@@ -20,10 +25,22 @@ interface EventIdVariables {
   eventId?: string;
 }
 
+interface EventDeletedPayload {
+  eventDeleted: string;
+}
+
 interface UserEventPayload {
   eventId: string;
 }
 
+interface WaitlistPromotedPayload {
+  userId: string;
+}
+
+interface EventStatusChangedPayload {
+  recipientIds: string[];
+}
+
 const getPubSubOrThrow = (context: Context | undefined): ExtendedPubSub => {
   if (!context?.pubsub) {
     throw new Error('PubSub not available in context');
@@ -61,6 +78,20 @@ const userEventFilter = (payload: unknown, variables: unknown): boolean => {
   return userPayload.eventId === userVars.eventId;
 };
 
+const promotedUserFilter = (payload: unknown, _: unknown, context: unknown): boolean => {
+  const promotedPayload = payload as WaitlistPromotedPayload | undefined;
+  const userId = (context as Context | undefined)?.user?.id;
+  // Only the promoted user hears about their own promotion
+  return !!userId && promotedPayload?.userId === userId;
+};
+
+const statusRecipientFilter = (payload: unknown, _: unknown, context: unknown): boolean => {
+  const statusPayload = payload as EventStatusChangedPayload | undefined;
+  const userId = (context as Context | undefined)?.user?.id;
+  // Only attendees and waitlisted users of the event hear about it
+  return !!userId && !!statusPayload?.recipientIds.includes(userId);
+};
+
 // Define subscription topics
 export const TOPICS = {
   EVENT_CREATED: 'EVENT_CREATED',
@@ -68,6 +99,8 @@ export const TOPICS = {
   EVENT_DELETED: 'EVENT_DELETED',
   USER_JOINED_EVENT: 'USER_JOINED_EVENT',
   USER_LEFT_EVENT: 'USER_LEFT_EVENT',
+  WAITLIST_PROMOTED: 'WAITLIST_PROMOTED',
+  EVENT_STATUS_CHANGED: 'EVENT_STATUS_CHANGED',
 };
 
 // Define the subscription resolvers
@@ -87,6 +120,7 @@ export const subscriptionResolvers = {
     // Subscription for when an event is deleted
     eventDeleted: {
       subscribe: createTopicSubscribe(TOPICS.EVENT_DELETED),
+      resolve: (payload: EventDeletedPayload): string => toGlobalId('Event', payload.eventDeleted),
     },
 
     // Subscription for when a user joins an event
@@ -100,5 +134,21 @@ export const subscriptionResolvers = {
     userLeftEvent: {
       subscribe: withFilter(createTopicSubscribe(TOPICS.USER_LEFT_EVENT), userEventFilter),
     },
+
+    // Subscription for when the current user gets a seat from an event's waitlist
+    // Filtered by the subscribed user
+    waitlistPromoted: {
+      subscribe: withFilter(createTopicSubscribe(TOPICS.WAITLIST_PROMOTED), promotedUserFilter),
+    },
+
+    // Subscription for when an event the current user attends or waits for is published,
+    // cancelled or postponed
+    // Filtered by the subscribed user
+    eventStatusChanged: {
+      subscribe: withFilter(
+        createTopicSubscribe(TOPICS.EVENT_STATUS_CHANGED),
+        statusRecipientFilter,
+      ),
+    },
   },
 };
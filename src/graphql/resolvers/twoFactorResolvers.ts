@@ -0,0 +1,209 @@
+import { GraphQLError } from 'graphql';
+
+import { logger } from '../../logger.js';
+import type { UserRole } from '../../models/User.js';
+import { User } from '../../models/User.js';
+import { loginThrottle } from '../../utils/loginThrottle.js';
+import type { AuthData } from '../../utils/sessions.js';
+import { createSession } from '../../utils/sessions.js';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotpCode } from '../../utils/totp.js';
+import type { TwoFactorChallenge } from '../../utils/twoFactor.js';
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  redeemTwoFactorCode,
+} from '../../utils/twoFactor.js';
+import { consumeUserToken, findUserTokenOwner } from '../../utils/userTokens.js';
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  recoveryCodes: string[];
+}
+
+interface Context {
+  user?: {
+    id: string;
+    email: string;
+    role: UserRole;
+    sessionId?: string;
+  };
+  req?: { ip?: string };
+}
+
+const TOTP_ISSUER = 'EventFlow';
+
+const findCurrentUser = async (userId: string) => {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+  }
+  return user;
+};
+
+export const twoFactorResolvers = {
+  Mutation: {
+    enableTwoFactor: async (
+      _: unknown,
+      __: unknown,
+      { user }: Context,
+    ): Promise<TwoFactorSetup> => {
+      try {
+        const currentUser = await findCurrentUser(user!.id);
+        if (currentUser.twoFactor.enabled) {
+          throw new GraphQLError('Two-factor authentication is already enabled', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        // Not enabled until the user proves their app works with confirmTwoFactor
+        const secret = generateTotpSecret();
+        const recoveryCodes = generateRecoveryCodes();
+        await User.findByIdAndUpdate(currentUser._id, {
+          twoFactor: {
+            enabled: false,
+            secret,
+            recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+            lastUsedStep: null,
+          },
+        });
+
+        return {
+          secret,
+          otpauthUri: buildOtpAuthUri(secret, currentUser.email, TOTP_ISSUER),
+          recoveryCodes,
+        };
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error enabling two-factor authentication', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    confirmTwoFactor: async (
+      _: unknown,
+      { code }: { code: string },
+      { user }: Context,
+    ): Promise<boolean> => {
+      try {
+        const currentUser = await findCurrentUser(user!.id);
+        const { enabled, secret } = currentUser.twoFactor;
+        if (enabled || !secret) {
+          throw new GraphQLError('Call enableTwoFactor before confirming a code', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        const step = verifyTotpCode(secret, code.replace(/\s/g, ''));
+        if (step === null) {
+          throw new GraphQLError('Invalid two-factor code', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        await User.findByIdAndUpdate(currentUser._id, {
+          'twoFactor.enabled': true,
+          'twoFactor.lastUsedStep': step,
+        });
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error confirming two-factor authentication', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    disableTwoFactor: async (
+      _: unknown,
+      { code }: { code: string },
+      { user }: Context,
+    ): Promise<boolean> => {
+      try {
+        const currentUser = await findCurrentUser(user!.id);
+        if (!currentUser.twoFactor.enabled) {
+          throw new GraphQLError('Two-factor authentication is not enabled', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        // A stolen access token alone must not be enough to turn 2FA off
+        if (!(await redeemTwoFactorCode(currentUser, code))) {
+          throw new GraphQLError('Invalid two-factor code', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        await User.findByIdAndUpdate(currentUser._id, {
+          twoFactor: { enabled: false, secret: null, recoveryCodeHashes: [], lastUsedStep: null },
+        });
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error disabling two-factor authentication', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    completeTwoFactorLogin: async (
+      _: unknown,
+      { challengeId, code }: { challengeId: string; code: string },
+      { req }: Context,
+    ): Promise<AuthData> => {
+      try {
+        const invalidChallenge = new GraphQLError('Invalid or expired two-factor challenge', {
+          extensions: { code: 'UNAUTHENTICATED' },
+        });
+
+        const userId = await findUserTokenOwner(challengeId, 'two-factor-login');
+        const user = userId ? await User.findById(userId) : null;
+        if (!user?.twoFactor.enabled) {
+          throw invalidChallenge;
+        }
+
+        // Wrong codes count as failed logins, so codes cannot be brute-forced either
+        await loginThrottle.assertCanAttempt(user.email, req?.ip);
+        if (!(await redeemTwoFactorCode(user, code))) {
+          await loginThrottle.recordFailure(user.email, req?.ip);
+          throw new GraphQLError('Invalid two-factor code', {
+            extensions: { code: 'UNAUTHENTICATED' },
+          });
+        }
+
+        if (!(await consumeUserToken(challengeId, 'two-factor-login'))) {
+          throw invalidChallenge;
+        }
+
+        await loginThrottle.recordSuccess(user.email);
+
+        return await createSession({
+          id: user._id.toString(),
+          email: user.email,
+          role: user.role,
+        });
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error logging in', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+  },
+  LoginResult: {
+    __resolveType: (result: AuthData | TwoFactorChallenge): string =>
+      'challengeId' in result ? 'TwoFactorChallenge' : 'AuthData',
+  },
+};
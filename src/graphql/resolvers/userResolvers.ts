@@ -1,12 +1,43 @@
 import { GraphQLError } from 'graphql';
+import type { PubSub } from 'graphql-subscriptions';
+import mongoose, { isValidObjectId, trusted } from 'mongoose';
 
+import { config } from '../../config.js';
 import { logger } from '../../logger.js';
 import type { IEvent } from '../../models/Event.js';
-import type { IUser } from '../../models/User.js';
+import { Event } from '../../models/Event.js';
+import type { IPrivacySettings, IUser, UserRole } from '../../models/User.js';
 import { User } from '../../models/User.js';
-import { generateToken, hashPassword, verifyPassword, requireAuth } from '../../utils/auth.js';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../../utils/accountEmails.js';
+import { revokeAllApiKeys } from '../../utils/apiKeys.js';
+import { hashPassword, verifyPassword } from '../../utils/auth.js';
 import type { Loaders } from '../../utils/dataLoaders.js';
-import { paginateQuery } from '../../utils/pagination.js';
+import { toGlobalId } from '../../utils/globalId.js';
+import { loginThrottle } from '../../utils/loginThrottle.js';
+import type { Connection, ConnectionArgs, SortSpec } from '../../utils/pagination.js';
+import { paginateQuery, toConnection, toPageQuery } from '../../utils/pagination.js';
+import type { AuthData } from '../../utils/sessions.js';
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+} from '../../utils/sessions.js';
+import { getRetentionCutoff } from '../../utils/softDelete.js';
+import type { TwoFactorChallenge } from '../../utils/twoFactor.js';
+import { createTwoFactorChallenge } from '../../utils/twoFactor.js';
+import { consumeUserToken, issueUserToken, revokeUserTokens } from '../../utils/userTokens.js';
+
+import {
+  getEventEnd,
+  promoteFromWaitlist,
+  publishPromotions,
+  publishStatusChange,
+  visibleToFilter,
+} from './helpers/eventHelpers.js';
+import type { EventSearch, EventSort } from './helpers/eventSearch.js';
+import { SOONEST_FIRST, toSearchFilter, toSortSpec } from './helpers/eventSearch.js';
+import { TOPICS } from './subscriptionResolvers.js';
 
 interface UserInput {
   name: string;
@@ -20,52 +51,168 @@ interface UpdateUserInput {
   password?: string;
 }
 
+interface UserUpdate extends UpdateUserInput {
+  emailVerified?: boolean;
+}
+
+type PrivacySettingsInput = Partial<IPrivacySettings>;
+
 interface LoginInput {
   email: string;
   password: string;
 }
 
-interface PaginationInput {
-  page?: number;
-  limit?: number;
+interface ResetPasswordInput {
+  token: string;
+  newPassword: string;
 }
 
-interface UserConnection {
-  edges: IUser[];
-  pageInfo: {
-    hasNextPage: boolean;
-    hasPreviousPage: boolean;
-    currentPage: number;
-    totalPages: number;
-  };
-  totalCount: number;
-}
+// Matches the minimum length enforced by the User model
+const MIN_PASSWORD_LENGTH = 6;
 
-interface AuthData {
-  userId: string;
-  token: string;
-  tokenExpiration: number;
+type UserConnection = Connection<IUser>;
+
+type EventConnection = Connection<IEvent>;
+
+// The creator or attendee of the events is the user they are listed under
+type UserEventFilter = Omit<EventSearch, 'creator' | 'attendee'>;
+
+interface UserEventsArgs extends ConnectionArgs {
+  filter?: UserEventFilter | null;
+  sort?: EventSort[] | null;
 }
 
+// Users are listed in the order they signed up
+const USER_SORT: SortSpec = { _id: 1 };
+
 interface Context {
   user?: {
     id: string;
     email: string;
+    role: UserRole;
+    sessionId?: string;
   };
   loaders: Loaders;
+  pubsub: PubSub;
+  req?: { ip?: string };
 }
 
+interface AccountDeletion {
+  deletedUser: IUser;
+  // Events the user created that were deleted along with the account
+  deletedEventIds: string[];
+  cancelledEvents: { previous: IEvent; event: IEvent }[];
+  transferredEvents: IEvent[];
+  // Events the user held a seat at, after giving it up
+  vacatedEvents: IEvent[];
+}
+
+const ACCOUNT_DELETED_REASON = 'The organizer deleted their account';
+
+/**
+ * Delete an account and everything that points at it, all or nothing. The events the user
+ * created go to `transferTo` when given. Otherwise the upcoming ones are cancelled, and all
+ * of them are deleted along with the account and come back if it is restored. The user
+ * leaves every attendee list and waitlist, which restoring the account does not undo.
+ */
+const deleteAccount = async (userId: string, transferTo: string | null): Promise<AccountDeletion> =>
+  mongoose.connection.transaction(async session => {
+    if (
+      transferTo !== null &&
+      (transferTo === userId ||
+        !isValidObjectId(transferTo) ||
+        !(await User.exists({ _id: transferTo }).session(session)))
+    ) {
+      throw new GraphQLError('Events can only be transferred to another existing user', {
+        extensions: { code: 'BAD_USER_INPUT' },
+      });
+    }
+
+    const deletedAt = new Date();
+    const deletedUser = await User.findByIdAndUpdate(userId, { deletedAt }, { session });
+
+    if (!deletedUser) {
+      throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+    }
+
+    const result: AccountDeletion = {
+      deletedUser,
+      deletedEventIds: [],
+      cancelledEvents: [],
+      transferredEvents: [],
+      vacatedEvents: [],
+    };
+    const ownedEvents = await Event.find({ creator: userId }).session(session);
+
+    if (transferTo !== null) {
+      for (const event of ownedEvents) {
+        const transferred = await Event.findByIdAndUpdate(
+          event._id,
+          { creator: transferTo },
+          { new: true, session },
+        );
+        if (transferred) {
+          result.transferredEvents.push(transferred);
+        }
+      }
+    } else {
+      const now = new Date();
+      for (const event of ownedEvents) {
+        if (event.status === 'draft' || event.status === 'cancelled' || getEventEnd(event) <= now) {
+          continue;
+        }
+        const cancelled = await Event.findByIdAndUpdate(
+          event._id,
+          { status: 'cancelled', cancellationReason: ACCOUNT_DELETED_REASON },
+          { new: true, session },
+        );
+        if (cancelled) {
+          result.cancelledEvents.push({ previous: event, event: cancelled });
+        }
+      }
+      await Event.updateMany({ creator: userId }, { deletedAt }, { session });
+      result.deletedEventIds = ownedEvents.map(event => event._id.toString());
+    }
+
+    const heldSeats = { $or: [{ attendees: userId }, { waitlist: userId }] };
+    const leaveEvent = { $pull: { attendees: userId, waitlist: userId } };
+    for (const event of await Event.find(heldSeats).session(session)) {
+      const vacated = await Event.findByIdAndUpdate(event._id, leaveEvent, { new: true, session });
+      if (vacated && event.attendees.some(attendeeId => attendeeId.toString() === userId)) {
+        result.vacatedEvents.push(vacated);
+      }
+    }
+    // Deleted events can be restored, so they lose the user as well
+    await Event.updateMany(heldSeats, leaveEvent, { session }).setOptions({ withDeleted: true });
+
+    return result;
+  });
+
+/**
+ * Email the user a fresh verification link. Callers treat sending as best effort:
+ * the user can always ask for another link with `resendVerificationEmail`.
+ */
+const sendEmailVerification = async (user: IUser): Promise<void> => {
+  const token = await issueUserToken(
+    user._id.toString(),
+    'email-verification',
+    config.emailVerification.tokenTtlHours * 60,
+  );
+  await sendVerificationEmail(user, token);
+};
+
 export const userResolvers = {
   Query: {
-    users: async (
-      _: unknown,
-      { pagination }: { pagination?: PaginationInput },
-    ): Promise<UserConnection> => {
+    users: async (_: unknown, paging: ConnectionArgs): Promise<UserConnection> => {
       try {
-        const query = User.find();
-        return await paginateQuery(query, User, {}, pagination);
+        const query = User.find().sort(USER_SORT);
+        return await paginateQuery(query, User, {}, paging, { sort: USER_SORT });
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+
         throw new GraphQLError('Error fetching users', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
@@ -85,7 +232,7 @@ export const userResolvers = {
         });
       }
     },
-    me: requireAuth(async (_: unknown, __: unknown, { user, loaders }: Context): Promise<IUser> => {
+    me: async (_: unknown, __: unknown, { user, loaders }: Context): Promise<IUser> => {
       try {
         const userData = await loaders.userLoader.load(user!.id);
         if (!userData) {
@@ -98,12 +245,15 @@ export const userResolvers = {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
-    }),
+    },
   },
   Mutation: {
     createUser: async (_: unknown, { userInput }: { userInput: UserInput }): Promise<AuthData> => {
       try {
-        const existingUser = await User.findOne({ email: userInput.email });
+        // Deleted accounts keep their email until they are purged, as they can be restored
+        const existingUser = await User.findOne({ email: userInput.email }, null, {
+          withDeleted: true,
+        });
         if (existingUser) {
           throw new GraphQLError('User already exists', { extensions: { code: 'BAD_USER_INPUT' } });
         }
@@ -118,13 +268,13 @@ export const userResolvers = {
 
         const result = await user.save();
 
-        const token = generateToken({ id: result._id.toString(), email: result.email });
+        await sendEmailVerification(result).catch(err => logger.error(err));
 
-        return {
-          userId: result._id.toString(),
-          token,
-          tokenExpiration: 1,
-        };
+        return await createSession({
+          id: result._id.toString(),
+          email: result.email,
+          role: result.role,
+        });
       } catch (err) {
         logger.error(err);
         if (err instanceof GraphQLError) {
@@ -135,109 +285,488 @@ export const userResolvers = {
         });
       }
     },
-    login: async (_: unknown, { email, password }: LoginInput): Promise<AuthData> => {
+    login: async (
+      _: unknown,
+      { email, password }: LoginInput,
+      { req }: Context,
+    ): Promise<AuthData | TwoFactorChallenge> => {
+      // The account is looked up and throttled under the same address
+      const normalizedEmail = email.trim().toLowerCase();
       try {
-        const user = await User.findOne({ email });
-        if (!user) {
+        // Checked before bcrypt runs, so locked out clients cannot tie up the CPU
+        await loginThrottle.assertCanAttempt(normalizedEmail, req?.ip);
+
+        const user = await User.findOne({ email: normalizedEmail });
+        const isValid = user ? await verifyPassword(password, user.password) : false;
+        if (!user || !isValid) {
+          await loginThrottle.recordFailure(normalizedEmail, req?.ip);
           throw new GraphQLError('Invalid credentials', {
             extensions: { code: 'UNAUTHENTICATED' },
           });
         }
 
-        const isValid = await verifyPassword(password, user.password);
-        if (!isValid) {
-          throw new GraphQLError('Invalid credentials', {
+        // Failures are only cleared once the second factor has been checked as well
+        if (user.twoFactor?.enabled) {
+          return await createTwoFactorChallenge(user._id.toString());
+        }
+
+        await loginThrottle.recordSuccess(normalizedEmail);
+
+        return await createSession({
+          id: user._id.toString(),
+          email: user.email,
+          role: user.role,
+        });
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error logging in', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    refreshToken: async (
+      _: unknown,
+      { refreshToken }: { refreshToken: string },
+    ): Promise<AuthData> => {
+      try {
+        const authData = await rotateSession(refreshToken);
+        if (!authData) {
+          throw new GraphQLError('Invalid or expired refresh token', {
             extensions: { code: 'UNAUTHENTICATED' },
           });
         }
+        return authData;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error refreshing token', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    logout: async (_: unknown, __: unknown, { user }: Context): Promise<boolean> => {
+      try {
+        return await revokeSession(user!.sessionId!);
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error logging out', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    logoutAllSessions: async (_: unknown, __: unknown, { user }: Context): Promise<number> => {
+      try {
+        return await revokeAllSessions(user!.id);
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error logging out', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    verifyEmail: async (_: unknown, { token }: { token: string }): Promise<IUser> => {
+      try {
+        const userId = await consumeUserToken(token, 'email-verification');
+        if (!userId) {
+          throw new GraphQLError('Invalid or expired verification token', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
 
-        const token = generateToken({ id: user._id.toString(), email: user.email });
+        const verifiedUser = await User.findByIdAndUpdate(
+          userId,
+          { emailVerified: true },
+          { new: true },
+        );
 
-        return {
-          userId: user._id.toString(),
-          token,
-          tokenExpiration: 1,
-        };
+        if (!verifiedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        return verifiedUser;
       } catch (err) {
         logger.error(err);
         if (err instanceof GraphQLError) {
           throw err;
         }
-        throw new GraphQLError('Error logging in', {
+        throw new GraphQLError('Error verifying email', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
     },
-    updateUser: requireAuth(
-      async (
-        _: unknown,
-        { updateUserInput }: { updateUserInput: UpdateUserInput },
-        { user }: Context,
-      ) => {
-        try {
-          const { name, email, password } = updateUserInput;
-          const updateData: UpdateUserInput = {};
+    resendVerificationEmail: async (
+      _: unknown,
+      __: unknown,
+      { user }: Context,
+    ): Promise<boolean> => {
+      try {
+        const currentUser = await User.findById(user!.id);
 
-          if (name) updateData.name = name;
-          if (email) updateData.email = email;
-          if (password) {
-            updateData.password = await hashPassword(password);
-          }
+        if (!currentUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        if (currentUser.emailVerified) {
+          throw new GraphQLError('Email is already verified', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
 
-          const updatedUser = await User.findByIdAndUpdate(user!.id, updateData, { new: true });
+        await sendEmailVerification(currentUser);
 
-          if (!updatedUser) {
-            throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
-          }
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error sending verification email', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    requestPasswordReset: async (_: unknown, { email }: { email: string }): Promise<boolean> => {
+      try {
+        const user = await User.findOne({ email: email.trim().toLowerCase() });
+
+        // Always report success so the mutation cannot be used to discover accounts
+        if (user) {
+          const token = await issueUserToken(
+            user._id.toString(),
+            'password-reset',
+            config.passwordReset.tokenTtlMinutes,
+          );
+          await sendPasswordResetEmail(user, token);
+        }
 
-          return updatedUser;
-        } catch (err) {
-          logger.error(err);
-          if (err instanceof GraphQLError) {
-            throw err;
+        return true;
+      } catch (err) {
+        logger.error(err);
+        throw new GraphQLError('Error requesting password reset', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    resetPassword: async (
+      _: unknown,
+      { token, newPassword }: ResetPasswordInput,
+    ): Promise<boolean> => {
+      try {
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+          throw new GraphQLError(
+            `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+            { extensions: { code: 'BAD_USER_INPUT' } },
+          );
+        }
+
+        const userId = await consumeUserToken(token, 'password-reset');
+        if (!userId) {
+          throw new GraphQLError('Invalid or expired password reset token', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        const hashedPassword = await hashPassword(newPassword);
+        const updatedUser = await User.findByIdAndUpdate(userId, { password: hashedPassword });
+
+        if (!updatedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        // Whoever knew the old password must not stay signed in
+        await revokeAllSessions(userId);
+        await revokeUserTokens(userId, 'password-reset');
+        await loginThrottle.unlock(updatedUser.email);
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error resetting password', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    updateUser: async (
+      _: unknown,
+      { updateUserInput }: { updateUserInput: UpdateUserInput },
+      { user }: Context,
+    ): Promise<IUser> => {
+      try {
+        const { name, email, password } = updateUserInput;
+        const updateData: UserUpdate = {};
+
+        if (name) updateData.name = name;
+        if (email) {
+          const currentUser = await User.findById(user!.id);
+          updateData.email = email;
+          // A new address has to be verified again
+          if (currentUser && currentUser.email !== email.trim().toLowerCase()) {
+            updateData.emailVerified = false;
           }
-          throw new GraphQLError('Error updating user', {
-            extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        }
+        if (password) {
+          updateData.password = await hashPassword(password);
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(user!.id, updateData, { new: true });
+
+        if (!updatedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        if (updateData.emailVerified === false) {
+          await sendEmailVerification(updatedUser).catch(err => logger.error(err));
+        }
+
+        return updatedUser;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error updating user', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    updatePrivacySettings: async (
+      _: unknown,
+      { privacyInput }: { privacyInput: PrivacySettingsInput },
+      { user }: Context,
+    ): Promise<IUser> => {
+      try {
+        const updateData = Object.fromEntries(
+          Object.entries(privacyInput)
+            .filter(([, visibility]) => visibility != null)
+            .map(([setting, visibility]) => [`privacy.${setting}`, visibility]),
+        );
+
+        const updatedUser = await User.findByIdAndUpdate(user!.id, updateData, { new: true });
+
+        if (!updatedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        return updatedUser;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error updating privacy settings', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    deleteUser: async (
+      _: unknown,
+      { transferEventsTo }: { transferEventsTo?: string | null },
+      context: Context,
+    ): Promise<boolean> => {
+      const { user, pubsub } = context;
+      try {
+        // Deleted accounts can be restored by an admin until they are purged
+        const { deletedUser, deletedEventIds, cancelledEvents, transferredEvents, vacatedEvents } =
+          await deleteAccount(user!.id, transferEventsTo ?? null);
+
+        await revokeAllSessions(user!.id);
+        await revokeAllApiKeys(user!.id);
+
+        // Only tell subscribers once the deletion is committed
+        for (const { previous, event } of cancelledEvents) {
+          publishStatusChange(event, previous, pubsub, ACCOUNT_DELETED_REASON);
+        }
+        for (const eventId of deletedEventIds) {
+          void pubsub.publish(TOPICS.EVENT_DELETED, { eventDeleted: eventId });
+        }
+        for (const event of transferredEvents) {
+          void pubsub.publish(TOPICS.EVENT_UPDATED, { eventUpdated: event });
+        }
+        for (const vacatedEvent of vacatedEvents) {
+          void pubsub.publish(TOPICS.USER_LEFT_EVENT, {
+            userLeftEvent: deletedUser,
+            eventId: vacatedEvent._id.toString(),
           });
+          const { event, promotedIds } = await promoteFromWaitlist(vacatedEvent);
+          await publishPromotions(event, promotedIds, context);
+        }
+
+        return true;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
         }
-      },
-    ),
-    deleteUser: requireAuth(async (_: unknown, __: unknown, { user }: Context) => {
+        throw new GraphQLError('Error deleting user', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    restoreUser: async (_: unknown, { userId }: { userId: string }): Promise<IUser> => {
       try {
-        const deletedUser = await User.findByIdAndDelete(user!.id);
+        // Accounts past the retention window may already be purged, so they are not found
+        const cutoff = getRetentionCutoff(config.softDelete.retentionDays);
+        const deletedUser = isValidObjectId(userId)
+          ? await User.findOne({ _id: userId, deletedAt: trusted({ $gte: cutoff }) })
+          : null;
 
         if (!deletedUser) {
           throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
         }
 
+        const restoredUser = await User.findOneAndUpdate(
+          { _id: deletedUser._id, deletedAt: deletedUser.deletedAt },
+          { deletedAt: null },
+          { new: true },
+        );
+
+        if (!restoredUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        // Events cancelled when the account was deleted stay cancelled
+        await Event.updateMany(
+          { creator: restoredUser._id, deletedAt: deletedUser.deletedAt },
+          { deletedAt: null },
+        );
+
+        return restoredUser;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error restoring user', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    setUserRole: async (
+      _: unknown,
+      { userId, role }: { userId: string; role: UserRole },
+      { user }: Context,
+    ): Promise<IUser> => {
+      try {
+        if (!isValidObjectId(userId)) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        if (userId === user!.id) {
+          throw new GraphQLError('You cannot change your own role', {
+            extensions: { code: 'BAD_USER_INPUT' },
+          });
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(userId, { role }, { new: true });
+
+        if (!updatedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        // Tokens carry the role, so force the user to sign in again with the new one
+        await revokeAllSessions(userId);
+
+        return updatedUser;
+      } catch (err) {
+        logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
+        throw new GraphQLError('Error updating user role', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        });
+      }
+    },
+    unlockAccount: async (_: unknown, { userId }: { userId: string }): Promise<boolean> => {
+      try {
+        const lockedUser = isValidObjectId(userId) ? await User.findById(userId) : null;
+
+        if (!lockedUser) {
+          throw new GraphQLError('User not found', { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        await loginThrottle.unlock(lockedUser.email);
+
         return true;
       } catch (err) {
         logger.error(err);
         if (err instanceof GraphQLError) {
           throw err;
         }
-        throw new GraphQLError('Error deleting user', {
+        throw new GraphQLError('Error unlocking account', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
-    }),
+    },
+  },
+  Role: {
+    USER: 'user',
+    MODERATOR: 'moderator',
+    ADMIN: 'admin',
+  },
+  Visibility: {
+    PUBLIC: 'public',
+    PRIVATE: 'private',
+  },
+  AuthData: {
+    userId: (parent: AuthData): string => toGlobalId('User', parent.userId),
   },
   User: {
-    events: async (parent: IUser, _: unknown, { loaders }: Context): Promise<IEvent[]> => {
+    id: (parent: IUser): string => toGlobalId('User', parent._id),
+    twoFactorEnabled: (parent: IUser): boolean => parent.twoFactor?.enabled ?? false,
+    events: async (
+      parent: IUser,
+      { filter, sort, ...paging }: UserEventsArgs,
+      { user, loaders }: Context,
+    ): Promise<EventConnection> => {
       try {
-        return await loaders.userEventsLoader.load(parent._id.toString());
+        const search = filter ? toSearchFilter(filter, user?.id) : {};
+        const sortSpec = toSortSpec(sort?.length ? sort : SOONEST_FIRST);
+        // Only the page asked for is loaded, so drafts are left out by the query
+        const { items, totalCount } = await loaders.userEventsLoader.load({
+          id: parent._id.toString(),
+          args: { filter, sort, ...paging },
+          filter: { ...search, ...visibleToFilter(user?.id) },
+          page: toPageQuery(paging, sortSpec),
+        });
+        return toConnection(items, paging, sortSpec, totalCount);
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
         throw new GraphQLError('Error fetching events', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
       }
     },
-    attendingEvents: async (parent: IUser, _: unknown, { loaders }: Context): Promise<IEvent[]> => {
+    attendingEvents: async (
+      parent: IUser,
+      { filter, sort, ...paging }: UserEventsArgs,
+      { user, loaders }: Context,
+    ): Promise<EventConnection> => {
       try {
-        return await loaders.userAttendingEventsLoader.load(parent._id.toString());
+        const sortSpec = toSortSpec(sort?.length ? sort : SOONEST_FIRST);
+        const { items, totalCount } = await loaders.userAttendingEventsLoader.load({
+          id: parent._id.toString(),
+          args: { filter, sort, ...paging },
+          filter: filter ? toSearchFilter(filter, user?.id) : {},
+          page: toPageQuery(paging, sortSpec),
+        });
+        return toConnection(items, paging, sortSpec, totalCount);
       } catch (err) {
         logger.error(err);
+        if (err instanceof GraphQLError) {
+          throw err;
+        }
         throw new GraphQLError('Error fetching attending events', {
           extensions: { code: 'INTERNAL_SERVER_ERROR' },
         });
@@ -0,0 +1,163 @@
+import { GraphQLError, GraphQLScalarType, Kind } from 'graphql';
+import type { GraphQLFormattedError, ValueNode } from 'graphql';
+
+import { toDateKey } from '../utils/recurrence.js';
+import { isValidLocalDate, isValidLocalTime } from '../utils/timeZones.js';
+
+// ISO 8601 date and time with seconds optional and an explicit UTC offset, so instants
+// never depend on the zone of whoever parses them
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// One @ between a local part and a dotted domain, without whitespace anywhere
+const EMAIL_ADDRESS_PATTERN = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+// The longest address SMTP can deliver to
+const MAX_EMAIL_ADDRESS_LENGTH = 254;
+
+// Raised for values a scalar cannot parse, so they can be told apart from other
+// validation failures wherever the error ends up
+class InvalidScalarError extends GraphQLError {
+  constructor(message: string) {
+    super(message, { extensions: { code: 'BAD_USER_INPUT' } });
+  }
+}
+
+const invalidDateTime = (): GraphQLError =>
+  new InvalidScalarError(
+    'DateTime must be an ISO 8601 date and time with a UTC offset, such as 2030-01-15T18:00:00Z',
+  );
+
+const parseDateTime = (value: unknown): Date => {
+  if (typeof value !== 'string' || !DATE_TIME_PATTERN.test(value)) {
+    throw invalidDateTime();
+  }
+  const date = new Date(value);
+  // Dates like February 31st would otherwise roll over into the next month
+  if (Number.isNaN(date.getTime()) || !isValidLocalDate(value.slice(0, 10))) {
+    throw invalidDateTime();
+  }
+  return date;
+};
+
+const isValidEmailAddress = (value: string): boolean =>
+  value.length <= MAX_EMAIL_ADDRESS_LENGTH && EMAIL_ADDRESS_PATTERN.test(value);
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A scalar held as a string on both sides of the schema, checked the same way whether
+ * it arrives as a literal or in a variable and, unless `checkStored` is off, again before
+ * it is sent
+ */
+const createStringScalar = ({
+  name,
+  description,
+  format,
+  isValid,
+  normalize = value => value,
+  checkStored = true,
+}: {
+  name: string;
+  description: string;
+  format: string;
+  isValid: (value: string) => boolean;
+  normalize?: (value: unknown) => unknown;
+  checkStored?: boolean;
+}): GraphQLScalarType<string, string> => {
+  const parse = (value: unknown): string => {
+    if (typeof value !== 'string' || !isValid(value)) {
+      throw new InvalidScalarError(`${name} must be ${format}`);
+    }
+    return value;
+  };
+
+  return new GraphQLScalarType<string, string>({
+    name,
+    description,
+    serialize: value => {
+      const serialized = normalize(value);
+      if (typeof serialized !== 'string' || (checkStored && !isValid(serialized))) {
+        throw new GraphQLError(`${name} cannot represent ${String(value)}`);
+      }
+      return serialized;
+    },
+    parseValue: parse,
+    parseLiteral: (ast: ValueNode) => {
+      if (ast.kind !== Kind.STRING) {
+        throw new InvalidScalarError(`${name} must be ${format}`);
+      }
+      return parse(ast.value);
+    },
+  });
+};
+
+export const DateTime = new GraphQLScalarType<Date, string>({
+  name: 'DateTime',
+  description: 'An instant in time, serialized as an ISO 8601 string in UTC',
+  serialize: value => {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) {
+      throw new GraphQLError('DateTime cannot represent an invalid date');
+    }
+    return date.toISOString();
+  },
+  parseValue: parseDateTime,
+  parseLiteral: ast => {
+    if (ast.kind !== Kind.STRING) {
+      throw invalidDateTime();
+    }
+    return parseDateTime(ast.value);
+  },
+});
+
+export const DateScalar = createStringScalar({
+  name: 'Date',
+  description: 'A calendar date without a time zone, such as 2030-01-15',
+  format: 'a calendar date in YYYY-MM-DD format, such as 2030-01-15',
+  isValid: isValidLocalDate,
+  // Days are stored as midnight UTC
+  normalize: value =>
+    value instanceof Date && !Number.isNaN(value.getTime()) ? toDateKey(value) : value,
+});
+
+export const LocalTime = createStringScalar({
+  name: 'LocalTime',
+  description: 'A 24-hour time of day without a time zone, such as 18:30',
+  format: 'a 24-hour time in HH:mm format, such as 18:30',
+  isValid: isValidLocalTime,
+});
+
+export const EmailAddress = createStringScalar({
+  name: 'EmailAddress',
+  description: 'An email address, such as ada@example.com',
+  format: 'an email address, such as ada@example.com',
+  isValid: isValidEmailAddress,
+  // Accounts were saved under the looser check of the User model, and are sent as they are
+  checkStored: false,
+});
+
+export const UrlScalar = createStringScalar({
+  name: 'URL',
+  description: 'An absolute http or https URL',
+  format: 'an absolute http or https URL, such as https://example.com/image.png',
+  isValid: isValidUrl,
+});
+
+/**
+ * Apollo reports invalid literals as validation failures but invalid variables as bad
+ * user input. Values the scalars reject are bad user input either way.
+ */
+export const formatScalarError = (
+  formattedError: GraphQLFormattedError,
+  error: unknown,
+): GraphQLFormattedError =>
+  error instanceof GraphQLError && error.originalError instanceof InvalidScalarError
+    ? { ...formattedError, extensions: { ...formattedError.extensions, code: 'BAD_USER_INPUT' } }
+    : formattedError;
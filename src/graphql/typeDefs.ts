@@ -1,51 +1,270 @@
 import { gql } from 'graphql-tag';
 
 export const typeDefs = gql`
-  type User {
+  directive @auth on OBJECT | FIELD_DEFINITION
+  directive @hasRole(role: Role!) on OBJECT | FIELD_DEFINITION
+  directive @owner(
+    field: String = "creator"
+    arg: String = "id"
+    overrideRole: Role = ADMIN
+  ) on FIELD_DEFINITION
+  directive @private(setting: String) on FIELD_DEFINITION
+  directive @verified on FIELD_DEFINITION
+  directive @scope(requires: ApiKeyScope!) on FIELD_DEFINITION
+
+  scalar DateTime
+  scalar Date
+  scalar LocalTime
+  scalar EmailAddress
+  scalar URL
+
+  enum Role {
+    USER
+    MODERATOR
+    ADMIN
+  }
+
+  enum Visibility {
+    PUBLIC
+    PRIVATE
+  }
+
+  type PrivacySettings {
+    email: Visibility!
+  }
+
+  enum ApiKeyScope {
+    READ
+    EVENTS_WRITE
+  }
+
+  type ApiKey {
     id: ID!
     name: String!
-    email: String!
-    createdAt: String!
-    updatedAt: String!
-    events: [Event!]
-    attendingEvents: [Event!]
+    prefix: String!
+    scopes: [ApiKeyScope!]!
+    lastUsedAt: DateTime
+    createdAt: DateTime!
+  }
+
+  type CreatedApiKey {
+    apiKey: ApiKey!
+    key: String!
   }
 
-  type Event {
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    id: ID!
+    name: String!
+    email: EmailAddress @private(setting: "email")
+    role: Role!
+    emailVerified: Boolean @private
+    twoFactorEnabled: Boolean @private
+    privacy: PrivacySettings @private
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    events(
+      filter: UserEventFilter
+      sort: [EventSort!]
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    attendingEvents(
+      filter: UserEventFilter
+      sort: [EventSort!]
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+  }
+
+  type Event implements Node {
     id: ID!
     title: String!
     description: String!
-    date: String!
-    time: String!
+    date: Date!
+    time: LocalTime!
+    timeZone: String!
+    startsAt: DateTime!
+    endsAt: DateTime
+    endDate: Date
+    endTime: LocalTime
+    durationMinutes: Int
     location: String!
-    imageUrl: String
+    geoLocation: GeoPoint
+    address: Address
+    imageUrl: URL
+    tags: [String!]!
     creator: User!
-    attendees: [User!]
-    createdAt: String!
-    updatedAt: String!
+    attendees(
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): UserConnection!
+    attendeeCount: Int!
+    capacity: Int
+    availableSeats: Int
+    waitlist: [User!]
+    recurrence: Recurrence
+    series: Event
+    occurrenceDate: Date
+    conflictsWith: [Event!]!
+    status: EventStatus!
+    cancellationReason: String
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type GeoPoint {
+    lat: Float!
+    lng: Float!
+  }
+
+  type Address {
+    street: String
+    city: String
+    region: String
+    postalCode: String
+    country: String
+  }
+
+  type Recurrence {
+    rule: String!
+    exceptions: [Date!]!
+  }
+
+  enum AttendanceStatus {
+    CONFIRMED
+    WAITLISTED
+  }
+
+  enum EventStatus {
+    DRAFT
+    PUBLISHED
+    CANCELLED
+    POSTPONED
+    COMPLETED
+  }
+
+  type EventStatusChange {
+    event: Event!
+    status: EventStatus!
+    previousStatus: EventStatus!
+    reason: String
+    previousStartsAt: DateTime
+  }
+
+  type ScheduleConflict {
+    event: Event!
+    conflictsWith: [Event!]!
+  }
+
+  type Attendance {
+    status: AttendanceStatus!
+    event: Event!
+    waitlistPosition: Int
   }
 
   type AuthData {
     userId: ID!
     token: String!
     tokenExpiration: Int!
+    refreshToken: String!
+    refreshTokenExpiration: Int!
+  }
+
+  type TwoFactorChallenge {
+    challengeId: String!
+    expiresIn: Int!
+  }
+
+  union LoginResult = AuthData | TwoFactorChallenge
+
+  type TwoFactorSetup {
+    secret: String!
+    otpauthUri: String!
+    recoveryCodes: [String!]!
   }
 
   type PageInfo {
     hasNextPage: Boolean!
     hasPreviousPage: Boolean!
-    currentPage: Int!
-    totalPages: Int!
+    startCursor: String
+    endCursor: String
+    currentPage: Int
+    totalPages: Int
+  }
+
+  type EventEdge {
+    cursor: String!
+    node: Event!
   }
 
   type EventConnection {
-    edges: [Event!]!
+    edges: [EventEdge!]!
+    nodes: [Event!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  enum SearchField {
+    TITLE
+    DESCRIPTION
+    LOCATION
+  }
+
+  type TextRange {
+    start: Int!
+    end: Int!
+  }
+
+  type SearchHighlight {
+    field: SearchField!
+    snippet: String!
+    matches: [TextRange!]!
+  }
+
+  type EventSearchResult {
+    event: Event!
+    score: Float!
+    highlights: [SearchHighlight!]!
+  }
+
+  type EventSearchConnection {
+    edges: [EventSearchResult!]!
     pageInfo: PageInfo!
     totalCount: Int!
   }
 
+  type NearbyEvent {
+    event: Event!
+    distanceKm: Float!
+  }
+
+  type NearbyEventConnection {
+    edges: [NearbyEvent!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type UserEdge {
+    cursor: String!
+    node: User!
+  }
+
   type UserConnection {
-    edges: [User!]!
+    edges: [UserEdge!]!
+    nodes: [User!]!
     pageInfo: PageInfo!
     totalCount: Int!
   }
@@ -53,52 +272,256 @@ export const typeDefs = gql`
   input EventInput {
     title: String!
     description: String!
-    date: String!
-    time: String!
+    date: Date!
+    time: LocalTime!
+    endDate: Date
+    endTime: LocalTime
+    durationMinutes: Int
+    timeZone: String
     location: String!
-    imageUrl: String
+    geoLocation: GeoPointInput
+    address: AddressInput
+    imageUrl: URL
+    tags: [String!]
+    capacity: Int
+    recurrence: RecurrenceInput
+  }
+
+  input GeoPointInput {
+    lat: Float!
+    lng: Float!
+  }
+
+  input AddressInput {
+    street: String
+    city: String
+    region: String
+    postalCode: String
+    country: String
+  }
+
+  input BoundsInput {
+    south: Float!
+    west: Float!
+    north: Float!
+    east: Float!
+  }
+
+  input RecurrenceInput {
+    rule: String!
+    exceptions: [Date!]
+  }
+
+  input DateRangeInput {
+    from: Date!
+    to: Date!
+    timeZone: String
+  }
+
+  input EventFilter {
+    range: DateRangeInput
+    location: String
+    creator: ID
+    attendee: ID
+    status: [EventStatus!]
+    tags: [String!]
+    text: String
+    hasSeatsLeft: Boolean
+    bounds: BoundsInput
+  }
+
+  input UserEventFilter {
+    location: String
+    status: [EventStatus!]
+    tags: [String!]
+    text: String
+    hasSeatsLeft: Boolean
+    bounds: BoundsInput
+  }
+
+  enum EventSortField {
+    STARTS_AT
+    CREATED_AT
+    TITLE
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  input EventSort {
+    field: EventSortField!
+    direction: SortDirection = ASC
   }
 
   input UserInput {
     name: String!
-    email: String!
+    email: EmailAddress!
     password: String!
   }
 
   input UpdateUserInput {
     name: String
-    email: String
+    email: EmailAddress
     password: String
   }
 
+  input PrivacySettingsInput {
+    email: Visibility
+  }
+
+  input ApiKeyInput {
+    name: String!
+    scopes: [ApiKeyScope!]
+  }
+
+  input UpdateApiKeyInput {
+    name: String
+    scopes: [ApiKeyScope!]
+  }
+
   input PaginationInput {
     page: Int
     limit: Int
   }
 
   type Query {
-    events(pagination: PaginationInput): EventConnection!
+    node(id: ID!): Node
+    nodes(ids: [ID!]!): [Node]!
+    events(
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+      range: DateRangeInput
+    ): EventConnection!
     event(id: ID!): Event
-    users(pagination: PaginationInput): UserConnection!
+    search(query: String!, pagination: PaginationInput): EventSearchConnection!
+    searchEvents(
+      filter: EventFilter
+      sort: [EventSort!]
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    users(
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): UserConnection!
     user(id: ID!): User
-    me: User
-    eventsByDate(date: String!, pagination: PaginationInput): EventConnection!
-    eventsByLocation(location: String!, pagination: PaginationInput): EventConnection!
-    eventsByUser(userId: ID!, pagination: PaginationInput): EventConnection!
-    myEvents(pagination: PaginationInput): EventConnection!
-    myAttendingEvents(pagination: PaginationInput): EventConnection!
+    me: User @auth
+    eventsByDate(
+      date: Date!
+      timeZone: String
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    eventsByLocation(
+      location: String!
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    eventsByUser(
+      userId: ID!
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    eventsNear(
+      lat: Float!
+      lng: Float!
+      radiusKm: Float!
+      pagination: PaginationInput
+    ): NearbyEventConnection!
+    eventsInBounds(
+      bounds: BoundsInput!
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
+    myEvents(
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection! @auth
+    myAttendingEvents(
+      pagination: PaginationInput
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection! @auth
+    myScheduleConflicts: [ScheduleConflict!]! @auth
+    myApiKeys: [ApiKey!]! @auth
   }
 
   type Mutation {
     createUser(userInput: UserInput): AuthData!
-    login(email: String!, password: String!): AuthData!
-    updateUser(updateUserInput: UpdateUserInput): User!
-    deleteUser: Boolean!
-    createEvent(eventInput: EventInput!): Event!
-    updateEvent(id: ID!, eventInput: EventInput!): Event!
-    deleteEvent(id: ID!): Boolean!
-    attendEvent(eventId: ID!): Event!
-    cancelAttendance(eventId: ID!): Event!
+    login(email: EmailAddress!, password: String!): LoginResult!
+    completeTwoFactorLogin(challengeId: String!, code: String!): AuthData!
+    refreshToken(refreshToken: String!): AuthData!
+    logout: Boolean! @auth
+    logoutAllSessions: Int! @auth
+    verifyEmail(token: String!): User!
+    resendVerificationEmail: Boolean! @auth
+    enableTwoFactor: TwoFactorSetup! @auth
+    confirmTwoFactor(code: String!): Boolean! @auth
+    disableTwoFactor(code: String!): Boolean! @auth
+    requestPasswordReset(email: EmailAddress!): Boolean!
+    resetPassword(token: String!, newPassword: String!): Boolean!
+    updateUser(updateUserInput: UpdateUserInput): User! @auth
+    updatePrivacySettings(privacyInput: PrivacySettingsInput!): User! @auth
+    deleteUser(transferEventsTo: ID): Boolean! @auth
+    restoreUser(userId: ID!): User! @hasRole(role: ADMIN)
+    setUserRole(userId: ID!, role: Role!): User! @hasRole(role: ADMIN)
+    unlockAccount(userId: ID!): Boolean! @hasRole(role: ADMIN)
+    createApiKey(apiKeyInput: ApiKeyInput!): CreatedApiKey! @auth
+    updateApiKey(id: ID!, apiKeyInput: UpdateApiKeyInput!): ApiKey! @auth
+    revokeApiKey(id: ID!): Boolean! @auth
+    createEvent(eventInput: EventInput!, draft: Boolean = false): Event!
+      @auth
+      @verified
+      @scope(requires: EVENTS_WRITE)
+    updateEvent(id: ID!, eventInput: EventInput!, occurrenceDate: Date): Event!
+      @owner
+      @scope(requires: EVENTS_WRITE)
+    deleteEvent(id: ID!, occurrenceDate: Date): Boolean!
+      @owner(overrideRole: MODERATOR)
+      @scope(requires: EVENTS_WRITE)
+    restoreEvent(id: ID!): Event! @auth @scope(requires: EVENTS_WRITE)
+    publishEvent(id: ID!): Event! @owner @scope(requires: EVENTS_WRITE)
+    cancelEvent(id: ID!, reason: String, occurrenceDate: Date): Event!
+      @owner(overrideRole: MODERATOR)
+      @scope(requires: EVENTS_WRITE)
+    postponeEvent(id: ID!, newDate: Date, occurrenceDate: Date): Event!
+      @owner
+      @scope(requires: EVENTS_WRITE)
+    attendEvent(eventId: ID!, occurrenceDate: Date): Attendance!
+      @auth
+      @verified
+      @scope(requires: EVENTS_WRITE)
+    cancelAttendance(eventId: ID!, occurrenceDate: Date): Event!
+      @auth
+      @scope(requires: EVENTS_WRITE)
   }
 
   type Subscription {
@@ -107,5 +530,7 @@ export const typeDefs = gql`
     eventDeleted: ID!
     userJoinedEvent(eventId: ID!): User!
     userLeftEvent(eventId: ID!): User!
+    waitlistPromoted: Event! @auth
+    eventStatusChanged: EventStatusChange! @auth
   }
 `;
@@ -18,12 +18,16 @@ import { pinoHttp } from 'pino-http';
 import { WebSocketServer } from 'ws';
 
 import { config } from './config.js';
+import { authDirectivesTransformer } from './graphql/directives.js';
+import { globalIdTransformer } from './graphql/globalIds.js';
 import { resolvers } from './graphql/resolvers.js';
+import { formatScalarError } from './graphql/scalars.js';
 import { typeDefs } from './graphql/typeDefs.js';
 import { logger } from './logger.js';
 import { LruKeyValueCache } from './utils/apolloCache.js';
-import { getUserFromToken } from './utils/auth.js';
+import { getUserFromRequest } from './utils/auth.js';
 import { createLoaders } from './utils/dataLoaders.js';
+import { jwtKeys } from './utils/jwtKeys.js';
 
 mongoose.set('strictQuery', true);
 mongoose.set('sanitizeFilter', true);
@@ -64,6 +68,12 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Lets other services verify our access tokens without sharing a secret
+app.get('/.well-known/jwks.json', (_req, res) => {
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.status(200).json(jwtKeys.toJwks());
+});
+
 const startServer = async () => {
   if (config.env !== 'test') {
     try {
@@ -77,7 +87,10 @@ const startServer = async () => {
   }
 
   const pubsub = new PubSub();
-  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  // The same transformed schema backs HTTP and WebSocket operations, so directives apply to both
+  const schema = globalIdTransformer(
+    authDirectivesTransformer(makeExecutableSchema({ typeDefs, resolvers })),
+  );
 
   const wsServer = new WebSocketServer({
     server: httpServer,
@@ -95,7 +108,11 @@ const startServer = async () => {
           (typeof connectionParams['Authorization'] === 'string' &&
             connectionParams['Authorization']) ||
           '';
-        const user = getUserFromToken(token);
+        const apiKey = connectionParams['x-api-key'] ?? connectionParams['X-API-Key'];
+        const user = await getUserFromRequest(
+          token,
+          typeof apiKey === 'string' ? apiKey : undefined,
+        );
         const loaders = createLoaders();
         return { pubsub, user, loaders };
       },
@@ -122,7 +139,7 @@ const startServer = async () => {
       if (config.env !== 'production') {
         logger.error(error);
       }
-      return formattedError;
+      return formatScalarError(formattedError, error);
     },
     persistedQueries: {
       cache: new LruKeyValueCache(),
@@ -146,7 +163,7 @@ const startServer = async () => {
     expressMiddleware(server, {
       context: async ({ req }) => {
         const token = (req.headers?.['authorization'] as string) ?? '';
-        const user = getUserFromToken(token);
+        const user = await getUserFromRequest(token, req.get('x-api-key'));
         const loaders = createLoaders();
         return { req, user, loaders, pubsub };
       },
@@ -0,0 +1,26 @@
+/* eslint-disable no-console */
+import mongoose from 'mongoose';
+
+import { config } from './config.js';
+import { migrateEventStartTimes } from './migrations/eventStartTimes.js';
+
+const migrateDatabase = async () => {
+  try {
+    await mongoose.connect(config.mongoose.url);
+    console.log('Connected to the database.');
+
+    const { migrated, skippedIds } = await migrateEventStartTimes(config.events.defaultTimeZone);
+    console.log(`Scheduled ${migrated} events in ${config.events.defaultTimeZone}.`);
+    if (skippedIds.length > 0) {
+      console.warn('Could not read the time of these events, fix them by hand:', skippedIds);
+    }
+
+    await mongoose.disconnect();
+    console.log('Disconnected from the database.');
+  } catch (error) {
+    console.error('Error migrating the database:', error);
+    process.exit(1);
+  }
+};
+
+void migrateDatabase();
@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+
+import { Event } from '../../models/Event.js';
+import { migrateEventStartTimes, parseLegacyTime } from '../eventStartTimes.js';
+
+jest.mock('../../models/Event');
+
+const mockFindResults = (...batches: unknown[][]) => {
+  const lean = jest.fn();
+  batches.forEach(batch => lean.mockResolvedValueOnce(batch));
+  lean.mockResolvedValue([]);
+  const query = {
+    setOptions: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean,
+  };
+  (Event.find as jest.Mock).mockReturnValue(query);
+};
+
+describe('Event start times migration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseLegacyTime', () => {
+    it.each([
+      ['18:00', '18:00'],
+      ['9:05', '09:05'],
+      ['18.30', '18:30'],
+      ['6:30 PM', '18:30'],
+      ['12am', '00:00'],
+      ['12 p.m.', '12:00'],
+      [' 9am ', '09:00'],
+    ])('should read "%s" as %s', (value, time) => {
+      expect(parseLegacyTime(value)).toBe(time);
+    });
+
+    it.each(['', '9', '24:00', '13pm', '18:60', 'after lunch'])('should not read "%s"', value => {
+      expect(parseLegacyTime(value)).toBeNull();
+    });
+  });
+
+  describe('migrateEventStartTimes', () => {
+    it('should schedule events without a start in the default time zone', async () => {
+      // Arrange
+      const eventId = new mongoose.Types.ObjectId();
+      const unreadableId = new mongoose.Types.ObjectId();
+      mockFindResults([
+        { _id: eventId, date: new Date('2023-01-01T00:00:00Z'), time: '6 pm' },
+        { _id: unreadableId, date: new Date('2023-01-02T00:00:00Z'), time: 'evening' },
+      ]);
+
+      // Act
+      const result = await migrateEventStartTimes('Europe/Berlin');
+
+      // Assert
+      expect(Event.find).toHaveBeenNthCalledWith(1, { startsAt: null });
+      expect(Event.find).toHaveBeenNthCalledWith(2, {
+        startsAt: null,
+        _id: { $gt: unreadableId },
+      });
+      expect(Event.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: eventId },
+            update: {
+              $set: {
+                date: new Date('2023-01-01T00:00:00Z'),
+                time: '18:00',
+                timeZone: 'Europe/Berlin',
+                startsAt: new Date('2023-01-01T17:00:00Z'),
+                endsAt: null,
+              },
+            },
+          },
+        },
+      ]);
+      expect(result).toEqual({ migrated: 1, skippedIds: [unreadableId.toString()] });
+    });
+
+    it('should keep the time zone events have already', async () => {
+      // Arrange
+      mockFindResults([
+        {
+          _id: new mongoose.Types.ObjectId(),
+          date: new Date('2023-07-01T00:00:00Z'),
+          time: '09:00',
+          timeZone: 'America/New_York',
+        },
+      ]);
+
+      // Act
+      await migrateEventStartTimes('UTC');
+
+      // Assert
+      const [[operation]] = (Event.bulkWrite as jest.Mock).mock.calls[0];
+      expect(operation.updateOne.update.$set).toMatchObject({
+        timeZone: 'America/New_York',
+        startsAt: new Date('2023-07-01T13:00:00Z'),
+      });
+    });
+
+    it('should do nothing once every event has a start', async () => {
+      // Arrange
+      mockFindResults();
+
+      // Act
+      const result = await migrateEventStartTimes('UTC');
+
+      // Assert
+      expect(Event.bulkWrite).not.toHaveBeenCalled();
+      expect(result).toEqual({ migrated: 0, skippedIds: [] });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { AnyBulkWriteOperation, Types } from 'mongoose';
+
+import type { IEvent } from '../models/Event.js';
+import { Event } from '../models/Event.js';
+import { toDateKey } from '../utils/recurrence.js';
+import { zonedTimeToInstant } from '../utils/timeZones.js';
+
+const BATCH_SIZE = 500;
+
+export interface EventStartTimesResult {
+  migrated: number;
+  // Events whose time could not be read; they keep their old fields until fixed by hand
+  skippedIds: string[];
+}
+
+// Stored fields as they are, without the defaults of the current schema
+interface LegacyEvent {
+  _id: Types.ObjectId;
+  date: Date;
+  time: string;
+  timeZone?: string;
+  endsAt?: Date | null;
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Read the free-form times events were created with before times had to be `HH:mm`,
+ * such as `18:00`, `18.00`, `6:30 PM` or `9am`. Returns null for anything else.
+ */
+export const parseLegacyTime = (value: string): string | null => {
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(?:([ap])\.?\s*m\.?)?$/i.exec(value.trim());
+  if (!match || (match[2] === undefined && match[3] === undefined)) {
+    return null;
+  }
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (match[3].toLowerCase() === 'p' ? 12 : 0);
+  }
+
+  return hour > 23 || minute > 59 ? null : `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Give events stored with only a `date` and a free-form `time` a time zone, an `HH:mm`
+ * time and the instant they start at. Their day is the UTC day of `date`, which is what
+ * `YYYY-MM-DD` input was stored as. Events that have a start already are left alone, so
+ * the migration can run more than once.
+ */
+export const migrateEventStartTimes = async (
+  defaultTimeZone: string,
+): Promise<EventStartTimesResult> => {
+  const result: EventStartTimesResult = { migrated: 0, skippedIds: [] };
+  let lastId: Types.ObjectId | null = null;
+
+  for (;;) {
+    // Deleted events are migrated too, as they can still be restored
+    const events: LegacyEvent[] = await Event.find({
+      startsAt: null,
+      ...(lastId ? { _id: { $gt: lastId } } : {}),
+    })
+      .setOptions({ withDeleted: true })
+      .sort({ _id: 1 })
+      .limit(BATCH_SIZE)
+      .lean<LegacyEvent[]>();
+
+    if (events.length === 0) {
+      return result;
+    }
+    lastId = events[events.length - 1]._id;
+
+    const operations: AnyBulkWriteOperation<IEvent>[] = [];
+    for (const event of events) {
+      const time = parseLegacyTime(event.time);
+      if (!time) {
+        result.skippedIds.push(event._id.toString());
+        continue;
+      }
+
+      const date = toDateKey(event.date);
+      const timeZone = event.timeZone ?? defaultTimeZone;
+      operations.push({
+        updateOne: {
+          filter: { _id: event._id },
+          update: {
+            $set: {
+              date: new Date(`${date}T00:00:00Z`),
+              time,
+              timeZone,
+              startsAt: zonedTimeToInstant(date, time, timeZone),
+              endsAt: event.endsAt ?? null,
+            },
+          },
+        },
+      });
+    }
+
+    if (operations.length > 0) {
+      await Event.bulkWrite(operations);
+      result.migrated += operations.length;
+    }
+  }
+};
@@ -0,0 +1,67 @@
+import type { Document } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+import type { IUser } from './User.js';
+
+// Every key can read; other scopes allow specific mutations
+export const API_KEY_SCOPES = ['read', 'events:write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Define the interface for an ApiKey document
+export interface IApiKey extends Document {
+  user: IUser['_id'];
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the ApiKey schema
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    scopes: {
+      type: [{ type: String, enum: API_KEY_SCOPES }],
+      default: ['read'],
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create and export the ApiKey model
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
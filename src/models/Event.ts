@@ -1,18 +1,73 @@
-import type { Document } from 'mongoose';
+import type { Document, Types } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
 
+import type { ISoftDeletable } from './softDelete.js';
+import { softDeletePlugin } from './softDelete.js';
 import type { IUser } from './User.js';
 
+// Published and postponed events read as completed once they are over, so that status
+// is never stored
+export const EVENT_STATUSES = ['draft', 'published', 'cancelled', 'postponed'] as const;
+
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+// Define the interface for the recurrence of an event series
+export interface IRecurrence {
+  // RFC 5545 RRULE, expanded from the event's date
+  rule: string;
+  // Days the rule generates that have no occurrence: cancelled occurrences and ones
+  // that were edited or attended and now live on as their own event
+  exceptions: Date[];
+}
+
+// Define the interface for a GeoJSON point, which lists longitude before latitude
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+// Define the interface for the postal address of an event's venue
+export interface IAddress {
+  street?: string | null;
+  city?: string | null;
+  region?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
 // Define the interface for an Event document
-export interface IEvent extends Document {
+export interface IEvent extends Document, ISoftDeletable {
   title: string;
   description: string;
+  // Wall-clock day (stored as midnight UTC) and `HH:mm` time in `timeZone`
   date: Date;
   time: string;
+  timeZone: string;
+  // The instants the event starts and ends at, for sorting and filtering across zones
+  startsAt: Date;
+  endsAt?: Date | null;
+  // Free-text location, which is all online events have
   location: string;
+  // Where the venue is, for finding events nearby or on a map
+  geoLocation?: IGeoPoint | null;
+  address?: IAddress | null;
   imageUrl?: string;
+  // Lowercase labels events can be searched by
+  tags: string[];
   creator: IUser['_id'];
   attendees: IUser['_id'][];
+  // Unlimited when not set
+  capacity?: number | null;
+  // Users waiting for a seat, in the order they asked for one
+  waitlist: IUser['_id'][];
+  // Set on the first event of a recurring series
+  recurrence?: IRecurrence | null;
+  // Set on single occurrences of a series that were stored as their own event
+  series?: Types.ObjectId | null;
+  occurrenceDate?: Date | null;
+  // Drafts are only visible to their creator
+  status: EventStatus;
+  cancellationReason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,16 +92,78 @@ const eventSchema = new Schema<IEvent>(
     time: {
       type: String,
       required: true,
+      match: /^([01]\d|2[0-3]):[0-5]\d$/,
+    },
+    timeZone: {
+      type: String,
+      required: true,
+      default: 'UTC',
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    endsAt: {
+      type: Date,
+      default: null,
     },
     location: {
       type: String,
       required: true,
       trim: true,
     },
+    geoLocation: {
+      type: new Schema<IGeoPoint>(
+        {
+          type: {
+            type: String,
+            enum: ['Point'],
+            required: true,
+          },
+          coordinates: {
+            type: [Number],
+            required: true,
+            validate: {
+              validator: (coordinates: number[]) =>
+                coordinates.length === 2 &&
+                Math.abs(coordinates[0]) <= 180 &&
+                Math.abs(coordinates[1]) <= 90,
+              message: 'Coordinates must be a longitude and latitude in degrees',
+            },
+          },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    address: {
+      type: new Schema<IAddress>(
+        {
+          street: { type: String, trim: true },
+          city: { type: String, trim: true },
+          region: { type: String, trim: true },
+          postalCode: { type: String, trim: true },
+          country: { type: String, trim: true },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
     imageUrl: {
       type: String,
       trim: true,
     },
+    tags: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          lowercase: true,
+        },
+      ],
+      index: true,
+    },
     creator: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -58,6 +175,54 @@ const eventSchema = new Schema<IEvent>(
         ref: 'User',
       },
     ],
+    capacity: {
+      type: Number,
+      min: 1,
+      validate: {
+        validator: Number.isInteger,
+        message: 'Capacity must be a whole number',
+      },
+    },
+    waitlist: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    recurrence: {
+      type: new Schema<IRecurrence>(
+        {
+          rule: {
+            type: String,
+            required: true,
+            trim: true,
+          },
+          exceptions: [Date],
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      default: null,
+    },
+    occurrenceDate: {
+      type: Date,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: EVENT_STATUSES,
+      default: 'published',
+      index: true,
+    },
+    cancellationReason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -70,5 +235,23 @@ const eventSchema = new Schema<IEvent>(
   },
 );
 
+// Each occurrence of a series is stored at most once
+eventSchema.index(
+  { series: 1, occurrenceDate: 1 },
+  { unique: true, partialFilterExpression: { series: { $type: 'objectId' } } },
+);
+
+// Events near a point or on a map. Events without a position are left out of the index.
+eventSchema.index({ geoLocation: '2dsphere' });
+
+// Full-text search, where matches in the title count most
+eventSchema.index(
+  { title: 'text', description: 'text', location: 'text' },
+  { name: 'event_text', weights: { title: 10, location: 3, description: 1 } },
+);
+
+// Deleted events can be restored until they are purged
+eventSchema.plugin(softDeletePlugin);
+
 // Create and export the Event model
 export const Event = mongoose.model<IEvent>('Event', eventSchema);
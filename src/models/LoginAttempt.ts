@@ -0,0 +1,44 @@
+import type { Document } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+// Define the interface for failed login attempts tracked per account or IP address
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  lockedUntil?: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the LoginAttempt schema
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Forget failed attempts once the tracking window has passed
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export the LoginAttempt model
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
@@ -0,0 +1,45 @@
+import type { Document } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+// Define the interface for an email stored by the local outbox mailer
+export interface IOutboxMessage extends Document {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the OutboxMessage schema
+const outboxMessageSchema = new Schema<IOutboxMessage>(
+  {
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    html: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Create and export the OutboxMessage model
+export const OutboxMessage = mongoose.model<IOutboxMessage>('OutboxMessage', outboxMessageSchema);
@@ -0,0 +1,57 @@
+import type { Document } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+import type { IUser } from './User.js';
+
+// Define the interface for a Session document
+export interface ISession extends Document {
+  user: IUser['_id'];
+  refreshTokenHash: string;
+  // The refresh token that was rotated last, to tell copies of it from other wrong tokens
+  previousRefreshTokenHash?: string | null;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the Session schema
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    previousRefreshTokenHash: {
+      type: String,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Let MongoDB drop sessions once they can no longer be refreshed
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export the Session model
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -1,11 +1,39 @@
 import type { Document } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
 
+import type { ISoftDeletable } from './softDelete.js';
+import { softDeletePlugin } from './softDelete.js';
+
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const FIELD_VISIBILITIES = ['public', 'private'] as const;
+
+export type FieldVisibility = (typeof FIELD_VISIBILITIES)[number];
+
+// Per-field visibility of personal data to other users
+export interface IPrivacySettings {
+  email: FieldVisibility;
+}
+
+// TOTP two-factor authentication; `enabled` is only set once the user confirmed a code
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string | null;
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number | null;
+}
+
 // Define the interface for a User document
-export interface IUser extends Document {
+export interface IUser extends Document, ISoftDeletable {
   name: string;
   email: string;
   password: string;
+  role: UserRole;
+  emailVerified: boolean;
+  privacy: IPrivacySettings;
+  twoFactor: ITwoFactor;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -31,6 +59,40 @@ const userSchema = new Schema<IUser>(
       required: true,
       minlength: 6,
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: 'user',
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    privacy: {
+      email: {
+        type: String,
+        enum: FIELD_VISIBILITIES,
+        default: 'private',
+      },
+    },
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      secret: {
+        type: String,
+        default: null,
+      },
+      recoveryCodeHashes: {
+        type: [String],
+        default: [],
+      },
+      lastUsedStep: {
+        type: Number,
+        default: null,
+      },
+    },
   },
   {
     timestamps: true,
@@ -43,5 +105,8 @@ const userSchema = new Schema<IUser>(
   },
 );
 
+// Deleted users can be restored until they are purged
+userSchema.plugin(softDeletePlugin);
+
 // Create and export the User model
 export const User = mongoose.model<IUser>('User', userSchema);
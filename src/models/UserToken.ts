@@ -0,0 +1,62 @@
+import type { Document } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
+
+import type { IUser } from './User.js';
+
+export const USER_TOKEN_PURPOSES = [
+  'password-reset',
+  'email-verification',
+  'two-factor-login',
+] as const;
+
+export type UserTokenPurpose = (typeof USER_TOKEN_PURPOSES)[number];
+
+// Define the interface for a single-use token sent to a user (e.g. a password reset link)
+export interface IUserToken extends Document {
+  user: IUser['_id'];
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the UserToken schema
+const userTokenSchema = new Schema<IUserToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    purpose: {
+      type: String,
+      enum: USER_TOKEN_PURPOSES,
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Let MongoDB drop tokens once they have expired
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export the UserToken model
+export const UserToken = mongoose.model<IUserToken>('UserToken', userTokenSchema);
@@ -44,6 +44,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     };
@@ -71,6 +72,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     });
@@ -79,6 +81,7 @@ describe('Event Model', () => {
       title: 'Test Event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     });
@@ -87,6 +90,7 @@ describe('Event Model', () => {
       title: 'Test Event',
       description: 'This is a test event',
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     });
@@ -104,6 +108,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       creator: testUser._id,
     });
 
@@ -112,6 +117,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
     });
 
@@ -124,6 +130,23 @@ describe('Event Model', () => {
     await expect(eventWithoutCreator.validate()).rejects.toThrow();
   });
 
+  it('should only accept times in HH:mm format', async () => {
+    // Arrange
+    const event = new Event({
+      title: 'Test Event',
+      description: 'This is a test event',
+      date: new Date('2023-01-01'),
+      time: '2pm',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
+      location: 'Test Location',
+      creator: testUser._id,
+    });
+
+    // Act & Assert
+    await expect(event.validate()).rejects.toThrow();
+    expect(event.timeZone).toBe('UTC');
+  });
+
   it('should trim whitespace from string fields', async () => {
     // Arrange
     const eventData = {
@@ -131,6 +154,7 @@ describe('Event Model', () => {
       description: '  This is a test event  ',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: '  Test Location  ',
       imageUrl: '  http://example.com/image.jpg  ',
       creator: testUser._id,
@@ -154,6 +178,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       imageUrl: 'http://example.com/image.jpg',
       creator: testUser._id,
@@ -164,6 +189,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     };
@@ -187,6 +213,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
       attendees: [],
@@ -220,6 +247,7 @@ describe('Event Model', () => {
       description: 'This is a test event',
       date: new Date('2023-01-01'),
       time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
       location: 'Test Location',
       creator: testUser._id,
     };
@@ -237,4 +265,65 @@ describe('Event Model', () => {
     expect((foundEvent!.creator as any).name).toBe(testUser.name);
     expect((foundEvent!.creator as any).email).toBe(testUser.email);
   });
+
+  it('should hide soft-deleted events unless asked for them', async () => {
+    // Arrange
+    const event = await new Event({
+      title: 'Deleted Event',
+      description: 'This event was deleted',
+      date: new Date('2023-01-01'),
+      time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
+      location: 'Test Location',
+      creator: testUser._id,
+      deletedAt: new Date(),
+    }).save();
+
+    // Act
+    const found = await Event.findById(event._id);
+    const count = await Event.countDocuments();
+    const updated = await Event.updateOne({ _id: event._id }, { title: 'Edited' });
+    const withDeleted = await Event.findById(event._id).setOptions({ withDeleted: true });
+    const byDeletedAt = await Event.findOne({ _id: event._id, deletedAt: { $ne: null } });
+
+    // Assert
+    expect(found).toBeNull();
+    expect(count).toBe(0);
+    expect(updated.matchedCount).toBe(0);
+    expect(withDeleted!.title).toBe('Deleted Event');
+    expect(byDeletedAt).not.toBeNull();
+  });
+
+  it('should rank text search matches, honoring phrases and exclusions', async () => {
+    // Arrange
+    await Event.init();
+    const eventData = {
+      date: new Date('2023-01-01'),
+      time: '14:00',
+      startsAt: new Date('2023-01-01T14:00:00Z'),
+      location: 'Riverside Park',
+      creator: testUser._id,
+    };
+    await Event.create([
+      { ...eventData, title: 'Open Air Festival', description: 'Jazz bands play all weekend' },
+      { ...eventData, title: 'Jazz Night', description: 'Live music by the river' },
+      { ...eventData, title: 'Jazz Brunch', description: 'Pancakes and live music' },
+    ]);
+    const textScore = { score: { $meta: 'textScore' as const } };
+    const search = async (query: string): Promise<string[]> =>
+      (await Event.find({ $text: { $search: query } }, textScore).sort(textScore)).map(
+        event => event.title,
+      );
+
+    // Act
+    const ranked = await search('jazz');
+    const phrase = await search('"live music" jazz');
+    const excluded = await search('jazz -pancakes');
+
+    // Assert
+    expect(ranked).toHaveLength(3);
+    expect(ranked[2]).toBe('Open Air Festival');
+    expect(phrase.sort()).toEqual(['Jazz Brunch', 'Jazz Night']);
+    expect(excluded.sort()).toEqual(['Jazz Night', 'Open Air Festival']);
+  });
 });
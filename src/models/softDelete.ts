@@ -0,0 +1,43 @@
+import type { MongooseQueryMiddleware, Query, Schema } from 'mongoose';
+
+// Queries that leave soft-deleted documents out unless they ask for them. Deletes are not
+// scoped, so that purging can remove soft-deleted documents for good.
+const SCOPED_QUERIES: MongooseQueryMiddleware[] = [
+  'countDocuments',
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'updateMany',
+  'updateOne',
+];
+
+// Fields added by the soft delete plugin
+export interface ISoftDeletable {
+  deletedAt: Date | null;
+}
+
+/**
+ * Give a schema a `deletedAt` field and hide documents that have one from queries.
+ * Queries see deleted documents when they filter on `deletedAt` themselves or are run
+ * with the `withDeleted` option.
+ */
+export const softDeletePlugin = (schema: Schema): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+  });
+
+  schema.pre(
+    SCOPED_QUERIES,
+    { document: false, query: true },
+    function (this: Query<unknown, unknown>) {
+      if (this.getOptions()['withDeleted'] || 'deletedAt' in this.getFilter()) {
+        return;
+      }
+      this.where({ deletedAt: null });
+    },
+  );
+};
@@ -0,0 +1,26 @@
+/* eslint-disable no-console */
+import mongoose from 'mongoose';
+
+import { config } from './config.js';
+import { purgeDeletedRecords } from './utils/softDelete.js';
+
+// Meant to run on a schedule, e.g. a daily cron job
+const purgeDatabase = async () => {
+  try {
+    await mongoose.connect(config.mongoose.url);
+    console.log('Connected to the database.');
+
+    const { events, users } = await purgeDeletedRecords(config.softDelete.retentionDays);
+    console.log(
+      `Purged ${events} events and ${users} users deleted over ${config.softDelete.retentionDays} days ago.`,
+    );
+
+    await mongoose.disconnect();
+    console.log('Disconnected from the database.');
+  } catch (error) {
+    console.error('Error purging the database:', error);
+    process.exit(1);
+  }
+};
+
+void purgeDatabase();
@@ -24,6 +24,7 @@ const seedDatabase = async () => {
       name: 'Test User',
       email: 'test@example.com',
       password: hashedPassword,
+      emailVerified: true,
     });
     const savedUser = await user.save();
     console.log('Created test user:', savedUser);
@@ -35,6 +36,8 @@ const seedDatabase = async () => {
         description: 'A meetup for GraphQL enthusiasts.',
         date: new Date('2025-12-25'),
         time: '18:00',
+        timeZone: 'UTC',
+        startsAt: new Date('2025-12-25T18:00:00Z'),
         location: 'Online',
         creator: savedUser._id,
       },
@@ -43,6 +46,8 @@ const seedDatabase = async () => {
         description: 'A conference for React developers.',
         date: new Date('2026-01-15'),
         time: '09:00',
+        timeZone: 'America/Los_Angeles',
+        startsAt: new Date('2026-01-15T17:00:00Z'),
         location: 'San Francisco',
         creator: savedUser._id,
       },
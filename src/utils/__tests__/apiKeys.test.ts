@@ -0,0 +1,138 @@
+import { Types } from 'mongoose';
+
+import { ApiKey } from '../../models/ApiKey.js';
+import { User } from '../../models/User.js';
+import { createApiKey, getUserFromApiKey, revokeAllApiKeys } from '../apiKeys.js';
+import { hashToken } from '../tokens.js';
+
+jest.mock('../../models/ApiKey', () => ({
+  ApiKey: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/User', () => ({
+  User: {
+    findById: jest.fn(),
+  },
+}));
+
+describe('API keys', () => {
+  const userId = new Types.ObjectId();
+  const apiKeyId = new Types.ObjectId();
+  const user = { _id: userId, email: 'test@example.com', role: 'user' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createApiKey', () => {
+    it('should store a hash and prefix of the key and return the plain key once', async () => {
+      // Arrange
+      (ApiKey.create as jest.Mock).mockImplementation(data => Promise.resolve(data));
+
+      // Act
+      const { apiKey, key } = await createApiKey(userId.toString(), 'CI', ['events:write']);
+
+      // Assert
+      expect(key).toMatch(/^efk_/);
+      expect(ApiKey.create).toHaveBeenCalledWith({
+        user: userId.toString(),
+        name: 'CI',
+        prefix: key.slice(0, 10),
+        keyHash: hashToken(key),
+        scopes: ['read', 'events:write'],
+      });
+      expect(apiKey).not.toHaveProperty('key');
+    });
+  });
+
+  describe('getUserFromApiKey', () => {
+    it('should ignore keys without the expected prefix', async () => {
+      // Act
+      const result = await getUserFromApiKey('not-an-api-key');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(ApiKey.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should return null for unknown or revoked keys', async () => {
+      // Arrange
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await getUserFromApiKey('efk_unknown');
+
+      // Assert
+      expect(ApiKey.findOne).toHaveBeenCalledWith({
+        keyHash: hashToken('efk_unknown'),
+        revokedAt: null,
+      });
+      expect(result).toBeNull();
+    });
+
+    it('should resolve the owner and record when the key was used', async () => {
+      // Arrange
+      (ApiKey.findOne as jest.Mock).mockResolvedValue({
+        _id: apiKeyId,
+        user: userId,
+        scopes: ['read'],
+        lastUsedAt: null,
+      });
+      (User.findById as jest.Mock).mockResolvedValue(user);
+
+      // Act
+      const result = await getUserFromApiKey('efk_valid');
+
+      // Assert
+      expect(ApiKey.updateOne).toHaveBeenCalledWith(
+        { _id: apiKeyId },
+        { lastUsedAt: expect.any(Date) },
+      );
+      expect(result).toEqual({
+        id: userId.toString(),
+        email: 'test@example.com',
+        role: 'user',
+        apiKey: { id: apiKeyId.toString(), scopes: ['read'] },
+      });
+    });
+
+    it('should not record usage again within a minute', async () => {
+      // Arrange
+      (ApiKey.findOne as jest.Mock).mockResolvedValue({
+        _id: apiKeyId,
+        user: userId,
+        scopes: ['read'],
+        lastUsedAt: new Date(Date.now() - 1000),
+      });
+      (User.findById as jest.Mock).mockResolvedValue(user);
+
+      // Act
+      await getUserFromApiKey('efk_valid');
+
+      // Assert
+      expect(ApiKey.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllApiKeys', () => {
+    it('should revoke every active key of the user', async () => {
+      // Arrange
+      (ApiKey.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 3 });
+
+      // Act
+      const result = await revokeAllApiKeys(userId.toString());
+
+      // Assert
+      expect(ApiKey.updateMany).toHaveBeenCalledWith(
+        { user: userId.toString(), revokedAt: null },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(result).toBe(3);
+    });
+  });
+});
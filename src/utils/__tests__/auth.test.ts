@@ -1,12 +1,17 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 
+import { Session } from '../../models/Session.js';
+import { getUserFromApiKey } from '../apiKeys.js';
 import {
   generateToken,
   verifyPassword,
   hashPassword,
   getUserFromToken,
+  getUserFromRequest,
+  hasRole,
   requireAuth,
+  requireRole,
 } from '../auth.js';
 
 // Mock bcrypt and jwt
@@ -16,10 +21,21 @@ jest.mock('bcryptjs', () => ({
 }));
 
 jest.mock('jsonwebtoken', () => ({
+  decode: jest.fn(),
   sign: jest.fn(),
   verify: jest.fn(),
 }));
 
+jest.mock('../../models/Session', () => ({
+  Session: {
+    exists: jest.fn(),
+  },
+}));
+
+jest.mock('../apiKeys', () => ({
+  getUserFromApiKey: jest.fn(),
+}));
+
 describe('Auth Utilities', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -28,7 +44,12 @@ describe('Auth Utilities', () => {
   describe('generateToken', () => {
     it('should call jwt.sign with correct parameters', () => {
       // Arrange
-      const user = { id: '123', email: 'test@example.com' };
+      const user = {
+        id: '123',
+        email: 'test@example.com',
+        role: 'user' as const,
+        sessionId: 'session-1',
+      };
       const mockToken = 'mock-token';
       (jwt.sign as jest.Mock).mockReturnValue(mockToken);
 
@@ -37,9 +58,9 @@ describe('Auth Utilities', () => {
 
       // Assert
       expect(jwt.sign).toHaveBeenCalledWith(
-        { id: user.id, email: user.email },
-        expect.any(String),
-        { expiresIn: '1d' },
+        { id: user.id, email: user.email, role: user.role, sessionId: user.sessionId },
+        expect.objectContaining({ type: 'secret' }),
+        { algorithm: 'HS256', keyid: 'default', expiresIn: 86400 },
       );
       expect(result).toBe(mockToken);
     });
@@ -78,30 +99,92 @@ describe('Auth Utilities', () => {
   });
 
   describe('getUserFromToken', () => {
-    it('should return null if token is empty', () => {
+    it('should return null if token is empty', async () => {
       // Act
-      const result = getUserFromToken('');
+      const result = await getUserFromToken('');
 
       // Assert
       expect(result).toBeNull();
       expect(jwt.verify).not.toHaveBeenCalled();
     });
 
-    it('should remove Bearer prefix if present', () => {
+    it('should remove Bearer prefix if present', async () => {
       // Arrange
       const token = 'Bearer token123';
-      const decodedToken = { id: '123', email: 'test@example.com' };
+      const decodedToken = { id: '123', email: 'test@example.com', sessionId: 'session-1' };
       (jwt.verify as jest.Mock).mockReturnValue(decodedToken);
+      (Session.exists as jest.Mock).mockResolvedValue({ _id: 'session-1' });
 
       // Act
-      const result = getUserFromToken(token);
+      const result = await getUserFromToken(token);
 
       // Assert
-      expect(jwt.verify).toHaveBeenCalledWith('token123', expect.any(String));
+      expect(jwt.verify).toHaveBeenCalledWith(
+        'token123',
+        expect.objectContaining({ type: 'secret' }),
+        { algorithms: ['HS256'] },
+      );
+      expect(Session.exists).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: 'session-1', revokedAt: null }),
+      );
       expect(result).toEqual(decodedToken);
     });
 
-    it('should return null if verification fails', () => {
+    it('should return null if the session has been revoked', async () => {
+      // Arrange
+      (jwt.verify as jest.Mock).mockReturnValue({
+        id: '123',
+        email: 'test@example.com',
+        sessionId: 'session-1',
+      });
+      (Session.exists as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await getUserFromToken('token123');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should return null if the token is not bound to a session', async () => {
+      // Arrange
+      (jwt.verify as jest.Mock).mockReturnValue({ id: '123', email: 'test@example.com' });
+
+      // Act
+      const result = await getUserFromToken('token123');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(Session.exists).not.toHaveBeenCalled();
+    });
+
+    it('should verify the token with the key named in its header', async () => {
+      // Arrange
+      (jwt.decode as jest.Mock).mockReturnValueOnce({ header: { kid: 'default', alg: 'HS256' } });
+      (jwt.verify as jest.Mock).mockReturnValue({ id: '123', sessionId: 'session-1' });
+      (Session.exists as jest.Mock).mockResolvedValue({ _id: 'session-1' });
+
+      // Act
+      const result = await getUserFromToken('token123');
+
+      // Assert
+      expect(jwt.decode).toHaveBeenCalledWith('token123', { complete: true });
+      expect(result).toEqual({ id: '123', sessionId: 'session-1' });
+    });
+
+    it('should return null if the key ID is unknown', async () => {
+      // Arrange
+      (jwt.decode as jest.Mock).mockReturnValueOnce({ header: { kid: 'unknown', alg: 'HS256' } });
+
+      // Act
+      const result = await getUserFromToken('token123');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(jwt.verify).not.toHaveBeenCalled();
+    });
+
+    it('should return null if verification fails', async () => {
       // Arrange
       const token = 'token123';
       (jwt.verify as jest.Mock).mockImplementation(() => {
@@ -109,13 +192,61 @@ describe('Auth Utilities', () => {
       });
 
       // Act
-      const result = getUserFromToken(token);
+      const result = await getUserFromToken(token);
 
       // Assert
       expect(result).toBeNull();
     });
   });
 
+  describe('getUserFromRequest', () => {
+    const apiKeyUser = {
+      id: '123',
+      email: 'test@example.com',
+      role: 'user' as const,
+      apiKey: { id: 'key-1', scopes: ['read' as const] },
+    };
+
+    it('should prefer the X-API-Key header', async () => {
+      // Arrange
+      (getUserFromApiKey as jest.Mock).mockResolvedValue(apiKeyUser);
+
+      // Act
+      const result = await getUserFromRequest('Bearer valid-token', 'efk_key');
+
+      // Assert
+      expect(getUserFromApiKey).toHaveBeenCalledWith('efk_key');
+      expect(jwt.verify).not.toHaveBeenCalled();
+      expect(result).toEqual(apiKeyUser);
+    });
+
+    it('should accept API keys in the authorization header', async () => {
+      // Arrange
+      (getUserFromApiKey as jest.Mock).mockResolvedValue(apiKeyUser);
+
+      // Act
+      const result = await getUserFromRequest('ApiKey efk_key');
+
+      // Assert
+      expect(getUserFromApiKey).toHaveBeenCalledWith('efk_key');
+      expect(result).toEqual(apiKeyUser);
+    });
+
+    it('should fall back to the access token', async () => {
+      // Arrange
+      const payload = { id: '123', email: 'test@example.com', role: 'user', sessionId: 's-1' };
+      (jwt.verify as jest.Mock).mockReturnValue(payload);
+      (Session.exists as jest.Mock).mockResolvedValue({ _id: 's-1' });
+
+      // Act
+      const result = await getUserFromRequest('Bearer valid-token');
+
+      // Assert
+      expect(getUserFromApiKey).not.toHaveBeenCalled();
+      expect(result).toEqual(payload);
+    });
+  });
+
   describe('requireAuth', () => {
     it('should throw error if user is not authenticated', () => {
       // Arrange
@@ -137,7 +268,14 @@ describe('Auth Utilities', () => {
       const wrappedResolver = requireAuth(resolver);
       const parent = {};
       const args = {};
-      const context = { user: { id: '123', email: 'test@example.com' } };
+      const context = {
+        user: {
+          id: '123',
+          email: 'test@example.com',
+          role: 'user' as const,
+          sessionId: 'session-1',
+        },
+      };
       const info = {};
 
       // Act
@@ -148,4 +286,57 @@ describe('Auth Utilities', () => {
       expect(result).toBe('result');
     });
   });
+
+  describe('hasRole', () => {
+    it('should let higher roles inherit lower role privileges', () => {
+      expect(hasRole({ role: 'admin' }, 'moderator')).toBe(true);
+      expect(hasRole({ role: 'moderator' }, 'moderator')).toBe(true);
+      expect(hasRole({ role: 'user' }, 'moderator')).toBe(false);
+      expect(hasRole(null, 'user')).toBe(false);
+    });
+  });
+
+  describe('requireRole', () => {
+    const createContext = (role: 'user' | 'moderator' | 'admin') => ({
+      user: { id: '123', email: 'test@example.com', role, sessionId: 'session-1' },
+    });
+
+    it('should throw error if user is not authenticated', () => {
+      // Arrange
+      const resolver = jest.fn();
+      const wrappedResolver = requireRole('admin')(resolver);
+
+      // Act & Assert
+      expect(() => wrappedResolver({}, {}, { user: undefined }, {})).toThrow(
+        'Authentication required',
+      );
+      expect(resolver).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if user lacks the required role', () => {
+      // Arrange
+      const resolver = jest.fn();
+      const wrappedResolver = requireRole('admin')(resolver);
+
+      // Act & Assert
+      expect(() => wrappedResolver({}, {}, createContext('moderator'), {})).toThrow(
+        'Not authorized to perform this action',
+      );
+      expect(resolver).not.toHaveBeenCalled();
+    });
+
+    it('should call resolver if user has the required role', () => {
+      // Arrange
+      const resolver = jest.fn().mockReturnValue('result');
+      const wrappedResolver = requireRole('moderator')(resolver);
+      const context = createContext('admin');
+
+      // Act
+      const result = wrappedResolver({}, {}, context, {});
+
+      // Assert
+      expect(resolver).toHaveBeenCalledWith({}, {}, context, {});
+      expect(result).toBe('result');
+    });
+  });
 });
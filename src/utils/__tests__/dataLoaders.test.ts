@@ -1,4 +1,5 @@
-import { Types } from 'mongoose';
+import type { PipelineStage } from 'mongoose';
+import { trusted, Types } from 'mongoose';
 
 import { Event } from '../../models/Event.js';
 import { User } from '../../models/User.js';
@@ -14,6 +15,8 @@ jest.mock('../../models/User', () => ({
 jest.mock('../../models/Event', () => ({
   Event: {
     find: jest.fn(),
+    aggregate: jest.fn(),
+    hydrate: jest.fn(doc => doc),
   },
 }));
 
@@ -43,13 +46,13 @@ describe('DataLoaders', () => {
       // Assert
       expect(User.find).toHaveBeenCalledTimes(1);
       expect(User.find).toHaveBeenCalledWith({
-        _id: {
+        _id: trusted({
           $in: expect.arrayContaining([
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
           ]),
-        },
+        }),
       });
 
       expect(results[0]).toEqual(mockUsers[0]);
@@ -58,6 +61,28 @@ describe('DataLoaders', () => {
     });
   });
 
+  describe('userExistsLoader', () => {
+    it('should batch checks that users still have an account', async () => {
+      // Arrange
+      const lean = jest
+        .fn()
+        .mockResolvedValue([{ _id: new Types.ObjectId('61c0ccf11d7bf83d153d7c06') }]);
+      (User.find as jest.Mock).mockReturnValue({ select: jest.fn().mockReturnValue({ lean }) });
+
+      const loaders = createLoaders();
+
+      // Act
+      const results = await Promise.all([
+        loaders.userExistsLoader.load('61c0ccf11d7bf83d153d7c06'),
+        loaders.userExistsLoader.load('61c0ccf11d7bf83d153d7c07'),
+      ]);
+
+      // Assert
+      expect(User.find).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([true, false]);
+    });
+  });
+
   describe('eventLoader', () => {
     it('should batch and load events by ID', async () => {
       // Arrange
@@ -79,13 +104,13 @@ describe('DataLoaders', () => {
       // Assert
       expect(Event.find).toHaveBeenCalledTimes(1);
       expect(Event.find).toHaveBeenCalledWith({
-        _id: {
+        _id: trusted({
           $in: expect.arrayContaining([
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
           ]),
-        },
+        }),
       });
 
       expect(results[0]).toEqual(mockEvents[0]);
@@ -112,26 +137,121 @@ describe('DataLoaders', () => {
 
       // Act
       const results = await Promise.all([
-        loaders.userEventsLoader.load(userId1),
-        loaders.userEventsLoader.load(userId2),
-        loaders.userEventsLoader.load('61c0ccf11d7bf83d153d7c08'), // No events
+        loaders.userEventsLoader.load({ id: userId1 }),
+        loaders.userEventsLoader.load({ id: userId2 }),
+        loaders.userEventsLoader.load({ id: '61c0ccf11d7bf83d153d7c08' }), // No events
       ]);
 
       // Assert
       expect(Event.find).toHaveBeenCalledTimes(1);
       expect(Event.find).toHaveBeenCalledWith({
-        creator: {
+        creator: trusted({
           $in: expect.arrayContaining([
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
           ]),
+        }),
+      });
+
+      expect(results[0]?.items).toHaveLength(2);
+      expect(results[1]?.items).toHaveLength(1);
+      expect(results[2]).toEqual({ items: [], totalCount: 0 });
+    });
+
+    it('should run one query for each set of arguments the users are asked with', async () => {
+      // Arrange
+      const userId1 = '61c0ccf11d7bf83d153d7c06';
+      const userId2 = '61c0ccf11d7bf83d153d7c07';
+      const args = { filter: { tags: ['jazz'] } };
+      const tagged = { tags: 'jazz' };
+      (Event.find as jest.Mock).mockResolvedValue([
+        { _id: new Types.ObjectId(), creator: new Types.ObjectId(userId1) },
+      ]);
+
+      const loaders = createLoaders();
+
+      // Act
+      const [all, jazz, otherJazz] = await Promise.all([
+        loaders.userEventsLoader.load({ id: userId1 }),
+        loaders.userEventsLoader.load({ id: userId1, args, filter: tagged }),
+        loaders.userEventsLoader.load({ id: userId2, args: { ...args }, filter: { ...tagged } }),
+      ]);
+
+      // Assert
+      expect(Event.find).toHaveBeenCalledTimes(2);
+      expect(Event.find).toHaveBeenCalledWith({
+        ...tagged,
+        creator: trusted({ $in: [new Types.ObjectId(userId1), new Types.ObjectId(userId2)] }),
+      });
+      expect(all?.items).toHaveLength(1);
+      expect(jazz?.items).toHaveLength(1);
+      expect(otherJazz?.items).toHaveLength(0);
+    });
+
+    it('should cache lists by their arguments rather than their filter', async () => {
+      // Arrange
+      const userId = '61c0ccf11d7bf83d153d7c06';
+      const args = { filter: { status: ['published'] } };
+      (Event.find as jest.Mock).mockResolvedValue([]);
+
+      const loaders = createLoaders();
+
+      // Act
+      await loaders.userEventsLoader.load({ id: userId, args, filter: { at: new Date(1) } });
+      await loaders.userEventsLoader.load({ id: userId, args, filter: { at: new Date(2) } });
+
+      // Assert
+      expect(Event.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load one page of each list with a single aggregation', async () => {
+      // Arrange
+      const userId1 = '61c0ccf11d7bf83d153d7c06';
+      const userId2 = '61c0ccf11d7bf83d153d7c07';
+      const [second, third] = [2, 3].map(day => ({
+        _id: new Types.ObjectId(),
+        creator: new Types.ObjectId(userId1),
+        startsAt: new Date(Date.UTC(2030, 0, day)),
+        _listedUnder: new Types.ObjectId(userId1),
+      }));
+      (Event.find as jest.Mock).mockReturnValue({
+        cast: (_model: unknown, filter: Record<string, unknown>) => filter,
+      });
+      (Event.aggregate as jest.Mock).mockResolvedValue([
+        {
+          pages: [{ _id: new Types.ObjectId(userId1), events: [second, third] }],
+          counts: [{ _id: new Types.ObjectId(userId1), count: 7 }],
+        },
+      ]);
+      const page = { seek: [], sort: { startsAt: 1 as const, _id: 1 as const }, skip: 1, limit: 3 };
+      const args = { pagination: { page: 2, limit: 2 } };
+
+      const loaders = createLoaders();
+
+      // Act
+      const [list, emptyList] = await Promise.all([
+        loaders.userEventsLoader.load({ id: userId1, args, filter: { tags: 'jazz' }, page }),
+        loaders.userEventsLoader.load({ id: userId2, args, filter: { tags: 'jazz' }, page }),
+      ]);
+
+      // Assert
+      expect(Event.aggregate).toHaveBeenCalledTimes(1);
+      const [pipeline] = (Event.aggregate as jest.Mock).mock.calls[0] as [PipelineStage[]];
+      expect(pipeline[0]).toEqual({
+        $match: {
+          tags: 'jazz',
+          deletedAt: null,
+          creator: trusted({ $in: [new Types.ObjectId(userId1), new Types.ObjectId(userId2)] }),
         },
       });
+      expect(JSON.stringify(pipeline)).toContain('"$firstN":{"input":"$$ROOT","n":4}');
+      expect(JSON.stringify(pipeline)).toContain('"$slice":["$events",1,3]');
 
-      expect(results[0]).toHaveLength(2);
-      expect(results[1]).toHaveLength(1);
-      expect(results[2]).toHaveLength(0);
+      const { _listedUnder, ...secondEvent } = second!;
+      expect(list?.items).toEqual([secondEvent, expect.objectContaining({ _id: third!._id })]);
+      expect(list?.totalCount).toBe(7);
+      expect(emptyList).toEqual({ items: [], totalCount: 0 });
     });
   });
 
@@ -160,26 +280,26 @@ describe('DataLoaders', () => {
 
       // Act
       const results = await Promise.all([
-        loaders.userAttendingEventsLoader.load(userId1),
-        loaders.userAttendingEventsLoader.load(userId2),
-        loaders.userAttendingEventsLoader.load('61c0ccf11d7bf83d153d7c08'), // No events
+        loaders.userAttendingEventsLoader.load({ id: userId1 }),
+        loaders.userAttendingEventsLoader.load({ id: userId2 }),
+        loaders.userAttendingEventsLoader.load({ id: '61c0ccf11d7bf83d153d7c08' }), // No events
       ]);
 
       // Assert
       expect(Event.find).toHaveBeenCalledTimes(1);
       expect(Event.find).toHaveBeenCalledWith({
-        attendees: {
+        attendees: trusted({
           $in: expect.arrayContaining([
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
             expect.any(Types.ObjectId),
           ]),
-        },
+        }),
       });
 
-      expect(results[0]).toHaveLength(2);
-      expect(results[1]).toHaveLength(1);
-      expect(results[2]).toHaveLength(0);
+      expect(results[0]?.items).toHaveLength(2);
+      expect(results[1]?.items).toHaveLength(1);
+      expect(results[2]).toEqual({ items: [], totalCount: 0 });
     });
   });
 });
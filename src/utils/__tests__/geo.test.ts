@@ -0,0 +1,73 @@
+import {
+  isValidLatitude,
+  isValidLongitude,
+  toBoundingBoxes,
+  toGeoPoint,
+  toLatLng,
+} from '../geo.js';
+
+const longitudeSpans = (bounds: Parameters<typeof toBoundingBoxes>[0]): number[][] =>
+  toBoundingBoxes(bounds).map(({ coordinates: [ring] }) => [ring[0][0], ring[1][0]]);
+
+describe('Geo', () => {
+  it('should store positions as GeoJSON points, longitude first', () => {
+    // Act
+    const point = toGeoPoint({ lat: 52.52, lng: 13.405 });
+
+    // Assert
+    expect(point).toEqual({ type: 'Point', coordinates: [13.405, 52.52] });
+    expect(toLatLng(point)).toEqual({ lat: 52.52, lng: 13.405 });
+  });
+
+  it.each([
+    [90, true],
+    [-90.5, false],
+    [Number.NaN, false],
+  ])('should check latitude %p', (lat, valid) => {
+    expect(isValidLatitude(lat)).toBe(valid);
+  });
+
+  it.each([
+    [-180, true],
+    [180.1, false],
+    [Number.POSITIVE_INFINITY, false],
+  ])('should check longitude %p', (lng, valid) => {
+    expect(isValidLongitude(lng)).toBe(valid);
+  });
+
+  describe('toBoundingBoxes', () => {
+    it('should cover bounds with a closed polygon', () => {
+      // Act
+      const [box] = toBoundingBoxes({ south: 52.4, west: 13.2, north: 52.6, east: 13.6 });
+
+      // Assert
+      expect(box).toEqual({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [13.2, 52.4],
+            [13.6, 52.4],
+            [13.6, 52.6],
+            [13.2, 52.6],
+            [13.2, 52.4],
+          ],
+        ],
+      });
+    });
+
+    it('should split bounds crossing the antimeridian', () => {
+      expect(longitudeSpans({ south: -20, west: 170, north: -10, east: -170 })).toEqual([
+        [170, 180],
+        [-180, -170],
+      ]);
+    });
+
+    it('should split bounds too wide for one polygon', () => {
+      expect(longitudeSpans({ south: -10, west: -120, north: 10, east: 100 })).toEqual([
+        [-120, -30],
+        [-30, 60],
+        [60, 100],
+      ]);
+    });
+  });
+});
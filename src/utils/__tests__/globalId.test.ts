@@ -0,0 +1,35 @@
+import { Types } from 'mongoose';
+
+import { fromGlobalId, toGlobalId } from '../globalId.js';
+
+const objectId = new Types.ObjectId().toString();
+
+describe('Global IDs', () => {
+  it('should round-trip the type and ObjectId', () => {
+    // Act
+    const globalId = toGlobalId('Event', objectId);
+
+    // Assert
+    expect(globalId).not.toContain(objectId);
+    expect(fromGlobalId(globalId)).toEqual({ type: 'Event', id: objectId });
+  });
+
+  it('should give the same ObjectId a different ID for each type', () => {
+    expect(toGlobalId('User', objectId)).not.toBe(toGlobalId('Event', objectId));
+  });
+
+  it('should accept raw ObjectIds without a type', () => {
+    expect(fromGlobalId(objectId)).toEqual({ type: null, id: objectId });
+  });
+
+  it.each([
+    ['an unknown type', Buffer.from(`Venue:${objectId}`).toString('base64url')],
+    ['an ID that is not an ObjectId', Buffer.from('User:42').toString('base64url')],
+    ['extra parts', Buffer.from(`User:${objectId}:1`).toString('base64url')],
+    ['padding', `${toGlobalId('User', objectId)}==`],
+    ['plain text', 'nonexistent-id'],
+    ['an empty string', ''],
+  ])('should reject %s', (_case, globalId) => {
+    expect(fromGlobalId(globalId)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { createPublicKey, generateKeyPairSync } from 'crypto';
+
+import jwt from 'jsonwebtoken';
+
+import { JwtKeyRing, loadJwtKey } from '../jwtKeys.js';
+
+describe('JWT keys', () => {
+  const pem = { type: 'pkcs8', format: 'pem' } as const;
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048, privateKeyEncoding: pem });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'prime256v1', privateKeyEncoding: pem });
+  const wrongCurve = generateKeyPairSync('ec', {
+    namedCurve: 'secp384r1',
+    privateKeyEncoding: pem,
+  });
+
+  const options = { gracePeriodSeconds: 900 };
+
+  describe('loadJwtKey', () => {
+    it('should derive the public key from the private key', () => {
+      // Act
+      const key = loadJwtKey({ kid: 'rsa-1', alg: 'RS256', privateKey: rsa.privateKey });
+
+      // Assert
+      expect(key.signingKey?.type).toBe('private');
+      expect(key.verificationKey.type).toBe('public');
+    });
+
+    it('should load verify-only keys from a public key', () => {
+      // Act
+      const key = loadJwtKey({
+        kid: 'ec-1',
+        alg: 'ES256',
+        publicKey: ec.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      });
+
+      // Assert
+      expect(key.signingKey).toBeUndefined();
+      expect(key.verificationKey.asymmetricKeyType).toBe('ec');
+    });
+
+    it('should reject keys that do not fit the algorithm', () => {
+      // Act & Assert
+      expect(() =>
+        loadJwtKey({ kid: 'ec-1', alg: 'ES256', privateKey: wrongCurve.privateKey }),
+      ).toThrow('JWT key "ec-1" is not a valid ES256 key');
+      expect(() => loadJwtKey({ kid: 'rsa-1', alg: 'RS256', privateKey: ec.privateKey })).toThrow(
+        'JWT key "rsa-1" is not a valid RS256 key',
+      );
+    });
+  });
+
+  describe('JwtKeyRing', () => {
+    const rsaKey = loadJwtKey({ kid: 'rsa-1', alg: 'RS256', privateKey: rsa.privateKey });
+    const ecKey = loadJwtKey({ kid: 'ec-1', alg: 'ES256', privateKey: ec.privateKey });
+    const hsKey = loadJwtKey({ kid: 'default', alg: 'HS256', secret: 'secret' });
+
+    it('should sign with the first active key unless a key ID is configured', () => {
+      // Act
+      const byOrder = new JwtKeyRing([rsaKey, ecKey], options);
+      const byId = new JwtKeyRing([rsaKey, ecKey], { ...options, signingKeyId: 'ec-1' });
+
+      // Assert
+      expect(byOrder.signingKey.kid).toBe('rsa-1');
+      expect(byId.signingKey.kid).toBe('ec-1');
+    });
+
+    it('should not sign with retired keys', () => {
+      // Arrange
+      const retired = { ...rsaKey, retiredAt: new Date() };
+
+      // Act
+      const ring = new JwtKeyRing([retired, ecKey], options);
+
+      // Assert
+      expect(ring.signingKey.kid).toBe('ec-1');
+      expect(() => new JwtKeyRing([retired], { ...options, signingKeyId: 'rsa-1' })).toThrow(
+        'JWT signing key "rsa-1" is missing, retired or has no private key',
+      );
+    });
+
+    it('should reject duplicate key IDs', () => {
+      // Act & Assert
+      expect(() => new JwtKeyRing([rsaKey, rsaKey], options)).toThrow('JWT key IDs must be unique');
+    });
+
+    it('should verify with retired keys only during the grace period', () => {
+      // Arrange
+      const retiredAt = new Date('2030-01-01T00:00:00Z');
+      const ring = new JwtKeyRing([ecKey, { ...rsaKey, retiredAt }], options);
+
+      // Act
+      const duringGrace = ring.getVerificationKey('rsa-1', new Date('2030-01-01T00:10:00Z'));
+      const afterGrace = ring.getVerificationKey('rsa-1', new Date('2030-01-01T00:20:00Z'));
+
+      // Assert
+      expect(duringGrace?.kid).toBe('rsa-1');
+      expect(afterGrace).toBeNull();
+    });
+
+    it('should use the default key for tokens without a key ID', () => {
+      // Arrange
+      const ring = new JwtKeyRing([ecKey, hsKey], options);
+
+      // Act & Assert
+      expect(ring.getVerificationKey(undefined)?.kid).toBe('default');
+      expect(new JwtKeyRing([ecKey], options).getVerificationKey(undefined)).toBeNull();
+    });
+
+    it('should publish keys that verify its tokens', () => {
+      // Arrange
+      const ring = new JwtKeyRing([ecKey], options);
+      const { kid, alg, signingKey } = ring.signingKey;
+      const token = jwt.sign({ id: '123' }, signingKey, { algorithm: alg, keyid: kid });
+
+      // Act
+      const [jwk] = ring.toJwks().keys;
+      const publicKey = createPublicKey({ key: jwk!, format: 'jwk' });
+      const payload = jwt.verify(token, publicKey, { algorithms: ['ES256'] });
+
+      // Assert
+      expect(jwt.decode(token, { complete: true })?.header.kid).toBe('ec-1');
+      expect(payload).toMatchObject({ id: '123' });
+    });
+
+    it('should only publish asymmetric keys that still verify', () => {
+      // Arrange
+      const ring = new JwtKeyRing(
+        [ecKey, { ...rsaKey, retiredAt: new Date('2000-01-01T00:00:00Z') }, hsKey],
+        options,
+      );
+
+      // Act
+      const { keys } = ring.toJwks();
+
+      // Assert
+      expect(keys).toEqual([
+        expect.objectContaining({ kid: 'ec-1', alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' }),
+      ]);
+      expect(keys[0]).not.toHaveProperty('d');
+    });
+  });
+});
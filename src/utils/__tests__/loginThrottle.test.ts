@@ -0,0 +1,137 @@
+import { GraphQLError } from 'graphql';
+import mongoose from 'mongoose';
+
+import { LoginAttempt } from '../../models/LoginAttempt.js';
+import {
+  LoginThrottle,
+  MemoryLoginAttemptStore,
+  MongoLoginAttemptStore,
+} from '../loginThrottle.js';
+
+jest.mock('../../models/LoginAttempt');
+
+describe('LoginThrottle', () => {
+  const options = {
+    maxFailuresPerAccount: 3,
+    maxFailuresPerIp: 5,
+    lockoutSeconds: 30,
+    maxLockoutSeconds: 100,
+  };
+  let throttle: LoginThrottle;
+
+  const failTimes = async (times: number, email: string, ip?: string): Promise<void> => {
+    for (let i = 0; i < times; i++) {
+      await throttle.recordFailure(email, ip);
+    }
+  };
+
+  const lockoutOf = async (email: string, ip?: string): Promise<unknown> => {
+    try {
+      await throttle.assertCanAttempt(email, ip);
+      return null;
+    } catch (err) {
+      return (err as GraphQLError).extensions;
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    throttle = new LoginThrottle(new MemoryLoginAttemptStore(), options);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow attempts below the failure limit', async () => {
+    // Act
+    await failTimes(2, 'user@example.com');
+
+    // Assert
+    expect(await lockoutOf('user@example.com')).toBeNull();
+  });
+
+  it('should lock the account once the failure limit is reached', async () => {
+    // Act
+    await failTimes(3, 'user@example.com');
+
+    // Assert
+    expect(await lockoutOf('USER@example.com ')).toEqual({
+      code: 'TOO_MANY_REQUESTS',
+      retryAfter: 30,
+    });
+    expect(await lockoutOf('other@example.com')).toBeNull();
+  });
+
+  it('should double the lockout for every further failure up to the maximum', async () => {
+    // Act & Assert
+    await failTimes(4, 'user@example.com');
+    expect(await lockoutOf('user@example.com')).toMatchObject({ retryAfter: 60 });
+
+    await failTimes(1, 'user@example.com');
+    expect(await lockoutOf('user@example.com')).toMatchObject({ retryAfter: 100 });
+  });
+
+  it('should allow attempts again once the lockout has passed', async () => {
+    // Arrange
+    await failTimes(3, 'user@example.com');
+
+    // Act
+    jest.advanceTimersByTime(31 * 1000);
+
+    // Assert
+    expect(await lockoutOf('user@example.com')).toBeNull();
+  });
+
+  it('should lock an IP address failing against many accounts', async () => {
+    // Act
+    for (let i = 0; i < 5; i++) {
+      await throttle.recordFailure(`user${i}@example.com`, '10.0.0.1');
+    }
+
+    // Assert
+    expect(await lockoutOf('new@example.com', '10.0.0.1')).toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+    });
+    expect(await lockoutOf('new@example.com', '10.0.0.2')).toBeNull();
+  });
+
+  it('should clear account failures on success and unlock', async () => {
+    // Arrange
+    await failTimes(2, 'user@example.com');
+    await throttle.recordSuccess('user@example.com');
+    await failTimes(2, 'user@example.com');
+    expect(await lockoutOf('user@example.com')).toBeNull();
+
+    // Act
+    await failTimes(1, 'user@example.com');
+    await throttle.unlock('user@example.com');
+
+    // Assert
+    expect(await lockoutOf('user@example.com')).toBeNull();
+  });
+});
+
+describe('MongoLoginAttemptStore', () => {
+  // The model itself, to cast filters the way the server does with `sanitizeFilter` on
+  const { LoginAttempt: LoginAttemptModel } = jest.requireActual<
+    typeof import('../../models/LoginAttempt.js')
+  >('../../models/LoginAttempt');
+
+  it('should read attempts with a filter that survives sanitizeFilter', async () => {
+    // Arrange
+    const findOne = jest.mocked(LoginAttempt.findOne).mockResolvedValue(null);
+
+    // Act
+    const attempts = await new MongoLoginAttemptStore().get('account:user@example.com');
+
+    // Assert
+    const [filter] = findOne.mock.calls[0];
+    const cast = LoginAttemptModel.find().cast(
+      LoginAttemptModel,
+      mongoose.sanitizeFilter({ ...filter }),
+    );
+    expect(cast.expiresAt.$gt).toBeInstanceOf(Date);
+    expect(attempts).toBeNull();
+  });
+});
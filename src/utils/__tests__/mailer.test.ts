@@ -0,0 +1,54 @@
+import nodemailer from 'nodemailer';
+
+import { OutboxMessage } from '../../models/OutboxMessage.js';
+import { OutboxMailer, SmtpMailer } from '../mailer.js';
+
+jest.mock('../../models/OutboxMessage', () => ({
+  OutboxMessage: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('nodemailer', () => ({
+  createTransport: jest.fn(),
+}));
+
+describe('Mailer', () => {
+  const message = { to: 'test@example.com', subject: 'Hello', text: 'Hi there' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('OutboxMailer', () => {
+    it('should store the message in the outbox', async () => {
+      // Arrange
+      const mailer = new OutboxMailer('EventFlow <no-reply@example.com>');
+
+      // Act
+      await mailer.send(message);
+
+      // Assert
+      expect(OutboxMessage.create).toHaveBeenCalledWith({
+        ...message,
+        from: 'EventFlow <no-reply@example.com>',
+      });
+    });
+  });
+
+  describe('SmtpMailer', () => {
+    it('should deliver the message through the SMTP transport', async () => {
+      // Arrange
+      const sendMail = jest.fn();
+      (nodemailer.createTransport as jest.Mock).mockReturnValue({ sendMail });
+      const mailer = new SmtpMailer('smtp://localhost:2525', 'no-reply@example.com');
+
+      // Act
+      await mailer.send(message);
+
+      // Assert
+      expect(nodemailer.createTransport).toHaveBeenCalledWith('smtp://localhost:2525');
+      expect(sendMail).toHaveBeenCalledWith({ ...message, from: 'no-reply@example.com' });
+    });
+  });
+});
@@ -1,14 +1,27 @@
-import mongoose from 'mongoose';
+import { GraphQLError } from 'graphql';
+import mongoose, { trusted } from 'mongoose';
 
-import { paginateQuery } from '../pagination.js';
+import {
+  MAX_LIMIT,
+  mapNodes,
+  paginateAggregate,
+  paginateList,
+  paginateQuery,
+  toConnection,
+  toPageQuery,
+} from '../pagination.js';
 
 // Mock mongoose Query
 const mockExec = jest.fn();
 const mockSkip = jest.fn().mockReturnThis();
 const mockLimit = jest.fn().mockReturnThis();
+const mockSort = jest.fn().mockReturnThis();
+const mockAnd = jest.fn().mockReturnThis();
 const mockQuery = {
   skip: mockSkip,
   limit: mockLimit,
+  sort: mockSort,
+  and: mockAnd,
   exec: mockExec,
 };
 
@@ -18,6 +31,19 @@ const mockModel = {
   countDocuments: mockCountDocuments,
 };
 
+const query = mockQuery as unknown as mongoose.Query<any[], any>;
+const model = mockModel as unknown as mongoose.Model<any>;
+
+const invalidInput = (message: string): GraphQLError =>
+  new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+
+const sort = { startsAt: 1, _id: 1 } as const;
+
+const events = Array.from({ length: 5 }, (_, index) => ({
+  _id: new mongoose.Types.ObjectId(),
+  startsAt: new Date(Date.UTC(2024, 0, index + 1)),
+}));
+
 describe('Pagination Utility', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -30,117 +56,404 @@ describe('Pagination Utility', () => {
     mockCountDocuments.mockResolvedValue(20);
 
     // Act
-    const result = await paginateQuery(
-      mockQuery as unknown as mongoose.Query<any[], any>,
-      mockModel as unknown as mongoose.Model<any>,
-      {},
-    );
+    const result = await paginateQuery(query, model, {});
 
     // Assert
     expect(mockSkip).toHaveBeenCalledWith(0); // (page 1 - 1) * limit 10 = 0
-    expect(mockLimit).toHaveBeenCalledWith(10);
-    expect(mockCountDocuments).toHaveBeenCalledWith({});
+    expect(mockLimit).toHaveBeenCalledWith(11); // one more, to tell if there is a next page
     expect(result).toEqual({
-      edges: mockResults,
+      edges: mockResults.map(node => ({ cursor: null, node })),
+      nodes: mockResults,
       pageInfo: {
-        hasNextPage: true,
+        hasNextPage: false,
         hasPreviousPage: false,
+        startCursor: null,
+        endCursor: null,
         currentPage: 1,
-        totalPages: 2,
+        totalPages: expect.any(Function),
       },
-      totalCount: 20,
+      totalCount: expect.any(Function),
     });
   });
 
+  it('should only count documents when the total is asked for', async () => {
+    // Arrange
+    mockExec.mockResolvedValue([{ id: '1' }]);
+    mockCountDocuments.mockResolvedValue(20);
+
+    // Act
+    const result = await paginateQuery(query, model, {}, { pagination: { limit: 3 } });
+
+    // Assert
+    expect(mockCountDocuments).not.toHaveBeenCalled();
+    expect(await result.totalCount()).toBe(20);
+    expect(await result.pageInfo.totalPages?.()).toBe(7);
+    expect(mockCountDocuments).toHaveBeenCalledTimes(1);
+  });
+
   it('should apply pagination with provided values', async () => {
     // Arrange
-    const mockResults = [{ id: '3' }, { id: '4' }];
+    const mockResults = Array.from({ length: 6 }, (_, index) => ({ id: String(index + 6) }));
     mockExec.mockResolvedValue(mockResults);
-    mockCountDocuments.mockResolvedValue(30);
     const pagination = { page: 2, limit: 5 };
 
     // Act
-    const result = await paginateQuery(
-      mockQuery as unknown as mongoose.Query<any[], any>,
-      mockModel as unknown as mongoose.Model<any>,
-      {},
-      pagination,
-    );
+    const result = await paginateQuery(query, model, {}, { pagination });
 
     // Assert
     expect(mockSkip).toHaveBeenCalledWith(5); // (page 2 - 1) * limit 5 = 5
-    expect(mockLimit).toHaveBeenCalledWith(5);
-    expect(mockCountDocuments).toHaveBeenCalledWith({});
-    expect(result).toEqual({
-      edges: mockResults,
-      pageInfo: {
-        hasNextPage: true,
-        hasPreviousPage: true,
-        currentPage: 2,
-        totalPages: 6,
-      },
-      totalCount: 30,
+    expect(mockLimit).toHaveBeenCalledWith(6);
+    expect(result.nodes).toEqual(mockResults.slice(0, 5));
+    expect(result.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: true,
+      currentPage: 2,
     });
   });
 
   it('should handle invalid pagination values', async () => {
     // Arrange
-    const mockResults = [{ id: '1' }];
-    mockExec.mockResolvedValue(mockResults);
-    mockCountDocuments.mockResolvedValue(10);
+    mockExec.mockResolvedValue([{ id: '1' }]);
     const pagination = { page: -1, limit: 0 };
 
     // Act
-    const result = await paginateQuery(
-      mockQuery as unknown as mongoose.Query<any[], any>,
-      mockModel as unknown as mongoose.Model<any>,
-      {},
-      pagination,
-    );
+    const result = await paginateQuery(query, model, {}, { pagination });
 
     // Assert
     expect(mockSkip).toHaveBeenCalledWith(0); // (page 1 - 1) * limit 10 = 0
-    expect(mockLimit).toHaveBeenCalledWith(10);
+    expect(mockLimit).toHaveBeenCalledWith(11);
     expect(result.pageInfo.currentPage).toBe(1);
   });
 
   it('should handle last page correctly', async () => {
     // Arrange
-    const mockResults = [{ id: '9' }, { id: '10' }];
-    mockExec.mockResolvedValue(mockResults);
+    mockExec.mockResolvedValue([{ id: '9' }, { id: '10' }]);
     mockCountDocuments.mockResolvedValue(10);
     const pagination = { page: 5, limit: 2 };
 
     // Act
-    const result = await paginateQuery(
-      mockQuery as unknown as mongoose.Query<any[], any>,
-      mockModel as unknown as mongoose.Model<any>,
-      {},
-      pagination,
-    );
+    const result = await paginateQuery(query, model, {}, { pagination });
 
     // Assert
     expect(result.pageInfo.hasNextPage).toBe(false);
     expect(result.pageInfo.hasPreviousPage).toBe(true);
     expect(result.pageInfo.currentPage).toBe(5);
-    expect(result.pageInfo.totalPages).toBe(5);
+    expect(await result.pageInfo.totalPages?.()).toBe(5);
   });
 
   it('should apply filter to countDocuments', async () => {
     // Arrange
-    const mockResults = [{ id: '1' }];
-    mockExec.mockResolvedValue(mockResults);
+    mockExec.mockResolvedValue([{ id: '1' }]);
     mockCountDocuments.mockResolvedValue(5);
     const filter = { category: 'test' };
 
     // Act
-    await paginateQuery(
-      mockQuery as unknown as mongoose.Query<any[], any>,
-      mockModel as unknown as mongoose.Model<any>,
-      filter,
-    );
+    const result = await paginateQuery(query, model, filter);
+    await result.totalCount();
 
     // Assert
     expect(mockCountDocuments).toHaveBeenCalledWith(filter);
   });
+
+  describe('cursors', () => {
+    it('should give every edge a cursor when the sort is known', async () => {
+      // Arrange
+      mockExec.mockResolvedValue(events.slice(0, 2));
+
+      // Act
+      const result = await paginateQuery(query, model, {}, {}, { sort });
+
+      // Assert
+      const [first, second] = result.edges;
+      expect(first.cursor).toEqual(expect.any(String));
+      expect(first.cursor).not.toBe(second.cursor);
+      expect(result.pageInfo.startCursor).toBe(first.cursor);
+      expect(result.pageInfo.endCursor).toBe(second.cursor);
+    });
+
+    it('should seek past the cursor instead of skipping', async () => {
+      // Arrange
+      mockExec.mockResolvedValueOnce(events.slice(0, 2));
+      const { pageInfo } = await paginateQuery(query, model, {}, {}, { sort });
+      jest.clearAllMocks();
+      mockExec.mockResolvedValueOnce(events.slice(2, 5));
+
+      // Act
+      const result = await paginateQuery(
+        query,
+        model,
+        {},
+        { first: 2, after: pageInfo.endCursor },
+        { sort },
+      );
+
+      // Assert
+      const [, lastSeen] = events;
+      expect(mockSkip).not.toHaveBeenCalled();
+      expect(mockLimit).toHaveBeenCalledWith(3);
+      expect(mockAnd).toHaveBeenCalledWith([
+        {
+          $or: [
+            { startsAt: trusted({ $gt: lastSeen.startsAt }) },
+            { startsAt: lastSeen.startsAt, _id: trusted({ $gt: lastSeen._id }) },
+          ],
+        },
+      ]);
+      expect(result.nodes).toEqual(events.slice(2, 4));
+      expect(result.pageInfo).toMatchObject({
+        hasNextPage: true,
+        hasPreviousPage: true,
+        currentPage: null,
+        totalPages: null,
+      });
+    });
+
+    it('should page backwards from a cursor in reverse order', async () => {
+      // Arrange
+      mockExec.mockResolvedValueOnce(events.slice(4));
+      const { pageInfo } = await paginateQuery(
+        query,
+        model,
+        {},
+        { pagination: { page: 5, limit: 1 } },
+        { sort },
+      );
+      jest.clearAllMocks();
+      mockExec.mockResolvedValueOnce([events[3], events[2]]);
+
+      // Act
+      const result = await paginateQuery(
+        query,
+        model,
+        {},
+        { last: 2, before: pageInfo.startCursor },
+        { sort },
+      );
+
+      // Assert
+      expect(mockSort).toHaveBeenCalledWith({ startsAt: -1, _id: -1 }, { override: true });
+      expect(mockAnd).toHaveBeenCalledWith([
+        {
+          $or: [
+            { startsAt: trusted({ $lt: events[4].startsAt }) },
+            { startsAt: events[4].startsAt, _id: trusted({ $lt: events[4]._id }) },
+          ],
+        },
+      ]);
+      expect(result.nodes).toEqual([events[2], events[3]]);
+      expect(result.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+
+    it.each([
+      [
+        'page numbers mixed with cursors',
+        { pagination: { page: 2 }, first: 5 },
+        'Page through a list either by page number or by cursor, not both',
+      ],
+      [
+        'both first and last',
+        { first: 5, last: 5 },
+        'Ask for either the first or the last items, not both',
+      ],
+      ['a negative count', { first: -1 }, 'first and last must not be negative'],
+      ['more items than a page holds', { last: 101 }, 'Pages can hold at most 100 items'],
+      ['a cursor that is not one', { after: 'not a cursor' }, 'Invalid cursor'],
+      [
+        'a cursor from another sort',
+        { after: Buffer.from('{"title":"Jazz"}').toString('base64url') },
+        'Invalid cursor',
+      ],
+    ])('should reject %s', async (_case, args, message) => {
+      await expect(paginateQuery(query, model, {}, args, { sort })).rejects.toThrow(
+        invalidInput(message),
+      );
+      expect(mockExec).not.toHaveBeenCalled();
+    });
+
+    it('should reject cursors for lists without a sort to seek on', async () => {
+      await expect(paginateQuery(query, model, {}, { first: 5 })).rejects.toThrow(
+        invalidInput('This list can only be paged through by page number'),
+      );
+    });
+  });
+
+  describe('paginateList', () => {
+    const items = Array.from({ length: 25 }, (_, index) => ({ id: String(index + 1) }));
+
+    it('should page through items in memory', async () => {
+      // Act
+      const result = paginateList(items, { pagination: { page: 3, limit: 10 } });
+
+      // Assert
+      expect(result.nodes.map(item => item.id)).toEqual(['21', '22', '23', '24', '25']);
+      expect(await result.totalCount()).toBe(25);
+      expect(result.pageInfo).toMatchObject({
+        hasNextPage: false,
+        hasPreviousPage: true,
+        currentPage: 3,
+      });
+      expect(await result.pageInfo.totalPages?.()).toBe(3);
+    });
+
+    it('should cap page sizes at the maximum', () => {
+      // Arrange
+      const longList = Array.from({ length: 150 }, (_, index) => ({ id: String(index + 1) }));
+
+      // Act
+      const result = paginateList(longList, { pagination: { page: 1, limit: 100000 } });
+
+      // Assert
+      expect(result.nodes).toHaveLength(MAX_LIMIT);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should fall back to the defaults for invalid values', () => {
+      // Act
+      const result = paginateList(items, { pagination: { page: -1, limit: 0 } });
+
+      // Assert
+      expect(result.edges).toHaveLength(10);
+      expect(result.pageInfo.currentPage).toBe(1);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should sort items and page through them by cursor both ways', () => {
+      // Arrange
+      const shuffled = [events[3], events[0], events[4], events[2], events[1]];
+
+      // Act
+      const first = paginateList(shuffled, { first: 2 }, sort);
+      const next = paginateList(shuffled, { first: 2, after: first.pageInfo.endCursor }, sort);
+      const back = paginateList(shuffled, { last: 2, before: next.pageInfo.startCursor }, sort);
+
+      // Assert
+      expect(first.nodes).toEqual(events.slice(0, 2));
+      expect(next.nodes).toEqual(events.slice(2, 4));
+      expect(next.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+      expect(back.nodes).toEqual(events.slice(0, 2));
+      expect(back.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+  });
+
+  describe('toPageQuery', () => {
+    it('should skip to a page number and fetch one item more', () => {
+      // Act
+      const page = toPageQuery({ pagination: { page: 3, limit: 5 } }, sort);
+
+      // Assert
+      expect(page).toEqual({ seek: [], sort, skip: 10, limit: 6 });
+    });
+
+    it('should seek past a cursor, nearest first', () => {
+      // Arrange
+      const cursor = paginateList(events, { first: 1 }, sort).pageInfo.endCursor!;
+
+      // Act
+      const page = toPageQuery({ last: 2, before: cursor }, sort);
+
+      // Assert
+      expect(page).toEqual({
+        seek: [
+          {
+            $or: [
+              { startsAt: trusted({ $lt: events[0]!.startsAt }) },
+              { startsAt: events[0]!.startsAt, _id: trusted({ $lt: events[0]!._id }) },
+            ],
+          },
+        ],
+        sort: { startsAt: -1, _id: -1 },
+        skip: 0,
+        limit: 3,
+      });
+    });
+  });
+
+  describe('toConnection', () => {
+    it('should build the page its query found', async () => {
+      // Arrange
+      const args = { first: 2, after: paginateList(events, { first: 1 }, sort).pageInfo.endCursor };
+
+      // Act
+      const result = toConnection(events.slice(1, 4), args, sort, 5);
+
+      // Assert
+      expect(result.nodes).toEqual(events.slice(1, 3));
+      expect(result.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+      expect(await result.totalCount()).toBe(5);
+    });
+
+    it('should put pages fetched before a cursor back in order', () => {
+      // Act
+      const result = toConnection([events[4], events[3]], { last: 2 }, sort, 5);
+
+      // Assert
+      expect(result.nodes).toEqual([events[3], events[4]]);
+    });
+  });
+
+  describe('mapNodes', () => {
+    it('should swap nodes while keeping their cursors, leaving out missing ones', () => {
+      // Arrange
+      const page = paginateList(events, { first: 3 }, sort);
+
+      // Act
+      const result = mapNodes(page, ['first', null, 'third']);
+
+      // Assert
+      expect(result.nodes).toEqual(['first', 'third']);
+      expect(result.edges.map(edge => edge.cursor)).toEqual([
+        page.edges[0].cursor,
+        page.edges[2].cursor,
+      ]);
+      expect(result.pageInfo).toBe(page.pageInfo);
+    });
+  });
+
+  describe('paginateAggregate', () => {
+    it('should count and page through the results of a pipeline at once', async () => {
+      // Arrange
+      const aggregate = jest
+        .fn()
+        .mockResolvedValue([{ edges: [{ id: '11' }], total: [{ count: 11 }] }]);
+      const pipeline = [{ $match: { status: 'published' } }];
+
+      // Act
+      const result = await paginateAggregate(
+        { aggregate } as unknown as mongoose.Model<any>,
+        pipeline,
+        { page: 2, limit: 10 },
+      );
+
+      // Assert
+      expect(aggregate).toHaveBeenCalledWith([
+        ...pipeline,
+        {
+          $facet: {
+            edges: [{ $skip: 10 }, { $limit: 10 }],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ]);
+      expect(result.nodes).toEqual([{ id: '11' }]);
+      expect(result.pageInfo).toMatchObject({
+        hasNextPage: false,
+        hasPreviousPage: true,
+        currentPage: 2,
+      });
+      expect(await result.totalCount()).toBe(11);
+      expect(await result.pageInfo.totalPages?.()).toBe(2);
+    });
+
+    it('should report no results when nothing matches', async () => {
+      // Arrange
+      const aggregate = jest.fn().mockResolvedValue([{ edges: [], total: [] }]);
+
+      // Act
+      const result = await paginateAggregate({ aggregate } as unknown as mongoose.Model<any>, []);
+
+      // Assert
+      expect(await result.totalCount()).toBe(0);
+      expect(await result.pageInfo.totalPages?.()).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,151 @@
+import {
+  expandRecurrence,
+  occursOn,
+  parseRecurrenceRule,
+  RecurrenceRuleError,
+  toDateKey,
+} from '../recurrence.js';
+
+const day = (value: string): Date => new Date(`${value}T00:00:00Z`);
+
+const expand = (rule: string, start: string, from: string, to: string, exceptions: string[] = []) =>
+  expandRecurrence(
+    parseRecurrenceRule(rule),
+    day(start),
+    day(from),
+    day(to),
+    exceptions.map(day),
+  ).map(toDateKey);
+
+describe('Recurrence rules', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should parse rules with or without the RRULE prefix', () => {
+      // Act
+      const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+
+      // Assert
+      expect(rule).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        count: 10,
+        byDay: [{ weekday: 2 }, { weekday: 4 }],
+        weekStart: 1,
+      });
+      expect(parseRecurrenceRule('freq=daily').freq).toBe('DAILY');
+    });
+
+    it('should parse numbered weekdays and dates', () => {
+      // Act
+      const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20301231T235959Z');
+
+      // Assert
+      expect(rule.byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+      expect(rule.until).toEqual(day('2030-12-31'));
+    });
+
+    it.each([
+      ['', 'Invalid recurrence rule part ""'],
+      ['COUNT=3', 'Recurrence rules need a FREQ of DAILY, WEEKLY, MONTHLY or YEARLY'],
+      ['FREQ=HOURLY', 'Recurrence rules need a FREQ of DAILY, WEEKLY, MONTHLY or YEARLY'],
+      ['FREQ=DAILY;INTERVAL=0', 'Invalid INTERVAL value "0"'],
+      ['FREQ=DAILY;BYDAY=XX', 'Invalid weekday "XX"'],
+      ['FREQ=DAILY;UNTIL=tomorrow', 'Invalid UNTIL value "tomorrow"'],
+      ['FREQ=DAILY;COUNT=2;UNTIL=20300101', 'Recurrence rules may not have both COUNT and UNTIL'],
+      ['FREQ=WEEKLY;BYDAY=1MO', 'Numbered BYDAY values need a MONTHLY or YEARLY rule'],
+      ['FREQ=YEARLY;BYDAY=1MO', 'Numbered BYDAY values in YEARLY rules need BYMONTH'],
+      ['FREQ=DAILY;BYHOUR=9', 'Recurrence rule part BYHOUR is not supported'],
+    ])('should reject "%s"', (rule, message) => {
+      // Act & Assert
+      expect(() => parseRecurrenceRule(rule)).toThrow(new RecurrenceRuleError(message));
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should repeat daily rules every interval days', () => {
+      expect(expand('FREQ=DAILY;INTERVAL=3', '2030-01-01', '2030-01-01', '2030-01-11')).toEqual([
+        '2030-01-01',
+        '2030-01-04',
+        '2030-01-07',
+        '2030-01-10',
+      ]);
+    });
+
+    it('should repeat weekly rules on the weekday of the start by default', () => {
+      // 2030-01-01 is a Tuesday
+      expect(expand('FREQ=WEEKLY', '2030-01-01', '2030-01-01', '2030-01-22')).toEqual([
+        '2030-01-01',
+        '2030-01-08',
+        '2030-01-15',
+      ]);
+    });
+
+    it('should repeat weekly rules on every listed weekday', () => {
+      expect(
+        expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH', '2030-01-01', '2030-01-01', '2030-01-31'),
+      ).toEqual(['2030-01-01', '2030-01-03', '2030-01-15', '2030-01-17', '2030-01-29']);
+    });
+
+    it('should skip months without the day of the month', () => {
+      expect(expand('FREQ=MONTHLY', '2030-01-31', '2030-01-01', '2030-06-01')).toEqual([
+        '2030-01-31',
+        '2030-03-31',
+        '2030-05-31',
+      ]);
+    });
+
+    it('should support numbered weekdays in monthly rules', () => {
+      expect(expand('FREQ=MONTHLY;BYDAY=-1FR', '2030-01-25', '2030-01-01', '2030-04-01')).toEqual([
+        '2030-01-25',
+        '2030-02-22',
+        '2030-03-29',
+      ]);
+    });
+
+    it('should repeat yearly rules on the date of the start', () => {
+      expect(expand('FREQ=YEARLY', '2028-02-29', '2028-01-01', '2033-01-01')).toEqual([
+        '2028-02-29',
+        '2032-02-29',
+      ]);
+    });
+
+    it('should stop after COUNT occurrences, including exceptions', () => {
+      expect(
+        expand('FREQ=DAILY;COUNT=3', '2030-01-01', '2030-01-01', '2030-02-01', ['2030-01-02']),
+      ).toEqual(['2030-01-01', '2030-01-03']);
+    });
+
+    it('should include the UNTIL day', () => {
+      expect(expand('FREQ=DAILY;UNTIL=20300103', '2030-01-01', '2030-01-01', '2030-02-01')).toEqual(
+        ['2030-01-01', '2030-01-02', '2030-01-03'],
+      );
+    });
+
+    it('should count the start as an occurrence even if the rule does not match it', () => {
+      // 2030-01-01 is a Tuesday
+      expect(
+        expand('FREQ=WEEKLY;BYDAY=FR;COUNT=2', '2030-01-01', '2030-01-01', '2030-02-01'),
+      ).toEqual(['2030-01-01', '2030-01-04']);
+    });
+
+    it('should only list occurrences inside the range', () => {
+      expect(expand('FREQ=WEEKLY', '2000-01-04', '2030-01-01', '2030-01-15')).toEqual([
+        '2030-01-01',
+        '2030-01-08',
+      ]);
+    });
+  });
+
+  describe('occursOn', () => {
+    it('should check single days', () => {
+      // Arrange
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO');
+      const start = day('2030-01-07');
+
+      // Act & Assert
+      expect(occursOn(rule, start, day('2030-01-14'))).toBe(true);
+      expect(occursOn(rule, start, day('2030-01-15'))).toBe(false);
+      expect(occursOn(rule, start, day('2029-12-31'))).toBe(false);
+      expect(occursOn(rule, start, day('2030-01-14'), [day('2030-01-14')])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { Types } from 'mongoose';
+
+import { Session } from '../../models/Session.js';
+import { User } from '../../models/User.js';
+import { generateToken } from '../auth.js';
+import { createSession, revokeAllSessions, revokeSession, rotateSession } from '../sessions.js';
+import { hashToken } from '../tokens.js';
+
+jest.mock('../../models/Session', () => ({
+  Session: {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/User', () => ({
+  User: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../auth', () => ({
+  generateToken: jest.fn().mockReturnValue('access-token'),
+}));
+
+describe('Sessions', () => {
+  const sessionId = new Types.ObjectId();
+  const user = {
+    id: new Types.ObjectId().toHexString(),
+    email: 'test@example.com',
+    role: 'user' as const,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSession', () => {
+    it('should persist a hashed refresh token and return a token pair', async () => {
+      // Arrange
+      (Session.create as jest.Mock).mockResolvedValue({ _id: sessionId });
+
+      // Act
+      const result = await createSession(user);
+
+      // Assert
+      const [{ refreshTokenHash }] = (Session.create as jest.Mock).mock.calls[0];
+      const [, secret] = result.refreshToken.split('.');
+      expect(refreshTokenHash).toBe(hashToken(secret!));
+      expect(generateToken).toHaveBeenCalledWith({ ...user, sessionId: sessionId.toString() });
+      expect(result).toEqual({
+        userId: user.id,
+        token: 'access-token',
+        tokenExpiration: 86400,
+        refreshToken: expect.stringMatching(new RegExp(`^${sessionId.toString()}\\.`)),
+        refreshTokenExpiration: expect.any(Number),
+      });
+      expect(result.refreshTokenExpiration).toBeGreaterThan(29 * 24 * 60 * 60);
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should reject malformed refresh tokens without touching the database', async () => {
+      // Act
+      const result = await rotateSession('not-a-token');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should replace the stored hash and issue a new token pair', async () => {
+      // Arrange
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      (Session.findOneAndUpdate as jest.Mock).mockResolvedValue({
+        _id: sessionId,
+        user: user.id,
+        expiresAt,
+      });
+      (User.findById as jest.Mock).mockResolvedValue({
+        _id: new Types.ObjectId(user.id),
+        email: user.email,
+        role: user.role,
+      });
+
+      // Act
+      const result = await rotateSession(`${sessionId.toString()}.old-secret`);
+
+      // Assert
+      const [filter, update] = (Session.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(filter).toEqual(
+        expect.objectContaining({
+          _id: sessionId.toString(),
+          refreshTokenHash: hashToken('old-secret'),
+          revokedAt: null,
+        }),
+      );
+      expect(update.refreshTokenHash).not.toBe(hashToken('old-secret'));
+      expect(update.previousRefreshTokenHash).toBe(hashToken('old-secret'));
+      expect(result?.refreshToken).not.toBe(`${sessionId.toString()}.old-secret`);
+      expect(result?.refreshTokenExpiration).toBeLessThanOrEqual(60 * 60);
+    });
+
+    it('should revoke the session only when an already-rotated refresh token is reused', async () => {
+      // Arrange
+      (Session.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await rotateSession(`${sessionId.toString()}.reused-secret`);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(Session.updateOne).toHaveBeenCalledWith(
+        {
+          _id: sessionId.toString(),
+          previousRefreshTokenHash: hashToken('reused-secret'),
+          revokedAt: null,
+        },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should report whether an active session was revoked', async () => {
+      // Arrange
+      (Session.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+      // Act
+      const result = await revokeSession(sessionId.toString());
+
+      // Assert
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should return the number of revoked sessions', async () => {
+      // Arrange
+      (Session.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 2 });
+
+      // Act
+      const result = await revokeAllSessions(user.id);
+
+      // Assert
+      expect(Session.updateMany).toHaveBeenCalledWith(
+        { user: user.id, revokedAt: null },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(result).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { Types } from 'mongoose';
+
+import { ApiKey } from '../../models/ApiKey.js';
+import { Event } from '../../models/Event.js';
+import { Session } from '../../models/Session.js';
+import { User } from '../../models/User.js';
+import { UserToken } from '../../models/UserToken.js';
+import { getRetentionCutoff, purgeDeletedRecords } from '../softDelete.js';
+
+jest.mock('../../models/ApiKey');
+jest.mock('../../models/Event');
+jest.mock('../../models/Session');
+jest.mock('../../models/User');
+jest.mock('../../models/UserToken');
+
+const mockDeletedUsers = (users: { _id: Types.ObjectId }[]) => {
+  const lean = jest.fn().mockResolvedValueOnce(users);
+  (User.find as jest.Mock).mockReturnValueOnce({ select: jest.fn().mockReturnValue({ lean }) });
+};
+
+describe('Soft delete', () => {
+  const now = new Date('2030-03-31T12:00:00Z');
+  const cutoff = new Date('2030-03-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Event.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 2 });
+    (Event.updateMany as jest.Mock).mockReturnValue({ setOptions: jest.fn() });
+    (User.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 1 });
+  });
+
+  describe('getRetentionCutoff', () => {
+    it('should go back the given number of days', () => {
+      expect(getRetentionCutoff(30, now)).toEqual(cutoff);
+    });
+  });
+
+  describe('purgeDeletedRecords', () => {
+    it('should hard-delete events deleted before the retention window', async () => {
+      // Arrange
+      mockDeletedUsers([]);
+
+      // Act
+      const result = await purgeDeletedRecords(30, now);
+
+      // Assert
+      const [filter] = (Event.deleteMany as jest.Mock).mock.calls[0];
+      expect(filter.deletedAt.$lt).toEqual(cutoff);
+      expect(User.deleteMany).not.toHaveBeenCalled();
+      expect(result).toEqual({ events: 2, users: 0 });
+    });
+
+    it('should remove every trace of purged users', async () => {
+      // Arrange
+      const userId = new Types.ObjectId();
+      mockDeletedUsers([{ _id: userId }]);
+
+      // Act
+      const result = await purgeDeletedRecords(30, now);
+
+      // Assert
+      const [userFilter] = (User.find as jest.Mock).mock.calls[0];
+      expect(userFilter.deletedAt.$lt).toEqual(cutoff);
+      for (const model of [Session, ApiKey, UserToken]) {
+        const [filter] = (model.deleteMany as jest.Mock).mock.calls[0];
+        expect(filter.user.$in).toEqual([userId]);
+      }
+      expect(Event.updateMany).toHaveBeenCalledWith(expect.any(Object), {
+        $pull: { attendees: { $in: [userId] }, waitlist: { $in: [userId] } },
+      });
+      const [userDeleteFilter] = (User.deleteMany as jest.Mock).mock.calls[0];
+      expect(userDeleteFilter._id.$in).toEqual([userId]);
+      expect(result).toEqual({ events: 2, users: 1 });
+    });
+  });
+});
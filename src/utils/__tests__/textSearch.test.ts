@@ -0,0 +1,74 @@
+import { findMatches, highlight, parseTextSearch } from '../textSearch.js';
+
+const ranges = (text: string, query: string): string[] =>
+  findMatches(text, parseTextSearch(query)).map(({ start, end }) => text.slice(start, end));
+
+describe('Text search', () => {
+  describe('parseTextSearch', () => {
+    it('should split words, phrases and exclusions', () => {
+      // Act
+      const parsed = parseTextSearch('jazz  "live   music" -brunch -"open air" blues');
+
+      // Assert
+      expect(parsed).toEqual({
+        terms: ['jazz', 'blues'],
+        phrases: ['live music'],
+        excluded: ['brunch', 'open air'],
+      });
+    });
+
+    it('should ignore empty phrases, lone hyphens and stray quotes', () => {
+      expect(parseTextSearch('"" - "jazz')).toEqual({ terms: ['jazz'], phrases: [], excluded: [] });
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should find words regardless of case and word endings', () => {
+      expect(ranges('Concert series: two Concerts in June', 'concerts')).toEqual([
+        'Concert',
+        'Concerts',
+      ]);
+    });
+
+    it('should find phrases across any whitespace and merge overlapping matches', () => {
+      expect(ranges('Live\nmusic by the river', '"live music" music river')).toEqual([
+        'Live\nmusic',
+        'river',
+      ]);
+    });
+
+    it('should not highlight excluded words', () => {
+      expect(ranges('Jazz brunch', 'jazz -brunch')).toEqual(['Jazz']);
+    });
+  });
+
+  describe('highlight', () => {
+    it('should keep short texts whole', () => {
+      // Act
+      const result = highlight('Jazz by the river', parseTextSearch('river'));
+
+      // Assert
+      expect(result).toEqual({ snippet: 'Jazz by the river', matches: [{ start: 12, end: 17 }] });
+    });
+
+    it('should cut long texts down to whole words around the first match', () => {
+      // Arrange
+      const text = `${'lorem ipsum '.repeat(20)}an evening of jazz ${'dolor sit '.repeat(20)}`;
+
+      // Act
+      const result = highlight(text, parseTextSearch('jazz'));
+
+      // Assert
+      expect(result!.snippet.startsWith('…')).toBe(true);
+      expect(result!.snippet.endsWith('…')).toBe(true);
+      expect(result!.snippet.length).toBeLessThanOrEqual(162);
+      expect(result!.snippet).not.toMatch(/ …$|^… /);
+      const [match] = result!.matches;
+      expect(result!.snippet.slice(match.start, match.end)).toBe('jazz');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(highlight('Blues night', parseTextSearch('jazz'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  addLocalDays,
+  getZonedDayRange,
+  isValidLocalDate,
+  isValidLocalTime,
+  isValidTimeZone,
+  toZonedTime,
+  zonedTimeToInstant,
+} from '../timeZones.js';
+
+describe('Time zones', () => {
+  describe('validation', () => {
+    it('should accept IANA time zones only', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should accept calendar dates in YYYY-MM-DD format only', () => {
+      expect(isValidLocalDate('2030-02-28')).toBe(true);
+      expect(isValidLocalDate('2030-02-30')).toBe(false);
+      expect(isValidLocalDate('2030-2-1')).toBe(false);
+      expect(isValidLocalDate('2030-02-28T10:00:00Z')).toBe(false);
+    });
+
+    it('should accept 24-hour times in HH:mm format only', () => {
+      expect(isValidLocalTime('00:00')).toBe(true);
+      expect(isValidLocalTime('23:59')).toBe(true);
+      expect(isValidLocalTime('24:00')).toBe(false);
+      expect(isValidLocalTime('7:30')).toBe(false);
+      expect(isValidLocalTime('6pm')).toBe(false);
+    });
+  });
+
+  describe('zonedTimeToInstant', () => {
+    it('should apply the offset of the zone', () => {
+      expect(zonedTimeToInstant('2030-01-15', '18:00', 'America/New_York')).toEqual(
+        new Date('2030-01-15T23:00:00Z'),
+      );
+      expect(zonedTimeToInstant('2030-07-15', '18:00', 'America/New_York')).toEqual(
+        new Date('2030-07-15T22:00:00Z'),
+      );
+      expect(zonedTimeToInstant('2030-01-15', '08:00', 'Asia/Kolkata')).toEqual(
+        new Date('2030-01-15T02:30:00Z'),
+      );
+    });
+
+    it('should resolve times that occur twice to the first of them', () => {
+      // Clocks in New York go back from 02:00 to 01:00 on 2030-11-03
+      expect(zonedTimeToInstant('2030-11-03', '01:30', 'America/New_York')).toEqual(
+        new Date('2030-11-03T05:30:00Z'),
+      );
+    });
+
+    it('should resolve skipped times next to the gap', () => {
+      // Clocks in New York go forward from 02:00 to 03:00 on 2030-03-10
+      const instant = zonedTimeToInstant('2030-03-10', '02:30', 'America/New_York');
+
+      expect([new Date('2030-03-10T06:30:00Z'), new Date('2030-03-10T07:30:00Z')]).toContainEqual(
+        instant,
+      );
+    });
+  });
+
+  describe('addLocalDays', () => {
+    it('should move across months and years', () => {
+      expect(addLocalDays('2030-12-31', 1)).toBe('2031-01-01');
+      expect(addLocalDays('2030-03-01', -1)).toBe('2030-02-28');
+    });
+  });
+
+  describe('toZonedTime', () => {
+    it('should return the wall-clock date and time in the zone', () => {
+      expect(toZonedTime(new Date('2030-01-15T23:30:00Z'), 'Europe/Berlin')).toEqual({
+        date: '2030-01-16',
+        time: '00:30',
+      });
+    });
+  });
+
+  describe('getZonedDayRange', () => {
+    it('should return the instants a day starts and ends at in the zone', () => {
+      expect(getZonedDayRange('2030-01-15', 'Asia/Tokyo')).toEqual({
+        from: new Date('2030-01-14T15:00:00Z'),
+        to: new Date('2030-01-15T15:00:00Z'),
+      });
+    });
+
+    it('should handle days shortened by daylight saving time', () => {
+      // Clocks in Berlin go forward on 2030-03-31
+      const { from, to } = getZonedDayRange('2030-03-31', 'Europe/Berlin');
+
+      expect(to.getTime() - from.getTime()).toBe(23 * 60 * 60 * 1000);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { buildOtpAuthUri, generateTotpCode, generateTotpSecret, verifyTotpCode } from '../totp.js';
+
+describe('TOTP', () => {
+  // The SHA-1 secret from the RFC 6238 test vectors, base32 encoded
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('generateTotpCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+    ])('should match the RFC 6238 test vector at %i seconds', (seconds, expected) => {
+      expect(generateTotpCode(rfcSecret, seconds * 1000)).toBe(expected);
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate distinct base32 secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const timeMs = 1234567890 * 1000;
+    const currentStep = Math.floor(1234567890 / 30);
+
+    it('should return the time step of a valid code', () => {
+      expect(verifyTotpCode(rfcSecret, '005924', { timeMs })).toBe(currentStep);
+    });
+
+    it('should accept codes from adjacent time steps', () => {
+      const previousCode = generateTotpCode(rfcSecret, timeMs - 30 * 1000);
+
+      expect(verifyTotpCode(rfcSecret, previousCode, { timeMs })).toBe(currentStep - 1);
+      expect(verifyTotpCode(rfcSecret, previousCode, { timeMs, window: 0 })).toBeNull();
+    });
+
+    it('should reject wrong or malformed codes', () => {
+      expect(verifyTotpCode(rfcSecret, '123456', { timeMs })).toBeNull();
+      expect(verifyTotpCode(rfcSecret, '5924', { timeMs })).toBeNull();
+      expect(verifyTotpCode(rfcSecret, 'abcdef', { timeMs })).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build an otpauth URI for authenticator apps', () => {
+      const uri = buildOtpAuthUri(rfcSecret, 'user@example.com', 'EventFlow');
+
+      expect(uri).toBe(
+        `otpauth://totp/EventFlow:user%40example.com?secret=${rfcSecret}&issuer=EventFlow&algorithm=SHA1&digits=6&period=30`,
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { IUser } from '../../models/User.js';
+import { User } from '../../models/User.js';
+import { generateTotpCode } from '../totp.js';
+import {
+  createTwoFactorChallenge,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  redeemTwoFactorCode,
+} from '../twoFactor.js';
+import { issueUserToken } from '../userTokens.js';
+
+jest.mock('../../models/User', () => ({
+  User: {
+    updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('../userTokens', () => ({
+  issueUserToken: jest.fn().mockResolvedValue('challenge-id'),
+}));
+
+describe('Two-factor authentication', () => {
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  const createUser = (lastUsedStep: number | null = null) =>
+    ({
+      _id: 'user-1',
+      twoFactor: { enabled: true, secret, recoveryCodeHashes: [], lastUsedStep },
+    }) as unknown as IUser;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generateRecoveryCodes', () => {
+    it('should generate the requested number of distinct codes', () => {
+      const codes = generateRecoveryCodes(5);
+
+      expect(codes).toHaveLength(5);
+      expect(new Set(codes).size).toBe(5);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    });
+
+    it('should hash codes regardless of formatting', () => {
+      expect(hashRecoveryCode(' A1B2C-3D4E5 ')).toBe(hashRecoveryCode('a1b2c3d4e5'));
+    });
+  });
+
+  describe('createTwoFactorChallenge', () => {
+    it('should issue a short-lived login challenge', async () => {
+      const result = await createTwoFactorChallenge('user-1');
+
+      expect(issueUserToken).toHaveBeenCalledWith('user-1', 'two-factor-login', 5);
+      expect(result).toEqual({ challengeId: 'challenge-id', expiresIn: 300 });
+    });
+  });
+
+  describe('redeemTwoFactorCode', () => {
+    it('should accept a current TOTP code and remember its time step', async () => {
+      // Arrange
+      (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+      // Act
+      const result = await redeemTwoFactorCode(createUser(), generateTotpCode(secret));
+
+      // Assert
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-1', 'twoFactor.lastUsedStep': null },
+        { 'twoFactor.lastUsedStep': expect.any(Number) },
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should reject a TOTP code that was already used', async () => {
+      // Arrange
+      const step = Math.floor(Date.now() / 1000 / 30);
+
+      // Act
+      const result = await redeemTwoFactorCode(createUser(step + 1), generateTotpCode(secret));
+
+      // Assert
+      expect(result).toBe(false);
+      expect(User.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should remove a recovery code once it is used', async () => {
+      // Arrange
+      (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+      // Act
+      const result = await redeemTwoFactorCode(createUser(), 'a1b2c-3d4e5');
+
+      // Assert
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-1', 'twoFactor.recoveryCodeHashes': hashRecoveryCode('a1b2c-3d4e5') },
+        { $pull: { 'twoFactor.recoveryCodeHashes': hashRecoveryCode('a1b2c-3d4e5') } },
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should reject unknown recovery codes', async () => {
+      // Arrange
+      (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 0 });
+
+      // Act
+      const result = await redeemTwoFactorCode(createUser(), 'fffff-fffff');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+});
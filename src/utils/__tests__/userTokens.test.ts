@@ -0,0 +1,125 @@
+import mongoose, { trusted } from 'mongoose';
+
+import { UserToken } from '../../models/UserToken.js';
+import { hashToken } from '../tokens.js';
+import {
+  consumeUserToken,
+  findUserTokenOwner,
+  issueUserToken,
+  revokeUserTokens,
+} from '../userTokens.js';
+
+jest.mock('../../models/UserToken', () => ({
+  UserToken: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+// The model itself, to cast filters the way the server does with `sanitizeFilter` on
+const { UserToken: UserTokenModel } =
+  jest.requireActual<typeof import('../../models/UserToken.js')>('../../models/UserToken');
+
+const castSanitized = (filter: Record<string, unknown>) =>
+  UserTokenModel.find().cast(UserTokenModel, mongoose.sanitizeFilter({ ...filter }));
+
+describe('User tokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issueUserToken', () => {
+    it('should store only the hash and replace earlier tokens', async () => {
+      // Act
+      const token = await issueUserToken('user-1', 'password-reset', 60);
+
+      // Assert
+      expect(UserToken.updateMany).toHaveBeenCalledWith(
+        { user: 'user-1', purpose: 'password-reset', usedAt: null },
+        { usedAt: expect.any(Date) },
+      );
+      const [{ tokenHash, expiresAt }] = (UserToken.create as jest.Mock).mock.calls[0];
+      expect(tokenHash).toBe(hashToken(token));
+      expect(tokenHash).not.toBe(token);
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+    });
+  });
+
+  describe('consumeUserToken', () => {
+    it('should mark a valid token as used and return its user', async () => {
+      // Arrange
+      (UserToken.findOneAndUpdate as jest.Mock).mockResolvedValue({ user: 'user-1' });
+
+      // Act
+      const result = await consumeUserToken('reset-token', 'password-reset');
+
+      // Assert
+      expect(UserToken.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          tokenHash: hashToken('reset-token'),
+          purpose: 'password-reset',
+          usedAt: null,
+          expiresAt: trusted({ $gt: expect.any(Date) }),
+        },
+        { usedAt: expect.any(Date) },
+        { new: true },
+      );
+      expect(result).toBe('user-1');
+    });
+
+    it('should query with a filter that survives sanitizeFilter', async () => {
+      // Arrange
+      (UserToken.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      await consumeUserToken('reset-token', 'password-reset');
+
+      // Assert
+      const [filter] = (UserToken.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(() => castSanitized(filter)).not.toThrow();
+      expect(castSanitized(filter).expiresAt.$gt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown, expired or used tokens', async () => {
+      // Arrange
+      (UserToken.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await consumeUserToken('used-token', 'password-reset');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findUserTokenOwner', () => {
+    it('should return the owner of a valid token without using it up', async () => {
+      // Arrange
+      (UserToken.findOne as jest.Mock).mockResolvedValue({ user: 'user-1' });
+
+      // Act
+      const result = await findUserTokenOwner('challenge-id', 'two-factor-login');
+
+      // Assert
+      const [filter] = (UserToken.findOne as jest.Mock).mock.calls[0];
+      expect(castSanitized(filter).expiresAt.$gt).toBeInstanceOf(Date);
+      expect(UserToken.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(result).toBe('user-1');
+    });
+  });
+
+  describe('revokeUserTokens', () => {
+    it('should invalidate outstanding tokens for the purpose', async () => {
+      // Act
+      await revokeUserTokens('user-1', 'password-reset');
+
+      // Assert
+      expect(UserToken.updateMany).toHaveBeenCalledWith(
+        { user: 'user-1', purpose: 'password-reset', usedAt: null },
+        { usedAt: expect.any(Date) },
+      );
+    });
+  });
+});
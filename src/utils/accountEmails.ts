@@ -0,0 +1,46 @@
+import { config } from '../config.js';
+
+import { mailer } from './mailer.js';
+
+export const sendPasswordResetEmail = async (
+  user: { name: string; email: string },
+  token: string,
+): Promise<void> => {
+  const resetUrl = `${config.app.url}/reset-password?token=${encodeURIComponent(token)}`;
+  const ttl = config.passwordReset.tokenTtlMinutes;
+
+  await mailer.send({
+    to: user.email,
+    subject: 'Reset your EventFlow password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your EventFlow account.',
+      `Use this link within ${ttl} minutes to choose a new one:`,
+      '',
+      resetUrl,
+      '',
+      'If this was not you, you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+export const sendVerificationEmail = async (
+  user: { name: string; email: string },
+  token: string,
+): Promise<void> => {
+  const verifyUrl = `${config.app.url}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await mailer.send({
+    to: user.email,
+    subject: 'Confirm your EventFlow email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm that this is your email address by opening the link below',
+      `within ${config.emailVerification.tokenTtlHours} hours:`,
+      '',
+      verifyUrl,
+    ].join('\n'),
+  });
+};
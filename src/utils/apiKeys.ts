@@ -0,0 +1,81 @@
+import type { ApiKeyScope, IApiKey } from '../models/ApiKey.js';
+import { ApiKey } from '../models/ApiKey.js';
+import { User } from '../models/User.js';
+
+import type { UserPayload } from './auth.js';
+import { generateOpaqueToken, hashToken } from './tokens.js';
+
+// Recognisable in logs and secret scanners, e.g. `efk_3q2Vh1...`
+const KEY_PREFIX = 'efk_';
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/**
+ * Create an API key for a user. The plain key is only returned here; only its
+ * hash and a short prefix to tell keys apart are stored.
+ */
+export const createApiKey = async (
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const key = `${KEY_PREFIX}${generateOpaqueToken()}`;
+
+  const apiKey = await ApiKey.create({
+    user: userId,
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashToken(key),
+    // Reading is always allowed, so store it explicitly for clarity
+    scopes: Array.from(new Set<ApiKeyScope>(['read', ...scopes])),
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * Resolve the owner of an active API key, recording when the key was last used
+ */
+export const getUserFromApiKey = async (key: string): Promise<UserPayload | null> => {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  try {
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key), revokedAt: null });
+    if (!apiKey) {
+      return null;
+    }
+
+    const user = await User.findById(apiKey.user);
+    if (!user) {
+      return null;
+    }
+
+    // Avoid a write on every request from busy integrations
+    const now = new Date();
+    const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+    if (now.getTime() - lastUsedAt > LAST_USED_PRECISION_MS) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now });
+    }
+
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      apiKey: { id: apiKey._id.toString(), scopes: apiKey.scopes },
+    };
+  } catch (_err) {
+    return null;
+  }
+};
+
+/**
+ * Revoke every API key of a user and return how many were revoked
+ */
+export const revokeAllApiKeys = async (userId: string): Promise<number> => {
+  const result = await ApiKey.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date() },
+  );
+  return result.modifiedCount;
+};
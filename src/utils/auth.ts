@@ -1,20 +1,35 @@
 import bcrypt from 'bcryptjs';
 import { GraphQLError } from 'graphql';
 import jwt from 'jsonwebtoken';
+import { trusted } from 'mongoose';
 
 import { config } from '../config.js';
+import type { ApiKeyScope } from '../models/ApiKey.js';
+import { Session } from '../models/Session.js';
+import type { UserRole } from '../models/User.js';
+
+import { getUserFromApiKey } from './apiKeys.js';
+import { jwtKeys } from './jwtKeys.js';
 
 // Define types
-interface UserPayload {
+export interface UserPayload {
   id: string;
   email: string;
+  role: UserRole;
+  // Set for access tokens, which are bound to a session
+  sessionId?: string;
+  // Set when the caller authenticated with a personal API key instead
+  apiKey?: { id: string; scopes: ApiKeyScope[] };
 }
 
-// Generate JWT token for a user
-export const generateToken = (user: { id: string; email: string }): string => {
-  return jwt.sign({ id: user.id, email: user.email }, config.jwt.secret, {
-    expiresIn: '1d',
-  });
+// Generate a short-lived access token bound to a session, signed with the current key
+export const generateToken = (user: UserPayload & { sessionId: string }): string => {
+  const { kid, alg, signingKey } = jwtKeys.signingKey;
+  return jwt.sign(
+    { id: user.id, email: user.email, role: user.role, sessionId: user.sessionId },
+    signingKey,
+    { algorithm: alg, keyid: kid, expiresIn: config.jwt.accessTokenTtl },
+  );
 };
 
 // Verify password
@@ -30,8 +45,8 @@ export const hashPassword = async (password: string): Promise<string> => {
   return await bcrypt.hash(password, 12);
 };
 
-// Get user from token
-export const getUserFromToken = (token: string): UserPayload | null => {
+// Get user from token, rejecting tokens whose session has been revoked or has expired
+export const getUserFromToken = async (token: string): Promise<UserPayload | null> => {
   if (!token || token === '') {
     return null;
   }
@@ -42,13 +57,47 @@ export const getUserFromToken = (token: string): UserPayload | null => {
       token = token.slice(7, token.length);
     }
 
-    const decoded = jwt.verify(token, config.jwt.secret) as UserPayload;
-    return decoded;
+    // Only accept the algorithm of the key named in the header, never the token's own choice
+    const key = jwtKeys.getVerificationKey(jwt.decode(token, { complete: true })?.header.kid);
+    if (!key) {
+      return null;
+    }
+
+    const decoded = jwt.verify(token, key.verificationKey, {
+      algorithms: [key.alg],
+    }) as UserPayload;
+    if (!decoded.sessionId) {
+      return null;
+    }
+
+    const activeSession = await Session.exists({
+      _id: decoded.sessionId,
+      revokedAt: null,
+      expiresAt: trusted({ $gt: new Date() }),
+    });
+    return activeSession ? decoded : null;
   } catch (_err) {
     return null;
   }
 };
 
+// Get the caller from an `X-API-Key` header, an `ApiKey <key>` authorization header or a JWT
+export const getUserFromRequest = async (
+  authorization: string,
+  apiKey?: string,
+): Promise<UserPayload | null> => {
+  if (apiKey) {
+    return await getUserFromApiKey(apiKey);
+  }
+
+  const [scheme, credentials] = authorization.split(' ');
+  if (scheme?.toLowerCase() === 'apikey' && credentials) {
+    return await getUserFromApiKey(credentials);
+  }
+
+  return await getUserFromToken(authorization);
+};
+
 // Authentication middleware
 export const requireAuth = <T, U, V, W>(
   resolver: (parent: T, args: U, context: V, info: W) => unknown,
@@ -62,3 +111,33 @@ export const requireAuth = <T, U, V, W>(
     return resolver(parent, args, context, info);
   };
 };
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+// Check whether a role grants at least the privileges of another role
+export const hasRole = (user: { role: UserRole } | null | undefined, role: UserRole): boolean => {
+  if (!user) {
+    return false;
+  }
+  return (ROLE_RANK[user.role] ?? -1) >= ROLE_RANK[role];
+};
+
+// Authorization middleware; higher roles inherit the privileges of lower ones
+export const requireRole =
+  (role: UserRole) =>
+  <T, U, V, W>(
+    resolver: (parent: T, args: U, context: V, info: W) => unknown,
+  ): ((parent: T, args: U, context: V & { user?: UserPayload }, info: W) => unknown) => {
+    return requireAuth((parent: T, args: U, context: V & { user?: UserPayload }, info: W) => {
+      if (!hasRole(context.user, role)) {
+        throw new GraphQLError('Not authorized to perform this action', {
+          extensions: { code: 'FORBIDDEN' },
+        });
+      }
+      return resolver(parent, args, context, info);
+    });
+  };
@@ -1,21 +1,163 @@
 import DataLoader from 'dataloader';
-import { Types } from 'mongoose';
+import { trusted, Types } from 'mongoose';
 
 import type { IEvent } from '../models/Event.js';
 import { Event } from '../models/Event.js';
 import type { IUser } from '../models/User.js';
 import { User } from '../models/User.js';
 
+import type { PageQuery } from './pagination.js';
+
+/**
+ * The events that belong to a user, such as the ones they created, narrowed down by a
+ * query filter. With a page query only that page is loaded, in its order; without one the
+ * whole list is. `args` are the arguments the list was asked for with, which name it in the
+ * cache instead of the filter, since filters can hold the time they were made at.
+ */
+export interface RelatedKey {
+  id: string;
+  args?: unknown;
+  filter?: Record<string, unknown>;
+  page?: PageQuery;
+}
+
+export interface RelatedList {
+  items: IEvent[];
+  // How many events the list holds, past the page
+  totalCount: number;
+}
+
+// The field that names the users an event is listed under
+type RelatedField = 'creator' | 'attendees';
+
+const toCacheKey = ({ id, args = null }: RelatedKey): string => JSON.stringify([id, args]);
+
+const listedUnder = (event: IEvent, field: RelatedField): Types.ObjectId[] =>
+  field === 'creator' ? [event.creator] : event.attendees;
+
+// Aggregations neither cast their filters nor leave deleted events out, so both are done here
+const toMatch = (
+  field: RelatedField,
+  ids: Types.ObjectId[],
+  filter: Record<string, unknown>,
+): Record<string, unknown> =>
+  Event.find().cast(Event, { ...filter, deletedAt: null, [field]: trusted({ $in: ids }) });
+
+/**
+ * Load the whole lists of many users with one query
+ */
+const findLists = async (
+  field: RelatedField,
+  ids: Types.ObjectId[],
+  filter: Record<string, unknown>,
+): Promise<Map<string, RelatedList>> => {
+  const events = await Event.find({ ...filter, [field]: trusted({ $in: ids }) });
+  return new Map(
+    ids.map(id => {
+      const items = events.filter(event => listedUnder(event, field).some(user => user.equals(id)));
+      return [id.toString(), { items, totalCount: items.length }];
+    }),
+  );
+};
+
+/**
+ * Load the same page of many users' lists with one aggregation. Events are listed once for
+ * each of the users they belong to, then ordered, and the first ones up to the end of the
+ * page are kept for each user. Pages hold at most `MAX_LIMIT` events, which `toPageQuery`
+ * makes sure of.
+ */
+const findPages = async (
+  field: RelatedField,
+  ids: Types.ObjectId[],
+  filter: Record<string, unknown>,
+  { seek, sort, skip, limit }: PageQuery,
+): Promise<Map<string, RelatedList>> => {
+  const [result] = await Event.aggregate<{
+    pages: { _id: Types.ObjectId; events: Record<string, unknown>[] }[];
+    counts: { _id: Types.ObjectId; count: number }[];
+  }>([
+    // Text searches have to come first
+    { $match: toMatch(field, ids, filter) },
+    {
+      $set: {
+        _listedUnder: {
+          $setIntersection: [field === 'creator' ? ['$creator'] : '$attendees', ids],
+        },
+      },
+    },
+    { $unwind: '$_listedUnder' },
+    {
+      $facet: {
+        pages: [
+          ...(seek.length > 0 ? [{ $match: { $and: seek } }] : []),
+          { $sort: sort },
+          {
+            $group: {
+              _id: '$_listedUnder',
+              events: { $firstN: { input: '$$ROOT', n: skip + limit } },
+            },
+          },
+          // Only the page itself is sent back
+          { $set: { events: { $slice: ['$events', skip, limit] } } },
+        ],
+        counts: [{ $group: { _id: '$_listedUnder', count: { $sum: 1 } } }],
+      },
+    },
+  ]);
+
+  const pages = new Map(result?.pages.map(page => [page._id.toString(), page.events]));
+  const counts = new Map(result?.counts.map(({ _id, count }) => [_id.toString(), count]));
+  return new Map(
+    ids.map(id => [
+      id.toString(),
+      {
+        items: (pages.get(id.toString()) ?? []).map(({ _listedUnder, ...event }) =>
+          Event.hydrate(event),
+        ),
+        totalCount: counts.get(id.toString()) ?? 0,
+      },
+    ]),
+  );
+};
+
+/**
+ * Load the lists for many keys with one query for each set of arguments among them, then
+ * hand each key the list of its user
+ */
+const loadRelated = async (
+  keys: readonly RelatedKey[],
+  field: RelatedField,
+): Promise<RelatedList[]> => {
+  const byArgs = new Map<string, RelatedKey[]>();
+  keys.forEach(key => {
+    const argsKey = JSON.stringify(key.args ?? null);
+    byArgs.set(argsKey, [...(byArgs.get(argsKey) ?? []), key]);
+  });
+
+  const lists = new Map<RelatedKey, RelatedList>();
+  await Promise.all(
+    [...byArgs.values()].map(async group => {
+      const ids = group.map(({ id }) => new Types.ObjectId(id));
+      const { filter = {}, page } = group[0] ?? {};
+      const found = page
+        ? await findPages(field, ids, filter, page)
+        : await findLists(field, ids, filter);
+      group.forEach(key => lists.set(key, found.get(key.id) ?? { items: [], totalCount: 0 }));
+    }),
+  );
+  return keys.map(key => lists.get(key) ?? { items: [], totalCount: 0 });
+};
+
 /**
  * Create DataLoader instances for User and Event models
  * DataLoader batches and caches database requests to improve performance
  */
 export const createLoaders = (): {
   userLoader: DataLoader<string, IUser | null>;
+  userExistsLoader: DataLoader<string, boolean>;
   eventLoader: DataLoader<string, IEvent | null>;
-  userEventsLoader: DataLoader<string, IEvent[]>;
-  userAttendingEventsLoader: DataLoader<string, IEvent[]>;
-  eventAttendeesLoader: DataLoader<string, IUser[]>;
+  userEventsLoader: DataLoader<RelatedKey, RelatedList, string>;
+  userAttendingEventsLoader: DataLoader<RelatedKey, RelatedList, string>;
 } => {
   /**
    * User loader - batches and caches User lookups by ID
@@ -25,12 +167,26 @@ export const createLoaders = (): {
     const objectIds = userIds.map(id => new Types.ObjectId(id));
 
     // Fetch all users in a single query
-    const users = await User.find({ _id: { $in: objectIds } });
+    const users = await User.find({ _id: trusted({ $in: objectIds }) });
 
     // Map the results to match the order of the input IDs
     return userIds.map(id => users.find(user => user._id.toString() === id) ?? null);
   });
 
+  /**
+   * User exists loader - batches and caches checks that user IDs still belong to an
+   * account, without loading the accounts
+   */
+  const userExistsLoader = new DataLoader<string, boolean>(async userIds => {
+    const objectIds = userIds.map(id => new Types.ObjectId(id));
+    const users = await User.find({ _id: trusted({ $in: objectIds }) })
+      .select('_id')
+      .lean();
+
+    const found = new Set(users.map(user => user._id.toString()));
+    return userIds.map(id => found.has(id));
+  });
+
   /**
    * Event loader - batches and caches Event lookups by ID
    */
@@ -39,7 +195,7 @@ export const createLoaders = (): {
     const objectIds = eventIds.map(id => new Types.ObjectId(id));
 
     // Fetch all events in a single query
-    const events = await Event.find({ _id: { $in: objectIds } });
+    const events = await Event.find({ _id: trusted({ $in: objectIds }) });
 
     // Map the results to match the order of the input IDs
     return eventIds.map(id => events.find(event => event._id.toString() === id) ?? null);
@@ -48,78 +204,25 @@ export const createLoaders = (): {
   /**
    * User events loader - batches and caches queries for events created by a user
    */
-  const userEventsLoader = new DataLoader<string, IEvent[]>(async userIds => {
-    // Convert string IDs to ObjectIds
-    const objectIds = userIds.map(id => new Types.ObjectId(id));
-
-    // Fetch all events for all users in a single query
-    const events = await Event.find({ creator: { $in: objectIds } });
-
-    // Group events by creator ID
-    return userIds.map(userId => events.filter(event => event.creator.toString() === userId));
-  });
+  const userEventsLoader = new DataLoader<RelatedKey, RelatedList, string>(
+    keys => loadRelated(keys, 'creator'),
+    { cacheKeyFn: toCacheKey },
+  );
 
   /**
    * User attending events loader - batches and caches queries for events a user is attending
    */
-  const userAttendingEventsLoader = new DataLoader<string, IEvent[]>(async userIds => {
-    // Convert string IDs to ObjectIds
-    const objectIds = userIds.map(id => new Types.ObjectId(id));
-
-    // Fetch all events where any of these users are attendees
-    const events = await Event.find({ attendees: { $in: objectIds } });
-
-    // Group events by attendee ID
-    return userIds.map(userId =>
-      events.filter(event => event.attendees.some(attendeeId => attendeeId.toString() === userId)),
-    );
-  });
-
-  /**
-   * Event attendees loader - batches and caches queries for users attending an event
-   */
-  const eventAttendeesLoader = new DataLoader<string, IUser[]>(async eventIds => {
-    // Convert string IDs to ObjectIds
-    const objectIds = eventIds.map(id => new Types.ObjectId(id));
-
-    // Fetch all events to get attendee IDs
-    const events = await Event.find({ _id: { $in: objectIds } });
-
-    // Extract all unique attendee IDs
-    const allAttendeeIds = new Set<string>();
-    events.forEach(event => {
-      event.attendees.forEach(attendeeId => {
-        allAttendeeIds.add(attendeeId.toString());
-      });
-    });
-
-    // Fetch all attendees in a single query
-    const attendees = await User.find({
-      _id: { $in: Array.from(allAttendeeIds).map(id => new Types.ObjectId(id)) },
-    });
-
-    // Map the results to match the order of the input event IDs
-    const result = eventIds.map(eventId => {
-      const event = events.find(e => e._id.toString() === eventId);
-      if (!event) return [];
-
-      // Filter out undefined values and cast to IUser[]
-      const eventAttendees = event.attendees
-        .map(attendeeId => attendees.find(user => user._id.toString() === attendeeId.toString()))
-        .filter((user): user is NonNullable<typeof user> => user !== undefined) as IUser[];
-
-      return eventAttendees;
-    });
-
-    return result;
-  });
+  const userAttendingEventsLoader = new DataLoader<RelatedKey, RelatedList, string>(
+    keys => loadRelated(keys, 'attendees'),
+    { cacheKeyFn: toCacheKey },
+  );
 
   return {
     userLoader,
+    userExistsLoader,
     eventLoader,
     userEventsLoader,
     userAttendingEventsLoader,
-    eventAttendeesLoader,
   };
 };
 
@@ -0,0 +1,76 @@
+import type { IGeoPoint } from '../models/Event.js';
+
+// Event positions are stored as GeoJSON points, which list longitude before latitude.
+// Everything facing clients uses latitude and longitude in degrees instead.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// The edges of a map view, in degrees. `west` is greater than `east` when the view
+// crosses the antimeridian.
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+}
+
+export const isValidLatitude = (lat: number): boolean =>
+  Number.isFinite(lat) && lat >= -90 && lat <= 90;
+
+export const isValidLongitude = (lng: number): boolean =>
+  Number.isFinite(lng) && lng >= -180 && lng <= 180;
+
+export const toGeoPoint = ({ lat, lng }: LatLng): IGeoPoint => ({
+  type: 'Point',
+  coordinates: [lng, lat],
+});
+
+export const toLatLng = ({ coordinates: [lng, lat] }: IGeoPoint): LatLng => ({ lat, lng });
+
+const toBox = (south: number, west: number, north: number, east: number): GeoPolygon => ({
+  type: 'Polygon',
+  coordinates: [
+    [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ],
+  ],
+});
+
+// Polygons must be smaller than a hemisphere, so wide bounds are split into slices
+const MAX_BOX_WIDTH = 90;
+
+/**
+ * Turn map bounds into polygons covering them, split where they cross the antimeridian
+ * or are too wide for one polygon. Edges between corners follow great circles, so the
+ * northern and southern edges bulge a little towards the poles on views spanning a
+ * continent.
+ */
+export const toBoundingBoxes = ({ south, west, north, east }: Bounds): GeoPolygon[] => {
+  const spans: [number, number][] =
+    west <= east
+      ? [[west, east]]
+      : [
+          [west, 180],
+          [-180, east],
+        ];
+
+  return spans.flatMap(([from, to]) => {
+    const boxes: GeoPolygon[] = [];
+    for (let start = from; start < to; start += MAX_BOX_WIDTH) {
+      boxes.push(toBox(south, start, north, Math.min(to, start + MAX_BOX_WIDTH)));
+    }
+    return boxes;
+  });
+};
@@ -0,0 +1,46 @@
+// Objects that can be refetched by a global ID through the `node` query
+export const NODE_TYPES = ['User', 'Event'] as const;
+
+export type NodeType = (typeof NODE_TYPES)[number];
+
+export interface NodeId {
+  // Null for raw ObjectIds, which do not say what they identify
+  type: NodeType | null;
+  id: string;
+}
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+const isNodeType = (type: string): type is NodeType =>
+  (NODE_TYPES as readonly string[]).includes(type);
+
+/**
+ * Make the opaque ID clients see for an object, which names its type along with its
+ * ObjectId so that it is unique across all types
+ */
+export const toGlobalId = (type: NodeType, id: { toString(): string }): string =>
+  Buffer.from(`${type}:${id.toString()}`).toString('base64url');
+
+/**
+ * Read a global ID back into its type and ObjectId. Raw ObjectIds, which clients used
+ * before global IDs, are accepted as they are. Returns null for anything else.
+ */
+export const fromGlobalId = (globalId: string): NodeId | null => {
+  if (OBJECT_ID_PATTERN.test(globalId)) {
+    return { type: null, id: globalId };
+  }
+
+  const [type = '', id = '', ...rest] = Buffer.from(globalId, 'base64url')
+    .toString('utf8')
+    .split(':');
+  if (
+    rest.length > 0 ||
+    !isNodeType(type) ||
+    !OBJECT_ID_PATTERN.test(id) ||
+    // Decoding skips characters outside the alphabet, so only canonical IDs are taken
+    toGlobalId(type, id) !== globalId
+  ) {
+    return null;
+  }
+  return { type, id };
+};
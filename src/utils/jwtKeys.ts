@@ -0,0 +1,173 @@
+import { createPrivateKey, createPublicKey, createSecretKey } from 'crypto';
+import type { KeyObject, webcrypto } from 'crypto';
+import { readFileSync } from 'fs';
+
+import { config } from '../config.js';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * A key as configured through `JWT_KEYS` or `JWT_KEYS_FILE`. PEM keys may be given
+ * inline or as file paths; a key without a private key can only verify tokens.
+ */
+export interface JwtKeyDefinition {
+  kid: string;
+  alg: JwtAlgorithm;
+  secret?: string;
+  privateKey?: string;
+  privateKeyFile?: string;
+  publicKey?: string;
+  publicKeyFile?: string;
+  retiredAt?: Date;
+}
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  signingKey?: KeyObject;
+  verificationKey: KeyObject;
+  retiredAt?: Date;
+}
+
+export interface JwtKeyRingOptions {
+  signingKeyId?: string | undefined;
+  gracePeriodSeconds: number;
+}
+
+// Tokens issued before key IDs were introduced have no `kid` header
+export const DEFAULT_KEY_ID = 'default';
+
+const readPem = (pem?: string, file?: string): string | undefined =>
+  pem ?? (file ? readFileSync(file, 'utf8') : undefined);
+
+/**
+ * Make sure the key material fits the algorithm, so a misconfigured key fails at
+ * startup rather than on the first login
+ */
+const assertKeyType = (kid: string, alg: JwtAlgorithm, key: KeyObject): void => {
+  const isValid =
+    alg === 'RS256'
+      ? key.asymmetricKeyType === 'rsa'
+      : key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+
+  if (!isValid) {
+    throw new Error(`JWT key "${kid}" is not a valid ${alg} key`);
+  }
+};
+
+/**
+ * Turn a key definition into key objects, deriving the public key from the private
+ * key when it is not given
+ */
+export const loadJwtKey = (definition: JwtKeyDefinition): JwtKey => {
+  const { kid, alg, retiredAt } = definition;
+  const base = retiredAt ? { kid, alg, retiredAt } : { kid, alg };
+
+  if (alg === 'HS256') {
+    if (!definition.secret) {
+      throw new Error(`JWT key "${kid}" needs a secret`);
+    }
+    const secret = createSecretKey(Buffer.from(definition.secret));
+    return { ...base, signingKey: secret, verificationKey: secret };
+  }
+
+  const privatePem = readPem(definition.privateKey, definition.privateKeyFile);
+  const publicPem = readPem(definition.publicKey, definition.publicKeyFile);
+  const signingKey = privatePem ? createPrivateKey(privatePem) : undefined;
+  const verificationKey = publicPem
+    ? createPublicKey(publicPem)
+    : signingKey && createPublicKey(signingKey);
+
+  if (!verificationKey) {
+    throw new Error(`JWT key "${kid}" needs a private or public key`);
+  }
+  assertKeyType(kid, alg, verificationKey);
+
+  return signingKey ? { ...base, signingKey, verificationKey } : { ...base, verificationKey };
+};
+
+/**
+ * The keys used to sign and verify access tokens. New tokens are signed with a
+ * single key; every other key still verifies tokens, retired keys only for a grace
+ * period so tokens signed just before a rotation keep working until they expire.
+ */
+export class JwtKeyRing {
+  readonly signingKey: JwtKey & { signingKey: KeyObject };
+
+  constructor(
+    private readonly keys: JwtKey[],
+    private readonly options: JwtKeyRingOptions,
+  ) {
+    const kids = new Set(keys.map(key => key.kid));
+    if (kids.size !== keys.length) {
+      throw new Error('JWT key IDs must be unique');
+    }
+
+    const signingKey = options.signingKeyId
+      ? keys.find(key => key.kid === options.signingKeyId)
+      : keys.find(key => key.signingKey && !key.retiredAt);
+
+    if (!signingKey?.signingKey || signingKey.retiredAt) {
+      throw new Error(
+        options.signingKeyId
+          ? `JWT signing key "${options.signingKeyId}" is missing, retired or has no private key`
+          : 'No JWT key can sign tokens',
+      );
+    }
+    this.signingKey = { ...signingKey, signingKey: signingKey.signingKey };
+  }
+
+  /**
+   * Find the key that may verify a token with the given `kid` header, or null when
+   * the key is unknown or its grace period is over
+   */
+  getVerificationKey(kid: string | undefined, now = new Date()): JwtKey | null {
+    const key = this.keys.find(candidate => candidate.kid === (kid ?? DEFAULT_KEY_ID));
+    if (!key) {
+      return null;
+    }
+
+    if (
+      key.retiredAt &&
+      now.getTime() > key.retiredAt.getTime() + this.options.gracePeriodSeconds * 1000
+    ) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * Public keys for `/.well-known/jwks.json`. Shared secrets are never published,
+   * so only RS256 and ES256 keys are listed.
+   */
+  toJwks(now = new Date()): { keys: webcrypto.JsonWebKey[] } {
+    return {
+      keys: this.keys
+        .filter(key => key.alg !== 'HS256' && this.getVerificationKey(key.kid, now))
+        .map(key => ({
+          ...key.verificationKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.alg,
+          use: 'sig',
+        })),
+    };
+  }
+}
+
+/**
+ * Build the key ring from config. `JWT_SECRET` becomes the `default` HS256 key, so
+ * it keeps verifying older tokens while moving to other keys.
+ */
+export const createJwtKeyRing = (): JwtKeyRing => {
+  const definitions: JwtKeyDefinition[] = [...config.jwt.keys];
+  if (config.jwt.secret) {
+    definitions.push({ kid: DEFAULT_KEY_ID, alg: 'HS256', secret: config.jwt.secret });
+  }
+
+  return new JwtKeyRing(definitions.map(loadJwtKey), {
+    signingKeyId: config.jwt.signingKeyId,
+    gracePeriodSeconds: config.jwt.keyGracePeriodSeconds,
+  });
+};
+
+export const jwtKeys = createJwtKeyRing();
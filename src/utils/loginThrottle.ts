@@ -0,0 +1,156 @@
+import { GraphQLError } from 'graphql';
+import { LRUCache } from 'lru-cache';
+import { trusted } from 'mongoose';
+
+import { config } from '../config.js';
+import { LoginAttempt } from '../models/LoginAttempt.js';
+
+export interface LoginAttempts {
+  failures: number;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Storage for failed login attempts. The in-memory store only protects a single
+ * instance; use the Mongo store when running several instances behind a load balancer.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttempts | null>;
+  /** Count a failed attempt and return the new total; the count is kept for `ttlMs` */
+  increment(key: string, ttlMs: number): Promise<number>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private store = new LRUCache<string, LoginAttempts>({ max: 10000 });
+
+  async get(key: string): Promise<LoginAttempts | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const attempts = this.store.get(key);
+    const failures = (attempts?.failures ?? 0) + 1;
+    this.store.set(key, { failures, lockedUntil: attempts?.lockedUntil ?? null }, { ttl: ttlMs });
+    return failures;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const attempts = this.store.get(key);
+    if (attempts) {
+      attempts.lockedUntil = until;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+}
+
+export class MongoLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttempts | null> {
+    const attempts = await LoginAttempt.findOne({
+      key,
+      expiresAt: trusted({ $gt: new Date() }),
+    });
+    return attempts
+      ? { failures: attempts.failures, lockedUntil: attempts.lockedUntil ?? null }
+      : null;
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const attempts = await LoginAttempt.findOneAndUpdate(
+      { key },
+      { $inc: { failures: 1 }, $set: { expiresAt: new Date(Date.now() + ttlMs) } },
+      { upsert: true, new: true },
+    );
+    return attempts.failures;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await LoginAttempt.updateOne({ key }, { lockedUntil: until });
+  }
+
+  async reset(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({ key });
+  }
+}
+
+export interface LoginThrottleOptions {
+  maxFailuresPerAccount: number;
+  maxFailuresPerIp: number;
+  lockoutSeconds: number;
+  maxLockoutSeconds: number;
+}
+
+const accountKey = (email: string): string => `account:${email.trim().toLowerCase()}`;
+
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+/**
+ * Tracks failed logins per account and per IP address. Once a key reaches its
+ * failure limit it is locked out, and every further failure doubles the lockout
+ * up to `maxLockoutSeconds`. Failures are forgotten after `maxLockoutSeconds`
+ * without a new one.
+ */
+export class LoginThrottle {
+  constructor(
+    private readonly store: LoginAttemptStore,
+    private readonly options: LoginThrottleOptions,
+  ) {}
+
+  /**
+   * Reject the attempt before the password is checked if the account or IP is locked out
+   */
+  async assertCanAttempt(email: string, ip?: string): Promise<void> {
+    const keys = ip ? [accountKey(email), ipKey(ip)] : [accountKey(email)];
+    const records = await Promise.all(keys.map(key => this.store.get(key)));
+    const lockedUntil = Math.max(0, ...records.map(record => record?.lockedUntil?.getTime() ?? 0));
+
+    if (lockedUntil > Date.now()) {
+      throw new GraphQLError('Too many failed login attempts. Please try again later.', {
+        extensions: {
+          code: 'TOO_MANY_REQUESTS',
+          retryAfter: Math.ceil((lockedUntil - Date.now()) / 1000),
+        },
+      });
+    }
+  }
+
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    await Promise.all([
+      this.fail(accountKey(email), this.options.maxFailuresPerAccount),
+      ip ? this.fail(ipKey(ip), this.options.maxFailuresPerIp) : undefined,
+    ]);
+  }
+
+  /**
+   * A successful login clears the account's failures. The IP's failures are kept,
+   * otherwise an attacker could reset them by signing in to their own account.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(accountKey(email));
+  }
+
+  async unlock(email: string): Promise<void> {
+    await this.store.reset(accountKey(email));
+  }
+
+  private async fail(key: string, maxFailures: number): Promise<void> {
+    const { lockoutSeconds, maxLockoutSeconds } = this.options;
+    const failures = await this.store.increment(key, maxLockoutSeconds * 1000);
+
+    if (failures >= maxFailures) {
+      const seconds = Math.min(lockoutSeconds * 2 ** (failures - maxFailures), maxLockoutSeconds);
+      await this.store.lock(key, new Date(Date.now() + seconds * 1000));
+    }
+  }
+}
+
+const createLoginAttemptStore = (): LoginAttemptStore =>
+  config.loginThrottle.store === 'mongo'
+    ? new MongoLoginAttemptStore()
+    : new MemoryLoginAttemptStore();
+
+export const loginThrottle = new LoginThrottle(createLoginAttemptStore(), config.loginThrottle);
@@ -0,0 +1,52 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+
+import { config } from '../config.js';
+import { OutboxMessage } from '../models/OutboxMessage.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Stores messages in the `outboxmessages` collection instead of delivering them,
+ * so mail can be inspected in development and tests without an SMTP server
+ */
+export class OutboxMailer implements Mailer {
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await OutboxMessage.create({ ...message, from: this.from });
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  private transport: Transporter;
+
+  constructor(
+    url: string,
+    private readonly from: string,
+  ) {
+    this.transport = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ ...message, from: this.from });
+  }
+}
+
+export const createMailer = (): Mailer => {
+  if (config.mail.transport === 'smtp') {
+    return new SmtpMailer(config.mail.smtpUrl!, config.mail.from);
+  }
+  return new OutboxMailer(config.mail.from);
+};
+
+export const mailer: Mailer = createMailer();
@@ -1,82 +1,524 @@
-import type { Document, Model, Query } from 'mongoose';
+import { GraphQLError } from 'graphql';
+import type { Document, Model, PipelineStage, Query } from 'mongoose';
+import { isObjectIdOrHexString, trusted, Types } from 'mongoose';
 
 interface PaginationInput {
-  page?: number;
-  limit?: number;
+  page?: number | null;
+  limit?: number | null;
+}
+
+/**
+ * Arguments of a connection field. Lists are paged through either by page number, or
+ * Relay-style by cursor: the `first` items after `after`, or the `last` ones before `before`.
+ */
+export interface ConnectionArgs {
+  pagination?: PaginationInput | null;
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+// Fields to order by, most significant first. The last one must be unique, such as `_id`,
+// so that every item has its own place in the order for a cursor to point at.
+export type SortSpec = Record<string, 1 | -1>;
+
+// Totals are only counted when a client asks for them. GraphQL calls function-valued
+// fields to resolve them.
+type Lazy<T> = () => Promise<T>;
+
+export interface Edge<T> {
+  // Null for lists without a sort to point into, which can only be paged by page number
+  cursor: string | null;
+  node: T;
 }
 
 interface PageInfo {
   hasNextPage: boolean;
   hasPreviousPage: boolean;
-  currentPage: number;
-  totalPages: number;
+  startCursor: string | null;
+  endCursor: string | null;
+  // Null when paging by cursor
+  currentPage: number | null;
+  totalPages: Lazy<number> | null;
 }
 
-interface Connection<T> {
-  edges: T[];
+export interface Connection<T> {
+  edges: Edge<T>[];
+  nodes: T[];
   pageInfo: PageInfo;
-  totalCount: number;
+  totalCount: Lazy<number>;
 }
 
 interface PaginateOptions {
   lean?: boolean;
+  // The sort the query is ordered by, which cursors are made from
+  sort?: SortSpec;
 }
+
+interface CursorRequest {
+  sort: SortSpec;
+  limit: number;
+  // Take the items right before `before` rather than those right after `after`
+  backward: boolean;
+  after: unknown[] | null;
+  before: unknown[] | null;
+}
+
 /**
- * Apply pagination to a Mongoose query and return a Connection object
- * @param query The Mongoose query to paginate
- * @param model The Mongoose model to count documents
- * @param filter The filter to apply when counting documents
- * @param pagination The pagination input (page and limit)
- * @returns A Connection object with edges, pageInfo, and totalCount
+ * How to fetch a page of a list some other way than with `paginateQuery`, such as together
+ * with the pages of other lists. `limit` counts one item more than the page holds, to tell
+ * whether there is another page.
  */
-export async function paginateQuery<T extends Document>(
-  query: Query<T[], T>,
-  model: Model<T>,
-  filter: Record<string, unknown> = {},
-  pagination?: PaginationInput,
-  options?: PaginateOptions,
-): Promise<Connection<T>> {
+export interface PageQuery {
+  // Conditions for the items past the cursors, on top of those of the list
+  seek: Record<string, unknown>[];
+  sort: SortSpec;
+  skip: number;
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 10;
+
+// The most items a page holds, so that no request can read a whole list at once
+export const MAX_LIMIT = 100;
+
+const invalidPagination = (message: string): GraphQLError =>
+  new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+
+/**
+ * Resolve the page and limit to use, falling back to the defaults for missing or invalid
+ * values. Larger limits are capped at `MAX_LIMIT`.
+ */
+const resolvePage = (pagination?: PaginationInput | null): { page: number; limit: number } => {
   // Default pagination values
   const page = pagination?.page ?? 1;
-  const limit = pagination?.limit ?? 10;
+  const limit = pagination?.limit ?? DEFAULT_LIMIT;
 
   // Ensure page and limit are valid
-  const validPage = page > 0 ? page : 1;
-  const validLimit = limit > 0 ? limit : 10;
+  return {
+    page: page > 0 ? page : 1,
+    limit: limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+  };
+};
 
-  // Calculate skip value
-  const skip = (validPage - 1) * validLimit;
+const once = <T>(load: Lazy<T>): Lazy<T> => {
+  let result: Promise<T> | undefined;
+  return () => (result ??= load());
+};
 
-  // Apply pagination to query
-  const paginatedQuery = query.skip(skip).limit(validLimit);
-  const shouldUseLean = options?.lean ?? false;
-  const queryForExecution =
-    shouldUseLean &&
-    typeof (paginatedQuery as { lean?: () => typeof paginatedQuery }).lean === 'function'
-      ? (paginatedQuery as { lean: () => typeof paginatedQuery }).lean()
-      : paginatedQuery;
-
-  // Execute query to get edges
-  const edges = await queryForExecution.exec();
-
-  // Get total count
-  const totalCount = await model.countDocuments(filter);
-
-  // Calculate total pages
-  const totalPages = Math.ceil(totalCount / validLimit);
-
-  // Create page info
-  const pageInfo: PageInfo = {
-    hasNextPage: validPage < totalPages,
-    hasPreviousPage: validPage > 1,
-    currentPage: validPage,
-    totalPages,
+const readField = (item: unknown, field: string): unknown =>
+  (item as Record<string, unknown>)[field];
+
+// Dates and ObjectIds do not survive JSON, so they are tagged like in extended JSON
+const toCursorValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return { $date: value.getTime() };
+  }
+  if (value instanceof Types.ObjectId) {
+    return { $oid: value.toHexString() };
+  }
+  return value;
+};
+
+const fromCursorValue = (value: unknown): unknown => {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if ('$date' in value && typeof value.$date === 'number') {
+    return new Date(value.$date);
+  }
+  if ('$oid' in value && typeof value.$oid === 'string' && isObjectIdOrHexString(value.$oid)) {
+    return new Types.ObjectId(value.$oid);
+  }
+  throw invalidPagination('Invalid cursor');
+};
+
+/**
+ * Make an opaque cursor from the values an item has for the fields of a sort
+ */
+const encodeCursor = (item: unknown, sort: SortSpec): string => {
+  const keys = Object.fromEntries(
+    Object.keys(sort).map(field => [field, toCursorValue(readField(item, field))]),
+  );
+  return Buffer.from(JSON.stringify(keys)).toString('base64url');
+};
+
+/**
+ * Read the sort values back out of a cursor. Cursors made for a different sort are
+ * rejected, since they do not point anywhere in this one.
+ */
+const decodeCursor = (cursor: string, sort: SortSpec): unknown[] => {
+  let keys: unknown;
+  try {
+    keys = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidPagination('Invalid cursor');
+  }
+
+  const fields = Object.keys(sort);
+  if (
+    keys === null ||
+    typeof keys !== 'object' ||
+    Array.isArray(keys) ||
+    Object.keys(keys).join() !== fields.join()
+  ) {
+    throw invalidPagination('Invalid cursor');
+  }
+  return fields.map(field => fromCursorValue(readField(keys, field)));
+};
+
+const resolveCursors = (
+  { pagination, first, after, last, before }: ConnectionArgs,
+  sort?: SortSpec,
+): CursorRequest => {
+  if (!sort) {
+    throw invalidPagination('This list can only be paged through by page number');
+  }
+  if (pagination?.page != null) {
+    throw invalidPagination('Page through a list either by page number or by cursor, not both');
+  }
+  if (first != null && last != null) {
+    throw invalidPagination('Ask for either the first or the last items, not both');
+  }
+
+  const limit = first ?? last ?? pagination?.limit ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw invalidPagination('first and last must not be negative');
+  }
+  if (limit > MAX_LIMIT) {
+    throw invalidPagination(`Pages can hold at most ${MAX_LIMIT} items`);
+  }
+
+  return {
+    sort,
+    limit,
+    backward: last != null || (first == null && before != null),
+    after: after != null ? decodeCursor(after, sort) : null,
+    before: before != null ? decodeCursor(before, sort) : null,
+  };
+};
+
+const isCursorRequest = ({ first, after, last, before }: ConnectionArgs): boolean =>
+  first != null || after != null || last != null || before != null;
+
+/**
+ * Match the items that come after the given sort values, or before them, in a sort
+ */
+const toSeekFilter = (
+  sort: SortSpec,
+  values: unknown[],
+  side: 'after' | 'before',
+): Record<string, unknown> => {
+  const fields = Object.keys(sort);
+  return {
+    $or: fields.map((field, index) => {
+      const ascending = (sort[field] === 1) === (side === 'after');
+      return {
+        ...Object.fromEntries(fields.slice(0, index).map((tied, i) => [tied, values[i]])),
+        [field]: trusted({ [ascending ? '$gt' : '$lt']: values[index] }),
+      };
+    }),
+  };
+};
+
+const toSeekFilters = ({ sort, after, before }: CursorRequest): Record<string, unknown>[] => [
+  ...(after ? [toSeekFilter(sort, after, 'after')] : []),
+  ...(before ? [toSeekFilter(sort, before, 'before')] : []),
+];
+
+const reverseSort = (sort: SortSpec): SortSpec =>
+  Object.fromEntries(
+    Object.entries(sort).map(([field, direction]): [string, 1 | -1] => [
+      field,
+      direction === 1 ? -1 : 1,
+    ]),
+  );
+
+const toComparable = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (value instanceof Types.ObjectId) {
+    return value.toHexString();
+  }
+  return value;
+};
+
+/**
+ * Compare sort values the way a sort orders them
+ */
+const compareKeys =
+  (sort: SortSpec) =>
+  (a: unknown[], b: unknown[]): number => {
+    const directions = Object.values(sort);
+    for (const [index, direction] of directions.entries()) {
+      const x = toComparable(a[index]) as string | number;
+      const y = toComparable(b[index]) as string | number;
+      if (x !== y) {
+        return (x < y ? -1 : 1) * direction;
+      }
+    }
+    return 0;
   };
 
-  // Return connection
+const toEdges = <T>(nodes: T[], sort?: SortSpec): Edge<T>[] =>
+  nodes.map(node => ({ cursor: sort ? encodeCursor(node, sort) : null, node }));
+
+const createConnection = <T>(
+  nodes: T[],
+  pageInfo: Pick<PageInfo, 'hasNextPage' | 'hasPreviousPage' | 'currentPage' | 'totalPages'>,
+  totalCount: Lazy<number>,
+  sort?: SortSpec,
+): Connection<T> => {
+  const edges = toEdges(nodes, sort);
   return {
     edges,
-    pageInfo,
+    nodes,
+    pageInfo: {
+      ...pageInfo,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
     totalCount,
   };
+};
+
+/**
+ * Build a page from the items of a page number, plus the first item of the next page if
+ * there is one
+ */
+const createPage = <T>(
+  items: T[],
+  page: number,
+  limit: number,
+  totalCount: Lazy<number>,
+  sort?: SortSpec,
+): Connection<T> =>
+  createConnection(
+    items.slice(0, limit),
+    {
+      hasNextPage: items.length > limit,
+      hasPreviousPage: page > 1,
+      currentPage: page,
+      totalPages: async () => Math.ceil((await totalCount()) / limit),
+    },
+    totalCount,
+    sort,
+  );
+
+/**
+ * Build a page from the items next to a cursor, nearest first, plus one more if the list
+ * goes on past the page. Whether it goes on at the other end is only known from the
+ * cursor having been passed.
+ */
+const createCursorPage = <T>(
+  items: T[],
+  { sort, limit, backward, after, before }: CursorRequest,
+  totalCount: Lazy<number>,
+): Connection<T> => {
+  const hasMore = items.length > limit;
+  const nodes = items.slice(0, limit);
+
+  return createConnection(
+    backward ? nodes.reverse() : nodes,
+    {
+      hasNextPage: backward ? before != null : hasMore,
+      hasPreviousPage: backward ? hasMore : after != null,
+      currentPage: null,
+      totalPages: null,
+    },
+    totalCount,
+    sort,
+  );
+};
+
+const execute = <T extends Document>(
+  query: Query<T[], T>,
+  options?: PaginateOptions,
+): Promise<T[]> => {
+  const shouldUseLean = options?.lean ?? false;
+  const queryForExecution =
+    shouldUseLean && typeof (query as { lean?: () => typeof query }).lean === 'function'
+      ? (query as { lean: () => typeof query }).lean()
+      : query;
+  return queryForExecution.exec();
+};
+
+/**
+ * Apply pagination to a Mongoose query and return a Connection object. Paging by cursor
+ * seeks past the cursor on the sort keys rather than skipping, so items added while a
+ * client pages through the list neither repeat nor shift pages. Nothing is counted
+ * unless `totalCount` or `totalPages` are asked for.
+ * @param query The Mongoose query to paginate, ordered by `options.sort`
+ * @param model The Mongoose model to count documents
+ * @param filter The filter to apply when counting documents
+ * @param args The page number or cursor arguments
+ * @param options Whether to return plain objects, and the sort to make cursors from
+ * @returns A Connection object with edges, nodes, pageInfo, and totalCount
+ */
+export async function paginateQuery<T extends Document>(
+  query: Query<T[], T>,
+  model: Model<T>,
+  filter: Record<string, unknown> = {},
+  args: ConnectionArgs = {},
+  options?: PaginateOptions,
+): Promise<Connection<T>> {
+  const totalCount = once(() => model.countDocuments(filter));
+
+  // One more item than asked for is fetched, to tell whether there is another page
+  if (isCursorRequest(args)) {
+    const request = resolveCursors(args, options?.sort);
+    const seek = toSeekFilters(request);
+    if (seek.length > 0) {
+      query.and(seek);
+    }
+    if (request.backward) {
+      query.sort(reverseSort(request.sort), { override: true });
+    }
+
+    const items = await execute(query.limit(request.limit + 1), options);
+    return createCursorPage(items, request, totalCount);
+  }
+
+  const { page, limit } = resolvePage(args.pagination);
+  const items = await execute(query.skip((page - 1) * limit).limit(limit + 1), options);
+  return createPage(items, page, limit, totalCount, options?.sort);
+}
+
+/**
+ * Apply pagination to items that are already in memory and return a Connection object
+ * @param items All items, in the order to page through them unless `sort` is given
+ * @param args The page number or cursor arguments
+ * @param sort The order to put the items in, which cursors are made from
+ * @returns A Connection object with edges, nodes, pageInfo, and totalCount
+ */
+export function paginateList<T>(
+  items: T[],
+  args: ConnectionArgs = {},
+  sort?: SortSpec,
+): Connection<T> {
+  const totalCount = () => Promise.resolve(items.length);
+  const keysOf = (item: T): unknown[] => Object.keys(sort ?? {}).map(f => readField(item, f));
+  const compare = compareKeys(sort ?? {});
+  const ordered = sort ? [...items].sort((a, b) => compare(keysOf(a), keysOf(b))) : items;
+
+  if (isCursorRequest(args)) {
+    const request = resolveCursors(args, sort);
+    const { after, before } = request;
+    const window = ordered.filter(
+      item =>
+        (!after || compare(keysOf(item), after) > 0) &&
+        (!before || compare(keysOf(item), before) < 0),
+    );
+    const nearest = request.backward
+      ? window.slice(-(request.limit + 1)).reverse()
+      : window.slice(0, request.limit + 1);
+    return createCursorPage(nearest, request, totalCount);
+  }
+
+  const { page, limit } = resolvePage(args.pagination);
+  const skip = (page - 1) * limit;
+  return createPage(ordered.slice(skip, skip + limit + 1), page, limit, totalCount, sort);
+}
+
+/**
+ * Work out the query for a page of a list, for lists that are not fetched with
+ * `paginateQuery`. Build the page from what it finds with `toConnection`.
+ * @param args The page number or cursor arguments
+ * @param sort The order of the list, which cursors are made from
+ * @returns The conditions, order, skip and limit to fetch the page with
+ */
+export function toPageQuery(args: ConnectionArgs, sort: SortSpec): PageQuery {
+  // Pages before a cursor are fetched nearest first, in the reverse order
+  if (isCursorRequest(args)) {
+    const request = resolveCursors(args, sort);
+    return {
+      seek: toSeekFilters(request),
+      sort: request.backward ? reverseSort(sort) : sort,
+      skip: 0,
+      limit: request.limit + 1,
+    };
+  }
+
+  const { page, limit } = resolvePage(args.pagination);
+  return { seek: [], sort, skip: (page - 1) * limit, limit: limit + 1 };
+}
+
+/**
+ * Build a page from the items a `toPageQuery` query found
+ * @param items The items found, in the order of the query
+ * @param args The page number or cursor arguments
+ * @param sort The order of the list, which cursors are made from
+ * @param totalCount How many items the whole list holds
+ * @returns A Connection object with edges, nodes, pageInfo, and totalCount
+ */
+export function toConnection<T>(
+  items: T[],
+  args: ConnectionArgs,
+  sort: SortSpec,
+  totalCount: number,
+): Connection<T> {
+  const count = () => Promise.resolve(totalCount);
+  if (isCursorRequest(args)) {
+    return createCursorPage(items, resolveCursors(args, sort), count);
+  }
+
+  const { page, limit } = resolvePage(args.pagination);
+  return createPage(items, page, limit, count, sort);
+}
+
+/**
+ * Swap the nodes of a page for what they stand for, such as IDs for the documents they
+ * identify, keeping their cursors. Nodes swapped for null are left out.
+ * @param connection The page to swap the nodes of
+ * @param nodes The new nodes, in the order of the nodes they replace
+ * @returns A Connection object with the new nodes
+ */
+export function mapNodes<T, U>(connection: Connection<T>, nodes: (U | null)[]): Connection<U> {
+  const edges = connection.edges.flatMap(({ cursor }, index) => {
+    const node = nodes[index];
+    return node == null ? [] : [{ cursor, node }];
+  });
+  return { ...connection, edges, nodes: edges.map(({ node }) => node) };
+}
+
+/**
+ * Apply pagination to an aggregation pipeline and return a Connection object. Its items
+ * are paged through by page number only.
+ * @param model The Mongoose model to aggregate
+ * @param pipeline The stages that find and order the items
+ * @param pagination The pagination input (page and limit)
+ * @returns A Connection object with edges, nodes, pageInfo, and totalCount
+ */
+export async function paginateAggregate<T, D extends Document = Document>(
+  model: Model<D>,
+  pipeline: PipelineStage[],
+  pagination?: PaginationInput | null,
+): Promise<Connection<T>> {
+  const { page, limit } = resolvePage(pagination);
+
+  // Count the items and take the page in a single round trip
+  const [result] = await model.aggregate<{ edges: T[]; total: { count: number }[] }>([
+    ...pipeline,
+    {
+      $facet: {
+        edges: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+        total: [{ $count: 'count' }],
+      },
+    },
+  ]);
+  const count = result?.total[0]?.count ?? 0;
+  const totalPages = Math.ceil(count / limit);
+
+  return createConnection(
+    result?.edges ?? [],
+    {
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+      currentPage: page,
+      totalPages: () => Promise.resolve(totalPages),
+    },
+    () => Promise.resolve(count),
+  );
 }
@@ -0,0 +1,311 @@
+// A subset of RFC 5545 recurrence rules, enough for the schedules events use: daily,
+// weekly, monthly and yearly repeats with INTERVAL, COUNT or UNTIL, and the BYDAY,
+// BYMONTHDAY and BYMONTH filters. Occurrences are whole days in UTC, since the time of
+// day is stored separately on the event.
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface WeekdayRule {
+  weekday: number;
+  // nth weekday of the month, counted from the end when negative
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  weekStart: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Indexed like Date#getUTCDay
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export class RecurrenceRuleError extends Error {}
+
+const fail = (message: string): never => {
+  throw new RecurrenceRuleError(message);
+};
+
+/**
+ * Strip the time of day, so dates compare as calendar days
+ */
+export const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Format a day as `YYYY-MM-DD`, the form occurrences are addressed by
+ */
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const parseInteger = (name: string, value: string, max: number, allowNegative = false): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number === 0 || Math.abs(number) > max) {
+    fail(`Invalid ${name} value "${value}"`);
+  }
+  return number < 0 && !allowNegative ? fail(`Invalid ${name} value "${value}"`) : number;
+};
+
+const parseList = <T>(value: string, parse: (item: string) => T): T[] =>
+  value.split(',').map(item => parse(item.trim()));
+
+const parseWeekday = (value: string): number => {
+  const weekday = WEEKDAYS.indexOf(value.toUpperCase());
+  return weekday === -1 ? fail(`Invalid weekday "${value}"`) : weekday;
+};
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  const until = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+  return until && !Number.isNaN(until.getTime()) ? until : fail(`Invalid UNTIL value "${value}"`);
+};
+
+/**
+ * Parse an RRULE value such as `FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10`, with or without the
+ * `RRULE:` prefix. Throws a `RecurrenceRuleError` for invalid or unsupported rules.
+ */
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  const ruleText = value.trim().replace(/^RRULE:/i, '');
+
+  for (const part of ruleText.split(';')) {
+    const [name, partValue] = part.split('=');
+    if (!name || partValue === undefined || partValue === '') {
+      fail(`Invalid recurrence rule part "${part}"`);
+    }
+    parts.set(name.trim().toUpperCase(), partValue.trim());
+  }
+
+  const freq = parts.get('FREQ')?.toUpperCase() as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    fail('Recurrence rules need a FREQ of DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const rule: RecurrenceRule = { freq: freq!, interval: 1, weekStart: 1 };
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, partValue, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, partValue, 1000);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = parseList(partValue, item => {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/i.exec(item);
+          if (!match) {
+            return fail(`Invalid BYDAY value "${item}"`);
+          }
+          const weekday = parseWeekday(match[2]);
+          return match[1]
+            ? { weekday, ordinal: parseInteger(name, match[1], 5, true) }
+            : { weekday };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseList(partValue, item => parseInteger(name, item, 31, true));
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseList(partValue, item => parseInteger(name, item, 12));
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekday(partValue);
+        break;
+      default:
+        fail(`Recurrence rule part ${name} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    fail('Recurrence rules may not have both COUNT and UNTIL');
+  }
+  if (rule.byDay?.some(day => day.ordinal !== undefined)) {
+    if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+      fail('Numbered BYDAY values need a MONTHLY or YEARLY rule');
+    }
+    if (rule.freq === 'YEARLY' && !rule.byMonth) {
+      fail('Numbered BYDAY values in YEARLY rules need BYMONTH');
+    }
+  }
+
+  return rule;
+};
+
+const matchesMonthDay = (date: Date, monthDays: number[]): boolean => {
+  const day = date.getUTCDate();
+  const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return monthDays.some(monthDay => (monthDay > 0 ? monthDay : length + monthDay + 1) === day);
+};
+
+const matchesWeekday = (date: Date, weekdays: WeekdayRule[]): boolean => {
+  const day = date.getUTCDate();
+  const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+
+  return weekdays.some(({ weekday, ordinal }) => {
+    if (date.getUTCDay() !== weekday) {
+      return false;
+    }
+    if (ordinal === undefined) {
+      return true;
+    }
+    return ordinal > 0
+      ? Math.ceil(day / 7) === ordinal
+      : Math.ceil((length - day + 1) / 7) === -ordinal;
+  });
+};
+
+const matchesFilters = (date: Date, rule: RecurrenceRule): boolean =>
+  (!rule.byMonth || rule.byMonth.includes(date.getUTCMonth() + 1)) &&
+  (!rule.byMonthDay || matchesMonthDay(date, rule.byMonthDay)) &&
+  (!rule.byDay || matchesWeekday(date, rule.byDay));
+
+const daysOfMonth = (year: number, month: number): Date[] =>
+  Array.from(
+    { length: daysInMonth(year, month) },
+    (_, index) => new Date(Date.UTC(year, month, index + 1)),
+  );
+
+/**
+ * The days a period of the rule covers: one day, one week, one month or one year,
+ * starting from the period the series starts in
+ */
+const periodDays = (rule: RecurrenceRule, start: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(start, step)];
+    case 'WEEKLY': {
+      const weekStart = addDays(start, -((start.getUTCDay() - rule.weekStart + 7) % 7) + 7 * step);
+      return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+    }
+    case 'MONTHLY': {
+      const month = start.getUTCMonth() + step;
+      return daysOfMonth(start.getUTCFullYear() + Math.floor(month / 12), month % 12);
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + step;
+      return Array.from({ length: 12 }, (_, month) => daysOfMonth(year, month)).flat();
+    }
+  }
+};
+
+/**
+ * The last period that ends before `day`. Rules without COUNT can skip straight to it,
+ * so old series expand as quickly as new ones.
+ */
+const periodBefore = (rule: RecurrenceRule, start: Date, day: Date): number => {
+  const months =
+    (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+  const elapsed = {
+    DAILY: Math.floor((day.getTime() - start.getTime()) / DAY_MS),
+    WEEKLY: Math.floor((day.getTime() - start.getTime()) / DAY_MS / 7),
+    MONTHLY: months,
+    YEARLY: Math.floor(months / 12),
+  }[rule.freq];
+
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+};
+
+/**
+ * Without BYxxx filters, a rule repeats on the same weekday, day of the month or day of
+ * the year as the start of the series
+ */
+const withStartDefaults = (rule: RecurrenceRule, start: Date): RecurrenceRule => {
+  if (rule.byDay || rule.byMonthDay) {
+    return rule;
+  }
+
+  switch (rule.freq) {
+    case 'WEEKLY':
+      return { ...rule, byDay: [{ weekday: start.getUTCDay() }] };
+    case 'MONTHLY':
+      return { ...rule, byMonthDay: [start.getUTCDate()] };
+    case 'YEARLY':
+      return {
+        ...rule,
+        byMonth: rule.byMonth ?? [start.getUTCMonth() + 1],
+        byMonthDay: [start.getUTCDate()],
+      };
+    default:
+      return rule;
+  }
+};
+
+/**
+ * List the occurrences of a series that fall in `[from, to)`. The series starts on
+ * `start`, which always counts as the first occurrence. `exceptions` are skipped, but
+ * still count towards the rule's COUNT.
+ */
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  start: Date,
+  from: Date,
+  to: Date,
+  exceptions: Date[] = [],
+): Date[] => {
+  const firstDay = startOfDay(start);
+  const effectiveRule = withStartDefaults(rule, firstDay);
+  const skipped = new Set(exceptions.map(exception => startOfDay(exception).getTime()));
+  const occurrences: Date[] = [];
+  let count = 0;
+
+  const include = (day: Date): boolean => {
+    count++;
+    if (day >= from && !skipped.has(day.getTime())) {
+      occurrences.push(day);
+    }
+    return rule.count === undefined || count < rule.count;
+  };
+
+  // DTSTART is an occurrence even when it does not match the rule
+  if (!matchesFilters(firstDay, effectiveRule) && firstDay < to && !include(firstDay)) {
+    return occurrences;
+  }
+
+  const firstPeriod = rule.count === undefined ? periodBefore(rule, firstDay, from) : 0;
+  for (let period = firstPeriod; ; period++) {
+    const days = periodDays(effectiveRule, firstDay, period);
+    if (days[0] >= to || (rule.until && days[0] > rule.until)) {
+      return occurrences;
+    }
+
+    for (const day of days) {
+      if (day < firstDay || !matchesFilters(day, effectiveRule)) {
+        continue;
+      }
+      if (day >= to || (rule.until && day > rule.until) || !include(day)) {
+        return occurrences;
+      }
+    }
+  }
+};
+
+/**
+ * Check whether a series has an occurrence on the given day
+ */
+export const occursOn = (
+  rule: RecurrenceRule,
+  start: Date,
+  day: Date,
+  exceptions: Date[] = [],
+): boolean => {
+  const from = startOfDay(day);
+  return expandRecurrence(rule, start, from, addDays(from, 1), exceptions).length > 0;
+};
@@ -0,0 +1,142 @@
+import { isValidObjectId, trusted } from 'mongoose';
+
+import { config } from '../config.js';
+import { Session } from '../models/Session.js';
+import type { UserRole } from '../models/User.js';
+import { User } from '../models/User.js';
+
+import { generateToken } from './auth.js';
+import { generateOpaqueToken, hashToken } from './tokens.js';
+
+export interface AuthData {
+  userId: string;
+  token: string;
+  tokenExpiration: number;
+  refreshToken: string;
+  refreshTokenExpiration: number;
+}
+
+interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refresh tokens are `<sessionId>.<secret>`; only a hash of the secret is stored
+ */
+const formatRefreshToken = (sessionId: string, secret: string): string => `${sessionId}.${secret}`;
+
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  if (!sessionId || !secret || rest.length > 0 || !isValidObjectId(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+};
+
+const buildAuthData = (
+  user: SessionUser,
+  sessionId: string,
+  secret: string,
+  expiresAt: Date,
+): AuthData => ({
+  userId: user.id,
+  token: generateToken({ id: user.id, email: user.email, role: user.role, sessionId }),
+  // Both expirations are reported in seconds from now
+  tokenExpiration: config.jwt.accessTokenTtl,
+  refreshToken: formatRefreshToken(sessionId, secret),
+  refreshTokenExpiration: Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+});
+
+/**
+ * Start a new session for a user and issue its first access/refresh token pair
+ */
+export const createSession = async (user: SessionUser): Promise<AuthData> => {
+  const secret = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + config.jwt.refreshTokenTtlDays * DAY_IN_MS);
+
+  const session = await Session.create({
+    user: user.id,
+    refreshTokenHash: hashToken(secret),
+    expiresAt,
+  });
+
+  return buildAuthData(user, session._id.toString(), secret, expiresAt);
+};
+
+/**
+ * Exchange a refresh token for a new token pair, rotating the refresh token.
+ * Presenting an already-rotated refresh token revokes the whole session, since
+ * it means the token was copied. Other wrong secrets leave the session alone, as its
+ * ID alone can be read from any access token. Returns null when the token cannot be used.
+ */
+export const rotateSession = async (refreshToken: string): Promise<AuthData | null> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return null;
+  }
+
+  const now = new Date();
+  const secret = generateOpaqueToken();
+  const presentedHash = hashToken(parsed.secret);
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: parsed.sessionId,
+      refreshTokenHash: presentedHash,
+      revokedAt: null,
+      expiresAt: trusted({ $gt: now }),
+    },
+    {
+      refreshTokenHash: hashToken(secret),
+      previousRefreshTokenHash: presentedHash,
+      lastUsedAt: now,
+    },
+    { new: true },
+  );
+
+  if (!session) {
+    await Session.updateOne(
+      { _id: parsed.sessionId, previousRefreshTokenHash: presentedHash, revokedAt: null },
+      { revokedAt: now },
+    );
+    return null;
+  }
+
+  const user = await User.findById(session.user);
+  if (!user) {
+    await revokeSession(session._id.toString());
+    return null;
+  }
+
+  return buildAuthData(
+    { id: user._id.toString(), email: user.email, role: user.role },
+    session._id.toString(),
+    secret,
+    session.expiresAt,
+  );
+};
+
+/**
+ * Revoke a single session; access tokens bound to it stop working immediately
+ */
+export const revokeSession = async (sessionId: string): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date() },
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revoke every active session of a user and return how many were revoked
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+  const result = await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date() },
+  );
+  return result.modifiedCount;
+};
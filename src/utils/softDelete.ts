@@ -0,0 +1,54 @@
+import { trusted } from 'mongoose';
+
+import { ApiKey } from '../models/ApiKey.js';
+import { Event } from '../models/Event.js';
+import { Session } from '../models/Session.js';
+import { User } from '../models/User.js';
+import { UserToken } from '../models/UserToken.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeResult {
+  events: number;
+  users: number;
+}
+
+/**
+ * Records deleted before the returned instant are past the retention window: they can no
+ * longer be restored and are purged on the next run
+ */
+export const getRetentionCutoff = (retentionDays: number, now = new Date()): Date =>
+  new Date(now.getTime() - retentionDays * DAY_MS);
+
+/**
+ * Hard-delete events and users that were deleted longer than `retentionDays` ago.
+ * Purged users also lose their sessions, API keys and tokens, and leave the attendee
+ * lists and waitlists of the events that remain.
+ */
+export const purgeDeletedRecords = async (
+  retentionDays: number,
+  now = new Date(),
+): Promise<PurgeResult> => {
+  const expired = { deletedAt: trusted({ $lt: getRetentionCutoff(retentionDays, now) }) };
+
+  const { deletedCount: events } = await Event.deleteMany(expired);
+
+  const userIds = (await User.find(expired).select('_id').lean()).map(user => user._id);
+  if (userIds.length === 0) {
+    return { events, users: 0 };
+  }
+
+  const ownedByPurgedUsers = { user: trusted({ $in: userIds }) };
+  await Promise.all([
+    Session.deleteMany(ownedByPurgedUsers),
+    ApiKey.deleteMany(ownedByPurgedUsers),
+    UserToken.deleteMany(ownedByPurgedUsers),
+  ]);
+  await Event.updateMany(
+    { $or: [{ attendees: trusted({ $in: userIds }) }, { waitlist: trusted({ $in: userIds }) }] },
+    { $pull: { attendees: { $in: userIds }, waitlist: { $in: userIds } } },
+  ).setOptions({ withDeleted: true });
+  const { deletedCount: users } = await User.deleteMany({ _id: trusted({ $in: userIds }) });
+
+  return { events, users };
+};
@@ -0,0 +1,129 @@
+import { escapeRegex } from './sanitize.js';
+
+// Parsed form of a MongoDB `$text` search string
+export interface TextSearchQuery {
+  // Matches contain at least one of these words
+  terms: string[];
+  // Matches contain every one of these phrases
+  phrases: string[];
+  // Matches contain none of these words and phrases
+  excluded: string[];
+}
+
+// Characters `start` (inclusive) to `end` (exclusive) of a snippet
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface Highlight {
+  snippet: string;
+  matches: TextRange[];
+}
+
+// Longer text is cut down to the part around its first match
+const SNIPPET_LENGTH = 160;
+// How much text to keep before the first match in a cut-down snippet
+const SNIPPET_LEAD = 40;
+
+// Quoted phrases or single words, either of them negated by a leading hyphen
+const TOKEN_PATTERN = /(-?)"([^"]*)"|(-?)([^\s-]\S*)/g;
+
+/**
+ * Split a search string the way MongoDB reads it: `"quoted phrases"` have to match,
+ * `-words` and `-"phrases"` must not, and any of the other words may
+ */
+export const parseTextSearch = (query: string): TextSearchQuery => {
+  const parsed: TextSearchQuery = { terms: [], phrases: [], excluded: [] };
+
+  for (const [, phraseNegation, phrase, termNegation, term] of query.matchAll(TOKEN_PATTERN)) {
+    if (phrase !== undefined) {
+      const text = phrase.trim().replace(/\s+/g, ' ');
+      if (text) {
+        (phraseNegation ? parsed.excluded : parsed.phrases).push(text);
+      }
+      continue;
+    }
+
+    const word = term?.replace(/"/g, '');
+    if (word) {
+      (termNegation ? parsed.excluded : parsed.terms).push(word);
+    }
+  }
+  return parsed;
+};
+
+/**
+ * Cut common English suffixes off a word, roughly like the stemming of the text index,
+ * so that searching for "concerts" also highlights "concert"
+ */
+const toStem = (word: string): string => {
+  const stem = word.toLowerCase().replace(/(ing|ed|es|s)$/, '');
+  return stem.length >= 3 ? stem : word.toLowerCase();
+};
+
+const toPatterns = ({ terms, phrases }: TextSearchQuery): RegExp[] => [
+  ...phrases.map(phrase => new RegExp(escapeRegex(phrase).replace(/ /g, '\\s+'), 'gi')),
+  ...terms.map(term => new RegExp(`\\b${escapeRegex(toStem(term))}\\w*`, 'gi')),
+];
+
+/**
+ * Find where the words and phrases of a search occur in a text, as sorted ranges that
+ * do not overlap
+ */
+export const findMatches = (text: string, query: TextSearchQuery): TextRange[] => {
+  const ranges = toPatterns(query)
+    .flatMap(pattern => [...text.matchAll(pattern)])
+    .filter(match => match[0].length > 0)
+    .map(match => ({ start: match.index, end: match.index + match[0].length }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Show where a search matches a text: the text itself, or the part of it around the
+ * first match when it is long, with the ranges to highlight in it. Returns null when
+ * the search does not match the text.
+ */
+export const highlight = (text: string, query: TextSearchQuery): Highlight | null => {
+  const matches = findMatches(text, query);
+  const [first] = matches;
+  if (!first) {
+    return null;
+  }
+  if (text.length <= SNIPPET_LENGTH) {
+    return { snippet: text, matches };
+  }
+
+  // Cut at spaces, so that the snippet starts and ends on whole words
+  let start = Math.max(0, first.start - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space >= first.start ? first.start : space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > first.end ? space : Math.max(end, first.end);
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    matches: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start + offset, end: match.end + offset })),
+  };
+};
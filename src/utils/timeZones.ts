@@ -0,0 +1,124 @@
+// Events are scheduled in wall-clock time (a local date and time) in an IANA time zone
+// and stored as the instant that refers to, so they sort and filter the same no
+// matter which zone the server runs in.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const LOCAL_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a time zone is a known IANA zone such as `Europe/Berlin`
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check for a calendar date in `YYYY-MM-DD` format
+ */
+export const isValidLocalDate = (date: string): boolean => {
+  const match = LOCAL_DATE_PATTERN.exec(date);
+  if (!match) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.getUTCDate() === Number(match[3]);
+};
+
+/**
+ * Check for a 24-hour time of day in `HH:mm` format
+ */
+export const isValidLocalTime = (time: string): boolean => LOCAL_TIME_PATTERN.test(time);
+
+/**
+ * Move a calendar date in `YYYY-MM-DD` format by a number of days
+ */
+export const addLocalDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * The wall-clock date and time in a zone at the given instant
+ */
+export const toZonedTime = (instant: Date, timeZone: string): { date: string; time: string } => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .map(part => [part.type, part.value]),
+  );
+
+  return {
+    date: `${parts['year']}-${parts['month']}-${parts['day']}`,
+    time: `${parts['hour']}:${parts['minute']}`,
+  };
+};
+
+/**
+ * The offset of a zone from UTC at the given instant, in milliseconds
+ */
+const getOffset = (instant: number, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(instant))
+      .map(part => [part.type, Number(part.value)]),
+  );
+  const wallClock = Date.UTC(
+    parts['year'],
+    parts['month'] - 1,
+    parts['day'],
+    parts['hour'],
+    parts['minute'],
+    parts['second'],
+  );
+
+  return wallClock - (instant - (instant % 1000));
+};
+
+/**
+ * Find the instant a wall-clock date (`YYYY-MM-DD`) and time (`HH:mm`) in a zone refer
+ * to. Times that occur twice when clocks go back resolve to the first of them; times
+ * skipped when clocks go forward resolve to an instant next to the gap.
+ */
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the wall-clock time read as UTC is close, but may be on the other
+  // side of a daylight saving change; the offset at the first guess settles it
+  const firstGuess = wallClock - getOffset(wallClock, timeZone);
+  return new Date(wallClock - getOffset(firstGuess, timeZone));
+};
+
+/**
+ * The instants a calendar day in a zone starts and ends at. Days are not always 24
+ * hours long when daylight saving time starts or ends.
+ */
+export const getZonedDayRange = (date: string, timeZone: string): { from: Date; to: Date } => ({
+  from: zonedTimeToInstant(date, '00:00', timeZone),
+  to: zonedTimeToInstant(addLocalDays(date, 1), '00:00', timeZone),
+});
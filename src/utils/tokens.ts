@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generate a random, URL-safe opaque token (refresh tokens, reset links, etc.)
+ */
+export const generateOpaqueToken = (bytes = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash an opaque token before persisting it, so a database leak does not leak usable tokens
+ */
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
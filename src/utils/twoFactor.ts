@@ -0,0 +1,66 @@
+import { randomBytes } from 'crypto';
+
+import type { IUser } from '../models/User.js';
+import { User } from '../models/User.js';
+
+import { hashToken } from './tokens.js';
+import { verifyTotpCode } from './totp.js';
+import { issueUserToken } from './userTokens.js';
+
+export interface TwoFactorChallenge {
+  challengeId: string;
+  expiresIn: number;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MINUTES = 5;
+
+/**
+ * Recovery codes look like `a1b2c-3d4e5`; only their hashes are stored
+ */
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+export const hashRecoveryCode = (code: string): string =>
+  hashToken(code.trim().toLowerCase().replace(/-/g, ''));
+
+/**
+ * Issued after a correct password for a user with 2FA on; the challenge id is
+ * exchanged for a session together with a code by `completeTwoFactorLogin`
+ */
+export const createTwoFactorChallenge = async (userId: string): Promise<TwoFactorChallenge> => ({
+  challengeId: await issueUserToken(userId, 'two-factor-login', CHALLENGE_TTL_MINUTES),
+  expiresIn: CHALLENGE_TTL_MINUTES * 60,
+});
+
+/**
+ * Accept either a TOTP code or a recovery code. Both work only once: the time step
+ * of the last accepted TOTP code is remembered and recovery codes are removed.
+ */
+export const redeemTwoFactorCode = async (user: IUser, code: string): Promise<boolean> => {
+  const { secret, lastUsedStep = null } = user.twoFactor;
+  const totpCode = code.replace(/\s/g, '');
+
+  if (secret && /^\d{6}$/.test(totpCode)) {
+    const step = verifyTotpCode(secret, totpCode);
+    if (step === null || (lastUsedStep !== null && step <= lastUsedStep)) {
+      return false;
+    }
+    // Compare-and-set, so two concurrent requests cannot both use the same code
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.lastUsedStep': lastUsedStep },
+      { 'twoFactor.lastUsedStep': step },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  const result = await User.updateOne(
+    { _id: user._id, 'twoFactor.recoveryCodeHashes': codeHash },
+    { $pull: { 'twoFactor.recoveryCodeHashes': codeHash } },
+  );
+  return result.modifiedCount > 0;
+};
@@ -0,0 +1,75 @@
+import { trusted } from 'mongoose';
+
+import type { UserTokenPurpose } from '../models/UserToken.js';
+import { UserToken } from '../models/UserToken.js';
+
+import { generateOpaqueToken, hashToken } from './tokens.js';
+
+const MINUTE_IN_MS = 60 * 1000;
+
+/**
+ * Issue a single-use token for a user. Only its hash is stored, and any token
+ * previously issued for the same purpose stops working.
+ */
+export const issueUserToken = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+  ttlMinutes: number,
+): Promise<string> => {
+  const token = generateOpaqueToken();
+
+  await revokeUserTokens(userId, purpose);
+  await UserToken.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMinutes * MINUTE_IN_MS),
+  });
+
+  return token;
+};
+
+/**
+ * Atomically mark a token as used and return the id of the user it was issued to,
+ * or null when the token is unknown, expired or already used
+ */
+export const consumeUserToken = async (
+  token: string,
+  purpose: UserTokenPurpose,
+): Promise<string | null> => {
+  const now = new Date();
+  const userToken = await UserToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: trusted({ $gt: now }) },
+    { usedAt: now },
+    { new: true },
+  );
+
+  return userToken ? String(userToken.user) : null;
+};
+
+/**
+ * Look up the user a valid token was issued to without using the token up
+ */
+export const findUserTokenOwner = async (
+  token: string,
+  purpose: UserTokenPurpose,
+): Promise<string | null> => {
+  const userToken = await UserToken.findOne({
+    tokenHash: hashToken(token),
+    purpose,
+    usedAt: null,
+    expiresAt: trusted({ $gt: new Date() }),
+  });
+
+  return userToken ? String(userToken.user) : null;
+};
+
+/**
+ * Invalidate every outstanding token a user holds for a purpose
+ */
+export const revokeUserTokens = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+): Promise<void> => {
+  await UserToken.updateMany({ user: userId, purpose, usedAt: null }, { usedAt: new Date() });
+};